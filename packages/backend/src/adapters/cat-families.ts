@@ -0,0 +1,197 @@
+import type { RadioMode } from "../dtos.js";
+import type { CalibrationTable, MeterName } from "../meters.js";
+
+/**
+ * Kenwood-style text CAT: two-letter commands ending in ";" ("FA;" reads
+ * VFO A, "FA00014074000;" sets it) and answers in the same form. Elecraft,
+ * FlexRadio and recent Yaesu rigs all speak a dialect of it; what differs
+ * between them lives in these quirks tables rather than in the adapter.
+ */
+
+export const CAT_FAMILY_NAMES = ["kenwood", "elecraft", "flex", "yaesu"] as const;
+export type CatFamilyName = (typeof CAT_FAMILY_NAMES)[number];
+
+export interface CatMeter {
+  // Query and the prefix its answer starts with, e.g. "SM0;" -> "SM0"
+  query: string;
+  prefix: string;
+}
+
+export interface CatFamily {
+  name: CatFamilyName;
+  // Digits in FA/FB frequencies
+  freqDigits: number;
+  // Yaesu address the main receiver explicitly: "MD0;" and "MD0C;"
+  modeQuery: string;
+  modePrefix: string;
+  // MD codes; the first code listed for a mode is the one we send
+  modes: Array<[string, RadioMode]>;
+  // Turns auto-information on and off; the rig then pushes IF/FA/MD on change
+  aiOn: string;
+  aiOff: string;
+  // How transmit is keyed and read back
+  txOn: string;
+  txOff: string;
+  ptt: { query: string; prefix: string } | "IF";
+  // Answer to PC; in watts, out of this many
+  maxPowerWatts: number;
+  smeter: CatMeter & { s9: number; max: number };
+  // The raw reading is the number after the prefix, through this calibration
+  meters: Partial<Record<MeterName, CatMeter & { cal: CalibrationTable }>>;
+  // Receive filter width, where the dialect has a plain Hz command for it
+  bandwidth?: { query: string; prefix: string; digits: number; unitHz: number };
+}
+
+// "IF;" answer (Kenwood layout, also used by Elecraft and Flex), after "IF":
+// frequency(11) step(5) rit(5) rit-on xit-on bank mem(2) tx mode ...
+export const IF_LAYOUT = { freq: [0, 11], tx: 26, mode: 27 } as const;
+
+const KENWOOD_MODES: Array<[string, RadioMode]> = [
+  ["1", "LSB"],
+  ["2", "USB"],
+  ["3", "CW"],
+  ["4", "FM"],
+  ["5", "AM"],
+  ["6", "RTTY"],
+  ["7", "CWR"],
+  ["9", "RTTYR"],
+];
+
+export const CAT_FAMILIES: Record<CatFamilyName, CatFamily> = {
+  // TS-590/TS-890/TS-2000
+  kenwood: {
+    name: "kenwood",
+    freqDigits: 11,
+    modeQuery: "MD;",
+    modePrefix: "MD",
+    modes: KENWOOD_MODES,
+    aiOn: "AI2;",
+    aiOff: "AI0;",
+    txOn: "TX;",
+    txOff: "RX;",
+    ptt: "IF",
+    maxPowerWatts: 100,
+    // 0-30, S9 at 15
+    smeter: { query: "SM0;", prefix: "SM0", s9: 15, max: 30 },
+    meters: {},
+  },
+  // K3/K4/KX3; MD6/MD9 are DATA and DATA-REV
+  elecraft: {
+    name: "elecraft",
+    freqDigits: 11,
+    modeQuery: "MD;",
+    modePrefix: "MD",
+    modes: [
+      ["1", "LSB"],
+      ["2", "USB"],
+      ["3", "CW"],
+      ["4", "FM"],
+      ["5", "AM"],
+      ["6", "PKTUSB"],
+      ["7", "CWR"],
+      ["9", "PKTLSB"],
+    ],
+    aiOn: "AI1;",
+    aiOff: "AI0;",
+    txOn: "TX;",
+    txOff: "RX;",
+    ptt: { query: "TQ;", prefix: "TQ" },
+    maxPowerWatts: 100,
+    // Bar graph 0-21, S9 at 9
+    smeter: { query: "SM;", prefix: "SM", s9: 9, max: 21 },
+    meters: {
+      // SWR in tenths: SW015 is 1.5:1
+      swr: { query: "SW;", prefix: "SW", cal: [[0, 1], [10, 1], [999, 99.9]] },
+    },
+    // BW0270 is 2700 Hz
+    bandwidth: { query: "BW;", prefix: "BW", digits: 4, unitHz: 10 },
+  },
+  // SmartSDR CAT; MD6/MD9 are DIGL/DIGU
+  flex: {
+    name: "flex",
+    freqDigits: 11,
+    modeQuery: "MD;",
+    modePrefix: "MD",
+    modes: [
+      ["1", "LSB"],
+      ["2", "USB"],
+      ["3", "CW"],
+      ["4", "FM"],
+      ["5", "AM"],
+      ["6", "PKTLSB"],
+      ["7", "RTTY"],
+      ["9", "PKTUSB"],
+    ],
+    aiOn: "AI1;",
+    aiOff: "AI0;",
+    txOn: "TX;",
+    txOff: "RX;",
+    ptt: "IF",
+    maxPowerWatts: 100,
+    smeter: { query: "SM0;", prefix: "SM0", s9: 15, max: 30 },
+    meters: {},
+  },
+  // FT-991A/FTDX10/FT-710: 9-digit frequencies, hex mode codes for MAIN
+  yaesu: {
+    name: "yaesu",
+    freqDigits: 9,
+    modeQuery: "MD0;",
+    modePrefix: "MD0",
+    modes: [
+      ["1", "LSB"],
+      ["2", "USB"],
+      ["3", "CW"],
+      ["4", "FM"],
+      ["5", "AM"],
+      ["6", "RTTY"],
+      ["7", "CWR"],
+      ["8", "PKTLSB"],
+      ["9", "RTTYR"],
+      ["A", "PKTFM"],
+      ["B", "FMN"],
+      ["C", "PKTUSB"],
+      ["D", "AMN"],
+    ],
+    aiOn: "AI1;",
+    aiOff: "AI0;",
+    txOn: "TX1;",
+    txOff: "TX0;",
+    ptt: { query: "TX;", prefix: "TX" },
+    maxPowerWatts: 100,
+    // 0-255, S9 at 130
+    smeter: { query: "SM0;", prefix: "SM0", s9: 130, max: 255 },
+    // RMn; meters read 0-255; calibration from Hamlib's FT-991 tables
+    meters: {
+      compDb: { query: "RM3;", prefix: "RM3", cal: [[0, 0], [255, 30]] },
+      alc: { query: "RM4;", prefix: "RM4", cal: [[0, 0], [255, 1]] },
+      powerWatts: {
+        query: "RM5;",
+        prefix: "RM5",
+        cal: [[0, 0], [10, 0.8], [50, 8], [100, 26], [150, 54], [200, 92], [250, 140]],
+      },
+      swr: { query: "RM6;", prefix: "RM6", cal: [[0, 1], [26, 1.2], [52, 1.5], [89, 2], [126, 3], [255, 5]] },
+      idAmps: { query: "RM7;", prefix: "RM7", cal: [[0, 0], [53, 5], [255, 25]] },
+      vdVolts: { query: "RM8;", prefix: "RM8", cal: [[0, 0], [192, 13.8], [255, 18]] },
+    },
+  },
+};
+
+export function catModeFromCode(family: CatFamily, code: string): RadioMode | undefined {
+  return family.modes.find(([c]) => c === code.toUpperCase())?.[1];
+}
+
+export function catModeToCode(family: CatFamily, mode: RadioMode): string | undefined {
+  return family.modes.find(([, m]) => m === mode)?.[0];
+}
+
+export function formatCatFrequency(family: CatFamily, hz: number): string {
+  return String(Math.round(hz)).padStart(family.freqDigits, "0");
+}
+
+/** S-meter reading in dBm: linear from S0 (-127) to S9 (-73), then to S9+60 at full scale. */
+export function catSmeterToDbm(meter: CatFamily["smeter"], value: number): number {
+  const v = Math.max(0, Math.min(meter.max, value));
+  return Math.round(
+    v <= meter.s9 ? -127 + (v * 54) / meter.s9 : -73 + ((v - meter.s9) * 60) / (meter.max - meter.s9)
+  );
+}
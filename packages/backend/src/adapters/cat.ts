@@ -0,0 +1,368 @@
+import net from 'node:net';
+import type { Duplex } from 'node:stream';
+import type { RadioCapabilities, RadioMeters, RadioMode, RadioState } from '../dtos.js';
+import type { RigctlAdapter } from '../services/radio.js';
+import { RigError, notSupported, unlessNotSupported } from '../errors.js';
+import { METER_LEVELS, calibrate, meterValue, signalMeters, type MeterName } from '../meters.js';
+import {
+  CAT_FAMILIES,
+  IF_LAYOUT,
+  catModeFromCode,
+  catModeToCode,
+  catSmeterToDbm,
+  formatCatFrequency,
+  type CatFamily,
+  type CatFamilyName,
+} from './cat-families.js';
+import { openSerialPort } from './serial-port.js';
+
+export type CatTransport =
+  | { kind: 'serial'; device: string; baudRate: number }
+  // A TCP serial bridge (ser2net and the like) or the rig's own CAT port
+  | { kind: 'tcp' };
+
+export interface CatAdapterOptions {
+  family: CatFamilyName;
+  transport: CatTransport;
+  commandTimeoutMs?: number;
+}
+
+interface QueuedCommand {
+  text: string;
+  // Prefix of the answer for a query; sets get no answer
+  expect: string | null;
+  timer: NodeJS.Timeout | null;
+  resolve: (answer: string) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Kenwood-style ASCII CAT over a serial port or a TCP bridge.
+ *
+ * Queries are answered with a message carrying the same prefix, so one query
+ * is in flight at a time and set commands (which get no answer) are written
+ * in order between them. With auto-information on, the rig also sends IF/FA/MD
+ * on its own whenever the operator changes something; messages that answer
+ * nothing we asked are turned into onStateChange updates.
+ */
+export class CatAdapter implements RigctlAdapter {
+  private stream: Duplex | null = null;
+  private buffer = '';
+  private queue: QueuedCommand[] = [];
+  private active: QueuedCommand | null = null;
+  private listeners = new Set<(partial: Partial<RadioState>) => void>();
+  private readonly family: CatFamily;
+
+  constructor(private readonly options: CatAdapterOptions) {
+    this.family = CAT_FAMILIES[options.family];
+  }
+
+  async connect(host: string, port: number): Promise<void> {
+    await this.closeStream();
+    const stream = await this.open(host, port);
+    this.stream = stream;
+    stream.setEncoding('latin1');
+    stream.on('data', (chunk: string) => this.onData(chunk));
+    stream.on('error', (error) => this.onClosed(new RigError('io', `CAT: ${error.message}`)));
+    stream.on('close', () => this.onClosed(new RigError('not_connected', 'CAT connection closed')));
+    try {
+      await this.getFrequency();
+      await this.write(this.family.aiOn);
+    } catch (error) {
+      await this.closeStream();
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    // Leave the rig quiet for whoever uses the port next
+    if (this.stream) await this.write(this.family.aiOff).catch(() => undefined);
+    await this.closeStream();
+  }
+
+  onStateChange(listener: (partial: Partial<RadioState>) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async open(host: string, port: number): Promise<Duplex> {
+    const { transport } = this.options;
+    if (transport.kind === 'serial') return openSerialPort(transport.device, transport.baudRate);
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host: host || '127.0.0.1', port });
+      const onError = (e: Error) => reject(new RigError('not_connected', `CAT ${host}:${port}: ${e.message}`));
+      socket.once('error', onError);
+      socket.once('connect', () => {
+        socket.off('error', onError);
+        socket.setNoDelay(true);
+        resolve(socket);
+      });
+    });
+  }
+
+  private async closeStream() {
+    const stream = this.stream;
+    this.stream = null;
+    this.buffer = '';
+    this.failAll(new RigError('not_connected', 'CAT connection closed'));
+    if (!stream) return;
+    await new Promise<void>((resolve) => {
+      stream.once('close', () => resolve());
+      stream.destroy();
+    });
+  }
+
+  private onClosed(error: RigError) {
+    if (!this.stream) return;
+    this.stream = null;
+    this.failAll(error);
+  }
+
+  private failAll(error: Error) {
+    const pending = this.active ? [this.active, ...this.queue] : this.queue;
+    this.active = null;
+    this.queue = [];
+    for (const cmd of pending) {
+      if (cmd.timer) clearTimeout(cmd.timer);
+      cmd.reject(error);
+    }
+  }
+
+  private enqueue(text: string, expect: string | null): Promise<string> {
+    if (!this.stream) return Promise.reject(new RigError('not_connected', 'CAT is not connected'));
+    return new Promise((resolve, reject) => {
+      this.queue.push({ text, expect, timer: null, resolve, reject });
+      this.pump();
+    });
+  }
+
+  /** Send a query such as "FA;" and resolve with the answer's body after the prefix. */
+  private query(text: string, prefix: string): Promise<string> {
+    return this.enqueue(text, prefix);
+  }
+
+  private write(text: string): Promise<void> {
+    return this.enqueue(text, null).then(() => undefined);
+  }
+
+  private pump() {
+    const stream = this.stream;
+    while (!this.active && stream) {
+      const next = this.queue.shift();
+      if (!next) return;
+      stream.write(next.text);
+      if (next.expect === null) {
+        next.resolve('');
+        continue;
+      }
+      this.active = next;
+      next.timer = setTimeout(() => {
+        if (this.active !== next) return;
+        this.active = null;
+        next.reject(new RigError('timeout', `CAT ${next.text} got no answer`));
+        this.pump();
+      }, this.options.commandTimeoutMs ?? 1000);
+    }
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf(';')) >= 0) {
+      const message = this.buffer.slice(0, end).replace(/^[\r\n\s]+/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      if (message) this.onMessage(message);
+    }
+  }
+
+  private onMessage(message: string) {
+    const cmd = this.active;
+    // "?" is the rig refusing the command (unknown, or busy right now)
+    if (cmd && message === '?') {
+      this.settle(cmd, () => cmd.reject(new RigError('rejected', `CAT ${cmd.text} refused by rig`)));
+      return;
+    }
+    if (cmd?.expect && message.startsWith(cmd.expect)) {
+      this.settle(cmd, () => cmd.resolve(message.slice(cmd.expect!.length)));
+      return;
+    }
+    // Anything else is auto-information: the rig reporting a change itself
+    const partial = this.parseInfo(message);
+    if (partial) this.notify(partial);
+  }
+
+  private settle(cmd: QueuedCommand, done: () => void) {
+    this.active = null;
+    if (cmd.timer) clearTimeout(cmd.timer);
+    done();
+    this.pump();
+  }
+
+  private parseInfo(message: string): Partial<RadioState> | null {
+    const { family } = this;
+    if (message.startsWith('IF') && family.ptt === 'IF') {
+      const info = this.parseIf(message.slice(2));
+      return info && { frequencyHz: info.frequency, mode: info.mode, ptt: info.ptt };
+    }
+    if (message.startsWith('FA')) {
+      const hz = Number(message.slice(2));
+      return Number.isFinite(hz) && message.length > 2 ? { frequencyHz: hz } : null;
+    }
+    if (message.startsWith(family.modePrefix) && message.length > family.modePrefix.length) {
+      const mode = catModeFromCode(family, message.slice(family.modePrefix.length));
+      return mode ? { mode } : null;
+    }
+    return null;
+  }
+
+  private parseIf(body: string): { frequency: number; mode: RadioMode | undefined; ptt: boolean } | null {
+    const frequency = Number(body.slice(IF_LAYOUT.freq[0], IF_LAYOUT.freq[1]));
+    if (!Number.isFinite(frequency) || body.length <= IF_LAYOUT.mode) return null;
+    return {
+      frequency,
+      mode: catModeFromCode(this.family, body[IF_LAYOUT.mode]!),
+      ptt: body[IF_LAYOUT.tx] === '1',
+    };
+  }
+
+  private notify(partial: Partial<RadioState>) {
+    // A mode code we do not map is left out rather than reported as undefined
+    if ('mode' in partial && partial.mode === undefined) delete partial.mode;
+    for (const listener of this.listeners) listener(partial);
+  }
+
+  private number(body: string, what: string): number {
+    const n = Number(body);
+    if (body.trim() === '' || !Number.isFinite(n)) {
+      throw new RigError('protocol', `CAT: unreadable ${what} "${body}"`);
+    }
+    return n;
+  }
+
+  async getCapabilities(): Promise<RadioCapabilities> {
+    const { family } = this;
+    return {
+      modes: family.modes.map(([, mode]) => mode).filter((m, i, all) => all.indexOf(m) === i),
+      vfos: [],
+      vfoOps: [],
+      getLevels: ['RFPOWER', 'STRENGTH', ...this.meterNames().map((name) => METER_LEVELS[name])],
+      setLevels: ['RFPOWER'],
+      getFunctions: [],
+      setFunctions: [],
+      canSetSplit: false,
+      canGetSplit: false,
+      canSetPtt: true,
+      canSendMorse: false,
+      canSetRepeater: false,
+      ctcssTones: [],
+      dcsCodes: [],
+      preamps: [],
+      attenuators: [],
+      maxPowerWatts: family.maxPowerWatts,
+    };
+  }
+
+  async getFrequency(): Promise<number> {
+    return this.number(await this.query('FA;', 'FA'), 'frequency');
+  }
+
+  async setFrequency(hz: number): Promise<void> {
+    await this.write(`FA${formatCatFrequency(this.family, hz)};`);
+  }
+
+  async getMode(): Promise<RadioMode> {
+    const code = await this.query(this.family.modeQuery, this.family.modePrefix);
+    const mode = catModeFromCode(this.family, code);
+    if (!mode) throw new RigError('protocol', `CAT: unknown mode code "${code}"`);
+    return mode;
+  }
+
+  async setMode(mode: RadioMode, bandwidthHz?: number): Promise<void> {
+    const code = catModeToCode(this.family, mode);
+    if (!code) throw notSupported(`Mode ${mode}`);
+    await this.write(`${this.family.modePrefix}${code};`);
+    const bw = this.family.bandwidth;
+    if (bandwidthHz && bw) {
+      const units = String(Math.round(bandwidthHz / bw.unitHz)).padStart(bw.digits, '0');
+      await this.write(`${bw.prefix}${units};`);
+    }
+  }
+
+  async getBandwidth(): Promise<number> {
+    const bw = this.family.bandwidth;
+    if (!bw) throw notSupported('Filter width readback');
+    return this.number(await this.query(bw.query, bw.prefix), 'bandwidth') * bw.unitHz;
+  }
+
+  async getPower(): Promise<number> {
+    const watts = this.number(await this.query('PC;', 'PC'), 'power');
+    return Math.round(Math.max(0, Math.min(100, (watts / this.family.maxPowerWatts) * 100)));
+  }
+
+  async setPower(percent: number): Promise<void> {
+    const watts = Math.round((percent / 100) * this.family.maxPowerWatts);
+    await this.write(`PC${String(watts).padStart(3, '0')};`);
+  }
+
+  async getPTT(): Promise<boolean> {
+    const { ptt } = this.family;
+    if (ptt === 'IF') {
+      const info = this.parseIf(await this.query('IF;', 'IF'));
+      if (!info) throw new RigError('protocol', 'CAT: unreadable IF answer');
+      return info.ptt;
+    }
+    return this.number(await this.query(ptt.query, ptt.prefix), 'PTT') !== 0;
+  }
+
+  async setPtt(ptt: boolean): Promise<void> {
+    await this.write(ptt ? this.family.txOn : this.family.txOff);
+  }
+
+  async getSignalStrength(): Promise<number> {
+    const { smeter } = this.family;
+    return catSmeterToDbm(smeter, this.number(await this.query(smeter.query, smeter.prefix), 'S-meter'));
+  }
+
+  private meterNames(): MeterName[] {
+    return Object.keys(this.family.meters) as MeterName[];
+  }
+
+  private async readMeter(name: MeterName): Promise<number> {
+    const meter = this.family.meters[name];
+    if (!meter) throw notSupported(`${name} meter`);
+    return calibrate(meter.cal, this.number(await this.query(meter.query, meter.prefix), name));
+  }
+
+  async getMeters(transmitting: boolean): Promise<RadioMeters> {
+    // Supply voltage is the one meter besides the S-meter that reads in receive
+    const names = this.meterNames().filter((name) => transmitting || name === 'vdVolts');
+    const [dbm, ...values] = await Promise.all([
+      transmitting ? undefined : unlessNotSupported(this.getSignalStrength()),
+      ...names.map((name) => unlessNotSupported(this.readMeter(name))),
+    ]);
+    const meters: RadioMeters = dbm === undefined ? {} : signalMeters(dbm);
+    names.forEach((name, i) => {
+      const value = values[i];
+      if (value !== undefined) meters[name] = meterValue(value, name === 'swr' || name === 'alc' ? 2 : 1);
+    });
+    return meters;
+  }
+
+  async getState(): Promise<Partial<RadioState>> {
+    if (!this.stream) return { connected: false };
+
+    const [frequency, mode, bandwidth, power, ptt] = await Promise.all([
+      this.getFrequency(),
+      this.getMode(),
+      unlessNotSupported(this.getBandwidth()),
+      unlessNotSupported(this.getPower()),
+      unlessNotSupported(this.getPTT()),
+    ]);
+
+    const state: Partial<RadioState> = { connected: true, frequencyHz: frequency, mode };
+    if (bandwidth !== undefined) state.bandwidthHz = bandwidth;
+    if (power !== undefined) state.power = power;
+    if (ptt !== undefined) state.ptt = ptt;
+    return state;
+  }
+}
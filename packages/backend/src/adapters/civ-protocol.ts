@@ -0,0 +1,267 @@
+import type { AgcSpeed, RadioMode } from "../dtos.js";
+import { RigError } from "../errors.js";
+import type { CalibrationTable, MeterName } from "../meters.js";
+import type { ReceiverFunc } from "../receiver.js";
+
+/**
+ * Icom CI-V framing and value encodings.
+ *
+ * A frame is FE FE <to> <from> <command> [sub-command] [data] FD. The rig
+ * answers a set command with FB (OK) or FA (NG) and a read with a frame
+ * carrying the same command. Frequencies are five BCD bytes, least
+ * significant pair first; levels and meters are two BCD bytes, 0000-0255.
+ */
+
+export const CIV_PREAMBLE = 0xfe;
+export const CIV_END = 0xfd;
+export const CIV_OK = 0xfb;
+export const CIV_NG = 0xfa;
+// Sent by a rig that saw two controllers talk at once
+export const CIV_COLLISION = 0xfc;
+export const CIV_BROADCAST = 0x00;
+export const CIV_CONTROLLER = 0xe0;
+// IC-7300's factory default address
+export const CIV_DEFAULT_ADDRESS = 0x94;
+
+export const CIV_CMD = {
+  TRANSCEIVE_FREQ: 0x00,
+  TRANSCEIVE_MODE: 0x01,
+  READ_FREQ: 0x03,
+  READ_MODE: 0x04,
+  SET_FREQ: 0x05,
+  SET_MODE: 0x06,
+  ATTENUATOR: 0x11,
+  LEVEL: 0x14,
+  METER: 0x15,
+  FUNCTION: 0x16,
+  SEND_CW: 0x17,
+  EXTENDED: 0x1a,
+  TX: 0x1c,
+  OFFSET: 0x21,
+} as const;
+
+export const CIV_SUB = {
+  RF_POWER: 0x0a, // LEVEL
+  KEYER_SPEED: 0x0c, // LEVEL: 0-255 across CIV_KEYER_WPM
+  PASSBAND: 0x03, // EXTENDED: IF filter width of the current mode
+  DATA_MODE: 0x06, // EXTENDED: data on/off and filter
+  PTT: 0x00, // TX
+  TUNER: 0x01, // TX: 0 through, 1 in line, 2 start a tune
+  PREAMP: 0x02, // FUNCTION: 0 off, then P.AMP1, P.AMP2
+  AGC: 0x12, // FUNCTION: 1 fast, 2 mid, 3 slow
+  OFFSET_HZ: 0x00, // OFFSET: the one offset RIT and ΔTX share
+  RIT: 0x01, // OFFSET: on/off
+  DELTA_TX: 0x02, // OFFSET: on/off, Icom's name for XIT
+} as const;
+
+// ±9.999 kHz, the reach of the 21 00 offset
+export const CIV_MAX_OFFSET_HZ = 9999;
+
+// 17 takes at most this many characters per frame; FF instead of text stops sending
+export const CIV_CW_CHUNK = 30;
+export const CIV_CW_STOP = 0xff;
+export const CIV_KEYER_WPM = { min: 6, max: 48 };
+
+// 16 xx on/off switches
+export const CIV_FUNCS: Record<ReceiverFunc, number> = {
+  nb: 0x22,
+  nr: 0x40,
+  autoNotch: 0x41,
+  manualNotch: 0x48,
+};
+
+// 14 xx receive levels, 0-255 like RF power
+export const CIV_RX_LEVELS = {
+  afGain: 0x01,
+  rfGain: 0x02,
+  squelch: 0x03,
+  nrLevel: 0x06,
+} as const;
+export type CivRxLevel = keyof typeof CIV_RX_LEVELS;
+
+// AGC off is a time constant setting rather than a speed, so it is left out
+export const CIV_AGC: Partial<Record<AgcSpeed, number>> = { fast: 1, medium: 2, slow: 3 };
+
+// The IC-7300's preamp steps (P.AMP1, P.AMP2) and its one attenuator, in dB
+export const CIV_PREAMPS_DB = [10, 20];
+export const CIV_ATTENUATORS_DB = [20];
+
+export interface CivFrame {
+  to: number;
+  from: number;
+  command: number;
+  // Everything between the command byte and FD, sub-command included
+  data: Buffer;
+}
+
+export function encodeFrame(to: number, from: number, command: number, data: number[] | Buffer = []): Buffer {
+  return Buffer.from([CIV_PREAMBLE, CIV_PREAMBLE, to, from, command, ...data, CIV_END]);
+}
+
+/**
+ * Splits a byte stream into frames. Bytes before a preamble and frames
+ * broken by a collision are dropped, which is what the bus expects.
+ */
+export class CivFrameReader {
+  private buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): CivFrame[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const frames: CivFrame[] = [];
+    for (;;) {
+      const start = this.buffer.indexOf(CIV_PREAMBLE);
+      if (start < 0) {
+        this.buffer = Buffer.alloc(0);
+        break;
+      }
+      const end = this.buffer.indexOf(CIV_END, start);
+      if (end < 0) {
+        this.buffer = this.buffer.subarray(start);
+        break;
+      }
+      // Some rigs send a single FE, so skip however many there are
+      let i = start;
+      while (i < end && this.buffer[i] === CIV_PREAMBLE) i++;
+      const body = this.buffer.subarray(i, end);
+      this.buffer = this.buffer.subarray(end + 1);
+      if (body.length < 3 || body.includes(CIV_COLLISION)) continue;
+      frames.push({ to: body[0]!, from: body[1]!, command: body[2]!, data: Buffer.from(body.subarray(3)) });
+    }
+    return frames;
+  }
+}
+
+const bcdByte = (n: number) => ((Math.floor(n / 10) % 10) << 4) | (n % 10);
+const fromBcdByte = (b: number) => (b >> 4) * 10 + (b & 0x0f);
+
+export function encodeFrequency(hz: number): number[] {
+  let rest = Math.round(hz);
+  const bytes: number[] = [];
+  for (let i = 0; i < 5; i++) {
+    bytes.push(bcdByte(rest % 100));
+    rest = Math.floor(rest / 100);
+  }
+  return bytes;
+}
+
+export function decodeFrequency(data: Buffer): number {
+  if (data.length < 4) throw new RigError("protocol", "CI-V: short frequency");
+  let hz = 0;
+  for (let i = data.length - 1; i >= 0; i--) hz = hz * 100 + fromBcdByte(data[i]!);
+  return hz;
+}
+
+/** 0-255 (or a meter's 0-241) as the two BCD bytes CI-V uses for levels. */
+export function encodeLevel(value: number): number[] {
+  const v = Math.max(0, Math.min(9999, Math.round(value)));
+  return [bcdByte(Math.floor(v / 100)), bcdByte(v % 100)];
+}
+
+export function decodeLevel(data: Buffer): number {
+  if (data.length < 2) throw new RigError("protocol", "CI-V: short level");
+  return fromBcdByte(data[0]!) * 100 + fromBcdByte(data[1]!);
+}
+
+/** A RIT/ΔTX offset: four BCD digits, least significant pair first, then a sign byte (01 for minus). */
+export function encodeOffset(hz: number): number[] {
+  const abs = Math.min(CIV_MAX_OFFSET_HZ, Math.abs(Math.round(hz)));
+  return [bcdByte(abs % 100), bcdByte(Math.floor(abs / 100)), hz < 0 ? 0x01 : 0x00];
+}
+
+export function decodeOffset(data: Buffer): number {
+  if (data.length < 3) throw new RigError("protocol", "CI-V: short offset");
+  const abs = fromBcdByte(data[0]!) + fromBcdByte(data[1]!) * 100;
+  return data[2] ? -abs : abs;
+}
+
+export function decodeBcd(byte: number): number {
+  return fromBcdByte(byte);
+}
+
+export function encodeBcd(value: number): number {
+  return bcdByte(value);
+}
+
+// Operating mode bytes; data variants are the base mode with data mode on
+const CIV_MODES: Array<[number, RadioMode]> = [
+  [0x00, "LSB"],
+  [0x01, "USB"],
+  [0x02, "AM"],
+  [0x03, "CW"],
+  [0x04, "RTTY"],
+  [0x05, "FM"],
+  [0x06, "WFM"],
+  [0x07, "CWR"],
+  [0x08, "RTTYR"],
+  [0x11, "SAM"],
+  [0x12, "PSK"],
+  [0x13, "PSKR"],
+];
+const DATA_MODES: Partial<Record<RadioMode, RadioMode>> = {
+  LSB: "PKTLSB",
+  USB: "PKTUSB",
+  AM: "PKTAM",
+  FM: "PKTFM",
+};
+
+export const CIV_RADIO_MODES: RadioMode[] = [
+  ...CIV_MODES.map(([, mode]) => mode),
+  ...Object.values(DATA_MODES),
+];
+
+export function modeFromCiv(code: number, data: boolean): RadioMode {
+  const base = CIV_MODES.find(([c]) => c === code)?.[1];
+  if (!base) throw new RigError("protocol", `CI-V: unknown mode 0x${code.toString(16)}`);
+  return (data && DATA_MODES[base]) || base;
+}
+
+/** Mode byte and data-mode flag for one of our modes, or undefined if CI-V has none. */
+export function modeToCiv(mode: RadioMode): { code: number; data: boolean } | undefined {
+  const base = (Object.keys(DATA_MODES) as RadioMode[]).find((m) => DATA_MODES[m] === mode);
+  const code = CIV_MODES.find(([, m]) => m === (base ?? mode))?.[0];
+  return code === undefined ? undefined : { code, data: base !== undefined };
+}
+
+// IF filter widths behind the 1A 03 index: 50 Hz steps up to 500, then
+// 100 Hz steps for SSB/CW/RTTY; 200 Hz steps for AM
+export function passbandFromIndex(mode: RadioMode, index: number): number {
+  if (mode === "AM" || mode === "PKTAM") return (index + 1) * 200;
+  return index <= 9 ? (index + 1) * 50 : 600 + (index - 10) * 100;
+}
+
+export function passbandToIndex(mode: RadioMode, hz: number): number {
+  if (mode === "AM" || mode === "PKTAM") return Math.max(0, Math.min(49, Math.round(hz / 200) - 1));
+  if (hz <= 500) return Math.max(0, Math.round(hz / 50) - 1);
+  return Math.min(40, 10 + Math.round((hz - 600) / 100));
+}
+
+// Modes whose width is chosen from fixed filters rather than set with 1A 03
+export function hasFixedPassband(mode: RadioMode): boolean {
+  return mode === "FM" || mode === "PKTFM" || mode === "WFM";
+}
+
+export type CivMeterName = MeterName | "strength";
+
+/**
+ * 15 xx meter reads, with the IC-7300's calibration from Hamlib; other
+ * current Icoms are close enough. Readings are 0-255, strength comes out in
+ * dB over S9 and ALC as a fraction of its zone.
+ */
+export const CIV_METERS: Record<CivMeterName, { sub: number; cal: CalibrationTable }> = {
+  strength: { sub: 0x02, cal: [[0, -54], [120, 0], [241, 60]] },
+  powerWatts: {
+    sub: 0x11,
+    cal: [
+      [0, 0], [21, 5], [43, 10], [65, 15], [83, 20], [95, 25], [105, 30],
+      [114, 35], [124, 40], [143, 50], [183, 75], [213, 100], [255, 120],
+    ],
+  },
+  swr: { sub: 0x12, cal: [[0, 1], [48, 1.5], [80, 2], [120, 3], [240, 6]] },
+  alc: { sub: 0x13, cal: [[0, 0], [120, 1]] },
+  compDb: { sub: 0x14, cal: [[0, 0], [130, 15], [241, 30]] },
+  vdVolts: { sub: 0x15, cal: [[0, 0], [13, 10], [241, 16]] },
+  idAmps: { sub: 0x16, cal: [[0, 0], [97, 10], [146, 15], [241, 25]] },
+};
+
+// 15 01: squelch status, one byte, 00 closed and 01 open
+export const CIV_SQUELCH_STATUS = 0x01;
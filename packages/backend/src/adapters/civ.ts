@@ -0,0 +1,529 @@
+import type tty from 'node:tty';
+import type {
+  RadioCapabilities,
+  RadioMeters,
+  RadioMode,
+  RadioOffsets,
+  RadioReceiver,
+  RadioState,
+} from '../dtos.js';
+import type { RigctlAdapter } from '../services/radio.js';
+import { RigError, isRigError, notSupported, unlessNotSupported } from '../errors.js';
+import { normalizeCwText } from '../cw.js';
+import { METER_LEVELS, S9_DBM, calibrate, meterValue, signalMeters } from '../meters.js';
+import { RECEIVER_FUNCS, RECEIVER_LEVELS, type ReceiverFunc } from '../receiver.js';
+import {
+  CIV_AGC,
+  CIV_ATTENUATORS_DB,
+  CIV_BROADCAST,
+  CIV_CMD,
+  CIV_CONTROLLER,
+  CIV_CW_CHUNK,
+  CIV_CW_STOP,
+  CIV_DEFAULT_ADDRESS,
+  CIV_FUNCS,
+  CIV_KEYER_WPM,
+  CIV_MAX_OFFSET_HZ,
+  CIV_METERS,
+  CIV_NG,
+  CIV_OK,
+  CIV_PREAMPS_DB,
+  CIV_RADIO_MODES,
+  CIV_RX_LEVELS,
+  CIV_SQUELCH_STATUS,
+  CIV_SUB,
+  CivFrameReader,
+  decodeBcd,
+  decodeFrequency,
+  decodeLevel,
+  decodeOffset,
+  encodeBcd,
+  encodeFrame,
+  encodeFrequency,
+  encodeLevel,
+  encodeOffset,
+  hasFixedPassband,
+  modeFromCiv,
+  modeToCiv,
+  passbandFromIndex,
+  passbandToIndex,
+  type CivFrame,
+  type CivMeterName,
+  type CivRxLevel,
+} from './civ-protocol.js';
+import { openSerialPort } from './serial-port.js';
+
+export interface CivAdapterOptions {
+  device: string;
+  baudRate?: number;
+  // The rig's CI-V address (IC-7300 0x94, IC-7610 0x98, IC-9700 0xA2, IC-705 0xA4)
+  rigAddress?: number;
+  controllerAddress?: number;
+  commandTimeoutMs?: number;
+}
+
+interface PendingCommand {
+  command: number;
+  // Sub-command bytes a read reply must echo back
+  sub: number[];
+  frame: Buffer;
+  timer: NodeJS.Timeout | null;
+  resolve: (frame: CivFrame) => void;
+  reject: (err: Error) => void;
+}
+
+const RIG_NAMES: Record<number, string> = {
+  0x88: 'IC-7100',
+  0x94: 'IC-7300',
+  0x98: 'IC-7610',
+  0xa2: 'IC-9700',
+  0xa4: 'IC-705',
+};
+
+// Full power on HF (or 2 m for the IC-9700); RFPOWER is a fraction of it
+const RIG_MAX_POWER_WATTS: Record<number, number> = {
+  0x88: 100,
+  0x94: 100,
+  0x98: 100,
+  0xa2: 100,
+  0xa4: 10,
+};
+
+// FM has no adjustable width, only the three fixed filters
+const FM_FILTER_WIDTHS = [15000, 10000, 7000];
+
+// Receive controls read through 14/16 xx; the notch position is not in Hz, so NOTCHF is left out
+const RECEIVER_LEVEL_NAMES = (['agc', 'nrLevel', 'preampDb', 'attDb', 'rfGain', 'afGain', 'squelch'] as const).map(
+  (name) => RECEIVER_LEVELS[name]
+);
+
+// Preamp setting for a gain in dB: 0 for off, else the step's position
+function preampSetting(db: number): number {
+  if (db === 0) return 0;
+  const index = CIV_PREAMPS_DB.indexOf(db);
+  if (index < 0) throw new RigError('invalid', `Preamp ${db} dB is not one of ${CIV_PREAMPS_DB.join(', ')} dB`);
+  return index + 1;
+}
+
+/**
+ * Native Icom CI-V over the rig's serial (or USB serial) port, without
+ * Hamlib in between.
+ *
+ * Commands go out one at a time; CI-V is a shared bus, so a reply is only
+ * taken as ours when it comes from the rig, is addressed to us and carries
+ * the command we sent (or FB/FA). Everything else from the rig is a
+ * transceive broadcast — the rig reporting a knob turn — and is passed to
+ * onStateChange listeners. Our own frames echoed back by the bus are ignored.
+ */
+export class CivAdapter implements RigctlAdapter {
+  private port: tty.ReadStream | null = null;
+  private readonly reader = new CivFrameReader();
+  private queue: PendingCommand[] = [];
+  private active: PendingCommand | null = null;
+  private listeners = new Set<(partial: Partial<RadioState>) => void>();
+  private readonly rigAddress: number;
+  private readonly controllerAddress: number;
+
+  constructor(private readonly options: CivAdapterOptions) {
+    this.rigAddress = options.rigAddress ?? CIV_DEFAULT_ADDRESS;
+    this.controllerAddress = options.controllerAddress ?? CIV_CONTROLLER;
+  }
+
+  // host/port do not apply to a serial rig; the device comes from the config
+  async connect(_host: string, _port: number): Promise<void> {
+    await this.closePort();
+    const port = await openSerialPort(this.options.device, this.options.baudRate ?? 19200);
+    this.port = port;
+    port.on('data', (chunk: Buffer) => this.onData(chunk));
+    port.on('error', (error) => this.onPortClosed(new RigError('io', `${this.options.device}: ${error.message}`)));
+    port.on('close', () => this.onPortClosed(new RigError('not_connected', `${this.options.device} closed`)));
+    try {
+      await this.getFrequency();
+    } catch (error) {
+      await this.closePort();
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await this.closePort();
+  }
+
+  onStateChange(listener: (partial: Partial<RadioState>) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async closePort() {
+    const port = this.port;
+    this.port = null;
+    this.failAll(new RigError('not_connected', 'CI-V port closed'));
+    if (!port) return;
+    await new Promise<void>((resolve) => {
+      port.once('close', () => resolve());
+      port.destroy();
+    });
+  }
+
+  private onPortClosed(error: RigError) {
+    if (!this.port) return;
+    this.port = null;
+    this.failAll(error);
+  }
+
+  private failAll(error: Error) {
+    const pending = this.active ? [this.active, ...this.queue] : this.queue;
+    this.active = null;
+    this.queue = [];
+    for (const cmd of pending) {
+      if (cmd.timer) clearTimeout(cmd.timer);
+      cmd.reject(error);
+    }
+  }
+
+  private send(command: number, sub: number[] = [], data: number[] = []): Promise<CivFrame> {
+    if (!this.port) return Promise.reject(new RigError('not_connected', 'CI-V port is not open'));
+    return new Promise((resolve, reject) => {
+      const frame = encodeFrame(this.rigAddress, this.controllerAddress, command, [...sub, ...data]);
+      this.queue.push({ command, sub, frame, timer: null, resolve, reject });
+      this.pump();
+    });
+  }
+
+  private pump() {
+    if (this.active || !this.port) return;
+    const next = this.queue.shift();
+    if (!next) return;
+    this.active = next;
+    next.timer = setTimeout(() => {
+      if (this.active !== next) return;
+      this.active = null;
+      next.reject(new RigError('timeout', `CI-V command 0x${next.command.toString(16)}: no reply from rig`));
+      this.pump();
+    }, this.options.commandTimeoutMs ?? 1000);
+    this.port.write(next.frame);
+  }
+
+  private onData(chunk: Buffer) {
+    for (const frame of this.reader.push(chunk)) {
+      // Our own frames echoed back by the bus, or other rigs talking
+      if (frame.from !== this.rigAddress) continue;
+      if (frame.to === this.controllerAddress && this.isReplyToActive(frame)) {
+        const cmd = this.active!;
+        this.active = null;
+        if (cmd.timer) clearTimeout(cmd.timer);
+        if (frame.command === CIV_NG) {
+          cmd.reject(new RigError('rejected', `CI-V command 0x${cmd.command.toString(16)} refused by rig (NG)`));
+        } else {
+          cmd.resolve(frame);
+        }
+        this.pump();
+      } else if (frame.to === CIV_BROADCAST || frame.to === this.controllerAddress) {
+        this.onTransceive(frame);
+      }
+    }
+  }
+
+  private isReplyToActive(frame: CivFrame): boolean {
+    const cmd = this.active;
+    if (!cmd) return false;
+    if (frame.command === CIV_OK || frame.command === CIV_NG) return true;
+    return frame.command === cmd.command && cmd.sub.every((b, i) => frame.data[i] === b);
+  }
+
+  private onTransceive(frame: CivFrame) {
+    if (frame.command === CIV_CMD.TRANSCEIVE_FREQ) {
+      if (frame.data.length < 4) return;
+      this.notify({ frequencyHz: decodeFrequency(frame.data) });
+    } else if (frame.command === CIV_CMD.TRANSCEIVE_MODE) {
+      // The broadcast leaves out data mode and width, so read them back
+      this.getModeAndWidth()
+        .then(({ mode, bandwidth }) => this.notify(bandwidth === undefined ? { mode } : { mode, bandwidthHz: bandwidth }))
+        .catch(() => undefined);
+    }
+  }
+
+  private notify(partial: Partial<RadioState>) {
+    for (const listener of this.listeners) listener(partial);
+  }
+
+  async getCapabilities(): Promise<RadioCapabilities> {
+    return {
+      rigModel: RIG_NAMES[this.rigAddress],
+      manufacturer: 'Icom',
+      modes: CIV_RADIO_MODES,
+      vfos: [],
+      vfoOps: ['TUNE'],
+      getLevels: ['RFPOWER', 'STRENGTH', ...Object.values(METER_LEVELS), ...RECEIVER_LEVEL_NAMES],
+      setLevels: ['RFPOWER', 'KEYSPD', ...RECEIVER_LEVEL_NAMES],
+      getFunctions: ['RIT', 'XIT', ...Object.values(RECEIVER_FUNCS)],
+      setFunctions: ['RIT', 'XIT', 'TUNER', ...Object.values(RECEIVER_FUNCS)],
+      canSetSplit: false,
+      canGetSplit: false,
+      canSetPtt: true,
+      canSendMorse: true,
+      canSetRepeater: false,
+      ctcssTones: [],
+      dcsCodes: [],
+      preamps: CIV_PREAMPS_DB,
+      attenuators: CIV_ATTENUATORS_DB,
+      maxRitHz: CIV_MAX_OFFSET_HZ,
+      maxXitHz: CIV_MAX_OFFSET_HZ,
+      maxPowerWatts: RIG_MAX_POWER_WATTS[this.rigAddress],
+    };
+  }
+
+  async getFrequency(): Promise<number> {
+    return decodeFrequency((await this.send(CIV_CMD.READ_FREQ)).data);
+  }
+
+  async setFrequency(hz: number): Promise<void> {
+    await this.send(CIV_CMD.SET_FREQ, [], encodeFrequency(hz));
+  }
+
+  private async getDataMode(): Promise<boolean> {
+    try {
+      const reply = await this.send(CIV_CMD.EXTENDED, [CIV_SUB.DATA_MODE]);
+      return (reply.data[1] ?? 0) !== 0;
+    } catch (error) {
+      // Rigs without data modes answer NG
+      if (isRigError(error) && error.kind === 'rejected') return false;
+      throw error;
+    }
+  }
+
+  async getModeAndWidth(): Promise<{ mode: RadioMode; bandwidth: number | undefined }> {
+    const reply = await this.send(CIV_CMD.READ_MODE);
+    const [code = 0, filter = 1] = reply.data;
+    const mode = modeFromCiv(code, await this.getDataMode());
+    if (hasFixedPassband(mode)) return { mode, bandwidth: FM_FILTER_WIDTHS[filter - 1] };
+    try {
+      const width = await this.send(CIV_CMD.EXTENDED, [CIV_SUB.PASSBAND]);
+      return { mode, bandwidth: passbandFromIndex(mode, decodeBcd(width.data[1] ?? 0)) };
+    } catch (error) {
+      if (isRigError(error) && error.kind === 'rejected') return { mode, bandwidth: undefined };
+      throw error;
+    }
+  }
+
+  async setMode(mode: RadioMode, bandwidthHz?: number): Promise<void> {
+    const civ = modeToCiv(mode);
+    if (!civ) throw notSupported(`Mode ${mode}`);
+    // FIL1, the rig's widest filter for the mode, unless a width picks another
+    let filter = 1;
+    if (bandwidthHz && hasFixedPassband(mode)) {
+      const nearest = FM_FILTER_WIDTHS.reduce((best, w, i) =>
+        Math.abs(w - bandwidthHz) < Math.abs(FM_FILTER_WIDTHS[best]! - bandwidthHz) ? i : best, 0);
+      filter = nearest + 1;
+    }
+    await this.send(CIV_CMD.SET_MODE, [], [civ.code, filter]);
+    try {
+      await this.send(CIV_CMD.EXTENDED, [CIV_SUB.DATA_MODE], civ.data ? [0x01, filter] : [0x00, 0x00]);
+    } catch (error) {
+      // Only a problem when a data mode was asked for
+      if (civ.data || !isRigError(error) || error.kind !== 'rejected') throw error;
+    }
+    if (bandwidthHz && !hasFixedPassband(mode)) {
+      await this.send(CIV_CMD.EXTENDED, [CIV_SUB.PASSBAND], [encodeBcd(passbandToIndex(mode, bandwidthHz))]);
+    }
+  }
+
+  async getPower(): Promise<number> {
+    const reply = await this.send(CIV_CMD.LEVEL, [CIV_SUB.RF_POWER]);
+    return Math.round((decodeLevel(reply.data.subarray(1)) / 255) * 100);
+  }
+
+  async setPower(percent: number): Promise<void> {
+    await this.send(CIV_CMD.LEVEL, [CIV_SUB.RF_POWER], encodeLevel((percent / 100) * 255));
+  }
+
+  async getPTT(): Promise<boolean> {
+    const reply = await this.send(CIV_CMD.TX, [CIV_SUB.PTT]);
+    return (reply.data[1] ?? 0) !== 0;
+  }
+
+  async setPtt(ptt: boolean): Promise<void> {
+    await this.send(CIV_CMD.TX, [CIV_SUB.PTT], [ptt ? 0x01 : 0x00]);
+  }
+
+  // Puts the tuner in line and tunes; a rig without one answers NG
+  async startTune(): Promise<void> {
+    await this.send(CIV_CMD.TX, [CIV_SUB.TUNER], [0x02]);
+  }
+
+  // Undefined when the rig answers NG, which is how it says it has no such control
+  private async unlessRefused<T>(p: Promise<T>): Promise<T | undefined> {
+    try {
+      return await p;
+    } catch (error) {
+      if (isRigError(error) && error.kind === 'rejected') return undefined;
+      throw error;
+    }
+  }
+
+  /** A calibrated meter reading; undefined when the rig has no such meter (NG). */
+  private async readMeter(name: CivMeterName): Promise<number | undefined> {
+    const { sub, cal } = CIV_METERS[name];
+    return this.unlessRefused(
+      this.send(CIV_CMD.METER, [sub]).then((reply) => calibrate(cal, decodeLevel(reply.data.subarray(1))))
+    );
+  }
+
+  async getSquelchOpen(): Promise<boolean> {
+    return (await this.send(CIV_CMD.METER, [CIV_SQUELCH_STATUS])).data[1] === 1;
+  }
+
+  async getMeters(transmitting: boolean): Promise<RadioMeters> {
+    // Only the S-meter and Vd move in receive; the rest read zero
+    const names: CivMeterName[] = transmitting
+      ? ['powerWatts', 'swr', 'alc', 'compDb', 'idAmps', 'vdVolts']
+      : ['strength', 'vdVolts'];
+    const values = await Promise.all(names.map((name) => this.readMeter(name)));
+    const meters: RadioMeters = {};
+    names.forEach((name, i) => {
+      const value = values[i];
+      if (value === undefined) return;
+      if (name === 'strength') Object.assign(meters, signalMeters(S9_DBM + value));
+      else meters[name] = meterValue(value, name === 'swr' || name === 'alc' ? 2 : 1);
+    });
+    return meters;
+  }
+
+  private async readFunction(sub: number): Promise<number> {
+    return (await this.send(CIV_CMD.FUNCTION, [sub])).data[1] ?? 0;
+  }
+
+  private async readRxLevel(name: CivRxLevel): Promise<number> {
+    const reply = await this.send(CIV_CMD.LEVEL, [CIV_RX_LEVELS[name]]);
+    return meterValue(decodeLevel(reply.data.subarray(1)) / 255, 2);
+  }
+
+  async getReceiver(): Promise<RadioReceiver> {
+    const funcs = Object.keys(CIV_FUNCS) as ReceiverFunc[];
+    const levels = Object.keys(CIV_RX_LEVELS) as CivRxLevel[];
+    const [onOff, values, agc, preamp, att] = await Promise.all([
+      Promise.all(funcs.map((name) => this.unlessRefused(this.readFunction(CIV_FUNCS[name])))),
+      Promise.all(levels.map((name) => this.unlessRefused(this.readRxLevel(name)))),
+      this.unlessRefused(this.readFunction(CIV_SUB.AGC)),
+      this.unlessRefused(this.readFunction(CIV_SUB.PREAMP)),
+      this.unlessRefused(this.send(CIV_CMD.ATTENUATOR)),
+    ]);
+
+    const receiver: RadioReceiver = {};
+    funcs.forEach((name, i) => {
+      const on = onOff[i];
+      if (on !== undefined) receiver[name] = on !== 0;
+    });
+    levels.forEach((name, i) => {
+      const value = values[i];
+      if (value !== undefined) receiver[name] = value;
+    });
+    const speed = (Object.keys(CIV_AGC) as Array<keyof typeof CIV_AGC>).find((key) => CIV_AGC[key] === agc);
+    if (speed) receiver.agc = speed;
+    if (preamp !== undefined) receiver.preampDb = preamp === 0 ? 0 : CIV_PREAMPS_DB[preamp - 1] ?? 0;
+    if (att !== undefined) receiver.attDb = decodeBcd(att.data[0] ?? 0);
+    return receiver;
+  }
+
+  async setReceiver(settings: RadioReceiver): Promise<void> {
+    // Checked up front so a bad value does not leave the rig half changed
+    if (settings.notchHz !== undefined) throw notSupported('Notch frequency');
+    const agc = settings.agc === undefined ? undefined : CIV_AGC[settings.agc];
+    if (settings.agc !== undefined && agc === undefined) throw notSupported(`AGC ${settings.agc}`);
+    const preamp = settings.preampDb === undefined ? undefined : preampSetting(settings.preampDb);
+    const { attDb } = settings;
+    if (attDb !== undefined && attDb !== 0 && !CIV_ATTENUATORS_DB.includes(attDb)) {
+      throw new RigError('invalid', `Attenuator ${attDb} dB is not one of ${CIV_ATTENUATORS_DB.join(', ')} dB`);
+    }
+
+    for (const name of Object.keys(CIV_FUNCS) as ReceiverFunc[]) {
+      const on = settings[name];
+      if (on !== undefined) await this.send(CIV_CMD.FUNCTION, [CIV_FUNCS[name]], [on ? 0x01 : 0x00]);
+    }
+    for (const name of Object.keys(CIV_RX_LEVELS) as CivRxLevel[]) {
+      const value = settings[name];
+      if (value !== undefined) await this.send(CIV_CMD.LEVEL, [CIV_RX_LEVELS[name]], encodeLevel(value * 255));
+    }
+    if (agc !== undefined) await this.send(CIV_CMD.FUNCTION, [CIV_SUB.AGC], [agc]);
+    if (preamp !== undefined) await this.send(CIV_CMD.FUNCTION, [CIV_SUB.PREAMP], [preamp]);
+    if (attDb !== undefined) await this.send(CIV_CMD.ATTENUATOR, [], [encodeBcd(attDb)]);
+  }
+
+  private async readOffsetSwitch(sub: number): Promise<boolean> {
+    return ((await this.send(CIV_CMD.OFFSET, [sub])).data[1] ?? 0) !== 0;
+  }
+
+  // RIT and ΔTX share one offset, so it is reported as both
+  async getOffsets(): Promise<RadioOffsets> {
+    const [offset, ritOn, xitOn] = await Promise.all([
+      this.unlessRefused(this.send(CIV_CMD.OFFSET, [CIV_SUB.OFFSET_HZ])),
+      this.unlessRefused(this.readOffsetSwitch(CIV_SUB.RIT)),
+      this.unlessRefused(this.readOffsetSwitch(CIV_SUB.DELTA_TX)),
+    ]);
+    const offsets: RadioOffsets = {};
+    if (offset) offsets.ritHz = offsets.xitHz = decodeOffset(offset.data.subarray(1));
+    if (ritOn !== undefined) offsets.ritOn = ritOn;
+    if (xitOn !== undefined) offsets.xitOn = xitOn;
+    return offsets;
+  }
+
+  async setOffsets(offsets: RadioOffsets): Promise<void> {
+    const { ritOn, ritHz, xitOn, xitHz, ifShiftHz } = offsets;
+    if (ifShiftHz !== undefined) throw notSupported('IF shift');
+    if (ritHz !== undefined && xitHz !== undefined && ritHz !== xitHz) {
+      throw new RigError('invalid', 'RIT and ΔTX share one offset on Icom rigs');
+    }
+    const hz = ritHz ?? xitHz;
+    if (hz !== undefined) {
+      if (Math.abs(hz) > CIV_MAX_OFFSET_HZ) {
+        throw new RigError('invalid', `Offset ${hz} Hz is beyond ±${CIV_MAX_OFFSET_HZ} Hz`);
+      }
+      await this.send(CIV_CMD.OFFSET, [CIV_SUB.OFFSET_HZ], encodeOffset(hz));
+    }
+    if (ritOn !== undefined) await this.send(CIV_CMD.OFFSET, [CIV_SUB.RIT], [ritOn ? 0x01 : 0x00]);
+    if (xitOn !== undefined) await this.send(CIV_CMD.OFFSET, [CIV_SUB.DELTA_TX], [xitOn ? 0x01 : 0x00]);
+  }
+
+  // The rig buffers the text and keys it with break-in, in CW mode only
+  async sendMorse(text: string): Promise<void> {
+    // Anything else could be read as the stop or end-of-frame byte
+    const clean = normalizeCwText(text);
+    for (let i = 0; i < clean.length; i += CIV_CW_CHUNK) {
+      const chunk = Buffer.from(clean.slice(i, i + CIV_CW_CHUNK), 'ascii');
+      await this.send(CIV_CMD.SEND_CW, [], [...chunk]);
+    }
+  }
+
+  async stopMorse(): Promise<void> {
+    await this.send(CIV_CMD.SEND_CW, [], [CIV_CW_STOP]);
+  }
+
+  async setKeyerSpeed(wpm: number): Promise<void> {
+    const { min, max } = CIV_KEYER_WPM;
+    if (wpm < min || wpm > max) throw new RigError('invalid', `Keyer speed ${wpm} WPM is outside ${min}-${max}`);
+    await this.send(CIV_CMD.LEVEL, [CIV_SUB.KEYER_SPEED], encodeLevel(((wpm - min) / (max - min)) * 255));
+  }
+
+  async getState(): Promise<Partial<RadioState>> {
+    if (!this.port) return { connected: false };
+
+    // Queued, so these go out one after another as CI-V requires
+    const [frequency, modeInfo, power, ptt] = await Promise.all([
+      this.getFrequency(),
+      this.getModeAndWidth(),
+      unlessNotSupported(this.getPower()),
+      unlessNotSupported(this.getPTT()),
+    ]);
+
+    const state: Partial<RadioState> = {
+      connected: true,
+      frequencyHz: frequency,
+      mode: modeInfo.mode,
+      rigModel: RIG_NAMES[this.rigAddress],
+    };
+    if (modeInfo.bandwidth !== undefined) state.bandwidthHz = modeInfo.bandwidth;
+    if (power !== undefined) state.power = power;
+    if (ptt !== undefined) state.ptt = ptt;
+    return state;
+  }
+}
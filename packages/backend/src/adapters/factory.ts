@@ -0,0 +1,41 @@
+import type { RigConfig } from '../config.js';
+import type { RigctlAdapter } from '../services/radio.js';
+import { CatAdapter } from './cat.js';
+import { CivAdapter } from './civ.js';
+import { FlrigAdapter } from './flrig.js';
+import { RigctlCommandAdapter } from './rigctl.js';
+import { RigctldAdapter } from './rigctld.js';
+import { SimulatorAdapter } from './simulator.js';
+
+export function createRigAdapter(rig: RigConfig): RigctlAdapter {
+  switch (rig.adapter) {
+    case 'rigctld':
+      return new RigctldAdapter();
+    case 'rigctl':
+      return new RigctlCommandAdapter({
+        rigModel: rig.rigModel,
+        rigPort: rig.rigPort,
+        rigSpeed: rig.rigSpeed,
+      });
+    case 'flrig':
+      return new FlrigAdapter();
+    case 'civ':
+      return new CivAdapter({
+        // The schema requires rigPort for civ
+        device: rig.rigPort!,
+        baudRate: rig.rigSpeed,
+        rigAddress: rig.civAddress,
+      });
+    case 'cat':
+      return new CatAdapter({
+        family: rig.catFamily,
+        transport:
+          rig.catTransport === 'tcp'
+            ? { kind: 'tcp' }
+            : { kind: 'serial', device: rig.rigPort!, baudRate: rig.rigSpeed ?? 9600 },
+      });
+    case 'simulator':
+    case 'mock':
+      return new SimulatorAdapter(rig.simulator);
+  }
+}
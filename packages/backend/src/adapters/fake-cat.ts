@@ -0,0 +1,178 @@
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import type { RadioMode } from '../dtos.js';
+import type { MeterName } from '../meters.js';
+import {
+  CAT_FAMILIES,
+  catModeFromCode,
+  catModeToCode,
+  formatCatFrequency,
+  type CatFamily,
+  type CatFamilyName,
+  type CatMeter,
+} from './cat-families.js';
+
+export interface FakeCatState {
+  frequencyHz: number;
+  mode: RadioMode;
+  bandwidthHz: number;
+  powerWatts: number;
+  ptt: boolean;
+  // Raw readings on the family's own meter scales; only the S-meter and
+  // supply voltage read anything in receive
+  smeter: number;
+  meters: Partial<Record<MeterName, number>>;
+  ai: boolean;
+}
+
+export interface FakeCatOptions {
+  family: CatFamilyName;
+  host?: string;
+  port?: number;
+  state?: Partial<FakeCatState>;
+}
+
+const pad = (n: number, digits: number) => String(Math.round(n)).padStart(digits, '0');
+
+/**
+ * A rig's text-CAT side held in memory, served over TCP the way a serial
+ * bridge would, so CatAdapter can be exercised without a radio. Answers in
+ * the dialect of the chosen family; tune() and selectMode() act like the
+ * front panel and are pushed to clients that turned auto-information on.
+ */
+export class FakeCatRig {
+  readonly state: FakeCatState;
+  private readonly family: CatFamily;
+  private server: net.Server | null = null;
+  private clients = new Set<Duplex>();
+
+  constructor(private readonly options: FakeCatOptions) {
+    this.family = CAT_FAMILIES[options.family];
+    this.state = {
+      frequencyHz: 14074000,
+      mode: 'USB',
+      bandwidthHz: 2700,
+      powerWatts: 50,
+      ptt: false,
+      smeter: this.family.smeter.s9,
+      meters: { swr: 15, alc: 60, powerWatts: 150, compDb: 0, idAmps: 160, vdVolts: 192 },
+      ai: false,
+      ...options.state,
+    };
+  }
+
+  /** Start listening; resolves with the bound port (useful with port 0). */
+  listen(): Promise<number> {
+    const server = net.createServer((socket) => this.attach(socket));
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve((server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  attach(stream: Duplex) {
+    this.clients.add(stream);
+    let buffer = '';
+    stream.setEncoding('latin1');
+    stream.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf(';')) >= 0) {
+        const command = buffer.slice(0, end).trim();
+        buffer = buffer.slice(end + 1);
+        const answer = this.handle(command);
+        if (answer) stream.write(`${answer};`);
+      }
+    });
+    stream.on('close', () => this.clients.delete(stream));
+    stream.on('error', () => this.clients.delete(stream));
+  }
+
+  close(): Promise<void> {
+    for (const client of this.clients) client.destroy();
+    this.clients.clear();
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  tune(hz: number) {
+    this.state.frequencyHz = hz;
+    this.pushInfo(`FA${formatCatFrequency(this.family, hz)}`);
+  }
+
+  selectMode(mode: RadioMode) {
+    const code = catModeToCode(this.family, mode);
+    if (!code) throw new Error(`${this.family.name} has no mode ${mode}`);
+    this.state.mode = mode;
+    this.pushInfo(`${this.family.modePrefix}${code}`);
+  }
+
+  // IF-style rigs report every change as a full IF; Yaesu sends the one field
+  private pushInfo(message: string) {
+    if (!this.state.ai) return;
+    const text = this.family.ptt === 'IF' ? this.ifAnswer() : message;
+    for (const client of this.clients) client.write(`${text};`);
+  }
+
+  private ifAnswer(): string {
+    const s = this.state;
+    const mode = catModeToCode(this.family, s.mode) ?? '2';
+    return `IF${pad(s.frequencyHz, 11)}00000+000000000${s.ptt ? 1 : 0}${mode}000000 `;
+  }
+
+  private handle(command: string): string | null {
+    const f = this.family;
+    const s = this.state;
+    const prefixOf = (query: string) => query.replace(/;$/, '');
+
+    if (command === 'FA') return `FA${formatCatFrequency(f, s.frequencyHz)}`;
+    if (/^FA\d+$/.test(command)) {
+      s.frequencyHz = Number(command.slice(2));
+      return null;
+    }
+    if (command === prefixOf(f.modeQuery)) return `${f.modePrefix}${catModeToCode(f, s.mode) ?? '2'}`;
+    if (command.startsWith(f.modePrefix) && command.length === f.modePrefix.length + 1) {
+      const mode = catModeFromCode(f, command.slice(f.modePrefix.length));
+      if (!mode) return '?';
+      s.mode = mode;
+      return null;
+    }
+    if (command === 'IF' && f.ptt === 'IF') return this.ifAnswer();
+    if (command === 'PC') return `PC${pad(s.powerWatts, 3)}`;
+    if (/^PC\d{3}$/.test(command)) {
+      s.powerWatts = Math.min(f.maxPowerWatts, Number(command.slice(2)));
+      return null;
+    }
+    if (command === prefixOf(f.txOn) || command === prefixOf(f.txOff)) {
+      s.ptt = command === prefixOf(f.txOn);
+      return null;
+    }
+    if (f.ptt !== 'IF' && command === prefixOf(f.ptt.query)) return `${f.ptt.prefix}${s.ptt ? 1 : 0}`;
+    if (command === prefixOf(f.smeter.query)) return `${f.smeter.prefix}${pad(s.smeter, f.smeter.max > 99 ? 3 : 4)}`;
+    for (const [name, meter] of Object.entries(f.meters) as Array<[MeterName, CatMeter]>) {
+      if (command !== prefixOf(meter.query)) continue;
+      const live = s.ptt || name === 'vdVolts';
+      return `${meter.prefix}${pad(live ? (s.meters[name] ?? 0) : 0, 3)}`;
+    }
+    if (f.bandwidth) {
+      const bw = f.bandwidth;
+      if (command === prefixOf(bw.query)) return `${bw.prefix}${pad(s.bandwidthHz / bw.unitHz, bw.digits)}`;
+      if (command.startsWith(bw.prefix) && /^\d+$/.test(command.slice(bw.prefix.length))) {
+        s.bandwidthHz = Number(command.slice(bw.prefix.length)) * bw.unitHz;
+        return null;
+      }
+    }
+    if (/^AI\d$/.test(command)) {
+      s.ai = command !== 'AI0';
+      return null;
+    }
+    return '?';
+  }
+}
@@ -0,0 +1,266 @@
+import type { Duplex } from 'node:stream';
+import type { RadioMode } from '../dtos.js';
+import {
+  CIV_BROADCAST,
+  CIV_CMD,
+  CIV_CW_STOP,
+  CIV_DEFAULT_ADDRESS,
+  CIV_FUNCS,
+  CIV_METERS,
+  CIV_NG,
+  CIV_OK,
+  CIV_RX_LEVELS,
+  CIV_SQUELCH_STATUS,
+  CIV_SUB,
+  CivFrameReader,
+  decodeBcd,
+  decodeFrequency,
+  decodeLevel,
+  decodeOffset,
+  encodeBcd,
+  encodeFrame,
+  encodeFrequency,
+  encodeLevel,
+  encodeOffset,
+  modeToCiv,
+  type CivFrame,
+  type CivMeterName,
+} from './civ-protocol.js';
+import { openSerialPort } from './serial-port.js';
+
+export interface FakeCivState {
+  frequencyHz: number;
+  // CI-V mode byte, filter number (1-3) and data mode flag
+  mode: number;
+  filter: number;
+  dataMode: boolean;
+  // 1A 03 passband index
+  passbandIndex: number;
+  // 0-255
+  rfPower: number;
+  ptt: boolean;
+  // 1C 01 tuner: 0 through, 1 in line
+  tuner: number;
+  // Raw 0-255 meter readings (S-meter 120 = S9, SWR 48 = 1.5); all but
+  // the S-meter and Vd read zero in receive
+  meters: Record<CivMeterName, number>;
+  // 16 xx settings by sub-command: preamp 0-2, AGC 1-3, switches 0/1
+  functions: Record<number, number>;
+  // 14 xx receive levels by sub-command, 0-255
+  rxLevels: Record<number, number>;
+  // 11: 0 or 20 dB
+  attenuatorDb: number;
+  // 21 xx: the shared RIT/ΔTX offset and their switches
+  offsetHz: number;
+  rit: boolean;
+  deltaTx: boolean;
+  // 14 0C keyer speed, 0-255, and everything 17 has been given to send
+  keyerSpeed: number;
+  cwSent: string;
+}
+
+export interface FakeCivOptions {
+  address?: number;
+  // Broadcast front-panel changes, as with "CI-V Transceive" on
+  transceive?: boolean;
+  // Repeat every received frame back, as a one-wire CI-V bus does
+  echo?: boolean;
+  state?: Partial<FakeCivState>;
+}
+
+/**
+ * An Icom rig's CI-V side, held in memory, for exercising CivAdapter without
+ * a radio. Attach it to any byte stream, or open one end of a pseudo-terminal
+ * pair, e.g. from `socat -d -d pty,raw,echo=0 pty,raw,echo=0`, and point the
+ * adapter at the other end. tune() and selectMode() act like the front panel
+ * and, with transceive on, broadcast the change.
+ */
+export class FakeCivRig {
+  readonly state: FakeCivState;
+  private stream: Duplex | null = null;
+  private readonly reader = new CivFrameReader();
+  private readonly address: number;
+
+  constructor(private readonly options: FakeCivOptions = {}) {
+    this.address = options.address ?? CIV_DEFAULT_ADDRESS;
+    this.state = {
+      frequencyHz: 14074000,
+      mode: 0x01,
+      filter: 1,
+      dataMode: true,
+      passbandIndex: 34, // 3000 Hz
+      rfPower: 128,
+      ptt: false,
+      tuner: 0,
+      attenuatorDb: 0,
+      offsetHz: 0,
+      rit: false,
+      deltaTx: false,
+      keyerSpeed: 85,
+      cwSent: '',
+      ...options.state,
+      meters: {
+        strength: 60,
+        powerWatts: 143,
+        swr: 10,
+        alc: 40,
+        compDb: 0,
+        vdVolts: 157,
+        idAmps: 146,
+        ...options.state?.meters,
+      },
+      functions: {
+        [CIV_SUB.PREAMP]: 1,
+        [CIV_SUB.AGC]: 2,
+        [CIV_FUNCS.nb]: 0,
+        [CIV_FUNCS.nr]: 0,
+        [CIV_FUNCS.autoNotch]: 0,
+        [CIV_FUNCS.manualNotch]: 0,
+        ...options.state?.functions,
+      },
+      rxLevels: {
+        [CIV_RX_LEVELS.afGain]: 100,
+        [CIV_RX_LEVELS.rfGain]: 255,
+        [CIV_RX_LEVELS.squelch]: 0,
+        [CIV_RX_LEVELS.nrLevel]: 128,
+        ...options.state?.rxLevels,
+      },
+    };
+  }
+
+  attach(stream: Duplex) {
+    this.stream = stream;
+    stream.on('data', (chunk: Buffer) => {
+      if (this.options.echo) stream.write(chunk);
+      for (const frame of this.reader.push(chunk)) this.handle(frame);
+    });
+  }
+
+  /** Serve on a serial device or pty path. */
+  async open(path: string, baudRate = 19200) {
+    this.attach(await openSerialPort(path, baudRate));
+  }
+
+  close() {
+    this.stream?.destroy();
+    this.stream = null;
+  }
+
+  tune(hz: number) {
+    this.state.frequencyHz = hz;
+    this.broadcast(CIV_CMD.TRANSCEIVE_FREQ, encodeFrequency(hz));
+  }
+
+  selectMode(mode: RadioMode, filter = 1) {
+    const civ = modeToCiv(mode);
+    if (!civ) throw new Error(`no CI-V mode for ${mode}`);
+    Object.assign(this.state, { mode: civ.code, dataMode: civ.data, filter });
+    this.broadcast(CIV_CMD.TRANSCEIVE_MODE, [civ.code, filter]);
+  }
+
+  private broadcast(command: number, data: number[]) {
+    if (this.options.transceive === false) return;
+    this.stream?.write(encodeFrame(CIV_BROADCAST, this.address, command, data));
+  }
+
+  private handle(frame: CivFrame) {
+    if (frame.to !== this.address) return;
+    const reply = (command: number, data: number[] = []) =>
+      this.stream?.write(encodeFrame(frame.from, this.address, command, data));
+    const ok = () => reply(CIV_OK);
+    const s = this.state;
+    const [sub, ...args] = frame.data;
+
+    switch (frame.command) {
+      case CIV_CMD.READ_FREQ:
+        return reply(CIV_CMD.READ_FREQ, encodeFrequency(s.frequencyHz));
+      case CIV_CMD.SET_FREQ:
+        s.frequencyHz = decodeFrequency(frame.data);
+        return ok();
+      case CIV_CMD.READ_MODE:
+        return reply(CIV_CMD.READ_MODE, [s.mode, s.filter]);
+      case CIV_CMD.SET_MODE:
+        s.mode = frame.data[0] ?? s.mode;
+        s.filter = frame.data[1] ?? 1;
+        return ok();
+      case CIV_CMD.LEVEL:
+        if (sub === CIV_SUB.RF_POWER) {
+          if (args.length === 0) return reply(CIV_CMD.LEVEL, [sub, ...encodeLevel(s.rfPower)]);
+          s.rfPower = decodeLevel(Buffer.from(args));
+          return ok();
+        }
+        if (sub === CIV_SUB.KEYER_SPEED) {
+          if (args.length === 0) return reply(CIV_CMD.LEVEL, [sub, ...encodeLevel(s.keyerSpeed)]);
+          s.keyerSpeed = decodeLevel(Buffer.from(args));
+          return ok();
+        }
+        if (sub === undefined || !(sub in s.rxLevels)) break;
+        if (args.length === 0) return reply(CIV_CMD.LEVEL, [sub, ...encodeLevel(s.rxLevels[sub]!)]);
+        s.rxLevels[sub] = decodeLevel(Buffer.from(args));
+        return ok();
+      case CIV_CMD.FUNCTION:
+        if (sub === undefined || !(sub in s.functions)) break;
+        if (args.length === 0) return reply(CIV_CMD.FUNCTION, [sub, s.functions[sub]!]);
+        s.functions[sub] = args[0]!;
+        return ok();
+      case CIV_CMD.ATTENUATOR:
+        if (frame.data.length === 0) return reply(CIV_CMD.ATTENUATOR, [encodeBcd(s.attenuatorDb)]);
+        s.attenuatorDb = decodeBcd(frame.data[0]!);
+        return ok();
+      case CIV_CMD.METER: {
+        // Opens once the signal reaches the squelch knob, which both run 0-255
+        if (sub === CIV_SQUELCH_STATUS) {
+          const open = !s.ptt && s.meters.strength >= s.rxLevels[CIV_RX_LEVELS.squelch]!;
+          return reply(CIV_CMD.METER, [sub, open ? 1 : 0]);
+        }
+        const meter = (Object.keys(CIV_METERS) as CivMeterName[]).find((name) => CIV_METERS[name].sub === sub);
+        if (!meter) break;
+        const live = s.ptt ? meter !== 'strength' : meter === 'strength' || meter === 'vdVolts';
+        return reply(CIV_CMD.METER, [CIV_METERS[meter].sub, ...encodeLevel(live ? s.meters[meter] : 0)]);
+      }
+      case CIV_CMD.EXTENDED:
+        if (sub === CIV_SUB.PASSBAND) {
+          if (args.length === 0) return reply(CIV_CMD.EXTENDED, [sub, encodeBcd(s.passbandIndex)]);
+          s.passbandIndex = decodeBcd(args[0]!);
+          return ok();
+        }
+        if (sub === CIV_SUB.DATA_MODE) {
+          if (args.length === 0) return reply(CIV_CMD.EXTENDED, [sub, s.dataMode ? 1 : 0, s.dataMode ? s.filter : 0]);
+          s.dataMode = args[0] !== 0;
+          return ok();
+        }
+        break;
+      case CIV_CMD.OFFSET:
+        if (sub === CIV_SUB.OFFSET_HZ) {
+          if (args.length === 0) return reply(CIV_CMD.OFFSET, [sub, ...encodeOffset(s.offsetHz)]);
+          s.offsetHz = decodeOffset(Buffer.from(args));
+          return ok();
+        }
+        if (sub === CIV_SUB.RIT || sub === CIV_SUB.DELTA_TX) {
+          const key = sub === CIV_SUB.RIT ? 'rit' : 'deltaTx';
+          if (args.length === 0) return reply(CIV_CMD.OFFSET, [sub, s[key] ? 1 : 0]);
+          s[key] = args[0] !== 0;
+          return ok();
+        }
+        break;
+      case CIV_CMD.SEND_CW:
+        if (sub === CIV_CW_STOP) return ok();
+        // The keyer only runs in CW and CW-R
+        if (frame.data.length === 0 || (s.mode !== 0x03 && s.mode !== 0x07)) break;
+        s.cwSent += frame.data.toString('ascii');
+        return ok();
+      case CIV_CMD.TX:
+        if (sub === CIV_SUB.TUNER) {
+          if (args.length === 0) return reply(CIV_CMD.TX, [sub, s.tuner]);
+          // The tune finishes at once, leaving the tuner in line
+          s.tuner = args[0] === 0 ? 0 : 1;
+          return ok();
+        }
+        if (sub !== CIV_SUB.PTT) break;
+        if (args.length === 0) return reply(CIV_CMD.TX, [sub, s.ptt ? 1 : 0]);
+        s.ptt = args[0] !== 0;
+        return ok();
+    }
+    reply(CIV_NG);
+  }
+}
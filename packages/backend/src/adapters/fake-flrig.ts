@@ -0,0 +1,154 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  XmlRpcDouble,
+  encodeFault,
+  encodeMethodResponse,
+  parseMethodCall,
+  type XmlRpcValue,
+} from './xmlrpc.js';
+
+export interface FakeFlrigState {
+  xcvr: string;
+  modes: string[];
+  bandwidths: number[];
+  frequencyHz: number;
+  mode: string;
+  bandwidthHz: number;
+  powerWatts: number;
+  maxPowerWatts: number;
+  ptt: boolean;
+  swr: number;
+  // flrig's 0-100 S-meter bar
+  smeter: number;
+}
+
+export interface FakeFlrigOptions {
+  host?: string;
+  port?: number;
+  state?: Partial<FakeFlrigState>;
+}
+
+type Handler = (state: FakeFlrigState, params: XmlRpcValue[]) => XmlRpcValue;
+
+class Fault extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function param<T extends XmlRpcValue>(params: XmlRpcValue[], type: 'number' | 'string'): T {
+  const value = params[0];
+  if (typeof value !== type) throw new Fault(-1, `type error: expected ${type}`);
+  return value as T;
+}
+
+// The subset of flrig's rig.* methods the adapter uses, with flrig's reply types
+const METHODS: Record<string, Handler> = {
+  'rig.get_xcvr': (s) => s.xcvr,
+  'rig.get_modes': (s) => s.modes,
+  'rig.get_vfo': (s) => String(s.frequencyHz),
+  'rig.set_frequency': (s, p) => {
+    s.frequencyHz = Math.round(param<number>(p, 'number'));
+    return new XmlRpcDouble(s.frequencyHz);
+  },
+  'rig.get_mode': (s) => s.mode,
+  'rig.set_mode': (s, p) => {
+    const mode = param<string>(p, 'string');
+    if (!s.modes.includes(mode)) throw new Fault(-1, `invalid mode ${mode}`);
+    s.mode = mode;
+    return 0;
+  },
+  'rig.get_bw': (s) => [String(s.bandwidthHz), ''],
+  'rig.set_bandwidth': (s, p) => {
+    // Snaps to the nearest filter the rig has, as flrig does
+    const want = param<number>(p, 'number');
+    s.bandwidthHz = s.bandwidths.reduce((best, bw) => (Math.abs(bw - want) < Math.abs(best - want) ? bw : best));
+    return s.bandwidthHz;
+  },
+  'rig.get_power': (s) => s.powerWatts,
+  'rig.set_power': (s, p) => {
+    s.powerWatts = Math.max(0, Math.min(s.maxPowerWatts, param<number>(p, 'number')));
+    return 0;
+  },
+  'rig.get_maxpwr': (s) => s.maxPowerWatts,
+  'rig.get_ptt': (s) => (s.ptt ? 1 : 0),
+  'rig.set_ptt': (s, p) => {
+    s.ptt = param<number>(p, 'number') !== 0;
+    return 0;
+  },
+  'rig.get_swr': (s) => String(s.swr),
+  'rig.get_smeter': (s) => s.smeter,
+  // Power out in watts; the meter rests at zero in receive
+  'rig.get_pwrmeter': (s) => String(s.ptt ? s.powerWatts : 0),
+};
+
+/**
+ * A stand-in for flrig's XML-RPC server, holding a rig's state in memory, so
+ * FlrigAdapter can be exercised without flrig or a radio. Unknown methods
+ * fault the way flrig does; `state` can be changed directly between calls.
+ */
+export class FakeFlrigServer {
+  readonly state: FakeFlrigState;
+  private server: http.Server | null = null;
+
+  constructor(private readonly options: FakeFlrigOptions = {}) {
+    this.state = {
+      xcvr: 'IC-7300',
+      modes: ['LSB', 'USB', 'AM', 'CW', 'RTTY', 'FM', 'CW-R', 'RTTY-R', 'LSB-D', 'USB-D', 'AM-D', 'FM-D'],
+      bandwidths: [50, 100, 250, 500, 1200, 1800, 2400, 2700, 3000, 3600],
+      frequencyHz: 14074000,
+      mode: 'USB-D',
+      bandwidthHz: 3000,
+      powerWatts: 50,
+      maxPowerWatts: 100,
+      ptt: false,
+      swr: 1.2,
+      smeter: 32,
+      ...options.state,
+    };
+  }
+
+  /** Start listening; resolves with the bound port (useful with port 0). */
+  listen(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', (chunk: string) => (body += chunk));
+      req.on('end', () => {
+        res.writeHead(200, { 'Content-Type': 'text/xml' });
+        res.end(this.handle(body));
+      });
+    });
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve((server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  private handle(body: string): string {
+    try {
+      const { method, params } = parseMethodCall(body);
+      const handler = METHODS[method];
+      if (!handler) return encodeFault(-1, `No such method '${method}'`);
+      return encodeMethodResponse(handler(this.state, params));
+    } catch (e) {
+      return e instanceof Fault ? encodeFault(e.code, e.message) : encodeFault(-1, (e as Error).message);
+    }
+  }
+}
@@ -0,0 +1,669 @@
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import type { RadioMode, RadioVfo } from '../dtos.js';
+import { RigError } from '../errors.js';
+import { defaultPassband, lookupHamlibMode, toHamlibMode } from '../modes.js';
+import { CTCSS_TONES, DCS_CODES } from '../repeater.js';
+import { fromHamlibVfo, rprtCodeFor, toHamlibVfo } from './hamlib-protocol.js';
+
+export interface FakeRigctldState {
+  rigModel: string;
+  manufacturer: string;
+  modes: RadioMode[];
+  maxPowerWatts: number;
+  frequencyHz: number;
+  mode: RadioMode;
+  bandwidthHz: number;
+  vfo: RadioVfo;
+  split: boolean;
+  txVfo: RadioVfo;
+  txFrequencyHz: number;
+  txMode: RadioMode;
+  txBandwidthHz: number;
+  // RFPOWER as Hamlib reports it, 0-1
+  power: number;
+  ptt: boolean;
+  // STRENGTH in dB relative to S9, as Hamlib reports it
+  strength: number;
+  // TX meters, in the units Hamlib reports them
+  swr: number;
+  alc: number;
+  powerOutWatts: number;
+  compDb: number;
+  idAmps: number;
+  vdVolts: number;
+  // Functions, and the levels besides RFPOWER, by Hamlib token (NB, RIT,
+  // AGC, PREAMP...); AGC is Hamlib's agc_level_e number, NOTCHF/IF are Hz and
+  // PREAMP/ATT dB and KEYSPD words per minute
+  funcs: Record<string, boolean>;
+  rxLevels: Record<string, number>;
+  preamps: number[];
+  attenuators: number[];
+  // Clarifiers, in Hz; on/off are the RIT and XIT functions
+  ritHz: number;
+  xitHz: number;
+  maxRitHz: number;
+  maxXitHz: number;
+  maxIfShiftHz: number;
+  // Everything handed to send_morse, in order
+  morseSent: string[];
+  // Tune cycles started with vfo_op TUNE; the tuner is the TUNER function
+  tunes: number;
+  // Repeater: shift as rigctld spells it (+, -, None), offset in Hz, tones
+  // in tenths of a hertz as Hamlib passes them; on/off are the TONE, TSQL,
+  // CSQL and REV functions
+  rptrShift: string;
+  rptrOffsetHz: number;
+  ctcssTone: number;
+  ctcssSql: number;
+  dcsCode: number;
+  dcsSql: number;
+  ctcssTones: number[];
+  dcsCodes: number[];
+}
+
+/**
+ * A scripted misbehaviour. Each command received is checked against the
+ * injected faults in order and the first match applies.
+ */
+export interface FakeRigctldFault {
+  // Long command name ("get_freq"), or "*" for any command
+  command: string;
+  // Hold the reply back this long; a command that is also dropped or
+  // answered with an error waits first
+  delayMs?: number;
+  // Answer with this RPRT code instead of running the command, e.g. -5
+  rprt?: number;
+  // Close the client's connection instead of answering
+  drop?: boolean;
+  // Matching commands this applies to before it expires; unlimited if omitted
+  times?: number;
+}
+
+export interface FakeRigctldOptions {
+  host?: string;
+  port?: number;
+  state?: Partial<FakeRigctldState>;
+  faults?: FakeRigctldFault[];
+}
+
+type Value = string | number;
+
+interface CommandSpec {
+  name: string;
+  short?: string;
+  args: number;
+  // Labels for each returned value in the extended protocol
+  keys?: string[];
+  // Free-text output (dump_caps, dump_state) rather than one value per line
+  raw?: boolean;
+  // Takes the rest of the line, spaces included, as its one argument
+  restOfLine?: boolean;
+  run(state: FakeRigctldState, args: string[]): Value[] | void;
+}
+
+function parseNumber(raw: string | undefined, what: string): number {
+  const n = Number(raw);
+  if (raw === undefined || !Number.isFinite(n)) throw new RigError('invalid', `invalid ${what} "${raw ?? ''}"`);
+  return n;
+}
+
+function parseMode(state: FakeRigctldState, name: string | undefined): RadioMode {
+  const mode = name === undefined ? undefined : lookupHamlibMode(name);
+  if (!mode || !state.modes.includes(mode)) throw new RigError('invalid', `unknown mode "${name ?? ''}"`);
+  return mode;
+}
+
+// Hamlib passband: 0 is the mode's normal width, -1 leaves it unchanged
+function parsePassband(raw: string | undefined, mode: RadioMode, current: number): number {
+  const hz = raw === undefined ? 0 : parseNumber(raw, 'passband');
+  if (hz < 0) return current;
+  return hz === 0 ? defaultPassband(mode) : hz;
+}
+
+// Whole-number levels go out without decimals, as Hamlib prints them
+const INTEGER_LEVELS = new Set(['AGC', 'NOTCHF', 'PREAMP', 'ATT', 'IF', 'KEYSPD']);
+
+// As Hamlib's dump_caps prints them, Hz remainder unpadded
+const kHz = (hz: number) => `${Math.floor(hz / 1000)}.${hz % 1000}kHz`;
+
+function checkOffset(hz: number, max: number, what: string) {
+  if (Math.abs(hz) > max) throw new RigError('invalid', `${what} ${hz} Hz is beyond ${max} Hz`, -17);
+}
+
+function checkTone(tenths: number, s: FakeRigctldState) {
+  if (!s.ctcssTones.includes(tenths / 10)) throw new RigError('invalid', `CTCSS ${tenths / 10} Hz not available`, -1);
+}
+
+function checkDcs(code: number, s: FakeRigctldState) {
+  if (!s.dcsCodes.includes(code)) throw new RigError('invalid', `DCS ${code} not available`, -1);
+}
+
+function dumpCaps(s: FakeRigctldState): string[] {
+  const rxLevels = Object.keys(s.rxLevels).join(' ');
+  const funcs = Object.keys(s.funcs).join(' ');
+  const steps = (db: number[]) => (db.length ? db.map((d) => `${d}dB`).join(' ') : 'None');
+  return [
+    'Caps dump for model: 1',
+    `Model name:\t${s.rigModel}`,
+    `Mfg name:\t${s.manufacturer}`,
+    `Mode list: ${s.modes.map(toHamlibMode).join(' ')}`,
+    'VFO list: VFOA VFOB',
+    'VFO Ops: CPY XCHG TUNE',
+    `Get level: RFPOWER STRENGTH SWR ALC RFPOWER_METER RFPOWER_METER_WATTS COMP_METER ID_METER VD_METER ${rxLevels}`,
+    `Set level: RFPOWER ${rxLevels}`,
+    `Get functions: ${funcs}`,
+    `Set functions: ${funcs}`,
+    `Preamp: ${steps(s.preamps)}`,
+    `Attenuator: ${steps(s.attenuators)}`,
+    `Max RIT: -${kHz(s.maxRitHz)}/+${kHz(s.maxRitHz)}`,
+    `Max XIT: -${kHz(s.maxXitHz)}/+${kHz(s.maxXitHz)}`,
+    `Max IF-SHIFT: -${kHz(s.maxIfShiftHz)}/+${kHz(s.maxIfShiftHz)}`,
+    `CTCSS: ${s.ctcssTones.length ? `${s.ctcssTones.map((hz) => hz.toFixed(1)).join(' ')} Hz, ${s.ctcssTones.length} tones` : 'None'}`,
+    `DCS: ${s.dcsCodes.length ? `${s.dcsCodes.join(' ')}, ${s.dcsCodes.length} codes` : 'None'}`,
+    'Can set Rptr Shift:\tY',
+    'Can get Rptr Shift:\tY',
+    'Can set Rptr Offset:\tY',
+    'Can get Rptr Offset:\tY',
+    'Can set Split VFO:\tY',
+    'Can get Split VFO:\tY',
+    'Can set PTT:\tY',
+    'Can send Morse:\tY',
+    'TX ranges #1 for Fake:',
+    '\t100000 Hz - 60000000 Hz',
+    `\t\tLow power: 1 W, High power: ${s.maxPowerWatts} W`,
+  ];
+}
+
+const COMMANDS: CommandSpec[] = [
+  { name: 'get_freq', short: 'f', args: 0, keys: ['Frequency'], run: (s) => [s.frequencyHz] },
+  {
+    name: 'set_freq',
+    short: 'F',
+    args: 1,
+    run: (s, [hz]) => {
+      s.frequencyHz = Math.round(parseNumber(hz, 'frequency'));
+    },
+  },
+  { name: 'get_mode', short: 'm', args: 0, keys: ['Mode', 'Passband'], run: (s) => [toHamlibMode(s.mode), s.bandwidthHz] },
+  {
+    name: 'set_mode',
+    short: 'M',
+    args: 2,
+    run: (s, [mode, pb]) => {
+      s.mode = parseMode(s, mode);
+      s.bandwidthHz = parsePassband(pb, s.mode, s.bandwidthHz);
+    },
+  },
+  { name: 'get_vfo', short: 'v', args: 0, keys: ['VFO'], run: (s) => [toHamlibVfo(s.vfo)] },
+  {
+    name: 'set_vfo',
+    short: 'V',
+    args: 1,
+    run: (s, [vfo]) => {
+      s.vfo = fromHamlibVfo(vfo ?? '');
+    },
+  },
+  { name: 'get_ptt', short: 't', args: 0, keys: ['PTT'], run: (s) => [s.ptt ? 1 : 0] },
+  // Squelch open once the signal reaches the SQL level, mapped onto S0 to S9+60
+  {
+    name: 'get_dcd',
+    args: 0,
+    keys: ['DCD'],
+    run: (s) => [!s.ptt && s.strength >= -54 + s.rxLevels.SQL! * 114 ? 1 : 0],
+  },
+  {
+    name: 'set_ptt',
+    short: 'T',
+    args: 1,
+    run: (s, [ptt]) => {
+      s.ptt = parseNumber(ptt, 'PTT') !== 0;
+    },
+  },
+  {
+    name: 'get_split_vfo',
+    short: 's',
+    args: 0,
+    keys: ['Split', 'TX VFO'],
+    run: (s) => [s.split ? 1 : 0, toHamlibVfo(s.split ? s.txVfo : s.vfo)],
+  },
+  {
+    name: 'set_split_vfo',
+    short: 'S',
+    args: 2,
+    run: (s, [split, txVfo]) => {
+      s.split = parseNumber(split, 'split') !== 0;
+      if (txVfo) s.txVfo = fromHamlibVfo(txVfo);
+    },
+  },
+  { name: 'get_split_freq', short: 'i', args: 0, keys: ['TX Frequency'], run: (s) => [s.txFrequencyHz] },
+  {
+    name: 'set_split_freq',
+    short: 'I',
+    args: 1,
+    run: (s, [hz]) => {
+      s.txFrequencyHz = Math.round(parseNumber(hz, 'frequency'));
+    },
+  },
+  {
+    name: 'get_split_mode',
+    short: 'x',
+    args: 0,
+    keys: ['TX Mode', 'TX Passband'],
+    run: (s) => [toHamlibMode(s.txMode), s.txBandwidthHz],
+  },
+  {
+    name: 'set_split_mode',
+    short: 'X',
+    args: 2,
+    run: (s, [mode, pb]) => {
+      s.txMode = parseMode(s, mode);
+      s.txBandwidthHz = parsePassband(pb, s.txMode, s.txBandwidthHz);
+    },
+  },
+  {
+    name: 'get_level',
+    short: 'l',
+    args: 1,
+    keys: ['Level Value'],
+    run: (s, [level]) => {
+      switch (level?.toUpperCase()) {
+        case 'RFPOWER':
+          return [s.power.toFixed(6)];
+        case 'STRENGTH':
+          return [Math.round(s.strength)];
+        case 'SWR':
+          return [s.swr.toFixed(6)];
+        case 'ALC':
+          return [s.alc.toFixed(6)];
+        case 'RFPOWER_METER':
+          return [(s.powerOutWatts / s.maxPowerWatts).toFixed(6)];
+        case 'RFPOWER_METER_WATTS':
+          return [s.powerOutWatts.toFixed(6)];
+        case 'COMP_METER':
+          return [s.compDb.toFixed(6)];
+        case 'ID_METER':
+          return [s.idAmps.toFixed(6)];
+        case 'VD_METER':
+          return [s.vdVolts.toFixed(6)];
+      }
+      const name = level?.toUpperCase() ?? '';
+      const value = s.rxLevels[name];
+      if (value === undefined) throw new RigError('not_supported', `level ${level ?? ''} not supported`);
+      return [INTEGER_LEVELS.has(name) ? Math.round(value) : value.toFixed(6)];
+    },
+  },
+  {
+    name: 'set_level',
+    short: 'L',
+    args: 2,
+    run: (s, [level, value]) => {
+      const name = level?.toUpperCase() ?? '';
+      const n = parseNumber(value, 'level');
+      if (name === 'RFPOWER') {
+        if (n < 0 || n > 1) throw new RigError('invalid', `RFPOWER ${n} is outside 0-1`, -17);
+        s.power = n;
+        return;
+      }
+      if (!(name in s.rxLevels)) throw new RigError('not_supported', `level ${level ?? ''} not supported`);
+      const steps = name === 'PREAMP' ? s.preamps : name === 'ATT' ? s.attenuators : undefined;
+      if (steps && n !== 0 && !steps.includes(n)) throw new RigError('invalid', `${name} ${n} dB not available`, -17);
+      if (name === 'IF') checkOffset(n, s.maxIfShiftHz, 'IF shift');
+      else if (!INTEGER_LEVELS.has(name) && (n < 0 || n > 1)) {
+        throw new RigError('invalid', `${name} ${n} is outside 0-1`, -17);
+      }
+      s.rxLevels[name] = n;
+    },
+  },
+  {
+    name: 'get_func',
+    short: 'u',
+    args: 1,
+    keys: ['Func Status'],
+    run: (s, [func]) => {
+      const on = s.funcs[func?.toUpperCase() ?? ''];
+      if (on === undefined) throw new RigError('not_supported', `function ${func ?? ''} not supported`);
+      return [on ? 1 : 0];
+    },
+  },
+  {
+    name: 'set_func',
+    short: 'U',
+    args: 2,
+    run: (s, [func, status]) => {
+      const name = func?.toUpperCase() ?? '';
+      if (!(name in s.funcs)) throw new RigError('not_supported', `function ${func ?? ''} not supported`);
+      s.funcs[name] = parseNumber(status, 'status') !== 0;
+    },
+  },
+  { name: 'get_rit', short: 'j', args: 0, keys: ['RIT'], run: (s) => [s.ritHz] },
+  {
+    name: 'set_rit',
+    short: 'J',
+    args: 1,
+    run: (s, [hz]) => {
+      const n = Math.round(parseNumber(hz, 'RIT offset'));
+      checkOffset(n, s.maxRitHz, 'RIT');
+      s.ritHz = n;
+    },
+  },
+  { name: 'get_xit', short: 'z', args: 0, keys: ['XIT'], run: (s) => [s.xitHz] },
+  {
+    name: 'set_xit',
+    short: 'Z',
+    args: 1,
+    run: (s, [hz]) => {
+      const n = Math.round(parseNumber(hz, 'XIT offset'));
+      checkOffset(n, s.maxXitHz, 'XIT');
+      s.xitHz = n;
+    },
+  },
+  { name: 'get_rptr_shift', short: 'r', args: 0, keys: ['Rptr Shift'], run: (s) => [s.rptrShift] },
+  {
+    name: 'set_rptr_shift',
+    short: 'R',
+    args: 1,
+    run: (s, [shift]) => {
+      s.rptrShift = shift === '+' || shift === '-' ? shift : 'None';
+    },
+  },
+  { name: 'get_rptr_offs', short: 'o', args: 0, keys: ['Rptr Offset'], run: (s) => [s.rptrOffsetHz] },
+  {
+    name: 'set_rptr_offs',
+    short: 'O',
+    args: 1,
+    run: (s, [hz]) => {
+      s.rptrOffsetHz = Math.round(parseNumber(hz, 'repeater offset'));
+    },
+  },
+  { name: 'get_ctcss_tone', short: 'c', args: 0, keys: ['CTCSS Tone'], run: (s) => [s.ctcssTone] },
+  {
+    name: 'set_ctcss_tone',
+    short: 'C',
+    args: 1,
+    run: (s, [tone]) => {
+      const tenths = parseNumber(tone, 'CTCSS tone');
+      checkTone(tenths, s);
+      s.ctcssTone = tenths;
+    },
+  },
+  { name: 'get_ctcss_sql', args: 0, keys: ['CTCSS Sql'], run: (s) => [s.ctcssSql] },
+  {
+    name: 'set_ctcss_sql',
+    args: 1,
+    run: (s, [tone]) => {
+      const tenths = parseNumber(tone, 'CTCSS tone');
+      checkTone(tenths, s);
+      s.ctcssSql = tenths;
+    },
+  },
+  { name: 'get_dcs_code', short: 'd', args: 0, keys: ['DCS Code'], run: (s) => [s.dcsCode] },
+  {
+    name: 'set_dcs_code',
+    short: 'D',
+    args: 1,
+    run: (s, [code]) => {
+      const n = parseNumber(code, 'DCS code');
+      checkDcs(n, s);
+      s.dcsCode = n;
+    },
+  },
+  { name: 'get_dcs_sql', args: 0, keys: ['DCS Sql'], run: (s) => [s.dcsSql] },
+  {
+    name: 'set_dcs_sql',
+    args: 1,
+    run: (s, [code]) => {
+      const n = parseNumber(code, 'DCS code');
+      checkDcs(n, s);
+      s.dcsSql = n;
+    },
+  },
+  {
+    name: 'send_morse',
+    short: 'b',
+    args: 1,
+    restOfLine: true,
+    run: (s, [text]) => {
+      if (!text) throw new RigError('invalid', 'nothing to send', -1);
+      s.morseSent.push(text);
+    },
+  },
+  { name: 'stop_morse', args: 0, run: () => {} },
+  {
+    name: 'vfo_op',
+    short: 'G',
+    args: 1,
+    run: (s, [op]) => {
+      switch (op?.toUpperCase()) {
+        case 'CPY':
+          Object.assign(s, { txFrequencyHz: s.frequencyHz, txMode: s.mode, txBandwidthHz: s.bandwidthHz });
+          return;
+        case 'XCHG':
+          Object.assign(s, {
+            frequencyHz: s.txFrequencyHz,
+            mode: s.txMode,
+            bandwidthHz: s.txBandwidthHz,
+            txFrequencyHz: s.frequencyHz,
+            txMode: s.mode,
+            txBandwidthHz: s.bandwidthHz,
+          });
+          return;
+        case 'TUNE':
+          s.tunes++;
+          return;
+        default:
+          throw new RigError('not_supported', `VFO op ${op ?? ''} not supported`);
+      }
+    },
+  },
+  { name: 'get_info', short: '_', args: 0, keys: ['Info'], run: (s) => [s.rigModel] },
+  { name: 'get_powerstat', args: 0, keys: ['Power Status'], run: () => [1] },
+  { name: 'chk_vfo', args: 0, keys: ['ChkVFO'], run: () => [0] },
+  { name: 'dump_caps', short: '1', args: 0, raw: true, run: (s) => dumpCaps(s) },
+];
+
+const BY_NAME = new Map(COMMANDS.map((c) => [c.name, c]));
+const BY_SHORT = new Map(COMMANDS.filter((c) => c.short).map((c) => [c.short!, c]));
+
+/**
+ * rigctld's TCP side held in memory, for running RigctldAdapter, RadioService
+ * and everything above them without a radio. It speaks both the normal and
+ * the extended protocol, and faults can be scripted per command: replies held
+ * back (to trip timeouts), errors answered as RPRT codes, and connections
+ * dropped mid-command (to exercise reconnects). close() followed by listen()
+ * comes back on the same port, as a restarted rigctld would.
+ */
+export class FakeRigctld {
+  readonly state: FakeRigctldState;
+  // Long names of the commands received, in order, for assertions
+  readonly received: string[] = [];
+  private faults: FakeRigctldFault[];
+  private server: net.Server | null = null;
+  private readonly clients = new Set<net.Socket>();
+  private port: number;
+
+  constructor(private readonly options: FakeRigctldOptions = {}) {
+    this.port = options.port ?? 0;
+    this.faults = [...(options.faults ?? [])];
+    const mode = options.state?.mode ?? 'USB';
+    this.state = {
+      rigModel: 'Dummy',
+      manufacturer: 'Hamlib',
+      modes: ['LSB', 'USB', 'CW', 'CWR', 'AM', 'FM', 'RTTY', 'PKTLSB', 'PKTUSB'],
+      maxPowerWatts: 100,
+      frequencyHz: 14074000,
+      mode,
+      bandwidthHz: defaultPassband(mode),
+      vfo: 'A',
+      split: false,
+      txVfo: 'B',
+      txFrequencyHz: 14076000,
+      txMode: mode,
+      txBandwidthHz: defaultPassband(mode),
+      power: 0.5,
+      ptt: false,
+      strength: -20,
+      swr: 1.2,
+      alc: 0.3,
+      powerOutWatts: 50,
+      compDb: 0,
+      idAmps: 12,
+      vdVolts: 13.8,
+      funcs: { NB: false, NR: false, ANF: false, MN: false, RIT: false, XIT: false, TONE: false, TSQL: false, CSQL: false, REV: false, TUNER: false },
+      rxLevels: { AGC: 5, NR: 0.5, NOTCHF: 1500, PREAMP: 0, ATT: 0, RF: 1, AF: 0.4, SQL: 0, IF: 0, KEYSPD: 20 },
+      preamps: [10, 20],
+      attenuators: [6, 12, 18],
+      ritHz: 0,
+      xitHz: 0,
+      maxRitHz: 9990,
+      maxXitHz: 9990,
+      maxIfShiftHz: 1200,
+      morseSent: [],
+      tunes: 0,
+      rptrShift: 'None',
+      rptrOffsetHz: 600000,
+      ctcssTone: 885,
+      ctcssSql: 885,
+      dcsCode: 23,
+      dcsSql: 23,
+      ctcssTones: [...CTCSS_TONES],
+      dcsCodes: [...DCS_CODES],
+      ...options.state,
+    };
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /** Start listening; resolves with the bound port (useful with port 0). */
+  listen(): Promise<number> {
+    const server = net.createServer((socket) => this.onClient(socket));
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        this.port = (server.address() as AddressInfo).port;
+        resolve(this.port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    this.dropClients();
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  /** Add a fault; it is checked after any injected earlier. */
+  inject(fault: FakeRigctldFault) {
+    this.faults.push({ ...fault });
+  }
+
+  clearFaults() {
+    this.faults = [];
+  }
+
+  /** Cut every client off now, as rigctld does when it loses the rig. */
+  dropClients() {
+    for (const socket of this.clients) socket.destroy();
+    this.clients.clear();
+  }
+
+  private onClient(socket: net.Socket) {
+    this.clients.add(socket);
+    let buffer = '';
+    // One command at a time per client, answered in the order received
+    let queue = Promise.resolve();
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let nl: number;
+      while ((nl = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, nl).replace(/\r$/, '');
+        buffer = buffer.slice(nl + 1);
+        queue = queue.then(() => this.handleLine(socket, line));
+      }
+    });
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.clients.delete(socket));
+  }
+
+  private takeFault(name: string): FakeRigctldFault | undefined {
+    const index = this.faults.findIndex((f) => f.command === '*' || f.command === name);
+    const fault = this.faults[index];
+    if (!fault) return undefined;
+    if (fault.times !== undefined && --fault.times <= 0) this.faults.splice(index, 1);
+    return fault;
+  }
+
+  private async handleLine(socket: net.Socket, line: string) {
+    let text = line.trim();
+    if (text.length === 0 || socket.destroyed) return;
+
+    // Extended response protocol: a leading separator character
+    let separator: string | null = null;
+    if ('+;|,'.includes(text[0]!)) {
+      separator = text[0] === '+' ? '\n' : text[0]!;
+      text = text.slice(1).trim();
+    }
+
+    const [token = '', ...args] = text.split(/\s+/);
+    if (token === 'q' || token === 'Q' || token === '\\quit') {
+      socket.end();
+      return;
+    }
+
+    const command = token.startsWith('\\') ? BY_NAME.get(token.slice(1)) : BY_SHORT.get(token);
+    const name = command?.name ?? token.replace(/^\\/, '');
+    const used = command?.restOfLine ? [args.join(' ')] : command ? args.slice(0, command.args) : args;
+    this.received.push(name);
+
+    const fault = this.takeFault(name);
+    if (fault?.delayMs) await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+    if (socket.destroyed) return;
+    if (fault?.drop) {
+      socket.destroy();
+      return;
+    }
+
+    let values: Value[] | void = undefined;
+    let code = fault?.rprt ?? 0;
+    if (code === 0) {
+      try {
+        if (!command) throw new RigError('not_supported', `unknown command ${token}`, -4);
+        values = command.run(this.state, used);
+      } catch (e) {
+        code = rprtCodeFor(e);
+      }
+    }
+
+    socket.write(this.formatReply(command, name, used, values, code, separator));
+  }
+
+  private formatReply(
+    command: CommandSpec | undefined,
+    name: string,
+    args: string[],
+    values: Value[] | void,
+    code: number,
+    separator: string | null
+  ): string {
+    if (separator === null) {
+      if (code !== 0 || !values) return `RPRT ${code}\n`;
+      return values.map((v) => `${v}\n`).join('');
+    }
+
+    const records = [`${name}:${args.length > 0 ? ` ${args.join(' ')}` : ''}`];
+    if (code === 0 && values) {
+      if (command?.raw) records.push(...values.map(String));
+      else values.forEach((v, i) => records.push(`${command?.keys?.[i] ?? 'Value'}: ${v}`));
+    }
+    records.push(`RPRT ${code}`);
+    return `${records.join(separator)}\n`;
+  }
+}
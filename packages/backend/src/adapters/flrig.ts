@@ -0,0 +1,234 @@
+import type { RadioCapabilities, RadioMeters, RadioMode, RadioState } from '../dtos.js';
+import type { RigctlAdapter } from '../services/radio.js';
+import { RigError, notSupported, unlessNotSupported } from '../errors.js';
+import { METER_LEVELS, S9_DBM, calibrate, meterValue, signalMeters, type CalibrationTable } from '../meters.js';
+import { lookupHamlibMode } from '../modes.js';
+import { XmlRpcClient, XmlRpcDouble, XmlRpcFault, type XmlRpcValue } from './xmlrpc.js';
+
+export interface FlrigAdapterOptions {
+  timeoutMs?: number;
+}
+
+// flrig passes the rig's own mode names through; these are the spellings it
+// uses that the Hamlib names and aliases in modes.ts do not already cover
+const FLRIG_MODES: Record<string, RadioMode> = {
+  'CW-R': 'CWR',
+  'CW-U': 'CW',
+  'CW-L': 'CWR',
+  'RTTY-R': 'RTTYR',
+  'RTTY-L': 'RTTY',
+  'RTTY-U': 'RTTYR',
+  'AM-N': 'AMN',
+  'FM-N': 'FMN',
+  'DATA-U': 'PKTUSB',
+  'DATA-L': 'PKTLSB',
+  'DATA-FM': 'PKTFM',
+  'D-USB': 'PKTUSB',
+  'D-LSB': 'PKTLSB',
+  'USB-D1': 'PKTUSB',
+  'LSB-D1': 'PKTLSB',
+  'PSK-R': 'PSKR',
+};
+
+export function lookupFlrigMode(name: string): RadioMode | undefined {
+  return FLRIG_MODES[name.trim().toUpperCase()] ?? lookupHamlibMode(name);
+}
+
+function toNumber(value: XmlRpcValue, method: string): number {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) {
+    throw new RigError('protocol', `${method}: expected a number, got ${JSON.stringify(value)}`);
+  }
+  return n;
+}
+
+// flrig's 0-100 S-meter bar, in dB over S9: S0-S9 across the first half,
+// S9 to S9+60 dB across the second
+const SMETER_CAL: CalibrationTable = [
+  [0, -54],
+  [50, 0],
+  [100, 60],
+];
+
+/**
+ * Talks to flrig over its XML-RPC interface (default port 12345). flrig owns
+ * the serial port; we only ever see the rig it has open, with its own mode
+ * names, which are mapped onto ours as far as they go.
+ */
+export class FlrigAdapter implements RigctlAdapter {
+  private client: XmlRpcClient | null = null;
+  private rigName: string | undefined;
+  // The rig's mode names as flrig lists them, by our mode
+  private rigModes = new Map<RadioMode, string>();
+  private maxPowerWatts = 100;
+
+  constructor(private readonly options: FlrigAdapterOptions = {}) {}
+
+  async connect(host: string, port: number): Promise<void> {
+    this.client?.close();
+    this.client = new XmlRpcClient({ host: host || '127.0.0.1', port: port || 12345, timeoutMs: this.options.timeoutMs });
+    try {
+      const xcvr = await this.call('rig.get_xcvr');
+      this.rigName = typeof xcvr === 'string' && xcvr.trim() ? xcvr.trim() : undefined;
+      await this.loadModes();
+      const maxPower = await unlessNotSupported(this.call('rig.get_maxpwr'));
+      if (maxPower !== undefined && toNumber(maxPower, 'rig.get_maxpwr') > 0) {
+        this.maxPowerWatts = toNumber(maxPower, 'rig.get_maxpwr');
+      }
+    } catch (error) {
+      this.client.close();
+      this.client = null;
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.client?.close();
+    this.client = null;
+  }
+
+  private async call(method: string, ...params: XmlRpcValue[]): Promise<XmlRpcValue> {
+    if (!this.client) throw new RigError('not_connected', 'flrig is not connected');
+    try {
+      return await this.client.call(method, params);
+    } catch (error) {
+      if (!(error instanceof XmlRpcFault)) throw error;
+      // Older flrig builds lack some methods, and say so with a fault
+      if (/no such method|method not found|not implemented/i.test(error.faultString)) {
+        throw new RigError('not_supported', `${method}: ${error.faultString}`);
+      }
+      throw new RigError('rejected', `${method}: ${error.faultString}`);
+    }
+  }
+
+  private async loadModes() {
+    this.rigModes.clear();
+    const list = await unlessNotSupported(this.call('rig.get_modes'));
+    if (!Array.isArray(list)) return;
+    for (const name of list) {
+      if (typeof name !== 'string') continue;
+      const mode = lookupFlrigMode(name);
+      // First spelling wins, e.g. USB-D over USB-D1 for PKTUSB
+      if (mode && !this.rigModes.has(mode)) this.rigModes.set(mode, name);
+    }
+  }
+
+  async getCapabilities(): Promise<RadioCapabilities> {
+    return {
+      rigModel: this.rigName,
+      modes: [...this.rigModes.keys()],
+      vfos: [],
+      vfoOps: [],
+      getLevels: ['RFPOWER', 'STRENGTH', METER_LEVELS.swr, METER_LEVELS.powerWatts],
+      setLevels: ['RFPOWER'],
+      getFunctions: [],
+      setFunctions: [],
+      canSetSplit: false,
+      canGetSplit: false,
+      canSetPtt: true,
+      canSendMorse: false,
+      canSetRepeater: false,
+      ctcssTones: [],
+      dcsCodes: [],
+      preamps: [],
+      attenuators: [],
+      maxPowerWatts: this.maxPowerWatts,
+    };
+  }
+
+  async getFrequency(): Promise<number> {
+    return toNumber(await this.call('rig.get_vfo'), 'rig.get_vfo');
+  }
+
+  async setFrequency(hz: number): Promise<void> {
+    // flrig rejects an <int> here
+    await this.call('rig.set_frequency', new XmlRpcDouble(Math.round(hz)));
+  }
+
+  async getMode(): Promise<RadioMode> {
+    const name = await this.call('rig.get_mode');
+    const mode = typeof name === 'string' ? lookupFlrigMode(name) : undefined;
+    if (!mode) throw new RigError('protocol', `Unknown mode ${JSON.stringify(name)} reported by flrig`);
+    return mode;
+  }
+
+  async getBandwidth(): Promise<number | undefined> {
+    // [width, second filter]; rigs without numeric widths report labels
+    const reply = await this.call('rig.get_bw');
+    const width = Array.isArray(reply) ? reply[0] : reply;
+    const hz = typeof width === 'string' ? Number(width) : width;
+    return typeof hz === 'number' && Number.isFinite(hz) && hz > 0 ? hz : undefined;
+  }
+
+  async setMode(mode: RadioMode, bandwidthHz?: number): Promise<void> {
+    const name = this.rigModes.get(mode);
+    if (!name) throw notSupported(`Mode ${mode}`);
+    await this.call('rig.set_mode', name);
+    if (bandwidthHz) await this.call('rig.set_bandwidth', Math.round(bandwidthHz));
+  }
+
+  async getPower(): Promise<number> {
+    const watts = toNumber(await this.call('rig.get_power'), 'rig.get_power');
+    return Math.round(Math.max(0, Math.min(100, (watts / this.maxPowerWatts) * 100)));
+  }
+
+  async setPower(percent: number): Promise<void> {
+    await this.call('rig.set_power', Math.round((percent / 100) * this.maxPowerWatts));
+  }
+
+  async getPTT(): Promise<boolean> {
+    return toNumber(await this.call('rig.get_ptt'), 'rig.get_ptt') !== 0;
+  }
+
+  async setPtt(ptt: boolean): Promise<void> {
+    await this.call('rig.set_ptt', ptt ? 1 : 0);
+  }
+
+  private async number(method: string): Promise<number> {
+    return toNumber(await this.call(method), method);
+  }
+
+  async getSignalStrength(): Promise<number> {
+    return S9_DBM + calibrate(SMETER_CAL, await this.number('rig.get_smeter'));
+  }
+
+  // flrig has no ALC, COMP or supply meters to offer
+  async getMeters(transmitting: boolean): Promise<RadioMeters> {
+    if (!transmitting) {
+      const dbm = await unlessNotSupported(this.getSignalStrength());
+      return dbm === undefined ? {} : signalMeters(dbm);
+    }
+    const [swr, watts] = await Promise.all([
+      unlessNotSupported(this.number('rig.get_swr')),
+      unlessNotSupported(this.number('rig.get_pwrmeter')),
+    ]);
+    const meters: RadioMeters = {};
+    if (swr !== undefined) meters.swr = meterValue(swr, 2);
+    if (watts !== undefined) meters.powerWatts = meterValue(watts);
+    return meters;
+  }
+
+  async getState(): Promise<Partial<RadioState>> {
+    if (!this.client) return { connected: false };
+
+    // Calls share one socket, so these go out back to back
+    const [frequency, mode, bandwidth, power, ptt] = await Promise.all([
+      this.getFrequency(),
+      this.getMode(),
+      unlessNotSupported(this.getBandwidth()),
+      unlessNotSupported(this.getPower()),
+      unlessNotSupported(this.getPTT()),
+    ]);
+
+    const state: Partial<RadioState> = {
+      connected: true,
+      frequencyHz: frequency,
+      mode,
+      rigModel: this.rigName,
+    };
+    if (bandwidth !== undefined) state.bandwidthHz = bandwidth;
+    if (power !== undefined) state.power = power;
+    if (ptt !== undefined) state.ptt = ptt;
+    return state;
+  }
+}
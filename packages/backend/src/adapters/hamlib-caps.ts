@@ -0,0 +1,82 @@
+import type { RadioCapabilities, RadioMode } from "../dtos.js";
+import { lookupHamlibMode } from "../modes.js";
+
+/**
+ * Parse the free-form output of Hamlib's dump_caps into RadioCapabilities.
+ *
+ * Top-level lines look like "Mode list: AM CW USB ..." or "Can set PTT:\tY".
+ * Indented lines belong to per-range blocks (RX/TX ranges) and are only
+ * consulted for transmit power limits.
+ */
+export function parseDumpCaps(records: string[]): RadioCapabilities {
+  const top = new Map<string, string>();
+  let maxPowerWatts: number | undefined;
+
+  for (const raw of records) {
+    const power = /High power:\s*([\d.]+)\s*(mW|W)/i.exec(raw);
+    if (power) {
+      const watts = Number(power[1]) / (power[2]!.toLowerCase() === "mw" ? 1000 : 1);
+      if (Number.isFinite(watts)) maxPowerWatts = Math.max(maxPowerWatts ?? 0, watts);
+    }
+    if (/^\s/.test(raw)) continue;
+    const m = /^([^:]+):\s*(.*)$/.exec(raw);
+    if (m && !top.has(m[1]!.trim())) top.set(m[1]!.trim(), m[2]!.trim());
+  }
+
+  const list = (key: string) =>
+    (top.get(key) ?? "")
+      .split(/\s+/)
+      .filter((t) => t.length > 0)
+      // Newer Hamlib appends ranges, e.g. "RFPOWER(0.000000..1.000000/0.003922)"
+      .map((t) => t.replace(/\(.*\)$/, ""));
+  // "Preamp: 10dB 20dB", or "None"
+  const steps = (key: string) =>
+    list(key)
+      .map((t) => parseInt(t, 10))
+      .filter((db) => Number.isFinite(db) && db > 0);
+  // "Max RIT: -9.990kHz/+9.990kHz"; Hamlib prints the Hz remainder after the
+  // point without padding (50 Hz comes out as "0.50kHz"), so it is added as is
+  const maxHz = (key: string) => {
+    const m = /\+(\d+)\.(\d+)kHz/.exec(top.get(key) ?? "");
+    const hz = m ? Number(m[1]) * 1000 + Number(m[2]) : 0;
+    return hz > 0 ? hz : undefined;
+  };
+  // "CTCSS: 67.0 69.3 ... 254.1 Hz, 50 tones" and "DCS: 23 25 ... 754, 104 codes", or "None"
+  const tones = (key: string, end: string) =>
+    (top.get(key) ?? "")
+      .split(end)[0]!
+      .split(/\s+/)
+      .map(Number)
+      .filter((n) => Number.isFinite(n) && n > 0);
+  const yes = (key: string) => /^Y/i.test(top.get(key) ?? "");
+
+  // Modes we have no mapping for are left out rather than offered to the UI
+  const modes = list("Mode list")
+    .map(lookupHamlibMode)
+    .filter((m): m is RadioMode => m !== undefined);
+
+  return {
+    rigModel: top.get("Model name") || undefined,
+    manufacturer: top.get("Mfg name") || undefined,
+    modes,
+    vfos: list("VFO list"),
+    vfoOps: list("VFO Ops"),
+    getLevels: list("Get level"),
+    setLevels: list("Set level"),
+    getFunctions: list("Get functions"),
+    setFunctions: list("Set functions"),
+    canSetSplit: yes("Can set Split VFO"),
+    canGetSplit: yes("Can get Split VFO"),
+    canSetPtt: yes("Can set PTT"),
+    canSendMorse: yes("Can send Morse"),
+    canSetRepeater: yes("Can set Rptr Shift"),
+    ctcssTones: tones("CTCSS", "Hz"),
+    dcsCodes: tones("DCS", ","),
+    preamps: steps("Preamp"),
+    attenuators: steps("Attenuator"),
+    maxPowerWatts,
+    maxRitHz: maxHz("Max RIT"),
+    maxXitHz: maxHz("Max XIT"),
+    maxIfShiftHz: maxHz("Max IF-SHIFT"),
+  };
+}
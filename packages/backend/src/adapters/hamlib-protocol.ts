@@ -0,0 +1,148 @@
+import type { RadioVfo, VfoOp } from "../dtos.js";
+import { RigError, isRigError, type RigErrorKind } from "../errors.js";
+
+/**
+ * Helpers for the rigctl(d) extended response protocol.
+ *
+ * A command prefixed with a separator character (`+`, `;`, `|` or `,`) is
+ * answered with records joined by that separator: an echo of the command
+ * ("get_freq:"), zero or more "Key: value" records, and a final "RPRT <code>".
+ * With `+` the separator is a newline; the others put the whole reply on one
+ * line, which is what we use on the wire.
+ */
+
+export const EXTENDED_SEPARATOR = "|";
+
+// Hamlib rig_errcode_e, reported negated in RPRT lines
+const HAMLIB_ERRORS: Record<number, { kind: RigErrorKind; text: string }> = {
+  1: { kind: "invalid", text: "invalid parameter" },
+  2: { kind: "invalid", text: "invalid configuration" },
+  3: { kind: "io", text: "out of memory" },
+  4: { kind: "not_supported", text: "function not implemented" },
+  5: { kind: "timeout", text: "communication timed out" },
+  6: { kind: "io", text: "I/O error" },
+  7: { kind: "io", text: "internal Hamlib error" },
+  8: { kind: "protocol", text: "protocol error" },
+  9: { kind: "rejected", text: "command rejected by the rig" },
+  10: { kind: "protocol", text: "argument truncated" },
+  11: { kind: "not_supported", text: "function not available" },
+  12: { kind: "not_supported", text: "VFO not targetable" },
+  13: { kind: "io", text: "bus error" },
+  14: { kind: "io", text: "bus busy" },
+  15: { kind: "invalid", text: "invalid argument" },
+  16: { kind: "invalid", text: "invalid VFO" },
+  17: { kind: "invalid", text: "argument out of range" },
+  18: { kind: "not_supported", text: "deprecated function" },
+  19: { kind: "rejected", text: "security error" },
+  20: { kind: "rejected", text: "rig is not powered on" },
+};
+
+export function rigErrorFromRprt(code: number, command: string): RigError {
+  const known = HAMLIB_ERRORS[Math.abs(code)];
+  const kind = known?.kind ?? "io";
+  const text = known?.text ?? `error ${code}`;
+  return new RigError(kind, `${command}: ${text} (RPRT ${code})`, code);
+}
+
+// The RPRT code we answer with for an error of each kind
+const RPRT_FOR_KIND: Record<RigErrorKind, number> = {
+  not_supported: -11,
+  rejected: -9,
+  invalid: -1,
+  timeout: -5,
+  not_connected: -6,
+  io: -6,
+  protocol: -8,
+  not_found: -1,
+  // RIG_EACCESS
+  forbidden: -19,
+};
+
+/** RPRT code to report for a failed command, keeping the rig's own code when it gave one. */
+export function rprtCodeFor(e: unknown): number {
+  if (!isRigError(e)) return -1;
+  return e.code ?? RPRT_FOR_KIND[e.kind];
+}
+
+export const HAMLIB_VFO_OPS: Record<VfoOp, string> = { copy: "CPY", swap: "XCHG" };
+
+export function toHamlibVfo(vfo: RadioVfo): string {
+  return vfo === "B" ? "VFOB" : "VFOA";
+}
+
+// Main/Sub rigs report their receivers instead of A/B
+export function fromHamlibVfo(name: string): RadioVfo {
+  return /^(VFOB|Sub)/i.test(name) ? "B" : "A";
+}
+
+export interface ExtendedReply {
+  command: string;
+  // "Key: value" records in reply order, keyed by the Hamlib label
+  fields: Record<string, string>;
+  // Records that are not key/value pairs (free text such as dump_caps)
+  lines: string[];
+  // Every record between the echo and RPRT, untrimmed, for free-form parsers
+  records: string[];
+  code: number;
+}
+
+export function formatExtendedCommand(command: string, args: Array<string | number> = []): string {
+  const tail = args.length > 0 ? ` ${args.join(" ")}` : "";
+  return `${EXTENDED_SEPARATOR}\\${command}${tail}\n`;
+}
+
+export function isRecordBoundary(ch: string | undefined): boolean {
+  return ch === "\n" || ch === EXTENDED_SEPARATOR;
+}
+
+export function splitRecords(text: string): string[] {
+  return text.split(/\r?\n/).flatMap((line) => line.split(EXTENDED_SEPARATOR));
+}
+
+/** Returns the RPRT code if the record terminates a reply. */
+export function rprtCode(record: string): number | null {
+  const m = /^RPRT\s+(-?\d+)\s*$/.exec(record);
+  return m ? Number(m[1]) : null;
+}
+
+/** Build a reply from its records, the terminating RPRT record included. */
+export function parseExtendedReply(command: string, records: string[]): ExtendedReply {
+  const reply: ExtendedReply = { command, fields: {}, lines: [], records: [], code: 0 };
+  let first = true;
+  for (const raw of records) {
+    const record = raw.trim();
+    if (record.length === 0) continue;
+    const code = rprtCode(record);
+    if (code !== null) {
+      reply.code = code;
+      continue;
+    }
+    // First record echoes the command name, e.g. "get_level: RFPOWER"
+    const isEcho = first && record.startsWith(`${command}:`);
+    first = false;
+    if (isEcho) continue;
+    reply.records.push(raw.replace(/\r$/, ""));
+    const sep = record.indexOf(": ");
+    if (sep > 0) reply.fields[record.slice(0, sep)] = record.slice(sep + 2).trim();
+    else if (record.endsWith(":")) reply.fields[record.slice(0, -1)] = "";
+    else reply.lines.push(record);
+  }
+  return reply;
+}
+
+export function numberField(reply: ExtendedReply, key: string): number {
+  const raw = reply.fields[key];
+  const value = raw === undefined ? NaN : Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new RigError("protocol", `${reply.command}: expected numeric "${key}" in reply`);
+  }
+  return value;
+}
+
+export function stringField(reply: ExtendedReply, key: string): string {
+  const raw = reply.fields[key];
+  if (raw === undefined) {
+    throw new RigError("protocol", `${reply.command}: expected "${key}" in reply`);
+  }
+  return raw;
+}
@@ -1,7 +1,18 @@
-import { spawn, ChildProcess } from 'node:child_process';
-import { EventEmitter } from 'node:events';
+import { spawn } from 'node:child_process';
 import type { RadioMode, RadioState } from '../dtos.js';
 import type { RigctlAdapter } from '../services/radio.js';
+import { RigError, unlessNotSupported } from '../errors.js';
+import { modeFromHamlib, toHamlibMode } from '../modes.js';
+import {
+  formatExtendedCommand,
+  numberField,
+  parseExtendedReply,
+  rigErrorFromRprt,
+  rprtCode,
+  splitRecords,
+  stringField,
+  type ExtendedReply,
+} from './hamlib-protocol.js';
 
 export interface RigctlOptions {
   rigModel?: number;
@@ -28,15 +39,15 @@ export class RigctlCommandAdapter implements RigctlAdapter {
     try {
       console.log(`🔧 Testing rigctl connection with model ${this.options.rigModel} on port ${this.options.rigPort}`);
 
-      const freq = await this.executeCommand('f');
-      console.log(`🔧 Radio responded with frequency: ${freq.trim()} Hz`);
+      const freq = await this.getFrequency();
+      console.log(`🔧 Radio responded with frequency: ${freq} Hz`);
 
       this.connected = true;
       console.log('✅ Radio connection successful');
     } catch (error) {
       this.connected = false;
       console.error(`❌ Radio connection failed:`, error);
-      throw new Error(`Failed to connect to radio: ${error}`);
+      throw error;
     }
   }
 
@@ -49,94 +60,76 @@ export class RigctlCommandAdapter implements RigctlAdapter {
       return { connected: false };
     }
 
-    try {
-      const [frequency, mode, power] = await Promise.all([
-        this.getFrequency(),
-        this.getMode(),
-        this.getPowerLevel(),
-      ]);
-
-      return {
-        connected: true,
-        rigModel: `RIG-${this.options.rigModel}`,
-        frequencyHz: frequency,
-        mode: mode.mode,
-        bandwidthHz: mode.bandwidth,
-        power: power,
-        ptt: await this.getPTT(),
-      };
-    } catch (error) {
-      console.error('Failed to get radio state:', error);
-      return { connected: false };
-    }
+    const [frequency, mode, power, ptt] = await Promise.all([
+      this.getFrequency(),
+      this.getMode(),
+      unlessNotSupported(this.getPowerLevel()),
+      unlessNotSupported(this.getPTT()),
+    ]);
+
+    const state: Partial<RadioState> = {
+      connected: true,
+      rigModel: `RIG-${this.options.rigModel}`,
+      frequencyHz: frequency,
+      mode: mode.mode,
+      bandwidthHz: mode.bandwidth,
+    };
+    if (power !== undefined) state.power = power;
+    if (ptt !== undefined) state.ptt = ptt;
+    return state;
   }
 
   async setFrequency(hz: number): Promise<void> {
-    await this.executeCommand('F', hz.toString());
+    await this.executeCommand('set_freq', Math.round(hz).toString());
   }
 
   async setMode(mode: RadioMode, bandwidthHz?: number): Promise<void> {
-    // Convert our mode to rigctl mode
-    const rigctlMode = this.convertToRigctlMode(mode);
-    if (bandwidthHz) {
-      await this.executeCommand('M', rigctlMode, bandwidthHz.toString());
-    } else {
-      await this.executeCommand('M', rigctlMode);
-    }
+    // Passband 0 asks Hamlib for the rig's normal width for the mode
+    await this.executeCommand('set_mode', toHamlibMode(mode), (bandwidthHz ?? 0).toString());
   }
 
   async setPower(percent: number): Promise<void> {
     // Convert percentage to rigctl power level (0.0 - 1.0)
     const powerLevel = (percent / 100).toFixed(2);
-    await this.executeCommand('L', 'RFPOWER', powerLevel);
+    await this.executeCommand('set_level', 'RFPOWER', powerLevel);
   }
 
   async setPtt(ptt: boolean): Promise<void> {
-    await this.executeCommand('T', ptt ? '1' : '0');
+    await this.executeCommand('set_ptt', ptt ? '1' : '0');
   }
 
   private async getFrequency(): Promise<number> {
-    const result = await this.executeCommand('f');
-    return parseInt(result.trim());
+    return numberField(await this.executeCommand('get_freq'), 'Frequency');
   }
 
   private async getMode(): Promise<{ mode: RadioMode; bandwidth: number }> {
-    const result = await this.executeCommand('m');
-    const parts = result.trim().split('\n');
-    const mode = this.convertFromRigctlMode(parts[0]);
-    const bandwidth = parts[1] ? parseInt(parts[1]) : 2800;
-    return { mode, bandwidth };
+    const reply = await this.executeCommand('get_mode');
+    return {
+      mode: modeFromHamlib(stringField(reply, 'Mode')),
+      bandwidth: numberField(reply, 'Passband'),
+    };
   }
 
   private async getPowerLevel(): Promise<number> {
-    try {
-      const result = await this.executeCommand('l', 'RFPOWER');
-      const powerLevel = parseFloat(result.trim());
-      return Math.round(powerLevel * 100); // Convert to percentage
-    } catch {
-      return 50; // Default if not supported
-    }
+    const level = numberField(await this.executeCommand('get_level', 'RFPOWER'), 'Level Value');
+    return Math.round(level * 100); // Convert to percentage
   }
 
   private async getPTT(): Promise<boolean> {
-    try {
-      const result = await this.executeCommand('t');
-      return result.trim() === '1';
-    } catch {
-      return false;
-    }
+    return numberField(await this.executeCommand('get_ptt'), 'PTT') !== 0;
   }
 
-  private async executeCommand(command: string, ...args: string[]): Promise<string> {
+  private async executeCommand(command: string, ...args: string[]): Promise<ExtendedReply> {
     return new Promise((resolve, reject) => {
-      // Use interactive mode - don't pass command as argument
+      // "-" makes rigctl read commands from stdin, where the extended
+      // protocol works exactly as it does against rigctld
       const rigctlArgs = [
         '-m', this.options.rigModel.toString(),
         '-r', this.options.rigPort,
         '-s', this.options.rigSpeed.toString(),
+        '-',
       ];
 
-      console.log(`🔧 Executing: rigctl ${rigctlArgs.join(' ')}`);
       const childProcess = spawn('rigctl', rigctlArgs, {
         env: { ...process.env, PATH: process.env.PATH },
         stdio: ['pipe', 'pipe', 'pipe'],
@@ -144,211 +137,45 @@ export class RigctlCommandAdapter implements RigctlAdapter {
       });
       let stdout = '';
       let stderr = '';
-      let commandSent = false;
+      let settled = false;
+
+      const finish = (err: Error | null, reply?: ExtendedReply) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        if (err) reject(err);
+        else resolve(reply!);
+      };
 
       const timeout = setTimeout(() => {
         childProcess.kill();
-        reject(new Error(`Command timeout: rigctl ${rigctlArgs.join(' ')}`));
+        finish(new RigError('timeout', `Command timeout: rigctl ${command}`));
       }, this.options.timeout);
 
-      childProcess.stdout.on('data', (data) => {
-        const output = data.toString();
-        console.log(`📤 rigctl stdout: ${output.trim()}`);
-        stdout += output;
-
-        // Send command when we see the prompt
-        if (output.includes('Rig command:') && !commandSent) {
-          console.log(`📝 Sending command: ${command}`);
-          childProcess.stdin.write(`${command}\n`);
-          commandSent = true;
-        }
-
-        // Look for frequency response (numeric value)
-        if (commandSent && /^\d+$/.test(output.trim())) {
-          console.log(`✅ Got frequency: ${output.trim()}`);
-          clearTimeout(timeout);
-          childProcess.stdin.write('q\n'); // quit rigctl
-          resolve(output.trim());
-        }
+      childProcess.stdout.on('data', (data: Buffer) => {
+        stdout += data.toString();
+        const records = splitRecords(stdout);
+        const end = records.findIndex((r) => rprtCode(r.trim()) !== null);
+        if (end === -1) return;
+        const code = rprtCode(records[end]!.trim())!;
+        childProcess.stdin.end();
+        if (code === 0) finish(null, parseExtendedReply(command, records.slice(0, end + 1)));
+        else finish(rigErrorFromRprt(code, command));
       });
 
-      childProcess.stderr.on('data', (data) => {
-        const error = data.toString();
-        console.log(`📤 rigctl stderr: ${error.trim()}`);
-        stderr += error;
+      childProcess.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
       });
 
       childProcess.on('close', (code) => {
-        clearTimeout(timeout);
-        if (code === 0) {
-          resolve(stdout);
-        } else {
-          reject(new Error(`rigctl failed (code ${code}): ${stderr || stdout}`));
-        }
+        finish(new RigError('io', `rigctl exited (code ${code}) before replying: ${stderr.trim() || stdout.trim()}`));
       });
 
       childProcess.on('error', (error) => {
-        clearTimeout(timeout);
-        reject(new Error(`Failed to spawn rigctl: ${error.message}`));
+        finish(new RigError('io', `Failed to spawn rigctl: ${error.message}`));
       });
-    });
-  }
 
-  private convertToRigctlMode(mode: RadioMode): string {
-    const modeMap: Record<RadioMode, string> = {
-      'LSB': 'LSB',
-      'USB': 'USB',
-      'CW': 'CW',
-      'CWR': 'CWR',
-      'AM': 'AM',
-      'FM': 'FM',
-      'WFM': 'WFM',
-      'RTTY': 'RTTY',
-      'RTTYR': 'RTTYR',
-      'PSK': 'PSK',
-      'PSKR': 'PSKR',
-    };
-    return modeMap[mode] || 'USB';
-  }
-
-  private convertFromRigctlMode(rigctlMode: string): RadioMode {
-    const modeMap: Record<string, RadioMode> = {
-      'LSB': 'LSB',
-      'USB': 'USB',
-      'CW': 'CW',
-      'CWR': 'CWR',
-      'AM': 'AM',
-      'FM': 'FM',
-      'WFM': 'WFM',
-      'RTTY': 'RTTY',
-      'RTTYR': 'RTTYR',
-      'PSK': 'PSK',
-      'PSKR': 'PSKR',
-    };
-    return modeMap[rigctlMode] || 'USB';
-  }
-}
-
-// Alternative: rigctld daemon adapter for better performance
-export class RigctldAdapter implements RigctlAdapter {
-  private connected = false;
-  private host = '127.0.0.1';
-  private port = 4532;
-
-  async connect(host: string, port: number): Promise<void> {
-    this.host = host;
-    this.port = port;
-    
-    // Test connection
-    try {
-      await this.sendCommand('f');
-      this.connected = true;
-    } catch (error) {
-      this.connected = false;
-      throw new Error(`Failed to connect to rigctld at ${host}:${port}: ${error}`);
-    }
-  }
-
-  async disconnect(): Promise<void> {
-    this.connected = false;
-  }
-
-  async getState(): Promise<Partial<RadioState>> {
-    if (!this.connected) {
-      return { connected: false };
-    }
-
-    try {
-      const [frequency, mode] = await Promise.all([
-        this.sendCommand('f'),
-        this.sendCommand('m'),
-      ]);
-
-      const freq = parseInt(frequency.trim());
-      const modeData = mode.trim().split('\n');
-      
-      return {
-        connected: true,
-        frequencyHz: freq,
-        mode: this.convertFromRigctlMode(modeData[0]) as RadioMode,
-        bandwidthHz: modeData[1] ? parseInt(modeData[1]) : 2800,
-      };
-    } catch (error) {
-      console.error('Failed to get radio state:', error);
-      return { connected: false };
-    }
-  }
-
-  async setFrequency(hz: number): Promise<void> {
-    await this.sendCommand(`F ${hz}`);
-  }
-
-  async setMode(mode: RadioMode, bandwidthHz?: number): Promise<void> {
-    const rigctlMode = this.convertToRigctlMode(mode);
-    if (bandwidthHz) {
-      await this.sendCommand(`M ${rigctlMode} ${bandwidthHz}`);
-    } else {
-      await this.sendCommand(`M ${rigctlMode}`);
-    }
-  }
-
-  async setPower(percent: number): Promise<void> {
-    const powerLevel = (percent / 100).toFixed(2);
-    await this.sendCommand(`L RFPOWER ${powerLevel}`);
-  }
-
-  async setPtt(ptt: boolean): Promise<void> {
-    await this.sendCommand(`T ${ptt ? '1' : '0'}`);
-  }
-
-  private async sendCommand(command: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const net = require('net');
-      const socket = new net.Socket();
-      let response = '';
-
-      socket.setTimeout(5000);
-
-      socket.connect(this.port, this.host, () => {
-        socket.write(command + '\n');
-      });
-
-      socket.on('data', (data) => {
-        response += data.toString();
-        if (response.includes('\n')) {
-          socket.destroy();
-          resolve(response);
-        }
-      });
-
-      socket.on('timeout', () => {
-        socket.destroy();
-        reject(new Error('Command timeout'));
-      });
-
-      socket.on('error', (error) => {
-        reject(error);
-      });
+      childProcess.stdin.write(formatExtendedCommand(command, args));
     });
   }
-
-  private convertToRigctlMode(mode: RadioMode): string {
-    // Same as RigctlCommandAdapter
-    const modeMap: Record<RadioMode, string> = {
-      'LSB': 'LSB', 'USB': 'USB', 'CW': 'CW', 'CWR': 'CWR',
-      'AM': 'AM', 'FM': 'FM', 'WFM': 'WFM', 'RTTY': 'RTTY',
-      'RTTYR': 'RTTYR', 'PSK': 'PSK', 'PSKR': 'PSKR',
-    };
-    return modeMap[mode] || 'USB';
-  }
-
-  private convertFromRigctlMode(rigctlMode: string): RadioMode {
-    // Same as RigctlCommandAdapter
-    const modeMap: Record<string, RadioMode> = {
-      'LSB': 'LSB', 'USB': 'USB', 'CW': 'CW', 'CWR': 'CWR',
-      'AM': 'AM', 'FM': 'FM', 'WFM': 'WFM', 'RTTY': 'RTTY',
-      'RTTYR': 'RTTYR', 'PSK': 'PSK', 'PSKR': 'PSKR',
-    };
-    return modeMap[rigctlMode] || 'USB';
-  }
 }
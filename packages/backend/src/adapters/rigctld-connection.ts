@@ -0,0 +1,246 @@
+import { Socket } from "node:net";
+import { EventEmitter } from "node:events";
+import { RigError } from "../errors.js";
+import {
+  formatExtendedCommand,
+  isRecordBoundary,
+  parseExtendedReply,
+  rigErrorFromRprt,
+  rprtCode,
+  type ExtendedReply,
+} from "./hamlib-protocol.js";
+
+export interface RigctldConnectionOptions {
+  commandTimeoutMs?: number;
+  // How many commands may be written before their responses arrive
+  maxInFlight?: number;
+  reconnectMinDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+}
+
+// No rigctld record comes near this; a peer sending more without a
+// separator is not rigctld, and the link is dropped rather than buffered
+const MAX_RECORD_LENGTH = 64 * 1024;
+
+interface QueuedCommand {
+  command: string;
+  wire: string;
+  records: string[];
+  timer: NodeJS.Timeout | null;
+  resolve: (reply: ExtendedReply) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * One long-lived TCP connection to rigctld, spoken in the extended protocol.
+ *
+ * Commands are queued FIFO and written in order; rigctld answers them in the
+ * same order and every extended reply ends in an RPRT record, so replies are
+ * matched to the head of the in-flight list without guessing line counts. A
+ * timeout or socket error poisons the stream, so the socket is dropped and
+ * re-opened with exponential backoff until close() is called.
+ */
+export class RigctldConnection extends EventEmitter {
+  private socket: Socket | null = null;
+  private connected = false;
+  private closing = false;
+  private host = "127.0.0.1";
+  private port = 4532;
+  private buffer = "";
+  private queue: QueuedCommand[] = [];
+  private inFlight: QueuedCommand[] = [];
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectDelayMs: number;
+  private readonly opts: Required<RigctldConnectionOptions>;
+
+  constructor(options: RigctldConnectionOptions = {}) {
+    super();
+    this.opts = {
+      commandTimeoutMs: options.commandTimeoutMs ?? 5000,
+      maxInFlight: options.maxInFlight ?? 4,
+      reconnectMinDelayMs: options.reconnectMinDelayMs ?? 500,
+      reconnectMaxDelayMs: options.reconnectMaxDelayMs ?? 15000,
+    };
+    this.reconnectDelayMs = this.opts.reconnectMinDelayMs;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /** Resolves once the first connection is up; later drops reconnect on their own. */
+  async open(host: string, port: number): Promise<void> {
+    this.host = host;
+    this.port = port;
+    this.closing = false;
+    this.clearReconnect();
+    await this.dial();
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    this.clearReconnect();
+    this.teardown(new RigError("not_connected", "connection closed"));
+  }
+
+  /**
+   * Queue a command by its long name (e.g. "get_freq"). Resolves with the
+   * parsed reply; rejects with a RigError on a non-zero RPRT, a timeout or a
+   * lost connection.
+   */
+  send(command: string, args: Array<string | number> = []): Promise<ExtendedReply> {
+    if (!this.connected) {
+      return Promise.reject(
+        new RigError("not_connected", `rigctld not connected (${this.host}:${this.port})`)
+      );
+    }
+    return new Promise((resolve, reject) => {
+      const wire = formatExtendedCommand(command, args);
+      const cmd: QueuedCommand = { command, wire, records: [], timer: null, resolve, reject };
+      cmd.timer = setTimeout(() => this.onTimeout(cmd), this.opts.commandTimeoutMs);
+      this.queue.push(cmd);
+      this.pump();
+    });
+  }
+
+  private dial(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const sock = new Socket();
+      sock.setNoDelay(true);
+      sock.setKeepAlive(true, 10000);
+      let opened = false;
+
+      sock.once("connect", () => {
+        opened = true;
+        this.socket = sock;
+        this.connected = true;
+        this.buffer = "";
+        this.reconnectDelayMs = this.opts.reconnectMinDelayMs;
+        this.emit("open");
+        resolve();
+        this.pump();
+      });
+
+      sock.on("data", (data: Buffer) => this.onData(data));
+
+      // After the first connect, errors surface through the "close" that follows
+      sock.on("error", (err) => {
+        if (opened) return;
+        sock.destroy();
+        reject(err);
+      });
+
+      sock.on("close", () => {
+        if (!opened || this.socket !== sock) return;
+        this.teardown(new RigError("io", "rigctld connection lost"));
+        this.scheduleReconnect();
+      });
+
+      sock.connect(this.port, this.host);
+    });
+  }
+
+  private scheduleReconnect() {
+    if (this.closing || this.reconnectTimer) return;
+    const delay = this.reconnectDelayMs;
+    this.reconnectDelayMs = Math.min(delay * 2, this.opts.reconnectMaxDelayMs);
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.dial();
+      } catch {
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private teardown(reason: Error) {
+    const wasConnected = this.connected;
+    this.connected = false;
+    if (this.socket) {
+      const sock = this.socket;
+      this.socket = null;
+      sock.removeAllListeners("data");
+      sock.destroy();
+    }
+    this.buffer = "";
+    for (const cmd of this.inFlight.splice(0)) this.settle(cmd, reason);
+    // Commands still waiting their turn cannot survive a reconnect either:
+    // callers decide whether to retry rather than replaying stale sets.
+    for (const cmd of this.queue.splice(0)) this.settle(cmd, reason);
+    if (wasConnected) this.emit("close");
+  }
+
+  private pump() {
+    if (!this.socket || !this.connected) return;
+    while (this.queue.length > 0 && this.inFlight.length < this.opts.maxInFlight) {
+      const cmd = this.queue.shift()!;
+      this.inFlight.push(cmd);
+      this.socket.write(cmd.wire);
+    }
+  }
+
+  private onData(data: Buffer) {
+    this.buffer += data.toString();
+    // Records end at the separator; free-text replies such as dump_caps
+    // still break their own output with newlines.
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      if (!isRecordBoundary(this.buffer[i])) continue;
+      this.onRecord(this.buffer.slice(start, i).replace(/\r$/, ""));
+      start = i + 1;
+    }
+    this.buffer = this.buffer.slice(start);
+    if (this.buffer.length > MAX_RECORD_LENGTH) {
+      this.teardown(new RigError("io", "rigctld sent a record too long to be a reply"));
+      this.scheduleReconnect();
+    }
+  }
+
+  private onRecord(record: string) {
+    const head = this.inFlight[0];
+    if (!head) return; // unsolicited output; nothing is waiting for it
+
+    head.records.push(record);
+    const code = rprtCode(record.trim());
+    if (code === null) return;
+
+    this.inFlight.shift();
+    if (code === 0) this.settle(head, null, parseExtendedReply(head.command, head.records));
+    else this.settle(head, rigErrorFromRprt(code, head.command));
+    this.pump();
+  }
+
+  private onTimeout(cmd: QueuedCommand) {
+    cmd.timer = null;
+    const queued = this.queue.indexOf(cmd);
+    if (queued !== -1) {
+      // Never written, so the stream is still in sync
+      this.queue.splice(queued, 1);
+      this.settle(cmd, new RigError("timeout", `Command timeout: ${cmd.command}`));
+      return;
+    }
+    // A reply may still arrive and would be matched to the wrong command
+    const idx = this.inFlight.indexOf(cmd);
+    if (idx !== -1) this.inFlight.splice(idx, 1);
+    this.settle(cmd, new RigError("timeout", `Command timeout: ${cmd.command}`));
+    this.teardown(new RigError("io", "rigctld stream reset after timeout"));
+    this.scheduleReconnect();
+  }
+
+  private settle(cmd: QueuedCommand, err: Error | null, reply?: ExtendedReply) {
+    if (cmd.timer) {
+      clearTimeout(cmd.timer);
+      cmd.timer = null;
+    }
+    if (err) cmd.reject(err);
+    else cmd.resolve(reply!);
+  }
+}
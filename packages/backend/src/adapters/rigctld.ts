@@ -1,169 +1,417 @@
-import { Socket } from 'net';
-import { RigctlAdapter, RadioState } from '../types/radio';
+import type {
+  RadioCapabilities,
+  RadioMeters,
+  RadioMode,
+  RadioOffsets,
+  RadioReceiver,
+  RadioRepeater,
+  RadioState,
+  RadioVfo,
+  VfoOp,
+} from '../dtos.js';
+import type { RigctlAdapter } from '../services/radio.js';
+import { unlessNotSupported } from '../errors.js';
+import { normalizeCwText } from '../cw.js';
+import { METER_LEVELS, S9_DBM, meterValue, signalMeters, type MeterName } from '../meters.js';
+import { modeFromHamlib, toHamlibMode } from '../modes.js';
+import {
+  HAMLIB_AGC,
+  RECEIVER_FUNCS,
+  RECEIVER_LEVELS,
+  agcFromHamlib,
+  type ReceiverFunc,
+  type ReceiverLevel,
+} from '../receiver.js';
+import { HAMLIB_RPTR_SHIFT, REPEATER_FUNCS, shiftFromHamlib } from '../repeater.js';
+import { parseDumpCaps } from './hamlib-caps.js';
+import {
+  HAMLIB_VFO_OPS,
+  fromHamlibVfo,
+  numberField,
+  stringField,
+  toHamlibVfo,
+  type ExtendedReply,
+} from './hamlib-protocol.js';
+import { RigctldConnection, type RigctldConnectionOptions } from './rigctld-connection.js';
+
+// Read as levels, already calibrated by the rig's Hamlib backend; power out
+// has a fallback for older Hamlib and is read on its own
+const TX_METERS = (Object.keys(METER_LEVELS) as MeterName[]).filter((name) => name !== 'powerWatts');
 
 export class RigctldAdapter implements RigctlAdapter {
-  private socket: Socket | null = null;
-  private connected = false;
-  private host = 'localhost';
-  private port = 4532;
+  private readonly conn: RigctldConnection;
+  private rigModel: string | undefined;
+  private caps: RadioCapabilities | null = null;
 
-  async connect(host: string, port: number): Promise<void> {
-    this.host = host || 'localhost';
-    this.port = port || 4532;
+  constructor(options: RigctldConnectionOptions = {}) {
+    this.conn = new RigctldConnection(options);
+  }
 
-    // Validate by issuing a simple command; mark connected only on success
-    await this.sendCommand('f');
-    this.connected = true;
+  async connect(host: string, port: number): Promise<void> {
+    await this.conn.open(host || '127.0.0.1', port || 4532);
+    // Validate by issuing a simple command; stay connected only on success
+    try {
+      await this.getFrequency();
+    } catch (error) {
+      await this.conn.close();
+      throw error;
+    }
   }
 
   async disconnect(): Promise<void> {
-    if (this.socket) {
-      this.socket.destroy();
-      this.socket = null;
-    }
-    this.connected = false;
-  }
-
-  private async sendCommand(command: string): Promise<string> {
-    // Use a fresh connection per command to avoid interleaving responses.
-    return new Promise((resolve, reject) => {
-      const sock = new Socket();
-      let buf = '';
-      let finished = false;
-      const timeout = setTimeout(() => {
-        if (!finished) {
-          finished = true;
-          try { sock.destroy(); } catch {}
-          reject(new Error(`Command timeout: ${command}`));
-        }
-      }, 5000);
-
-      const cleanup = () => {
-        clearTimeout(timeout);
-        sock.removeAllListeners();
-        try { sock.end(); } catch {}
-        try { sock.destroy(); } catch {}
-      };
-
-      sock.on('error', (err) => {
-        if (finished) return;
-        finished = true;
-        cleanup();
-        reject(err);
-      });
-
-      sock.on('data', (data: Buffer) => {
-        if (finished) return;
-        buf += data.toString();
-        // rigctld terminates responses with a line starting with RPRT
-        const lines = buf.split(/\r?\n/);
-        const rprtIdx = lines.findIndex(l => /^RPRT\s/.test(l));
-        if (rprtIdx !== -1) {
-          const payloadLines = lines.slice(0, rprtIdx).filter(l => l.length > 0);
-          finished = true;
-          cleanup();
-          resolve(payloadLines.join('\n'));
-        }
-      });
-
-      sock.connect(this.port, this.host, () => {
-        sock.write(command + '\n');
-      });
-    });
+    await this.conn.close();
+  }
+
+  async getCapabilities(): Promise<RadioCapabilities> {
+    const caps = parseDumpCaps((await this.sendCommand('dump_caps')).records);
+    this.rigModel = [caps.manufacturer, caps.rigModel].filter(Boolean).join(' ') || undefined;
+    this.caps = caps;
+    return caps;
+  }
+
+  private sendCommand(command: string, ...args: Array<string | number>): Promise<ExtendedReply> {
+    return this.conn.send(command, args);
   }
 
   async getFrequency(): Promise<number> {
-    const response = await this.sendCommand('f');
-    const freq = parseInt(response.trim());
-    return freq;
+    return numberField(await this.sendCommand('get_freq'), 'Frequency');
   }
 
   async setFrequency(frequency: number): Promise<void> {
-    await this.sendCommand(`F ${frequency}`);
+    await this.sendCommand('set_freq', Math.round(frequency));
   }
 
-  async getMode(): Promise<{ mode: string; bandwidth: number }> {
-    const response = await this.sendCommand('m');
-    const lines = response.trim().split('\n');
-    const mode = lines[0] || 'USB';
-    const bandwidth = lines.length > 1 ? parseInt(lines[1]) : 2400;
-    return { mode, bandwidth };
+  async getMode(): Promise<{ mode: RadioMode; bandwidth: number }> {
+    const reply = await this.sendCommand('get_mode');
+    return { mode: modeFromHamlib(stringField(reply, 'Mode')), bandwidth: numberField(reply, 'Passband') };
   }
 
-  async setMode(mode: string, bandwidth?: number): Promise<void> {
-    const bw = bandwidth || 2400;
-    await this.sendCommand(`M ${mode} ${bw}`);
+  async setMode(mode: RadioMode, bandwidth?: number): Promise<void> {
+    // Passband 0 asks Hamlib for the rig's normal width for the mode
+    await this.sendCommand('set_mode', toHamlibMode(mode), bandwidth ?? 0);
   }
 
   async getPower(): Promise<number> {
-    const response = await this.sendCommand('l RFPOWER');
-    const power = parseFloat(response.trim()) * 100; // Convert 0.0-1.0 to 0-100
-    return Math.round(Math.max(0, Math.min(100, power))); // Clamp to 0-100
+    const level = numberField(await this.sendCommand('get_level', 'RFPOWER'), 'Level Value');
+    return Math.round(Math.max(0, Math.min(100, level * 100))); // 0.0-1.0 to 0-100
   }
 
   async setPower(power: number): Promise<void> {
     const powerLevel = power / 100; // Convert 0-100 to 0.0-1.0
-    await this.sendCommand(`L RFPOWER ${powerLevel}`);
+    await this.sendCommand('set_level', 'RFPOWER', powerLevel);
   }
 
   async getPTT(): Promise<boolean> {
-    const res = await this.sendCommand('t');
-    return res.trim() === '1';
+    return numberField(await this.sendCommand('get_ptt'), 'PTT') !== 0;
   }
 
   async setPtt(ptt: boolean): Promise<void> {
-    await this.sendCommand(`T ${ptt ? 1 : 0}`);
-  }
-
-  async getSignalStrength(): Promise<number | undefined> {
-    // Try candidates for S-meter; values may be 0.0..1.0
-    for (const token of ['STRENGTH', 'SMETER']) {
-      try {
-        const res = await this.sendCommand(`l ${token}`);
-        const v = parseFloat(res.trim());
-        if (isFinite(v)) {
-          // Map 0..1 -> -120..-40 dBm
-          return Math.round(-120 + v * 80);
-        }
-      } catch {}
+    await this.sendCommand('set_ptt', ptt ? 1 : 0);
+  }
+
+  async getVfo(): Promise<RadioVfo> {
+    return fromHamlibVfo(stringField(await this.sendCommand('get_vfo'), 'VFO'));
+  }
+
+  async setVfo(vfo: RadioVfo): Promise<void> {
+    await this.sendCommand('set_vfo', toHamlibVfo(vfo));
+  }
+
+  async vfoOp(op: VfoOp): Promise<void> {
+    await this.sendCommand('vfo_op', HAMLIB_VFO_OPS[op]);
+  }
+
+  // Switch the tuner in if Hamlib can, then start a tune if it can; a rig
+  // with only one of the two does its tune on that
+  async startTune(): Promise<void> {
+    const tuner = this.caps?.setFunctions.includes('TUNER') ?? true;
+    const tuneOp = this.caps?.vfoOps.includes('TUNE') ?? true;
+    if (tuner) await this.sendCommand('set_func', 'TUNER', 1);
+    if (tuneOp) await this.sendCommand('vfo_op', 'TUNE');
+  }
+
+  async getSplit(): Promise<{ split: boolean; txVfo: RadioVfo }> {
+    const reply = await this.sendCommand('get_split_vfo');
+    return {
+      split: numberField(reply, 'Split') !== 0,
+      txVfo: fromHamlibVfo(stringField(reply, 'TX VFO')),
+    };
+  }
+
+  async setSplit(split: boolean, txVfo?: RadioVfo): Promise<void> {
+    // Without an explicit TX VFO, transmit on the one we are not listening to
+    const tx = txVfo ?? ((await this.getVfo()) === 'A' ? 'B' : 'A');
+    await this.sendCommand('set_split_vfo', split ? 1 : 0, toHamlibVfo(tx));
+  }
+
+  async getSplitFrequency(): Promise<number> {
+    return numberField(await this.sendCommand('get_split_freq'), 'TX Frequency');
+  }
+
+  async setSplitFrequency(hz: number): Promise<void> {
+    await this.sendCommand('set_split_freq', Math.round(hz));
+  }
+
+  async getSplitMode(): Promise<{ mode: RadioMode; bandwidth: number }> {
+    const reply = await this.sendCommand('get_split_mode');
+    return {
+      mode: modeFromHamlib(stringField(reply, 'TX Mode')),
+      bandwidth: numberField(reply, 'TX Passband'),
+    };
+  }
+
+  async setSplitMode(mode: RadioMode, bandwidthHz?: number): Promise<void> {
+    await this.sendCommand('set_split_mode', toHamlibMode(mode), bandwidthHz ?? 0);
+  }
+
+  private async getLevel(level: string): Promise<number> {
+    return numberField(await this.sendCommand('get_level', level), 'Level Value');
+  }
+
+  // Without dump_caps we only try the two levels every backend has
+  private hasLevel(level: string): boolean {
+    return this.caps ? this.caps.getLevels.includes(level) : level === 'STRENGTH' || level === 'SWR';
+  }
+
+  async getSignalStrength(): Promise<number> {
+    // STRENGTH is dB relative to S9, from the backend's calibration table
+    return S9_DBM + (await this.getLevel('STRENGTH'));
+  }
+
+  private async getPowerOut(): Promise<number | undefined> {
+    if (this.hasLevel(METER_LEVELS.powerWatts)) return this.getLevel(METER_LEVELS.powerWatts);
+    // Older Hamlib only has the 0-1 meter, a fraction of the rig's full power
+    const maxPowerWatts = this.caps?.maxPowerWatts;
+    if (!this.hasLevel('RFPOWER_METER') || !maxPowerWatts) return undefined;
+    return (await this.getLevel('RFPOWER_METER')) * maxPowerWatts;
+  }
+
+  async getSquelchOpen(): Promise<boolean> {
+    return numberField(await this.sendCommand('get_dcd'), 'DCD') !== 0;
+  }
+
+  async getMeters(transmitting: boolean): Promise<RadioMeters> {
+    if (!transmitting) {
+      const [dbm, vd] = await Promise.all([
+        this.hasLevel('STRENGTH') ? unlessNotSupported(this.getSignalStrength()) : undefined,
+        this.hasLevel(METER_LEVELS.vdVolts) ? unlessNotSupported(this.getLevel(METER_LEVELS.vdVolts)) : undefined,
+      ]);
+      const meters: RadioMeters = dbm === undefined ? {} : signalMeters(dbm);
+      if (vd !== undefined) meters.vdVolts = meterValue(vd);
+      return meters;
     }
-    return undefined;
+
+    const names = TX_METERS.filter((name) => this.hasLevel(METER_LEVELS[name]));
+    const [power, ...values] = await Promise.all([
+      unlessNotSupported(this.getPowerOut()),
+      ...names.map((name) => unlessNotSupported(this.getLevel(METER_LEVELS[name]))),
+    ]);
+    const meters: RadioMeters = {};
+    if (power !== undefined) meters.powerWatts = meterValue(power);
+    names.forEach((name, i) => {
+      const value = values[i];
+      if (value !== undefined) meters[name] = meterValue(value, 2);
+    });
+    return meters;
   }
 
-  async getSWR(): Promise<number | undefined> {
-    try {
-      const res = await this.sendCommand('l SWR');
-      const v = parseFloat(res.trim());
-      if (isFinite(v) && v > 0) return parseFloat(v.toFixed(2));
-    } catch {}
-    return undefined;
+  private async getFunc(func: string): Promise<boolean> {
+    return numberField(await this.sendCommand('get_func', func), 'Func Status') !== 0;
+  }
+
+  // Receive-chain controls vary too much between rigs to guess at without dump_caps
+  private hasFunc(func: string): boolean {
+    return this.caps?.getFunctions.includes(func) ?? false;
+  }
+
+  async getReceiver(): Promise<RadioReceiver> {
+    const funcs = (Object.keys(RECEIVER_FUNCS) as ReceiverFunc[]).filter((name) => this.hasFunc(RECEIVER_FUNCS[name]));
+    const levels = (Object.keys(RECEIVER_LEVELS) as ReceiverLevel[]).filter(
+      (name) => this.caps !== null && this.hasLevel(RECEIVER_LEVELS[name])
+    );
+    const [onOff, values] = await Promise.all([
+      Promise.all(funcs.map((name) => unlessNotSupported(this.getFunc(RECEIVER_FUNCS[name])))),
+      Promise.all(levels.map((name) => unlessNotSupported(this.getLevel(RECEIVER_LEVELS[name])))),
+    ]);
+
+    const receiver: RadioReceiver = {};
+    funcs.forEach((name, i) => {
+      const on = onOff[i];
+      if (on !== undefined) receiver[name] = on;
+    });
+    levels.forEach((name, i) => {
+      const value = values[i];
+      if (value === undefined) return;
+      if (name === 'agc') {
+        const agc = agcFromHamlib(value);
+        if (agc) receiver.agc = agc;
+      } else if (name === 'notchHz' || name === 'preampDb' || name === 'attDb') {
+        receiver[name] = Math.round(value);
+      } else {
+        receiver[name] = meterValue(value, 2);
+      }
+    });
+    return receiver;
+  }
+
+  // One command per control, in order; the first the rig refuses stops the rest
+  async setReceiver(settings: RadioReceiver): Promise<void> {
+    for (const name of Object.keys(RECEIVER_FUNCS) as ReceiverFunc[]) {
+      const on = settings[name];
+      if (on !== undefined) await this.sendCommand('set_func', RECEIVER_FUNCS[name], on ? 1 : 0);
+    }
+    for (const name of Object.keys(RECEIVER_LEVELS) as ReceiverLevel[]) {
+      const value = name === 'agc' ? settings.agc && HAMLIB_AGC[settings.agc] : settings[name];
+      if (value !== undefined) await this.sendCommand('set_level', RECEIVER_LEVELS[name], value);
+    }
+  }
+
+  async getRit(): Promise<number> {
+    return numberField(await this.sendCommand('get_rit'), 'RIT');
+  }
+
+  async getXit(): Promise<number> {
+    return numberField(await this.sendCommand('get_xit'), 'XIT');
+  }
+
+  async getOffsets(): Promise<RadioOffsets> {
+    const caps = this.caps;
+    if (!caps) return {};
+    // Some backends have the offsets without a separate on/off switch
+    const [ritOn, ritHz, xitOn, xitHz, ifShift] = await Promise.all([
+      this.hasFunc('RIT') ? unlessNotSupported(this.getFunc('RIT')) : undefined,
+      caps.maxRitHz ? unlessNotSupported(this.getRit()) : undefined,
+      this.hasFunc('XIT') ? unlessNotSupported(this.getFunc('XIT')) : undefined,
+      caps.maxXitHz ? unlessNotSupported(this.getXit()) : undefined,
+      this.hasLevel('IF') ? unlessNotSupported(this.getLevel('IF')) : undefined,
+    ]);
+    const offsets: RadioOffsets = {};
+    if (ritOn !== undefined) offsets.ritOn = ritOn;
+    if (ritHz !== undefined) offsets.ritHz = Math.round(ritHz);
+    if (xitOn !== undefined) offsets.xitOn = xitOn;
+    if (xitHz !== undefined) offsets.xitHz = Math.round(xitHz);
+    if (ifShift !== undefined) offsets.ifShiftHz = Math.round(ifShift);
+    return offsets;
+  }
+
+  async setOffsets(offsets: RadioOffsets): Promise<void> {
+    const { ritOn, ritHz, xitOn, xitHz, ifShiftHz } = offsets;
+    if (ritHz !== undefined) await this.sendCommand('set_rit', ritHz);
+    if (ritOn !== undefined) await this.sendCommand('set_func', 'RIT', ritOn ? 1 : 0);
+    if (xitHz !== undefined) await this.sendCommand('set_xit', xitHz);
+    if (xitOn !== undefined) await this.sendCommand('set_func', 'XIT', xitOn ? 1 : 0);
+    if (ifShiftHz !== undefined) await this.sendCommand('set_level', 'IF', ifShiftHz);
+  }
+
+  async getRepeater(): Promise<RadioRepeater> {
+    const caps = this.caps;
+    if (!caps) return {};
+    const funcOn = (func: string) => (this.hasFunc(func) ? unlessNotSupported(this.getFunc(func)) : undefined);
+    const [shift, offset, ctcss, ctcssSql, dcsCode, tone, tsql, dcs, reverse] = await Promise.all([
+      caps.canSetRepeater ? unlessNotSupported(this.sendCommand('get_rptr_shift')) : undefined,
+      caps.canSetRepeater ? unlessNotSupported(this.sendCommand('get_rptr_offs')) : undefined,
+      caps.ctcssTones.length > 0 ? unlessNotSupported(this.sendCommand('get_ctcss_tone')) : undefined,
+      caps.ctcssTones.length > 0 ? unlessNotSupported(this.sendCommand('get_ctcss_sql')) : undefined,
+      caps.dcsCodes.length > 0 ? unlessNotSupported(this.sendCommand('get_dcs_code')) : undefined,
+      funcOn(REPEATER_FUNCS.tone),
+      funcOn(REPEATER_FUNCS.tsql),
+      funcOn(REPEATER_FUNCS.dcs),
+      funcOn(REPEATER_FUNCS.reverse),
+    ]);
+    const repeater: RadioRepeater = {};
+    if (shift) repeater.shift = shiftFromHamlib(stringField(shift, 'Rptr Shift'));
+    if (offset) repeater.offsetHz = numberField(offset, 'Rptr Offset');
+    // Tones come in tenths of a hertz; 0 means none set yet
+    const tenths = ctcss ? numberField(ctcss, 'CTCSS Tone') : 0;
+    if (tenths > 0) repeater.ctcssHz = tenths / 10;
+    const sqlTenths = ctcssSql ? numberField(ctcssSql, 'CTCSS Sql') : 0;
+    if (sqlTenths > 0) repeater.ctcssSqlHz = sqlTenths / 10;
+    const code = dcsCode ? numberField(dcsCode, 'DCS Code') : 0;
+    if (code > 0) repeater.dcsCode = code;
+    if (tone !== undefined || tsql !== undefined || dcs !== undefined) {
+      repeater.toneMode = dcs ? 'dcs' : tsql ? 'tsql' : tone ? 'tone' : 'off';
+    }
+    if (reverse !== undefined) repeater.reverse = reverse;
+    return repeater;
+  }
+
+  async setRepeater(repeater: RadioRepeater): Promise<void> {
+    const { shift, offsetHz, toneMode, ctcssHz, ctcssSqlHz, dcsCode, reverse } = repeater;
+    if (shift !== undefined) await this.sendCommand('set_rptr_shift', HAMLIB_RPTR_SHIFT[shift]);
+    if (offsetHz !== undefined) await this.sendCommand('set_rptr_offs', offsetHz);
+    if (ctcssHz !== undefined) await this.sendCommand('set_ctcss_tone', Math.round(ctcssHz * 10));
+    if (ctcssSqlHz !== undefined) await this.sendCommand('set_ctcss_sql', Math.round(ctcssSqlHz * 10));
+    if (dcsCode !== undefined) {
+      await this.sendCommand('set_dcs_code', dcsCode);
+      await unlessNotSupported(this.sendCommand('set_dcs_sql', dcsCode));
+    }
+    if (toneMode !== undefined) {
+      // Everything else off before the new one goes on, for rigs that only
+      // allow one at a time
+      const on = toneMode === 'off' ? undefined : REPEATER_FUNCS[toneMode];
+      for (const func of [REPEATER_FUNCS.tone, REPEATER_FUNCS.tsql, REPEATER_FUNCS.dcs]) {
+        if (func !== on && this.hasFunc(func)) await this.sendCommand('set_func', func, 0);
+      }
+      if (on) await this.sendCommand('set_func', on, 1);
+    }
+    if (reverse !== undefined) await this.sendCommand('set_func', REPEATER_FUNCS.reverse, reverse ? 1 : 0);
+  }
+
+  // rigctld takes the rest of the line as the text, spaces and all
+  async sendMorse(text: string): Promise<void> {
+    // Only what Morse can send goes on the wire; the separator or a line
+    // break in the text would cut the command short
+    await this.sendCommand('send_morse', normalizeCwText(text));
+  }
+
+  async stopMorse(): Promise<void> {
+    await this.sendCommand('stop_morse');
+  }
+
+  async setKeyerSpeed(wpm: number): Promise<void> {
+    await this.sendCommand('set_level', 'KEYSPD', wpm);
   }
 
   async getState(): Promise<Partial<RadioState>> {
-    try {
-      const [frequency, modeInfo, power, ptt, swr, signal] = await Promise.all([
-        this.getFrequency(),
-        this.getMode(),
-        this.getPower(),
-        this.getPTT().catch(() => false),
-        this.getSWR().catch(() => undefined),
-        this.getSignalStrength().catch(() => undefined),
-      ]);
+    if (!this.conn.isConnected()) return { connected: false };
 
-      const state: Partial<RadioState> = {
-        connected: this.connected,
-        frequencyHz: frequency,
-        mode: modeInfo.mode as any,
-        bandwidthHz: modeInfo.bandwidth,
-        power,
-        ptt,
-        rigModel: 'IC-7300',
-      };
-      if (typeof swr === 'number') (state as any).swr = swr;
-      if (typeof signal === 'number') (state as any).signalStrength = signal;
-      return state;
-    } catch (error) {
-      return { connected: false };
+    // Queued on the shared connection, so these run back to back rather than
+    // racing. Controls the rig lacks are left out; any other failure throws.
+    const [frequency, modeInfo, power, ptt, vfo, split] = await Promise.all([
+      this.getFrequency(),
+      this.getMode(),
+      unlessNotSupported(this.getPower()),
+      unlessNotSupported(this.getPTT()),
+      unlessNotSupported(this.getVfo()),
+      unlessNotSupported(this.getSplit()),
+    ]);
+
+    const state: Partial<RadioState> = {
+      connected: true,
+      frequencyHz: frequency,
+      mode: modeInfo.mode,
+      bandwidthHz: modeInfo.bandwidth,
+      rigModel: this.rigModel,
+    };
+    if (power !== undefined) state.power = power;
+    if (ptt !== undefined) state.ptt = ptt;
+    if (vfo !== undefined) state.vfo = vfo;
+    if (split !== undefined) {
+      state.split = split.split;
+      // Cleared explicitly so a previous split's TX side does not linger
+      state.txVfo = undefined;
+      state.txFrequencyHz = undefined;
+      state.txMode = undefined;
+      if (split.split) {
+        const [txFrequency, txMode] = await Promise.all([
+          unlessNotSupported(this.getSplitFrequency()),
+          unlessNotSupported(this.getSplitMode()),
+        ]);
+        state.txVfo = split.txVfo;
+        state.txFrequencyHz = txFrequency;
+        state.txMode = txMode?.mode;
+      }
     }
+    return state;
   }
 }
@@ -0,0 +1,38 @@
+import fs from "node:fs";
+import tty from "node:tty";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { RigError } from "../errors.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Open a serial device (or a pseudo-terminal standing in for one) as a raw,
+ * 8N1 byte stream. The line speed is set with stty beforehand since Node has
+ * no termios API of its own; everything else is tty raw mode.
+ */
+export async function openSerialPort(path: string, baudRate: number): Promise<tty.ReadStream> {
+  const deviceFlag = process.platform === "darwin" ? "-f" : "-F";
+  try {
+    await execFileAsync("stty", [deviceFlag, path, String(baudRate), "raw", "-echo", "cs8", "-cstopb", "-parenb"]);
+  } catch (e: any) {
+    const detail = String(e.stderr ?? e.message).trim();
+    if (e.code === "ENOENT") throw new RigError("io", `stty not found; needed to set ${path} to ${baudRate} baud`);
+    throw new RigError("not_connected", `${path}: ${detail}`);
+  }
+
+  let fd: number;
+  try {
+    fd = fs.openSync(path, fs.constants.O_RDWR | fs.constants.O_NOCTTY);
+  } catch (e: any) {
+    throw new RigError("not_connected", `${path}: ${e.message}`);
+  }
+  if (!tty.isatty(fd)) {
+    fs.closeSync(fd);
+    throw new RigError("invalid", `${path} is not a serial device`);
+  }
+
+  const stream = new tty.ReadStream(fd);
+  stream.setRawMode(true);
+  return stream;
+}
@@ -0,0 +1,555 @@
+import { z } from 'zod';
+import type {
+  RadioCapabilities,
+  RadioMeters,
+  RadioMode,
+  RadioOffsets,
+  RadioReceiver,
+  RadioRepeater,
+  RadioState,
+  RadioVfo,
+  VfoOp,
+} from '../dtos.js';
+import type { RigctlAdapter } from '../services/radio.js';
+import { RigError, notSupported, type RigErrorKind } from '../errors.js';
+import { METER_LEVELS, S9_DBM, meterValue, signalMeters } from '../meters.js';
+import { defaultPassband } from '../modes.js';
+import { RECEIVER_FUNCS, RECEIVER_LEVELS } from '../receiver.js';
+import { cwTimeline, normalizeCwText } from '../cw.js';
+import { CTCSS_TONES, REPEATER_FUNCS } from '../repeater.js';
+
+// Per-rig simulator settings, as given under "simulator" in RIGS
+export const SimulatorOptionsSchema = z.object({
+  rigModel: z.string().default('Simulated IC-7300'),
+  maxPowerWatts: z.number().positive().default(100),
+  // Seeds band activity and failures so a demo plays out the same every time
+  seed: z.number().int().default(7300),
+  // Per-command delay, picked uniformly from this range
+  latencyMs: z.tuple([z.number().min(0), z.number().min(0)]).default([5, 25]),
+  // Relay delay between keying and the rig reporting TX, and the TX time-out timer
+  pttDelayMs: z.number().min(0).default(40),
+  txTimeoutMs: z.number().min(0).default(180000),
+  // Chance that any one command fails, and how
+  failureRate: z.number().min(0).max(1).default(0),
+  failureKinds: z.array(z.enum(['timeout', 'rejected', 'io'])).min(1).default(['timeout', 'rejected', 'io']),
+  // Resonant frequencies of the simulated antenna; SWR rises away from them
+  antennaResonancesHz: z.array(z.number().positive()).default([3650000, 7100000, 14150000, 21200000, 28500000]),
+});
+export type SimulatorOptions = z.infer<typeof SimulatorOptionsSchema>;
+
+interface VfoState {
+  frequencyHz: number;
+  mode: RadioMode;
+  bandwidthHz: number;
+}
+
+// What an IC-7300 offers, which is what the simulator pretends to be
+const SIM_MODES: RadioMode[] = [
+  'LSB', 'USB', 'CW', 'CWR', 'AM', 'FM', 'RTTY', 'RTTYR', 'PKTLSB', 'PKTUSB', 'PKTFM', 'PKTAM',
+];
+// Tone encode, tone squelch and reverse; no DCS
+const SIM_REPEATER_FUNCS = [REPEATER_FUNCS.tone, REPEATER_FUNCS.tsql, REPEATER_FUNCS.reverse];
+const MIN_FREQ_HZ = 30000;
+const MAX_FREQ_HZ = 74800000;
+// PA drain current with no drive
+const IDLE_AMPS = 1.2;
+// IC-7300 front end: P.AMP1/P.AMP2 and the 20 dB attenuator
+const PREAMPS_DB = [10, 20];
+const ATTENUATORS_DB = [20];
+// RIT/ΔTX reach and the IF shift range
+const MAX_OFFSET_HZ = 9999;
+const MAX_IF_SHIFT_HZ = 1200;
+// The IC-7300's keyer range
+const MIN_KEYER_WPM = 6;
+const MAX_KEYER_WPM = 48;
+// The IC-7300's ATU: how long a tune keys for, the worst SWR it can match,
+// and how far off the tuned frequency the match holds (as a fraction)
+const ATU_TUNE_MS = 1500;
+const ATU_MAX_SWR = 3;
+const ATU_SPAN = 0.005;
+
+// Band noise floors in dBm: low bands are noisy, high bands quiet
+const NOISE_FLOORS: Array<[number, number]> = [
+  [2000000, -95],
+  [4000000, -100],
+  [8000000, -108],
+  [15000000, -115],
+  [30000000, -122],
+  [Infinity, -126],
+];
+
+// Deterministic PRNG so a seed reproduces the same band and failures
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Stable per-slot pseudo-random value: the same kHz always holds the same station
+function hash01(seed: number, n: number): number {
+  return mulberry32(seed ^ Math.imul(n, 0x9e3779b1))();
+}
+
+/**
+ * A simulated transceiver for developing and demoing without a radio.
+ *
+ * It keeps two VFOs with split, gives each mode its usual passband, places
+ * stations on the band that fade in and out so the S-meter moves as you tune,
+ * derives SWR from an antenna with a few resonances (and how hard it is
+ * driven), has an ATU that matches anything up to 3:1, rides ALC on voice
+ * peaks, keys through a relay delay with a TX time-out, and can be told to
+ * fail commands now and then.
+ */
+export class SimulatorAdapter implements RigctlAdapter {
+  private readonly opts: SimulatorOptions;
+  private readonly random: () => number;
+  private connected = false;
+  private vfos: Record<RadioVfo, VfoState> = {
+    A: { frequencyHz: 14074000, mode: 'PKTUSB', bandwidthHz: defaultPassband('PKTUSB') },
+    B: { frequencyHz: 14076000, mode: 'PKTUSB', bandwidthHz: defaultPassband('PKTUSB') },
+  };
+  private vfo: RadioVfo = 'A';
+  private split = false;
+  private txVfo: RadioVfo = 'B';
+  private powerPercent = 50;
+  private receiver: Required<RadioReceiver> = {
+    agc: 'medium',
+    nb: false,
+    nr: false,
+    nrLevel: 0.5,
+    autoNotch: false,
+    manualNotch: false,
+    notchHz: 1500,
+    preampDb: 10,
+    attDb: 0,
+    rfGain: 1,
+    afGain: 0.4,
+    squelch: 0,
+  };
+  private offsets: Required<RadioOffsets> = { ritOn: false, ritHz: 0, xitOn: false, xitHz: 0, ifShiftHz: 0 };
+  // Like the IC-7300: shift and CTCSS for 10m and 6m FM, but no DCS
+  private repeater: Required<Omit<RadioRepeater, 'dcsCode'>> = {
+    shift: 'simplex',
+    offsetHz: 100000,
+    toneMode: 'off',
+    ctcssHz: 88.5,
+    ctcssSqlHz: 88.5,
+    reverse: false,
+  };
+  private pttRequested = false;
+  private keyedAt = 0;
+  // The keyer holds the transmitter on until its buffer has gone out
+  private keyerWpm = 20;
+  private keyerUntil = 0;
+  // The ATU keys until its tune is done, then holds the match it found
+  private tuneUntil = 0;
+  private tunerMatchedHz: number | null = null;
+  private forcedFailures: RigErrorKind[] = [];
+  private readonly startedAt = Date.now();
+
+  constructor(options: Partial<SimulatorOptions> = {}) {
+    this.opts = SimulatorOptionsSchema.parse(options);
+    this.random = mulberry32(this.opts.seed);
+  }
+
+  /** Make the next commands fail with these kinds, in order, whatever the failure rate. */
+  injectFailures(...kinds: RigErrorKind[]) {
+    this.forcedFailures.push(...kinds);
+  }
+
+  // Every command goes through here: latency first, then any injected failure
+  private async command(name: string): Promise<void> {
+    const [min, max] = this.opts.latencyMs;
+    const delay = min + this.random() * Math.max(0, max - min);
+    if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+    if (!this.connected) throw new RigError('not_connected', 'Simulator is not connected');
+
+    const forced = this.forcedFailures.shift();
+    const kind =
+      forced ??
+      (this.random() < this.opts.failureRate
+        ? this.opts.failureKinds[Math.floor(this.random() * this.opts.failureKinds.length)]
+        : undefined);
+    if (!kind) return;
+    if (kind === 'io' || kind === 'not_connected') this.connected = false;
+    throw new RigError(kind, `${name}: simulated ${kind.replace('_', ' ')}`);
+  }
+
+  async connect(_host: string, _port: number): Promise<void> {
+    this.connected = true;
+    try {
+      await this.command('connect');
+    } catch (error) {
+      this.connected = false;
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.pttRequested = false;
+    this.keyerUntil = 0;
+    this.tuneUntil = 0;
+  }
+
+  async getCapabilities(): Promise<RadioCapabilities> {
+    await this.command('dump_caps');
+    return {
+      rigModel: this.opts.rigModel,
+      manufacturer: 'rigboss',
+      modes: SIM_MODES,
+      vfos: ['VFOA', 'VFOB'],
+      vfoOps: ['CPY', 'XCHG', 'TUNE'],
+      getLevels: ['RFPOWER', 'STRENGTH', 'IF', ...Object.values(METER_LEVELS), ...Object.values(RECEIVER_LEVELS)],
+      setLevels: ['RFPOWER', 'IF', 'KEYSPD', ...Object.values(RECEIVER_LEVELS)],
+      getFunctions: ['RIT', 'XIT', ...SIM_REPEATER_FUNCS, ...Object.values(RECEIVER_FUNCS)],
+      setFunctions: ['RIT', 'XIT', 'TUNER', ...SIM_REPEATER_FUNCS, ...Object.values(RECEIVER_FUNCS)],
+      canSetSplit: true,
+      canGetSplit: true,
+      canSetPtt: true,
+      canSendMorse: true,
+      canSetRepeater: true,
+      ctcssTones: CTCSS_TONES,
+      dcsCodes: [],
+      preamps: PREAMPS_DB,
+      attenuators: ATTENUATORS_DB,
+      maxPowerWatts: this.opts.maxPowerWatts,
+      maxRitHz: MAX_OFFSET_HZ,
+      maxXitHz: MAX_OFFSET_HZ,
+      maxIfShiftHz: MAX_IF_SHIFT_HZ,
+    };
+  }
+
+  private get rx(): VfoState {
+    return this.vfos[this.vfo];
+  }
+
+  private get tx(): VfoState {
+    return this.split ? this.vfos[this.txVfo] : this.rx;
+  }
+
+  private checkFrequency(hz: number) {
+    if (!Number.isFinite(hz) || hz < MIN_FREQ_HZ || hz > MAX_FREQ_HZ) {
+      throw new RigError('rejected', `Frequency ${hz} Hz is outside ${MIN_FREQ_HZ}-${MAX_FREQ_HZ} Hz`);
+    }
+  }
+
+  private passband(mode: RadioMode, bandwidthHz?: number): number {
+    const normal = defaultPassband(mode);
+    if (!bandwidthHz) return normal;
+    // FM only has its fixed filters; everything else is continuously adjustable
+    if (mode === 'FM' || mode === 'PKTFM') return bandwidthHz < normal ? normal / 2 : normal;
+    return Math.max(50, Math.min(normal * 2, Math.round(bandwidthHz / 50) * 50));
+  }
+
+  private setVfoMode(target: VfoState, mode: RadioMode, bandwidthHz?: number) {
+    if (!SIM_MODES.includes(mode)) throw notSupported(`Mode ${mode}`);
+    target.mode = mode;
+    target.bandwidthHz = this.passband(mode, bandwidthHz);
+  }
+
+  async setFrequency(hz: number): Promise<void> {
+    await this.command('set_freq');
+    this.checkFrequency(hz);
+    this.rx.frequencyHz = Math.round(hz);
+  }
+
+  async setMode(mode: RadioMode, bandwidthHz?: number): Promise<void> {
+    await this.command('set_mode');
+    this.setVfoMode(this.rx, mode, bandwidthHz);
+  }
+
+  async setPower(percent: number): Promise<void> {
+    await this.command('set_level RFPOWER');
+    if (!(percent >= 0 && percent <= 100)) throw new RigError('rejected', `Power ${percent}% is outside 0-100`);
+    this.powerPercent = Math.round(percent);
+  }
+
+  async setPtt(ptt: boolean): Promise<void> {
+    await this.command('set_ptt');
+    if (ptt && !this.pttRequested) this.keyedAt = Date.now();
+    this.pttRequested = ptt;
+  }
+
+  async getVfo(): Promise<RadioVfo> {
+    await this.command('get_vfo');
+    return this.vfo;
+  }
+
+  async setVfo(vfo: RadioVfo): Promise<void> {
+    await this.command('set_vfo');
+    this.vfo = vfo;
+  }
+
+  async vfoOp(op: VfoOp): Promise<void> {
+    await this.command('vfo_op');
+    const other: RadioVfo = this.vfo === 'A' ? 'B' : 'A';
+    if (op === 'copy') this.vfos[other] = { ...this.vfos[this.vfo] };
+    else [this.vfos.A, this.vfos.B] = [this.vfos.B, this.vfos.A];
+  }
+
+  async getSplit(): Promise<{ split: boolean; txVfo: RadioVfo }> {
+    await this.command('get_split_vfo');
+    return { split: this.split, txVfo: this.txVfo };
+  }
+
+  async setSplit(split: boolean, txVfo?: RadioVfo): Promise<void> {
+    await this.command('set_split_vfo');
+    this.split = split;
+    this.txVfo = txVfo ?? (this.vfo === 'A' ? 'B' : 'A');
+  }
+
+  async getSplitFrequency(): Promise<number> {
+    await this.command('get_split_freq');
+    return this.vfos[this.txVfo].frequencyHz;
+  }
+
+  async setSplitFrequency(hz: number): Promise<void> {
+    await this.command('set_split_freq');
+    this.checkFrequency(hz);
+    this.vfos[this.txVfo].frequencyHz = Math.round(hz);
+  }
+
+  async getSplitMode(): Promise<{ mode: RadioMode; bandwidth: number }> {
+    await this.command('get_split_mode');
+    const { mode, bandwidthHz } = this.vfos[this.txVfo];
+    return { mode, bandwidth: bandwidthHz };
+  }
+
+  async setSplitMode(mode: RadioMode, bandwidthHz?: number): Promise<void> {
+    await this.command('set_split_mode');
+    this.setVfoMode(this.vfos[this.txVfo], mode, bandwidthHz);
+  }
+
+  async getReceiver(): Promise<RadioReceiver> {
+    await this.command('get_receiver');
+    return { ...this.receiver };
+  }
+
+  async setReceiver(settings: RadioReceiver): Promise<void> {
+    await this.command('set_receiver');
+    const { preampDb, attDb } = settings;
+    if (preampDb !== undefined && preampDb !== 0 && !PREAMPS_DB.includes(preampDb)) {
+      throw new RigError('rejected', `Preamp ${preampDb} dB is not one of ${PREAMPS_DB.join(', ')} dB`);
+    }
+    if (attDb !== undefined && attDb !== 0 && !ATTENUATORS_DB.includes(attDb)) {
+      throw new RigError('rejected', `Attenuator ${attDb} dB is not one of ${ATTENUATORS_DB.join(', ')} dB`);
+    }
+    for (const [name, value] of Object.entries(settings)) {
+      if (value !== undefined) Object.assign(this.receiver, { [name]: value });
+    }
+  }
+
+  async getOffsets(): Promise<RadioOffsets> {
+    await this.command('get_offsets');
+    return { ...this.offsets };
+  }
+
+  async setOffsets(offsets: RadioOffsets): Promise<void> {
+    await this.command('set_offsets');
+    const { ritHz, xitHz, ifShiftHz } = offsets;
+    for (const [what, hz, max] of [
+      ['RIT', ritHz, MAX_OFFSET_HZ],
+      ['XIT', xitHz, MAX_OFFSET_HZ],
+      ['IF shift', ifShiftHz, MAX_IF_SHIFT_HZ],
+    ] as const) {
+      if (hz !== undefined && Math.abs(hz) > max) throw new RigError('rejected', `${what} ${hz} Hz is beyond ±${max} Hz`);
+    }
+    for (const [name, value] of Object.entries(offsets)) {
+      if (value !== undefined) Object.assign(this.offsets, { [name]: value });
+    }
+  }
+
+  async getRepeater(): Promise<RadioRepeater> {
+    await this.command('get_repeater');
+    return { ...this.repeater };
+  }
+
+  async setRepeater(repeater: RadioRepeater): Promise<void> {
+    await this.command('set_repeater');
+    const { dcsCode, ...rest } = repeater;
+    if (dcsCode !== undefined || rest.toneMode === 'dcs') throw notSupported('DCS');
+    for (const [name, value] of Object.entries(rest)) {
+      if (value !== undefined) Object.assign(this.repeater, { [name]: value });
+    }
+  }
+
+  async sendMorse(text: string): Promise<void> {
+    await this.command('send_morse');
+    if (this.tx.mode !== 'CW' && this.tx.mode !== 'CWR') {
+      throw new RigError('rejected', `The keyer only sends in CW, not ${this.tx.mode}`);
+    }
+    const clean = normalizeCwText(text);
+    const duration = cwTimeline(clean, this.keyerWpm).at(-1) ?? 0;
+    this.keyerUntil = Math.max(this.keyerUntil, Date.now()) + duration;
+  }
+
+  async startTune(): Promise<void> {
+    await this.command('vfo_op TUNE');
+    const now = Date.now();
+    this.tuneUntil = now + ATU_TUNE_MS;
+    // Out of range, the ATU gives up and leaves the antenna as it is
+    this.tunerMatchedHz = this.antennaSwr(this.txHz) <= ATU_MAX_SWR ? this.txHz : null;
+  }
+
+  async stopMorse(): Promise<void> {
+    await this.command('stop_morse');
+    this.keyerUntil = 0;
+  }
+
+  async setKeyerSpeed(wpm: number): Promise<void> {
+    await this.command('set_level');
+    if (!(wpm >= MIN_KEYER_WPM && wpm <= MAX_KEYER_WPM)) {
+      throw new RigError('rejected', `Keyer speed ${wpm} WPM is outside ${MIN_KEYER_WPM}-${MAX_KEYER_WPM}`);
+    }
+    this.keyerWpm = wpm;
+  }
+
+  // The repeater shift only applies in FM
+  private get repeaterShiftHz(): number {
+    const { shift, offsetHz } = this.repeater;
+    if (shift === 'simplex' || (this.rx.mode !== 'FM' && this.rx.mode !== 'FMN')) return 0;
+    return shift === 'plus' ? offsetHz : -offsetHz;
+  }
+
+  // Where the receiver and transmitter actually are, clarifiers and repeater
+  // shift included; reverse listens on the input and transmits on the output
+  private get rxHz(): number {
+    const shift = this.repeater.reverse ? this.repeaterShiftHz : 0;
+    return this.rx.frequencyHz + shift + (this.offsets.ritOn ? this.offsets.ritHz : 0);
+  }
+
+  private get txHz(): number {
+    const shift = this.repeater.reverse ? 0 : this.repeaterShiftHz;
+    return this.tx.frequencyHz + shift + (this.offsets.xitOn ? this.offsets.xitHz : 0);
+  }
+
+  // Keyed while the keyer is sending or the ATU is tuning, or once the relay
+  // has closed until the time-out timer drops it
+  private isTransmitting(now = Date.now()): boolean {
+    if (now < this.keyerUntil || now < this.tuneUntil) return true;
+    if (!this.pttRequested) return false;
+    const { pttDelayMs, txTimeoutMs } = this.opts;
+    if (txTimeoutMs > 0 && now - this.keyedAt >= txTimeoutMs) {
+      this.pttRequested = false;
+      return false;
+    }
+    return now - this.keyedAt >= pttDelayMs;
+  }
+
+  private noiseFloor(hz: number): number {
+    return NOISE_FLOORS.find(([upTo]) => hz < upTo)![1];
+  }
+
+  /** Received level in dBm: the band's noise plus any station inside the passband. */
+  private signalDbm(now: number): number {
+    const { bandwidthHz } = this.rx;
+    // IF shift slides the passband off the dial frequency
+    const frequencyHz = this.rxHz + this.offsets.ifShiftHz;
+    const seconds = (now - this.startedAt) / 1000;
+    let power = 10 ** (this.noiseFloor(frequencyHz) / 10);
+
+    // One possible station per kHz; about a third of the slots are occupied
+    const half = bandwidthHz / 2;
+    for (let khz = Math.floor((frequencyHz - half) / 1000); khz <= Math.ceil((frequencyHz + half) / 1000); khz++) {
+      const presence = hash01(this.opts.seed, khz);
+      if (presence > 0.35) continue;
+      const offset = Math.abs(khz * 1000 + 500 - frequencyHz);
+      if (offset > half) continue;
+      const strength = -115 + hash01(this.opts.seed + 1, khz) * 70;
+      // QSB: each station fades on its own slow cycle
+      const fade = 8 * Math.sin(seconds / (6 + presence * 20) + khz);
+      power += 10 ** ((strength + fade) / 10);
+    }
+    const jitter = (this.random() - 0.5) * 2;
+    // The S-meter reads after the front end, so preamp and attenuator move it
+    const { preampDb, attDb } = this.receiver;
+    return Math.round(10 * Math.log10(power) + preampDb - attDb + jitter);
+  }
+
+  private antennaSwr(hz: number): number {
+    const nearest = Math.min(...this.opts.antennaResonancesHz.map((r) => Math.abs(hz - r) / r));
+    return 1 + nearest * 60;
+  }
+
+  // What the rig sees through the ATU: near 1:1 close to where it last tuned
+  private matchedSwr(hz: number, now: number): number {
+    const raw = this.antennaSwr(hz);
+    const matched = this.tunerMatchedHz;
+    if (matched === null || now < this.tuneUntil || Math.abs(hz - matched) / matched > ATU_SPAN) return raw;
+    return 1 + (raw - 1) * 0.05;
+  }
+
+  /** Meter readings as the rig would show them right now. */
+  private readMeters(transmitting: boolean, now: number): RadioMeters {
+    // The supply sags a little under load, as a real 13.8 V PSU does
+    const vd = (amps: number) => meterValue(13.8 - 0.04 * amps);
+    if (!transmitting) return { ...signalMeters(this.signalDbm(now)), vdVolts: vd(IDLE_AMPS) };
+
+    const drive = this.powerPercent / 100;
+    const base = this.matchedSwr(this.txHz, now);
+    // A warm balun and a hard-driven amp push SWR up a little
+    const swr = Math.min(9.9, base * (1 + 0.08 * drive));
+    // High SWR folds the output back to protect the finals
+    const foldback = swr > 2.5 ? Math.max(0.2, 2.5 / swr) : 1;
+    const voice = ['LSB', 'USB', 'AM'].includes(this.tx.mode);
+    const peaks = voice ? 0.5 + 0.5 * Math.abs(Math.sin(now / 180)) : 0.15;
+    const alc = Math.max(0, Math.min(1, (drive - 0.5) * 2 * peaks + (this.random() - 0.5) * 0.05));
+    const watts = this.opts.maxPowerWatts * drive * foldback;
+    // A PA around 55% efficient on top of the idle current
+    const amps = IDLE_AMPS + watts / (13.8 * 0.55);
+    return {
+      swr: meterValue(swr, 2),
+      alc: meterValue(alc, 2),
+      powerWatts: meterValue(watts),
+      compDb: voice ? meterValue(peaks * 10 * drive) : 0,
+      idAmps: meterValue(amps),
+      vdVolts: vd(amps),
+    };
+  }
+
+  // The squelch knob's travel spans S0 to S9+60; fully open passes everything
+  async getSquelchOpen(): Promise<boolean> {
+    await this.command('get_dcd');
+    const now = Date.now();
+    if (this.isTransmitting(now)) return false;
+    return this.signalDbm(now) >= S9_DBM - 54 + this.receiver.squelch * 114;
+  }
+
+  // The rig knows when its relay has closed, whatever the caller last saw
+  async getMeters(_transmitting: boolean): Promise<RadioMeters> {
+    await this.command('get_meters');
+    return this.readMeters(this.isTransmitting(), Date.now());
+  }
+
+  async getState(): Promise<Partial<RadioState>> {
+    if (!this.connected) return { connected: false };
+    await this.command('get_state');
+
+    const state: Partial<RadioState> = {
+      connected: true,
+      rigModel: this.opts.rigModel,
+      frequencyHz: this.rx.frequencyHz,
+      mode: this.rx.mode,
+      bandwidthHz: this.rx.bandwidthHz,
+      power: this.powerPercent,
+      ptt: this.isTransmitting(),
+      vfo: this.vfo,
+      split: this.split,
+      txVfo: undefined,
+      txFrequencyHz: undefined,
+      txMode: undefined,
+    };
+    if (this.split) {
+      state.txVfo = this.txVfo;
+      state.txFrequencyHz = this.tx.frequencyHz;
+      state.txMode = this.tx.mode;
+    }
+    return state;
+  }
+}
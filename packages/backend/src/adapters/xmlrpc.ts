@@ -0,0 +1,260 @@
+import http from "node:http";
+import { RigError } from "../errors.js";
+
+/**
+ * Just enough XML-RPC for flrig: scalar, array and struct values, method
+ * calls and responses, and faults. JS numbers go out as <int> when they are
+ * whole; wrap one in XmlRpcDouble when the server insists on a <double>.
+ */
+
+export class XmlRpcDouble {
+  constructor(readonly value: number) {}
+}
+
+export type XmlRpcValue =
+  | string
+  | number
+  | boolean
+  | null
+  | XmlRpcDouble
+  | XmlRpcValue[]
+  | { [key: string]: XmlRpcValue };
+
+export class XmlRpcFault extends Error {
+  constructor(
+    readonly faultCode: number,
+    readonly faultString: string
+  ) {
+    super(faultString);
+    this.name = "XmlRpcFault";
+  }
+}
+
+export function isStruct(value: XmlRpcValue): value is { [key: string]: XmlRpcValue } {
+  return value !== null && typeof value === "object" && !Array.isArray(value) && !(value instanceof XmlRpcDouble);
+}
+
+interface XmlNode {
+  name: string;
+  children: XmlNode[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (whole, ent: string) => {
+    if (ent[0] === "#") {
+      const code = ent[1] === "x" || ent[1] === "X" ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : whole;
+    }
+    return ENTITIES[ent.toLowerCase()] ?? whole;
+  });
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Element tree without attributes, which XML-RPC never uses
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: "#root", children: [], text: "" };
+  const stack: XmlNode[] = [root];
+  const tag = /<(\/?)([A-Za-z_][\w.:-]*)[^>]*?(\/?)>|<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>/g;
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = tag.exec(xml))) {
+    const top = stack[stack.length - 1]!;
+    top.text += unescapeXml(xml.slice(last, m.index));
+    last = tag.lastIndex;
+    if (m[4] !== undefined) {
+      top.text += m[4];
+      continue;
+    }
+    if (!m[2]) continue; // declaration or comment
+    if (m[1]) {
+      if (top.name !== m[2]) throw new RigError("protocol", `XML-RPC: unexpected </${m[2]}>`);
+      stack.pop();
+      continue;
+    }
+    const node: XmlNode = { name: m[2], children: [], text: "" };
+    top.children.push(node);
+    if (!m[3]) stack.push(node);
+  }
+  if (stack.length !== 1) throw new RigError("protocol", "XML-RPC: truncated document");
+  return root;
+}
+
+function child(node: XmlNode, name: string): XmlNode {
+  const found = node.children.find((c) => c.name === name);
+  if (!found) throw new RigError("protocol", `XML-RPC: <${node.name}> has no <${name}>`);
+  return found;
+}
+
+function decodeValue(value: XmlNode): XmlRpcValue {
+  const typed = value.children[0];
+  // A <value> with no type element is a string
+  if (!typed) return value.text;
+  const text = typed.text.trim();
+  switch (typed.name) {
+    case "i4":
+    case "i8":
+    case "int":
+    case "double": {
+      const n = Number(text);
+      if (!Number.isFinite(n)) throw new RigError("protocol", `XML-RPC: bad <${typed.name}> "${text}"`);
+      return n;
+    }
+    case "boolean":
+      return text === "1" || text.toLowerCase() === "true";
+    case "string":
+    case "dateTime.iso8601":
+      return typed.text;
+    case "base64":
+      return Buffer.from(text, "base64").toString("utf8");
+    case "nil":
+      return null;
+    case "array":
+      return child(typed, "data").children.filter((c) => c.name === "value").map(decodeValue);
+    case "struct": {
+      const out: Record<string, XmlRpcValue> = {};
+      for (const member of typed.children.filter((c) => c.name === "member")) {
+        out[child(member, "name").text.trim()] = decodeValue(child(member, "value"));
+      }
+      return out;
+    }
+    default:
+      throw new RigError("protocol", `XML-RPC: unknown type <${typed.name}>`);
+  }
+}
+
+function encodeValue(value: XmlRpcValue): string {
+  if (value === null) return "<value><nil/></value>";
+  if (value instanceof XmlRpcDouble) return `<value><double>${value.value}</double></value>`;
+  if (Array.isArray(value)) return `<value><array><data>${value.map(encodeValue).join("")}</data></array></value>`;
+  switch (typeof value) {
+    case "string":
+      return `<value><string>${escapeXml(value)}</string></value>`;
+    case "boolean":
+      return `<value><boolean>${value ? 1 : 0}</boolean></value>`;
+    case "number":
+      return Number.isInteger(value)
+        ? `<value><int>${value}</int></value>`
+        : `<value><double>${value}</double></value>`;
+    default: {
+      const members = Object.entries(value)
+        .map(([name, v]) => `<member><name>${escapeXml(name)}</name>${encodeValue(v)}</member>`)
+        .join("");
+      return `<value><struct>${members}</struct></value>`;
+    }
+  }
+}
+
+const paramsXml = (params: XmlRpcValue[]) =>
+  `<params>${params.map((p) => `<param>${encodeValue(p)}</param>`).join("")}</params>`;
+
+export function encodeMethodCall(method: string, params: XmlRpcValue[] = []): string {
+  return `<?xml version="1.0"?><methodCall><methodName>${escapeXml(method)}</methodName>${paramsXml(params)}</methodCall>`;
+}
+
+export function encodeMethodResponse(result: XmlRpcValue): string {
+  return `<?xml version="1.0"?><methodResponse>${paramsXml([result])}</methodResponse>`;
+}
+
+export function encodeFault(faultCode: number, faultString: string): string {
+  const fault = encodeValue({ faultCode, faultString });
+  return `<?xml version="1.0"?><methodResponse><fault>${fault}</fault></methodResponse>`;
+}
+
+function decodeParams(node: XmlNode | undefined): XmlRpcValue[] {
+  if (!node) return [];
+  return node.children.filter((c) => c.name === "param").map((p) => decodeValue(child(p, "value")));
+}
+
+export function parseMethodCall(xml: string): { method: string; params: XmlRpcValue[] } {
+  const call = child(parseXml(xml), "methodCall");
+  return {
+    method: child(call, "methodName").text.trim(),
+    params: decodeParams(call.children.find((c) => c.name === "params")),
+  };
+}
+
+/** The call's result; a fault response is thrown as XmlRpcFault. */
+export function parseMethodResponse(xml: string): XmlRpcValue {
+  const response = child(parseXml(xml), "methodResponse");
+  const fault = response.children.find((c) => c.name === "fault");
+  if (fault) {
+    const body = decodeValue(child(fault, "value"));
+    const struct: Record<string, XmlRpcValue> = isStruct(body) ? body : {};
+    const { faultCode, faultString } = struct;
+    throw new XmlRpcFault(
+      typeof faultCode === "number" ? faultCode : 0,
+      typeof faultString === "string" ? faultString : "fault"
+    );
+  }
+  const params = decodeParams(response.children.find((c) => c.name === "params"));
+  return params[0] ?? null;
+}
+
+export interface XmlRpcClientOptions {
+  host: string;
+  port: number;
+  path?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * XML-RPC over HTTP POST. One kept-alive socket is shared by every call, so
+ * calls reach the server one at a time and in order.
+ */
+export class XmlRpcClient {
+  private readonly agent = new http.Agent({ keepAlive: true, maxSockets: 1 });
+
+  constructor(private readonly opts: XmlRpcClientOptions) {}
+
+  call(method: string, params: XmlRpcValue[] = []): Promise<XmlRpcValue> {
+    const body = encodeMethodCall(method, params);
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        {
+          host: this.opts.host,
+          port: this.opts.port,
+          path: this.opts.path ?? "/RPC2",
+          method: "POST",
+          agent: this.agent,
+          headers: { "Content-Type": "text/xml", "Content-Length": Buffer.byteLength(body) },
+        },
+        (res) => {
+          let text = "";
+          res.setEncoding("utf8");
+          res.on("data", (chunk: string) => (text += chunk));
+          res.on("error", (e) => reject(new RigError("io", `${method}: ${e.message}`)));
+          res.on("end", () => {
+            if (res.statusCode !== 200) {
+              reject(new RigError("protocol", `${method}: HTTP ${res.statusCode}`));
+              return;
+            }
+            try {
+              resolve(parseMethodResponse(text));
+            } catch (e) {
+              reject(e);
+            }
+          });
+        }
+      );
+      req.setTimeout(this.opts.timeoutMs ?? 5000, () => {
+        req.destroy(new RigError("timeout", `${method}: no reply from ${this.opts.host}:${this.opts.port}`));
+      });
+      req.on("error", (e: NodeJS.ErrnoException) => {
+        if (e instanceof RigError) reject(e);
+        else if (e.code === "ECONNREFUSED") reject(new RigError("not_connected", `${method}: ${e.message}`));
+        else reject(new RigError("io", `${method}: ${e.message}`));
+      });
+      req.end(body);
+    });
+  }
+
+  close() {
+    this.agent.destroy();
+  }
+}
@@ -0,0 +1,314 @@
+import type { RadioMode } from "./dtos.js";
+import { modeInfo } from "./modes.js";
+
+/**
+ * Amateur band plans: which stretches of each band a licence class may use,
+ * for which kinds of emission, and at what power. The transmit guard in
+ * RadioService refuses to key anywhere the operator's plan and class do not
+ * cover, and the UI names the sub-band the dial is in.
+ */
+
+export type ItuRegion = 1 | 2 | 3;
+
+// What a segment permits; each mode maps to one of these
+export const EMISSIONS = ["cw", "data", "phone", "image"] as const;
+export type Emission = (typeof EMISSIONS)[number];
+
+export interface LicenseClass {
+  id: string;
+  label: string;
+}
+
+export interface BandSegment {
+  band: string;
+  startHz: number;
+  endHz: number;
+  emissions: Emission[];
+  // Licence class ids that may transmit here
+  classes: string[];
+  // PEP output; absent where the plan leaves it to national rules
+  maxPowerWatts?: number;
+  // Set on channels, where the rule is that a signal is centred on the
+  // channel rather than fitting between its edges
+  centreHz?: number;
+}
+
+export interface BandPlan {
+  id: string;
+  name: string;
+  region: ItuRegion;
+  classes: LicenseClass[];
+  // Classes with different edges or power get a segment each, so segments overlap
+  segments: BandSegment[];
+}
+
+// The operator's plan and class; without a class every class's segments count
+export interface TxPrivileges {
+  plan: BandPlan;
+  licenseClass?: string;
+}
+
+const CW: Emission[] = ["cw"];
+const CW_DATA: Emission[] = ["cw", "data"];
+const PHONE: Emission[] = ["cw", "phone", "image"];
+const ALL: Emission[] = [...EMISSIONS];
+
+function segment(
+  band: string,
+  startKhz: number,
+  endKhz: number,
+  emissions: Emission[],
+  classes: string[],
+  maxPowerWatts?: number
+): BandSegment {
+  return {
+    band,
+    startHz: Math.round(startKhz * 1000),
+    endHz: Math.round(endKhz * 1000),
+    emissions,
+    classes,
+    maxPowerWatts,
+  };
+}
+
+// A USB channel from its dial frequency: 2.8 kHz wide from 100 Hz below the
+// dial, centred 1.5 kHz above it
+function channel(
+  band: string,
+  dialKhz: number,
+  emissions: Emission[],
+  classes: string[],
+  maxPowerWatts: number
+): BandSegment {
+  const edges = segment(band, dialKhz - 0.1, dialKhz + 2.7, emissions, classes, maxPowerWatts);
+  return { ...edges, centreHz: Math.round((dialKhz + 1.5) * 1000) };
+}
+
+// FCC Part 97 (97.301, 97.305, 97.313); Novice privileges are not included
+const US_E = ["extra"];
+const US_AE = ["advanced", "extra"];
+const US_GAE = ["general", "advanced", "extra"];
+const US_T = ["technician"];
+const US_ALL = ["technician", "general", "advanced", "extra"];
+// 60 m channels by their standard USB dial frequency; 100 W ERP
+const US_60M_DIALS_KHZ = [5330.5, 5346.5, 5357, 5371.5, 5403.5];
+
+const US_FCC: BandPlan = {
+  id: "us",
+  name: "United States (FCC)",
+  region: 2,
+  classes: [
+    { id: "technician", label: "Technician" },
+    { id: "general", label: "General" },
+    { id: "advanced", label: "Advanced" },
+    { id: "extra", label: "Amateur Extra" },
+  ],
+  segments: [
+    segment("160m", 1800, 2000, ALL, US_GAE, 1500),
+    segment("80m", 3500, 3525, CW_DATA, US_E, 1500),
+    segment("80m", 3525, 3600, CW_DATA, US_GAE, 1500),
+    segment("80m", 3525, 3600, CW, US_T, 200),
+    segment("80m", 3600, 3700, PHONE, US_E, 1500),
+    segment("80m", 3700, 3800, PHONE, US_AE, 1500),
+    segment("80m", 3800, 4000, PHONE, US_GAE, 1500),
+    ...US_60M_DIALS_KHZ.map((khz) => channel("60m", khz, ["cw", "data", "phone"], US_GAE, 100)),
+    segment("40m", 7000, 7025, CW_DATA, US_E, 1500),
+    segment("40m", 7025, 7125, CW_DATA, US_GAE, 1500),
+    segment("40m", 7025, 7125, CW, US_T, 200),
+    segment("40m", 7125, 7175, PHONE, US_AE, 1500),
+    segment("40m", 7175, 7300, PHONE, US_GAE, 1500),
+    segment("30m", 10100, 10150, CW_DATA, US_GAE, 200),
+    segment("20m", 14000, 14025, CW_DATA, US_E, 1500),
+    segment("20m", 14025, 14150, CW_DATA, US_GAE, 1500),
+    segment("20m", 14150, 14175, PHONE, US_E, 1500),
+    segment("20m", 14175, 14225, PHONE, US_AE, 1500),
+    segment("20m", 14225, 14350, PHONE, US_GAE, 1500),
+    segment("17m", 18068, 18110, CW_DATA, US_GAE, 1500),
+    segment("17m", 18110, 18168, PHONE, US_GAE, 1500),
+    segment("15m", 21000, 21025, CW_DATA, US_E, 1500),
+    segment("15m", 21025, 21200, CW_DATA, US_GAE, 1500),
+    segment("15m", 21025, 21200, CW, US_T, 200),
+    segment("15m", 21200, 21225, PHONE, US_E, 1500),
+    segment("15m", 21225, 21275, PHONE, US_AE, 1500),
+    segment("15m", 21275, 21450, PHONE, US_GAE, 1500),
+    segment("12m", 24890, 24930, CW_DATA, US_GAE, 1500),
+    segment("12m", 24930, 24990, PHONE, US_GAE, 1500),
+    segment("10m", 28000, 28300, CW_DATA, US_GAE, 1500),
+    segment("10m", 28000, 28300, CW_DATA, US_T, 200),
+    segment("10m", 28300, 28500, PHONE, US_GAE, 1500),
+    segment("10m", 28300, 28500, PHONE, US_T, 200),
+    segment("10m", 28500, 29700, PHONE, US_GAE, 1500),
+    segment("6m", 50000, 50100, CW, US_ALL, 1500),
+    segment("6m", 50100, 54000, ALL, US_ALL, 1500),
+    segment("2m", 144000, 144100, CW, US_ALL, 1500),
+    segment("2m", 144100, 148000, ALL, US_ALL, 1500),
+    segment("1.25m", 222000, 225000, ALL, US_ALL, 1500),
+    segment("70cm", 420000, 450000, ALL, US_ALL, 1500),
+  ],
+};
+
+// IARU Region 1 band plan; power limits are national, so only 60 m has one.
+// The beacon slots on 20-10 m are left out so nobody keys on them.
+const R1_FULL = ["full"];
+
+const IARU_R1: BandPlan = {
+  id: "iaru-r1",
+  name: "IARU Region 1",
+  region: 1,
+  classes: [{ id: "full", label: "Full" }],
+  segments: [
+    segment("160m", 1810, 1838, CW, R1_FULL),
+    segment("160m", 1838, 2000, ALL, R1_FULL),
+    segment("80m", 3500, 3570, CW, R1_FULL),
+    segment("80m", 3570, 3600, CW_DATA, R1_FULL),
+    segment("80m", 3600, 3800, ALL, R1_FULL),
+    segment("60m", 5351.5, 5366.5, ALL, R1_FULL, 15),
+    segment("40m", 7000, 7040, CW, R1_FULL),
+    segment("40m", 7040, 7060, CW_DATA, R1_FULL),
+    segment("40m", 7060, 7200, ALL, R1_FULL),
+    segment("30m", 10100, 10150, CW_DATA, R1_FULL),
+    segment("20m", 14000, 14070, CW, R1_FULL),
+    segment("20m", 14070, 14099, CW_DATA, R1_FULL),
+    segment("20m", 14101, 14350, ALL, R1_FULL),
+    segment("17m", 18068, 18095, CW, R1_FULL),
+    segment("17m", 18095, 18109, CW_DATA, R1_FULL),
+    segment("17m", 18111, 18168, ALL, R1_FULL),
+    segment("15m", 21000, 21070, CW, R1_FULL),
+    segment("15m", 21070, 21149, CW_DATA, R1_FULL),
+    segment("15m", 21151, 21450, ALL, R1_FULL),
+    segment("12m", 24890, 24915, CW, R1_FULL),
+    segment("12m", 24915, 24929, CW_DATA, R1_FULL),
+    segment("12m", 24931, 24990, ALL, R1_FULL),
+    segment("10m", 28000, 28070, CW, R1_FULL),
+    segment("10m", 28070, 28190, CW_DATA, R1_FULL),
+    segment("10m", 28225, 29700, ALL, R1_FULL),
+    segment("6m", 50000, 50100, CW, R1_FULL),
+    segment("6m", 50100, 52000, ALL, R1_FULL),
+    segment("2m", 144000, 144110, CW, R1_FULL),
+    segment("2m", 144110, 146000, ALL, R1_FULL),
+    segment("70cm", 430000, 440000, ALL, R1_FULL),
+  ],
+};
+
+export const BAND_PLANS: readonly BandPlan[] = [US_FCC, IARU_R1];
+
+export function findBandPlan(id: string): BandPlan | undefined {
+  return BAND_PLANS.find((plan) => plan.id === id);
+}
+
+const DATA_MODES = new Set<RadioMode>(["RTTY", "RTTYR", "PSK", "PSKR", "PKTLSB", "PKTUSB", "PKTFM", "PKTAM"]);
+// Which side of the dial frequency the signal sits on
+const LOWER_SIDEBAND = new Set<RadioMode>(["LSB", "PKTLSB", "ECSSLSB", "SAL", "RTTY", "PSKR"]);
+const UPPER_SIDEBAND = new Set<RadioMode>(["USB", "PKTUSB", "ECSSUSB", "SAH", "RTTYR", "PSK"]);
+
+export function emissionOf(mode: RadioMode): Emission {
+  if (mode === "CW" || mode === "CWR") return "cw";
+  if (mode === "FAX") return "image";
+  return DATA_MODES.has(mode) ? "data" : "phone";
+}
+
+/** The spectrum a signal occupies, from its dial frequency, mode and the mode's normal width. */
+export function signalEdges(frequencyHz: number, mode: RadioMode): [number, number] {
+  if (mode === "CW" || mode === "CWR") return [frequencyHz, frequencyHz];
+  const width = modeInfo(mode).passbandHz;
+  if (LOWER_SIDEBAND.has(mode)) return [frequencyHz - width, frequencyHz];
+  if (UPPER_SIDEBAND.has(mode)) return [frequencyHz, frequencyHz + width];
+  return [frequencyHz - width / 2, frequencyHz + width / 2];
+}
+
+function classLabel(plan: BandPlan, licenseClass: string | undefined): string {
+  return plan.classes.find((c) => c.id === licenseClass)?.label ?? "any licence class";
+}
+
+const mhz = (hz: number) => `${(hz / 1e6).toFixed(4)} MHz`;
+
+/** The segment the dial is in, preferring one the operator's class may use. */
+export function findSegment(plan: BandPlan, frequencyHz: number, licenseClass?: string): BandSegment | undefined {
+  const here = plan.segments.filter((s) => frequencyHz >= s.startHz && frequencyHz <= s.endHz);
+  return here.find((s) => !licenseClass || s.classes.includes(licenseClass)) ?? here[0];
+}
+
+// How far off a channel's centre a signal may be and still be on it
+const CHANNEL_TOLERANCE_HZ = 200;
+
+export type TxVerdict = { allowed: true; maxPowerWatts?: number } | { allowed: false; reason: string };
+
+// The power a signal from low to high may use. Where segments overlap
+// (every class's do when no class is given) the most generous one applies at
+// that point, and the signal as a whole is held to the tightest point it
+// covers. Undefined when nowhere it covers has a limit.
+function powerLimit(segments: BandSegment[], low: number, high: number): number | undefined {
+  const edges = segments.flatMap((s) => [s.startHz, s.endHz]).filter((hz) => hz > low && hz < high);
+  const cuts = [low, ...edges, high].sort((a, b) => a - b);
+  // Every edge, and a point inside each stretch between them
+  const points = cuts.flatMap((hz, i) => {
+    const next = cuts[i + 1];
+    return next === undefined ? [hz] : [hz, (hz + next) / 2];
+  });
+  let limit = Infinity;
+  for (const hz of points) {
+    const here = segments.filter((s) => hz >= s.startHz && hz <= s.endHz);
+    if (here.length === 0) continue;
+    limit = Math.min(limit, Math.max(...here.map((s) => s.maxPowerWatts ?? Infinity)));
+  }
+  return limit === Infinity ? undefined : limit;
+}
+
+/**
+ * Whether the operator may transmit this signal: all of it inside segments
+ * their class may use for this emission, within the power limit there (see
+ * powerLimit). powerWatts is left out when the rig cannot say.
+ */
+export function checkTransmit(
+  { plan, licenseClass }: TxPrivileges,
+  signal: { frequencyHz: number; mode: RadioMode; powerWatts?: number }
+): TxVerdict {
+  const { frequencyHz, mode, powerWatts } = signal;
+  const emission = emissionOf(mode);
+  const [low, high] = signalEdges(frequencyHz, mode);
+  const usable = plan.segments
+    .filter((s) => s.emissions.includes(emission) && (!licenseClass || s.classes.includes(licenseClass)))
+    .sort((a, b) => a.startHz - b.startHz);
+
+  // Walk up from the low edge through adjoining usable segments
+  let reached = low;
+  let covered = false;
+  for (const s of usable) {
+    if (s.startHz > reached) break;
+    if (s.endHz < reached) continue;
+    reached = s.endHz;
+    if (reached >= high) {
+      covered = true;
+      break;
+    }
+  }
+
+  // A channel takes a signal centred on it, whatever width its mode is
+  // assumed to have; a data signal is often wider than a phone one
+  const centre = (low + high) / 2;
+  if (!covered && usable.some((s) => s.centreHz !== undefined && Math.abs(centre - s.centreHz) <= CHANNEL_TOLERANCE_HZ)) {
+    covered = true;
+  }
+
+  if (!covered) {
+    const who = classLabel(plan, licenseClass);
+    if (!plan.segments.some((s) => frequencyHz >= s.startHz && frequencyHz <= s.endHz)) {
+      return { allowed: false, reason: `${mhz(frequencyHz)} is outside the amateur bands in the ${plan.name} plan` };
+    }
+    if (usable.some((s) => frequencyHz >= s.startHz && frequencyHz <= s.endHz)) {
+      return {
+        allowed: false,
+        reason: `${mode} at ${mhz(frequencyHz)} would spread to ${mhz(low)}-${mhz(high)}, past the edge of the ${who} privileges`,
+      };
+    }
+    return { allowed: false, reason: `${mode} at ${mhz(frequencyHz)} is outside the ${who} privileges` };
+  }
+  const limit = powerLimit(usable, low, high);
+  if (powerWatts !== undefined && limit !== undefined && powerWatts > limit) {
+    return {
+      allowed: false,
+      reason: `${Math.round(powerWatts)} W is over the ${limit} W limit at ${mhz(frequencyHz)}`,
+    };
+  }
+  return { allowed: true, maxPowerWatts: limit };
+}
@@ -1,5 +1,11 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
 import dotenv from "dotenv";
 import { z } from "zod";
+import { CAT_FAMILY_NAMES } from "./adapters/cat-families.js";
+import { SimulatorOptionsSchema } from "./adapters/simulator.js";
+import { RadioModeEnum } from "./dtos.js";
+import { BAND_PLANS, findBandPlan, type TxPrivileges } from "./band-plan.js";
 
 dotenv.config();
 
@@ -12,6 +18,39 @@ const ConfigSchema = z.object({
   RIG_MODEL: z.coerce.number().default(3085),
   RIG_PORT: z.string().default('/dev/ttyUSB0'),
   RIG_SPEED: z.coerce.number().default(19200),
+  // Full power in watts, for rigs that cannot report it
+  RIG_MAX_POWER_WATTS: z.coerce.number().positive().optional(),
+  // rigctld | rigctl | flrig | civ | cat | simulator; defaults from USE_REAL_RADIO
+  RIG_ADAPTER: z.string().optional(),
+  // CI-V address for the civ adapter, e.g. 0x94 for an IC-7300
+  CIV_ADDRESS: z.coerce.number().optional(),
+  // Dialect for the cat adapter, and whether it talks to RIG_PORT or a TCP bridge
+  CAT_FAMILY: z.string().optional(),
+  CAT_TRANSPORT: z.string().optional(),
+  // Have the backend spawn and supervise rigctld instead of expecting one
+  MANAGE_RIGCTLD: z.string().default('false'),
+  RIGCTLD_PATH: z.string().default('rigctld'),
+  // Our own rigctld-compatible listener for WSJT-X, fldigi and friends;
+  // unset means no listener for the default rig
+  RIGCTL_SERVER_PORT: z.coerce.number().optional(),
+  RIGCTL_SERVER_HOST: z.string().default('127.0.0.1'),
+  // JSON array of rigs (see RigConfigSchema); when unset a single rig is
+  // built from the settings above
+  RIGS: z.string().optional(),
+  // Station callsign, sent for {MYCALL} in CW messages
+  MYCALL: z.string().optional(),
+  // Band plan (us | iaru-r1) and licence class that transmitting is held to;
+  // no plan means the backend keys wherever it is asked to
+  BAND_PLAN: z.string().optional(),
+  LICENSE_CLASS: z.string().optional(),
+  // Recorded rig state (frequency, mode, power, PTT, meters) for looking back
+  // on, unless turned off: where it is kept (a relative path is taken from the
+  // backend package, not the working directory), and for how long or how
+  // much before the oldest goes
+  STATE_HISTORY: z.string().default('true'),
+  HISTORY_DIR: z.string().default('data/history'),
+  HISTORY_RETENTION_DAYS: z.coerce.number().min(1).default(7),
+  HISTORY_MAX_MB: z.coerce.number().min(1).default(200),
 
   // Logging
   LOG_LEVEL: z.string().default('info'),
@@ -20,6 +59,9 @@ const ConfigSchema = z.object({
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+// packages/backend, whether running from src or dist
+const PACKAGE_DIR = fileURLToPath(new URL("..", import.meta.url));
+
 let cached: Config | null = null;
 
 export function getConfig(): Config {
@@ -33,6 +75,23 @@ export function getConfig(): Config {
     RIG_MODEL: process.env.RIG_MODEL ?? 3085,
     RIG_PORT: process.env.RIG_PORT ?? '/dev/ttyUSB0',
     RIG_SPEED: process.env.RIG_SPEED ?? 19200,
+    RIG_MAX_POWER_WATTS: process.env.RIG_MAX_POWER_WATTS,
+    RIG_ADAPTER: process.env.RIG_ADAPTER,
+    CIV_ADDRESS: process.env.CIV_ADDRESS,
+    CAT_FAMILY: process.env.CAT_FAMILY,
+    CAT_TRANSPORT: process.env.CAT_TRANSPORT,
+    MANAGE_RIGCTLD: process.env.MANAGE_RIGCTLD ?? 'false',
+    RIGCTLD_PATH: process.env.RIGCTLD_PATH ?? 'rigctld',
+    RIGCTL_SERVER_PORT: process.env.RIGCTL_SERVER_PORT,
+    RIGCTL_SERVER_HOST: process.env.RIGCTL_SERVER_HOST ?? '127.0.0.1',
+    RIGS: process.env.RIGS,
+    MYCALL: process.env.MYCALL,
+    BAND_PLAN: process.env.BAND_PLAN,
+    LICENSE_CLASS: process.env.LICENSE_CLASS,
+    STATE_HISTORY: process.env.STATE_HISTORY ?? 'true',
+    HISTORY_DIR: path.resolve(PACKAGE_DIR, process.env.HISTORY_DIR ?? 'data/history'),
+    HISTORY_RETENTION_DAYS: process.env.HISTORY_RETENTION_DAYS ?? 7,
+    HISTORY_MAX_MB: process.env.HISTORY_MAX_MB ?? 200,
 
     // Logging
     LOG_LEVEL: process.env.LOG_LEVEL ?? 'info',
@@ -42,3 +101,127 @@ export function getConfig(): Config {
   return parsed;
 }
 
+// "mock" is the simulator's old name, still accepted in existing configs
+export const RigAdapterEnum = z.enum(["rigctld", "rigctl", "flrig", "civ", "cat", "simulator", "mock"]);
+export type RigAdapterType = z.infer<typeof RigAdapterEnum>;
+
+// Where each adapter's server listens unless the rig says otherwise
+const DEFAULT_PORTS: Record<RigAdapterType, number> = {
+  rigctld: 4532,
+  rigctl: 4532,
+  flrig: 12345,
+  // Serial; host and port are not used
+  civ: 4532,
+  // Only used with catTransport "tcp"
+  cat: 4532,
+  simulator: 4532,
+  mock: 4532,
+};
+
+export const RigConfigSchema = z
+  .object({
+    id: z.string().regex(/^[A-Za-z0-9_-]+$/, "rig id may only contain letters, digits, _ and -"),
+    name: z.string().optional(),
+    adapter: RigAdapterEnum.default("rigctld"),
+    host: z.string().default("127.0.0.1"),
+    port: z.coerce.number().optional(),
+    // Serial settings for the rigctl, civ and cat adapters and for a managed rigctld
+    rigModel: z.coerce.number().optional(),
+    rigPort: z.string().optional(),
+    rigSpeed: z.coerce.number().optional(),
+    // CI-V address of the rig for the civ adapter (defaults to the IC-7300's 0x94)
+    civAddress: z.coerce.number().int().min(1).max(0xdf).optional(),
+    // Text-CAT dialect, and serial (rigPort) or a TCP serial bridge (host/port)
+    catFamily: z.enum(CAT_FAMILY_NAMES).default("kenwood"),
+    catTransport: z.enum(["serial", "tcp"]).default("serial"),
+    // Band activity, latency and failure injection for the simulator
+    simulator: SimulatorOptionsSchema.optional(),
+    // State polling while the rig sits idle, and while it is being tuned or
+    // keyed (and for a few seconds after)
+    pollIntervalMs: z.coerce.number().min(100).default(1000),
+    activePollIntervalMs: z.coerce.number().min(50).default(250),
+    // Meter refresh while transmitting, when SWR and ALC change quickly, and
+    // while receiving on a rig in use; an idle rig's meters go at pollIntervalMs
+    txMeterIntervalMs: z.coerce.number().min(50).default(200),
+    rxMeterIntervalMs: z.coerce.number().min(50).default(500),
+    // Receiver, offset and repeater settings, which seldom change on the rig itself
+    settingsIntervalMs: z.coerce.number().min(500).default(5000),
+    // Longest continuous transmission before the backend unkeys the rig
+    maxTxMs: z.coerce.number().min(5000).default(180_000),
+    // Drive for an antenna tune, and the carrier mode to tune in (picked to
+    // suit the band plan when unset)
+    tunePowerPercent: z.coerce.number().min(1).max(100).default(10),
+    tuneMode: RadioModeEnum.optional(),
+    // Full power in watts, for checking band plan power limits on rigs that
+    // do not report it (the civ adapter knows only the models it names)
+    maxPowerWatts: z.coerce.number().positive().optional(),
+    autoConnect: z.boolean().default(true),
+    // Spawn rigctld for this rig on host:port and restart it if it dies
+    manageRigctld: z.boolean().default(false),
+    // Port for a rigctld-compatible listener sharing this rig with other apps
+    rigctlServerPort: z.coerce.number().optional(),
+  })
+  .refine((rig) => !rig.manageRigctld || (rig.adapter === "rigctld" && rig.rigModel && rig.rigPort), {
+    message: "manageRigctld needs the rigctld adapter, rigModel and rigPort",
+  })
+  .refine((rig) => rig.adapter !== "civ" || rig.rigPort, {
+    message: "the civ adapter needs rigPort (the serial device)",
+  })
+  .refine((rig) => rig.adapter !== "cat" || rig.catTransport === "tcp" || rig.rigPort, {
+    message: "the cat adapter needs rigPort unless catTransport is tcp",
+  })
+  .transform((rig) => ({ ...rig, port: rig.port ?? DEFAULT_PORTS[rig.adapter] }));
+export type RigConfig = z.infer<typeof RigConfigSchema>;
+
+export function getRigConfigs(config: Config = getConfig()): RigConfig[] {
+  if (!config.RIGS) {
+    return [
+      RigConfigSchema.parse({
+        id: "main",
+        name: "Main",
+        adapter: config.RIG_ADAPTER ?? (config.USE_REAL_RADIO === "true" ? "rigctld" : "simulator"),
+        rigModel: config.RIG_MODEL,
+        rigPort: config.RIG_PORT,
+        rigSpeed: config.RIG_SPEED,
+        manageRigctld: config.USE_REAL_RADIO === "true" && config.MANAGE_RIGCTLD === "true",
+        rigctlServerPort: config.RIGCTL_SERVER_PORT,
+        civAddress: config.CIV_ADDRESS,
+        catFamily: config.CAT_FAMILY,
+        catTransport: config.CAT_TRANSPORT,
+        maxPowerWatts: config.RIG_MAX_POWER_WATTS,
+      }),
+    ];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(config.RIGS);
+  } catch (e: any) {
+    throw new Error(`RIGS is not valid JSON: ${e.message}`);
+  }
+  const rigs = z.array(RigConfigSchema).min(1).parse(raw);
+  const seen = new Set<string>();
+  for (const rig of rigs) {
+    if (seen.has(rig.id)) throw new Error(`RIGS: duplicate rig id "${rig.id}"`);
+    seen.add(rig.id);
+  }
+  return rigs;
+}
+
+export function getTxPrivileges(config: Config = getConfig()): TxPrivileges | undefined {
+  if (!config.BAND_PLAN) {
+    if (config.LICENSE_CLASS) throw new Error("LICENSE_CLASS needs BAND_PLAN");
+    return undefined;
+  }
+  const plan = findBandPlan(config.BAND_PLAN);
+  if (!plan) {
+    const known = BAND_PLANS.map((p) => p.id).join(", ");
+    throw new Error(`BAND_PLAN: unknown plan "${config.BAND_PLAN}" (one of ${known})`);
+  }
+  const licenseClass = config.LICENSE_CLASS;
+  if (licenseClass && !plan.classes.some((c) => c.id === licenseClass)) {
+    const known = plan.classes.map((c) => c.id).join(", ");
+    throw new Error(`LICENSE_CLASS: "${licenseClass}" is not a class in ${plan.name} (one of ${known})`);
+  }
+  return { plan, licenseClass };
+}
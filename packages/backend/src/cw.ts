@@ -0,0 +1,73 @@
+import { RigError } from "./errors.js";
+
+// What rig keyers can send: letters, figures and the common punctuation
+const MORSE: Record<string, string> = {
+  A: ".-", B: "-...", C: "-.-.", D: "-..", E: ".", F: "..-.", G: "--.", H: "....", I: "..",
+  J: ".---", K: "-.-", L: ".-..", M: "--", N: "-.", O: "---", P: ".--.", Q: "--.-", R: ".-.",
+  S: "...", T: "-", U: "..-", V: "...-", W: ".--", X: "-..-", Y: "-.--", Z: "--..",
+  "0": "-----", "1": ".----", "2": "..---", "3": "...--", "4": "....-",
+  "5": ".....", "6": "-....", "7": "--...", "8": "---..", "9": "----.",
+  ".": ".-.-.-", ",": "--..--", "?": "..--..", "/": "-..-.", "=": "-...-", "+": ".-.-.",
+  "-": "-....-", "(": "-.--.", ")": "-.--.-", "'": ".----.", ":": "---...", '"': ".-..-.", "@": ".--.-.",
+};
+
+export const CW_MIN_WPM = 5;
+export const CW_MAX_WPM = 60;
+
+/** Upper-cased with runs of whitespace collapsed; throws for anything that has no Morse. */
+export function normalizeCwText(text: string): string {
+  const clean = text.toUpperCase().replace(/\s+/g, " ").trim();
+  for (const ch of clean) {
+    if (ch !== " " && !(ch in MORSE)) throw new RigError("invalid", `"${ch}" cannot be sent in Morse`);
+  }
+  return clean;
+}
+
+/**
+ * When each character of normalized text starts, in ms from the first, with
+ * the end of the text as the last entry. PARIS timing: a dot is one unit of
+ * 1200/wpm ms and a dash three, with one unit between elements, three
+ * between characters and seven between words.
+ */
+export function cwTimeline(text: string, wpm: number): number[] {
+  const unit = 1200 / wpm;
+  const starts: number[] = [];
+  let t = 0;
+  for (let i = 0; i < text.length; i++) {
+    starts.push(t);
+    const code = MORSE[text[i]!];
+    // A space stretches the three-unit gap already counted to seven
+    if (!code) {
+      t += 4 * unit;
+      continue;
+    }
+    for (const element of code) t += (element === "." ? 1 : 3) * unit;
+    t += (code.length - 1) * unit;
+    if (i < text.length - 1) t += 3 * unit;
+  }
+  starts.push(t);
+  return starts;
+}
+
+export interface CwMacroValues {
+  myCall?: string;
+  call?: string;
+  rst?: string;
+}
+
+const MACROS: Record<string, keyof CwMacroValues> = {
+  MYCALL: "myCall",
+  CALL: "call",
+  RST: "rst",
+};
+
+/** Replace {MYCALL}, {CALL} and {RST}; an unknown macro or one with nothing to send is an error. */
+export function expandCwMacros(text: string, values: CwMacroValues): string {
+  return text.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const key = MACROS[name.toUpperCase()];
+    if (!key) throw new RigError("invalid", `Unknown macro {${name}}`);
+    const value = values[key]?.trim();
+    if (!value) throw new RigError("invalid", `Nothing to send for {${name.toUpperCase()}}`);
+    return value;
+  });
+}
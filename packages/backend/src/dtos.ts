@@ -1,31 +1,92 @@
 import { z } from "zod";
+import { RADIO_MODES } from "./modes.js";
+import { isCtcssTone, isDcsCode } from "./repeater.js";
 
-export const RadioModeEnum = z.enum([
-  "LSB",
-  "USB",
-  "AM",
-  "CW",
-  "RTTY",
-  "FM",
-  "WFM",
-  "CWR",
-  "DIGL",
-  "DIGU",
-  "PKTLSB",
-  "PKTUSB",
-  "PKTFM",
-  "ECSSLSB",
-  "ECSSUSB",
-  "FAX",
-  "SAM",
-  "SAL",
-  "SAH",
-  "DSB",
-  "CWU",
-  "NONE",
-]);
+// Mode names and their Hamlib/UI mappings live in modes.ts
+export const RadioModeEnum = z.enum(RADIO_MODES);
 export type RadioMode = z.infer<typeof RadioModeEnum>;
 
+export const RadioVfoEnum = z.enum(["A", "B"]);
+export type RadioVfo = z.infer<typeof RadioVfoEnum>;
+
+// copy: A=B (current VFO copied to the other), swap: exchange A and B
+export const VfoOpEnum = z.enum(["copy", "swap"]);
+export type VfoOp = z.infer<typeof VfoOpEnum>;
+
+// Meter readings in real units, after the rig's calibration. A meter the rig
+// lacks, or one that only reads while transmitting, is left out.
+export const RadioMetersSchema = z.object({
+  signalDbm: z.number().optional(),
+  // 0-9, with anything stronger than S9 as overS9Db
+  sUnits: z.number().optional(),
+  overS9Db: z.number().optional(),
+  swr: z.number().optional(),
+  // Fraction of the rig's ALC range, 0-1
+  alc: z.number().optional(),
+  powerWatts: z.number().optional(),
+  compDb: z.number().optional(),
+  // PA drain current and supply voltage
+  idAmps: z.number().optional(),
+  vdVolts: z.number().optional(),
+});
+export type RadioMeters = z.infer<typeof RadioMetersSchema>;
+
+export const AgcSpeedEnum = z.enum(["off", "fast", "medium", "slow", "auto"]);
+export type AgcSpeed = z.infer<typeof AgcSpeedEnum>;
+
+// The receive chain's DSP and front-end settings. Levels are fractions of the
+// control's travel, 0-1, as Hamlib gives them; preamp and attenuator are in dB
+// with 0 for off. A control the rig lacks is left out.
+export const RadioReceiverSchema = z.object({
+  agc: AgcSpeedEnum.optional(),
+  nb: z.boolean().optional(),
+  nr: z.boolean().optional(),
+  nrLevel: z.number().min(0).max(1).optional(),
+  autoNotch: z.boolean().optional(),
+  manualNotch: z.boolean().optional(),
+  notchHz: z.number().int().min(0).optional(),
+  preampDb: z.number().int().min(0).optional(),
+  attDb: z.number().int().min(0).optional(),
+  rfGain: z.number().min(0).max(1).optional(),
+  afGain: z.number().min(0).max(1).optional(),
+  squelch: z.number().min(0).max(1).optional(),
+});
+export type RadioReceiver = z.infer<typeof RadioReceiverSchema>;
+
+// Clarifier offsets and IF shift, in Hz. RIT moves only the receiver and XIT
+// only the transmitter; each offset is kept while its switch is off.
+export const RadioOffsetsSchema = z.object({
+  ritOn: z.boolean().optional(),
+  ritHz: z.number().int().min(-99999).max(99999).optional(),
+  xitOn: z.boolean().optional(),
+  xitHz: z.number().int().min(-99999).max(99999).optional(),
+  ifShiftHz: z.number().int().min(-9999).max(9999).optional(),
+});
+export type RadioOffsets = z.infer<typeof RadioOffsetsSchema>;
+
+export const RepeaterShiftEnum = z.enum(["simplex", "minus", "plus"]);
+export type RepeaterShift = z.infer<typeof RepeaterShiftEnum>;
+
+// tone: CTCSS on transmit only; tsql: CTCSS both ways, the squelch opening
+// on ctcssSqlHz; dcs: DCS both ways
+export const ToneModeEnum = z.enum(["off", "tone", "tsql", "dcs"]);
+export type ToneMode = z.infer<typeof ToneModeEnum>;
+
+const ctcssTone = z.number().refine(isCtcssTone, "not a standard CTCSS tone");
+
+// FM repeater operation. The transmitter sits offsetHz above or below the
+// receive frequency; reverse swaps the two to listen on the input.
+export const RadioRepeaterSchema = z.object({
+  shift: RepeaterShiftEnum.optional(),
+  offsetHz: z.number().int().min(0).max(100_000_000).optional(),
+  toneMode: ToneModeEnum.optional(),
+  ctcssHz: ctcssTone.optional(),
+  ctcssSqlHz: ctcssTone.optional(),
+  dcsCode: z.number().int().refine(isDcsCode, "not a standard DCS code").optional(),
+  reverse: z.boolean().optional(),
+});
+export type RadioRepeater = z.infer<typeof RadioRepeaterSchema>;
+
 export const RadioStateSchema = z.object({
   connected: z.boolean(),
   rigModel: z.string().optional(),
@@ -34,9 +95,301 @@ export const RadioStateSchema = z.object({
   bandwidthHz: z.number().optional(),
   power: z.number().optional(),
   ptt: z.boolean().optional(),
+  vfo: RadioVfoEnum.optional(),
+  split: z.boolean().optional(),
+  // Only meaningful while split is on; frequencyHz/mode are then the RX side
+  txVfo: RadioVfoEnum.optional(),
+  txFrequencyHz: z.number().optional(),
+  txMode: RadioModeEnum.optional(),
+  meters: RadioMetersSchema.optional(),
+  receiver: RadioReceiverSchema.optional(),
+  offsets: RadioOffsetsSchema.optional(),
+  repeater: RadioRepeaterSchema.optional(),
 });
 export type RadioState = z.infer<typeof RadioStateSchema>;
 
+// Clients get one full snapshot per rig when they connect, then deltas: the
+// fields that changed, null for one the rig stopped reporting. seq goes up by
+// one per delta, so a gap means a delta was missed and a snapshot is due.
+export const RadioStateSnapshotSchema = RadioStateSchema.extend({ rigId: z.string(), seq: z.number().int() });
+export type RadioStateSnapshot = z.infer<typeof RadioStateSnapshotSchema>;
+
+export const RadioStateDeltaSchema = z.object({
+  rigId: z.string(),
+  seq: z.number().int(),
+  changes: z.record(z.unknown()),
+});
+export type RadioStateDelta = z.infer<typeof RadioStateDeltaSchema>;
+
+// What the connected rig can do, as reported by its backend (Hamlib dump_caps
+// for rigctld). Level and function names use Hamlib's tokens, e.g. RFPOWER, NB.
+export const RadioCapabilitiesSchema = z.object({
+  rigModel: z.string().optional(),
+  manufacturer: z.string().optional(),
+  modes: z.array(RadioModeEnum),
+  vfos: z.array(z.string()),
+  vfoOps: z.array(z.string()),
+  getLevels: z.array(z.string()),
+  setLevels: z.array(z.string()),
+  getFunctions: z.array(z.string()),
+  setFunctions: z.array(z.string()),
+  canSetSplit: z.boolean(),
+  canGetSplit: z.boolean(),
+  canSetPtt: z.boolean(),
+  // Has a keyer that takes text (Hamlib send_morse)
+  canSendMorse: z.boolean(),
+  // Repeater shift and offset, and the tones and codes the rig can use
+  canSetRepeater: z.boolean(),
+  ctcssTones: z.array(z.number()),
+  dcsCodes: z.array(z.number()),
+  // Preamp and attenuator steps in dB, besides off
+  preamps: z.array(z.number()),
+  attenuators: z.array(z.number()),
+  maxPowerWatts: z.number().optional(),
+  // Largest offset either way, when the rig has the control
+  maxRitHz: z.number().optional(),
+  maxXitHz: z.number().optional(),
+  maxIfShiftHz: z.number().optional(),
+});
+export type RadioCapabilities = z.infer<typeof RadioCapabilitiesSchema>;
+
+// A rigctld process the backend starts and watches for one rig
+export const RigctldSettingsSchema = z.object({
+  rigModel: z.coerce.number().int().positive(),
+  rigPort: z.string().min(1),
+  rigSpeed: z.coerce.number().int().positive(),
+});
+export type RigctldSettings = z.infer<typeof RigctldSettingsSchema>;
+
+export const RigctldStatusSchema = z.object({
+  state: z.enum(["stopped", "starting", "running", "crashed"]),
+  pid: z.number().optional(),
+  restarts: z.number(),
+  lastExitCode: z.number().nullable().optional(),
+  lastError: z.string().optional(),
+  settings: RigctldSettingsSchema,
+});
+export type RigctldStatus = z.infer<typeof RigctldStatusSchema>;
+
+// A rig's CW keyer: speed, the call {MYCALL} stands for and the F1-F8 memories
+export const CwSettingsSchema = z.object({
+  wpm: z.number().int().min(5).max(60),
+  myCall: z.string().trim().toUpperCase().max(20),
+  memories: z.array(z.string().max(200)).length(8),
+});
+export type CwSettings = z.infer<typeof CwSettingsSchema>;
+
+// Either free text or a memory (1-8), with the values its macros fill in
+export const CwSendSchema = z
+  .object({
+    text: z.string().max(500).optional(),
+    memory: z.coerce.number().int().min(1).max(8).optional(),
+    call: z.string().max(20).optional(),
+    rst: z.string().max(10).optional(),
+  })
+  .refine((req) => (req.text === undefined) !== (req.memory === undefined), {
+    message: "send either text or a memory",
+  });
+export type CwSend = z.infer<typeof CwSendSchema>;
+
+export const CwMessageSchema = z.object({
+  id: z.number(),
+  // Macros expanded, as it goes out
+  text: z.string(),
+});
+export type CwMessage = z.infer<typeof CwMessageSchema>;
+
+export const CwStatusSchema = z.object({
+  settings: CwSettingsSchema,
+  // The message on the air and how many of its characters have gone out
+  sending: CwMessageSchema.extend({ sentChars: z.number() }).nullable(),
+  queue: z.array(CwMessageSchema),
+  // Why the last message could not be sent; the queue is dropped with it
+  lastError: z.string().optional(),
+});
+export type CwStatus = z.infer<typeof CwStatusSchema>;
+
+export const ScanChannelSchema = z.object({
+  frequencyHz: z.number().int().positive(),
+  // Left as it is when absent
+  mode: RadioModeEnum.optional(),
+  name: z.string().max(50).optional(),
+});
+export type ScanChannel = z.infer<typeof ScanChannelSchema>;
+
+// What stops the scan on a channel: the rig's squelch opening (Hamlib DCD),
+// or the S-meter reaching minSUnits
+export const ScanStopOnEnum = z.enum(["squelch", "signal"]);
+export type ScanStopOn = z.infer<typeof ScanStopOnEnum>;
+
+const scanTiming = {
+  // Time on each channel before looking for a signal
+  dwellMs: z.number().int().min(50).max(10_000).default(250),
+  // How long a signal must stay gone before the scan moves on
+  hangMs: z.number().int().min(0).max(60_000).default(3000),
+  stopOn: ScanStopOnEnum.default("squelch"),
+  minSUnits: z.number().min(0).max(9).default(3),
+};
+
+// A band scan steps from startHz to stopHz; a memory scan walks a channel list
+export const ScanStartSchema = z
+  .discriminatedUnion("kind", [
+    z.object({
+      kind: z.literal("band"),
+      startHz: z.number().int().positive(),
+      stopHz: z.number().int().positive(),
+      stepHz: z.number().int().min(1).max(1_000_000),
+      ...scanTiming,
+    }),
+    z.object({
+      kind: z.literal("memory"),
+      channels: z.array(ScanChannelSchema).min(1).max(1000),
+      ...scanTiming,
+    }),
+  ])
+  .refine((plan) => plan.kind !== "band" || plan.stopHz > plan.startHz, {
+    message: "stopHz must be above startHz",
+  });
+export type ScanStart = z.infer<typeof ScanStartSchema>;
+
+// Skip (or, with locked false, stop skipping) a frequency
+export const ScanLockoutSchema = z.object({
+  frequencyHz: z.number().int().positive(),
+  locked: z.boolean().default(true),
+});
+
+export const ScanHitSchema = z.object({
+  frequencyHz: z.number(),
+  mode: RadioModeEnum.optional(),
+  name: z.string().optional(),
+  // Epoch ms the signal was first heard, and for how long
+  at: z.number(),
+  durationMs: z.number(),
+  peakSUnits: z.number().optional(),
+});
+export type ScanHit = z.infer<typeof ScanHitSchema>;
+
+export const ScanStatusSchema = z.object({
+  // holding: stopped on a signal, moving on once it has been gone for hangMs
+  state: z.enum(["idle", "scanning", "holding"]),
+  plan: ScanStartSchema.nullable(),
+  current: ScanChannelSchema.nullable(),
+  // Full passes over the range or list since the scan started
+  passes: z.number(),
+  // Frequencies the scan skips, kept across scans
+  lockouts: z.array(z.number()),
+  // Newest first
+  hits: z.array(ScanHitSchema),
+  // Why the last scan stopped on its own
+  lastError: z.string().optional(),
+});
+export type ScanStatus = z.infer<typeof ScanStatusSchema>;
+
+// Why the backend unkeyed a rig on its own
+export const TxUnkeyReasonEnum = z.enum(["timeout", "client_lost", "shutdown", "error"]);
+export type TxUnkeyReason = z.infer<typeof TxUnkeyReasonEnum>;
+
+export const TxForcedUnkeySchema = z.object({
+  reason: TxUnkeyReasonEnum,
+  message: z.string(),
+  // How long the rig had been transmitting
+  txMs: z.number(),
+  // False when the unkey command itself failed and the rig may still be keyed
+  unkeyed: z.boolean(),
+  at: z.number(),
+});
+export type TxForcedUnkey = z.infer<typeof TxForcedUnkeySchema>;
+
+// Longest an antenna tune may hold the transmitter keyed
+export const MAX_TUNE_MS = 30_000;
+
+export const TuneRequestSchema = z.object({
+  // How long to key a carrier for an external tuner; the rig's own tuner
+  // takes as long as it takes, up to MAX_TUNE_MS
+  durationMs: z.coerce.number().int().min(500).max(MAX_TUNE_MS).optional(),
+});
+export type TuneRequest = z.infer<typeof TuneRequestSchema>;
+
+export const TuneResultSchema = z.object({
+  // The rig's own tuner ran, rather than a plain carrier for an external one
+  usedTuner: z.boolean(),
+  // The carrier mode and power used; both are put back afterwards
+  mode: RadioModeEnum,
+  powerPercent: z.number(),
+  durationMs: z.number(),
+  // Last and highest SWR read while keyed; absent when the rig gave none
+  swr: z.number().optional(),
+  peakSwr: z.number().optional(),
+});
+export type TuneResult = z.infer<typeof TuneResultSchema>;
+
+// What the state history records for each rig, each field only when it changes
+export const HISTORY_FIELDS = ["frequencyHz", "mode", "power", "ptt", "swr", "sUnits"] as const;
+export const HistoryFieldEnum = z.enum(HISTORY_FIELDS);
+export type HistoryField = z.infer<typeof HistoryFieldEnum>;
+
+// Most samples one history query returns; longer spans are thinned to fit
+export const MAX_HISTORY_SAMPLES = 5000;
+
+export const HistoryQuerySchema = z
+  .object({
+    // The first configured rig unless given
+    rigId: z.string().optional(),
+    // Epoch ms; the last hour up to now unless given
+    from: z.coerce.number().int().nonnegative().optional(),
+    to: z.coerce.number().int().nonnegative().optional(),
+    // Comma-separated, e.g. "swr,ptt"; every field unless given
+    fields: z
+      .string()
+      .transform((list) => list.split(",").map((field) => field.trim()).filter(Boolean))
+      .pipe(z.array(HistoryFieldEnum).min(1))
+      .optional(),
+    limit: z.coerce.number().int().min(10).max(MAX_HISTORY_SAMPLES).default(MAX_HISTORY_SAMPLES),
+  })
+  .refine((query) => query.from === undefined || query.to === undefined || query.from < query.to, {
+    message: "from must be before to",
+  });
+export type HistoryQuery = z.infer<typeof HistoryQuerySchema>;
+
+export const HistorySampleSchema = z.object({
+  // Epoch ms
+  t: z.number(),
+  frequencyHz: z.number().optional(),
+  mode: RadioModeEnum.optional(),
+  power: z.number().optional(),
+  ptt: z.boolean().optional(),
+  swr: z.number().optional(),
+  sUnits: z.number().optional(),
+});
+export type HistorySample = z.infer<typeof HistorySampleSchema>;
+
+export const StateHistorySchema = z.object({
+  rigId: z.string(),
+  from: z.number(),
+  to: z.number(),
+  fields: z.array(HistoryFieldEnum),
+  // Oldest first. Each sample holds the asked-for fields that changed at t;
+  // the first, at from, holds every value as it stood then.
+  samples: z.array(HistorySampleSchema),
+  // Meter samples were merged to fit the limit, keeping the highest reading of each run
+  thinned: z.boolean(),
+});
+export type StateHistory = z.infer<typeof StateHistorySchema>;
+
+// One configured rig as listed by /api/rigs
+export const RigSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  adapter: z.string(),
+  host: z.string(),
+  port: z.number(),
+  connected: z.boolean(),
+  rigModel: z.string().optional(),
+  // Only for rigs whose rigctld the backend runs
+  rigctld: RigctldStatusSchema.optional(),
+});
+export type RigSummary = z.infer<typeof RigSummarySchema>;
+
 export const AudioStatusSchema = z.object({
   started: z.boolean(),
   mode: z.enum(["webrtc", "pcm", "none"]).default("none"),
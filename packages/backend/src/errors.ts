@@ -0,0 +1,61 @@
+export type RigErrorKind =
+  | "not_supported" // the rig or backend cannot do this at all
+  | "rejected" // the rig understood the command but refused the value
+  | "invalid" // bad argument before it ever reached the rig
+  | "timeout"
+  | "not_connected"
+  | "io"
+  | "protocol" // a reply we could not make sense of
+  | "not_found" // no rig with the requested id
+  | "forbidden"; // outside the operator's licence privileges
+
+/**
+ * Error raised by adapters and services for anything rig-related, so callers
+ * can tell "this rig has no such control" apart from "the rig went quiet".
+ */
+export class RigError extends Error {
+  constructor(
+    readonly kind: RigErrorKind,
+    message: string,
+    // Hamlib RIG_E* code when the error came back in an RPRT line
+    readonly code?: number
+  ) {
+    super(message);
+    this.name = "RigError";
+  }
+}
+
+export function isRigError(e: unknown): e is RigError {
+  return e instanceof RigError;
+}
+
+export function notSupported(what: string): RigError {
+  return new RigError("not_supported", `${what} not supported by this rig`);
+}
+
+const HTTP_STATUS: Record<RigErrorKind, number> = {
+  not_supported: 501,
+  rejected: 422,
+  invalid: 400,
+  timeout: 504,
+  not_connected: 503,
+  io: 502,
+  protocol: 502,
+  not_found: 404,
+  forbidden: 403,
+};
+
+/** HTTP status for a failed request; anything that is not a RigError is a bad payload. */
+export function httpStatusFor(e: unknown): number {
+  return isRigError(e) ? HTTP_STATUS[e.kind] : 400;
+}
+
+/** Resolve to undefined when the rig lacks the feature; every other failure still throws. */
+export async function unlessNotSupported<T>(p: Promise<T>): Promise<T | undefined> {
+  try {
+    return await p;
+  } catch (e) {
+    if (isRigError(e) && e.kind === "not_supported") return undefined;
+    throw e;
+  }
+}
@@ -1,6 +1,12 @@
 export const EVENTS = {
   RADIO_STATE: "radio_state",
+  RADIO_STATE_DELTA: "radio_state_delta",
+  RADIO_CAPABILITIES: "radio_capabilities",
+  RIGCTLD_STATUS: "rigctld_status",
   CONNECTION_STATUS: "connection_status",
+  CW_STATUS: "cw_status",
+  SCAN_STATUS: "scan_status",
+  TX_FORCED_UNKEY: "tx_forced_unkey",
   SPECTRUM_FRAME: "spectrum_frame",
   SERVICE_STATUS_CHANGED: "service_status_changed",
   AUDIO_STATUS: "audio_status",
@@ -1,19 +1,36 @@
 import Fastify from "fastify";
 import cors from "@fastify/cors";
 import { Server as IOServer } from "socket.io";
-import { getConfig } from "./config.js";
+import { getConfig, getRigConfigs, getTxPrivileges } from "./config.js";
 import { ok } from "./response.js";
 import { ServiceRegistry } from "./service-registry.js";
 import { SERVICE_NAME, SERVICE_VERSION } from "./constants.js";
-import { RadioService } from "./services/radio.js";
-import { MockRigctlAdapter } from "./adapters/mock-rigctl.js";
-import { RigctlCommandAdapter } from "./adapters/rigctl.js";
-import { RigctldAdapter } from "./adapters/rigctld.js";
+import { RigManager } from "./services/rig-manager.js";
+import { createRigAdapter } from "./adapters/factory.js";
+import { RigctlServer } from "./services/rigctl-server.js";
+import { HistoryRecorder } from "./services/history-recorder.js";
 import { radioRoutes } from "./routes/radio.js";
+import { rigctldRoutes } from "./routes/rigctld.js";
 import { audioRoutes } from "./routes/audio.js";
 import { spectrumRoutes } from "./routes/spectrum.js";
 import { configRoutes } from "./routes/config.js";
+import { cwRoutes } from "./routes/cw.js";
+import { scanRoutes } from "./routes/scan.js";
+import { historyRoutes } from "./routes/history.js";
 import { EVENTS } from "./events.js";
+import {
+  CwSendSchema,
+  CwSettingsSchema,
+  RadioModeEnum,
+  RadioOffsetsSchema,
+  RadioReceiverSchema,
+  RadioRepeaterSchema,
+  RadioVfoEnum,
+  ScanLockoutSchema,
+  ScanStartSchema,
+  TuneRequestSchema,
+  VfoOpEnum,
+} from "./dtos.js";
 
 const startedAt = Date.now();
 
@@ -40,13 +57,45 @@ async function start() {
   const registry = new ServiceRegistry();
 
   // Instantiate services and register
-  // Choose adapter based on environment
-  const useRealRadio = config.USE_REAL_RADIO === 'true';
-  const rigAdapter = useRealRadio
-    ? new RigctldAdapter() // Use daemon adapter - connects to port 4532
-    : new MockRigctlAdapter();
-
-  const radio = new RadioService({ adapter: rigAdapter });
+  // One RadioService per configured rig (RIGS, or a single default rig)
+  const rigConfigs = getRigConfigs(config);
+  const rigs = new RigManager({
+    rigs: rigConfigs,
+    createAdapter: createRigAdapter,
+    logger: app.log,
+    rigctldPath: config.RIGCTLD_PATH,
+    myCall: config.MYCALL,
+    txPrivileges: getTxPrivileges(config),
+  });
+  // rigctld-compatible listeners so other programs can share a rig with us
+  const rigctlServers = rigConfigs.flatMap((rig) =>
+    rig.rigctlServerPort
+      ? [new RigctlServer({
+          rigId: rig.id,
+          radio: rigs.get(rig.id),
+          watchdog: rigs.watchdog(rig.id),
+          host: config.RIGCTL_SERVER_HOST,
+          port: rig.rigctlServerPort,
+          logger: app.log,
+        })]
+      : []
+  );
+  // Every rig's state changes, kept on disk for /api/radio/history
+  const history =
+    config.STATE_HISTORY === "true"
+      ? new HistoryRecorder({
+          dir: config.HISTORY_DIR,
+          retentionMs: config.HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+          maxBytes: config.HISTORY_MAX_MB * 1024 * 1024,
+          logger: app.log,
+        })
+      : null;
+  if (history) {
+    await history.start();
+    for (const rigId of rigs.ids()) {
+      rigs.get(rigId).on(EVENTS.RADIO_STATE, (state) => history.record(rigId, state));
+    }
+  }
   const audio = new (await import("./services/audio.js")).AudioService();
   const spectrum = new (await import("./services/spectrum.js")).SpectrumService();
   const configSvc = new (await import("./services/config.js")).ConfigService();
@@ -56,13 +105,27 @@ async function start() {
       name: "radio",
       version: "0.1.0",
       endpoints: [
-        { method: "POST", path: "/api/radio/connect" },
-        { method: "POST", path: "/api/radio/disconnect" },
-        { method: "GET", path: "/api/radio/state" },
-        { method: "POST", path: "/api/radio/frequency" },
-        { method: "POST", path: "/api/radio/mode" },
-        { method: "POST", path: "/api/radio/power" },
-        { method: "POST", path: "/api/radio/ptt" }
+        { method: "GET", path: "/api/modes" },
+        { method: "GET", path: "/api/band-plan" },
+        { method: "GET", path: "/api/rigs" },
+        { method: "POST", path: "/api/rigs/:id/connect" },
+        { method: "POST", path: "/api/rigs/:id/disconnect" },
+        { method: "GET", path: "/api/rigs/:id/state" },
+        { method: "GET", path: "/api/rigs/:id/capabilities" },
+        { method: "POST", path: "/api/rigs/:id/frequency" },
+        { method: "POST", path: "/api/rigs/:id/mode" },
+        { method: "POST", path: "/api/rigs/:id/power" },
+        { method: "POST", path: "/api/rigs/:id/ptt" },
+        { method: "POST", path: "/api/rigs/:id/tune" },
+        { method: "POST", path: "/api/rigs/:id/vfo" },
+        { method: "POST", path: "/api/rigs/:id/vfo/op" },
+        { method: "POST", path: "/api/rigs/:id/split" },
+        { method: "POST", path: "/api/rigs/:id/split/frequency" },
+        { method: "POST", path: "/api/rigs/:id/split/mode" },
+        { method: "POST", path: "/api/rigs/:id/receiver" },
+        { method: "POST", path: "/api/rigs/:id/offsets" },
+        { method: "POST", path: "/api/rigs/:id/repeater" },
+        { method: "POST", path: "/api/rigs/:id/passband" }
       ],
     },
     getHealth: async () => ({
@@ -70,6 +133,89 @@ async function start() {
       version: "0.1.0",
       status: "healthy",
       uptimeSec: Math.floor((Date.now() - startedAt) / 1000),
+      details: { rigs: rigs.list().map(({ id, connected }) => ({ id, connected })) },
+    }),
+  });
+
+  if (rigs.rigctldStatuses().length > 0) {
+    registry.register({
+      metadata: {
+        name: "rigctld",
+        version: "0.1.0",
+        endpoints: [
+          { method: "GET", path: "/api/rigs/:id/rigctld" },
+          { method: "POST", path: "/api/rigs/:id/rigctld/start" },
+          { method: "POST", path: "/api/rigs/:id/rigctld/stop" },
+          { method: "POST", path: "/api/rigs/:id/rigctld/restart" }
+        ],
+      },
+      getHealth: async () => {
+        const processes = rigs.rigctldStatuses();
+        return {
+          name: "rigctld",
+          version: "0.1.0",
+          // Degraded while any managed rigctld is down or coming back up
+          status: processes.every((p) => p.state === "running") ? "healthy" : "degraded",
+          uptimeSec: Math.floor((Date.now() - startedAt) / 1000),
+          details: { processes },
+        };
+      },
+    });
+  }
+
+  if (rigctlServers.length > 0) {
+    registry.register({
+      metadata: { name: "rigctl-server", version: "0.1.0" },
+      getHealth: async () => {
+        const listeners = rigctlServers.map((server) => server.getStatus());
+        return {
+          name: "rigctl-server",
+          version: "0.1.0",
+          status: listeners.every((l) => l.listening) ? "healthy" : "degraded",
+          uptimeSec: Math.floor((Date.now() - startedAt) / 1000),
+          details: { listeners },
+        };
+      },
+    });
+  }
+
+  registry.register({
+    metadata: {
+      name: "cw",
+      version: "0.1.0",
+      endpoints: [
+        { method: "GET", path: "/api/rigs/:id/cw" },
+        { method: "POST", path: "/api/rigs/:id/cw/send" },
+        { method: "POST", path: "/api/rigs/:id/cw/abort" },
+        { method: "POST", path: "/api/rigs/:id/cw/settings" }
+      ],
+    },
+    getHealth: async () => ({
+      name: "cw",
+      version: "0.1.0",
+      status: "healthy",
+      uptimeSec: Math.floor((Date.now() - startedAt) / 1000),
+    }),
+  });
+
+  registry.register({
+    metadata: {
+      name: "scan",
+      version: "0.1.0",
+      endpoints: [
+        { method: "GET", path: "/api/rigs/:id/scan" },
+        { method: "POST", path: "/api/rigs/:id/scan/start" },
+        { method: "POST", path: "/api/rigs/:id/scan/stop" },
+        { method: "POST", path: "/api/rigs/:id/scan/skip" },
+        { method: "POST", path: "/api/rigs/:id/scan/lockout" },
+        { method: "POST", path: "/api/rigs/:id/scan/hits/clear" }
+      ],
+    },
+    getHealth: async () => ({
+      name: "scan",
+      version: "0.1.0",
+      status: "healthy",
+      uptimeSec: Math.floor((Date.now() - startedAt) / 1000),
     }),
   });
 
@@ -110,6 +256,25 @@ async function start() {
     }),
   });
 
+  if (history) {
+    registry.register({
+      metadata: {
+        name: "history",
+        version: "0.1.0",
+        endpoints: [
+          { method: "GET", path: "/api/radio/history" }
+        ],
+      },
+      getHealth: async () => ({
+        name: "history",
+        version: "0.1.0",
+        status: "healthy",
+        uptimeSec: Math.floor((Date.now() - startedAt) / 1000),
+        details: { dir: config.HISTORY_DIR, retentionDays: config.HISTORY_RETENTION_DAYS },
+      }),
+    });
+  }
+
   registry.register({
     metadata: {
       name: "config",
@@ -138,7 +303,11 @@ async function start() {
   });
 
   // HTTP routes
-  await radioRoutes(app, radio);
+  await radioRoutes(app, rigs);
+  await rigctldRoutes(app, rigs);
+  await cwRoutes(app, rigs);
+  await scanRoutes(app, rigs);
+  await historyRoutes(app, history, rigs);
   await audioRoutes(app, audio);
   await spectrumRoutes(app, spectrum);
   await configRoutes(app, configSvc);
@@ -178,114 +347,286 @@ async function start() {
       app.log.info({ nsp, id: socket.id }, "socket connected");
 
       if (nsp === "/") {
-        // Radio command handlers over WebSocket
-        socket.on("radio:connect", async (payload: any = {}, cb?: (res: any) => void) => {
+        // A full state per rig to start from; radio_state_delta events follow
+        for (const snapshot of rigs.snapshots()) socket.emit(EVENTS.RADIO_STATE, snapshot);
+
+        // For a client that missed a delta (its seq skipped) to start over
+        socket.on("radio:snapshot", (payload: any = {}, cb?: (err: any, res?: any) => void) => {
           try {
-            const host = typeof payload?.host === 'string' ? payload.host : '127.0.0.1';
-            const port = Number(payload?.port ?? 4532);
-            await radio.connect(host, port);
-            await radio.refreshState();
+            cb?.(null, { ok: true, snapshot: rigs.snapshot(payload?.rigId) });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'snapshot failed', kind: e?.kind });
+          }
+        });
+
+        // Radio command handlers over WebSocket; every payload names its rig
+        socket.on("radio:connect", async (payload: any = {}, cb?: (err: any, res?: any) => void) => {
+          try {
+            const host = typeof payload?.host === 'string' ? payload.host : undefined;
+            const port = payload?.port !== undefined ? Number(payload.port) : undefined;
+            await rigs.connect(payload?.rigId, host, port);
+            await rigs.get(payload?.rigId).refreshState();
             cb?.(null, { ok: true });
           } catch (e: any) {
-            cb?.({ ok: false, error: e?.message || 'connect failed' });
+            cb?.({ ok: false, error: e?.message || 'connect failed', kind: e?.kind });
           }
         });
 
-        socket.on("radio:disconnect", async (_: any = {}, cb?: (res: any) => void) => {
+        socket.on("radio:disconnect", async (payload: any = {}, cb?: (err: any, res?: any) => void) => {
           try {
-            await radio.disconnect();
-            cb?.({ ok: true });
+            await rigs.disconnect(payload?.rigId);
+            cb?.(null, { ok: true });
           } catch (e: any) {
-            cb?.({ ok: false, error: e?.message || 'disconnect failed' });
+            cb?.({ ok: false, error: e?.message || 'disconnect failed', kind: e?.kind });
           }
         });
 
         socket.on("radio:setFrequency", async (payload: any, cb?: (err: any, res?: any) => void) => {
           try {
+            const radio = rigs.get(payload?.rigId);
             const hz = Number(payload?.frequency);
             if (!Number.isFinite(hz) || hz <= 0) throw new Error('invalid frequency');
-            await radio.setFrequency(hz);
-            cb?.(null, { ok: true });
+            // Names the frequency that landed, which may be a later client's
+            const frequency = await radio.setFrequency(hz);
+            cb?.(null, { ok: true, frequency });
           } catch (e: any) {
-            cb?.(e?.message || 'setFrequency failed');
+            cb?.({ ok: false, error: e?.message || 'setFrequency failed', kind: e?.kind });
           }
         });
 
-        socket.on("radio:setMode", async (payload: any, cb?: (res: any) => void) => {
+        socket.on("radio:setMode", async (payload: any, cb?: (err: any, res?: any) => void) => {
           try {
-            const mode = payload?.mode as any;
+            const radio = rigs.get(payload?.rigId);
+            const mode = RadioModeEnum.parse(payload?.mode);
             const bw = payload?.bandwidthHz ? Number(payload.bandwidthHz) : undefined;
-            if (!mode) throw new Error('mode required');
-            await radio.setMode(mode, bw);
-            cb?.(null, { ok: true });
+            const landed = await radio.setMode(mode, bw);
+            cb?.(null, { ok: true, ...landed });
           } catch (e: any) {
-            cb?.({ ok: false, error: e?.message || 'setMode failed' });
+            cb?.({ ok: false, error: e?.message || 'setMode failed', kind: e?.kind });
           }
         });
 
-        socket.on("radio:setPower", async (payload: any, cb?: (res: any) => void) => {
+        socket.on("radio:setPower", async (payload: any, cb?: (err: any, res?: any) => void) => {
           try {
+            const radio = rigs.get(payload?.rigId);
             const percent = Number(payload?.power);
             if (!Number.isFinite(percent) || percent < 0 || percent > 100) throw new Error('invalid power');
-            await radio.setPower(percent);
-            cb?.(null, { ok: true });
+            const power = await radio.setPower(percent);
+            cb?.(null, { ok: true, power });
           } catch (e: any) {
-            cb?.({ ok: false, error: e?.message || 'setPower failed' });
+            cb?.({ ok: false, error: e?.message || 'setPower failed', kind: e?.kind });
           }
         });
 
-        socket.on("radio:setPTT", async (payload: any, cb?: (res: any) => void) => {
+        socket.on("radio:setPTT", async (payload: any, cb?: (err: any, res?: any) => void) => {
           try {
+            // Keyed on this socket's behalf, so losing the socket unkeys the rig
             const ptt = !!payload?.ptt;
-            await radio.setPtt(ptt);
+            await rigs.watchdog(payload?.rigId).setPtt(ptt, socket.id);
             cb?.(null, { ok: true });
           } catch (e: any) {
-            cb?.({ ok: false, error: e?.message || 'setPTT failed' });
+            cb?.({ ok: false, error: e?.message || 'setPTT failed', kind: e?.kind });
           }
         });
 
         socket.on("radio:tune", async (payload: any, cb?: (err: any, res?: any) => void) => {
           try {
-            // Simple tuner assist: key low power for a short burst
-            await radio.setPower(5);
-            await radio.setPtt(true);
-            setTimeout(async () => {
-              await radio.setPtt(false);
-              cb?.(null, { ok: true });
-            }, Math.min(Math.max(Number(payload?.ms ?? 1200), 300), 5000));
+            const { durationMs } = TuneRequestSchema.parse(payload ?? {});
+            // Keyed on this socket's behalf, so losing the socket ends the tune
+            const result = await rigs.watchdog(payload?.rigId).tune(durationMs, socket.id);
+            cb?.(null, { ok: true, result });
           } catch (e: any) {
-            cb?.(e?.message || 'tune failed');
+            cb?.({ ok: false, error: e?.message || 'tune failed', kind: e?.kind });
           }
         });
-      }
-        // Optional: VFO and Split (if adapter supports)
-        socket.on("radio:setVFO", async (payload: any, cb?: (res: any) => void) => {
+
+        socket.on("radio:setVFO", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const radio = rigs.get(payload?.rigId);
+            const vfo = RadioVfoEnum.parse(payload?.vfo);
+            await radio.setVfo(vfo);
+            cb?.(null, { ok: true });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'setVFO failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("radio:vfoOp", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const radio = rigs.get(payload?.rigId);
+            const op = VfoOpEnum.parse(payload?.op);
+            await radio.vfoOp(op);
+            cb?.(null, { ok: true });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'vfoOp failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("radio:setSplit", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const radio = rigs.get(payload?.rigId);
+            const split = !!payload?.split;
+            const txVfo = payload?.txVfo ? RadioVfoEnum.parse(payload.txVfo) : undefined;
+            await radio.setSplit(split, txVfo);
+            cb?.(null, { ok: true });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'setSplit failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("radio:setSplitFrequency", async (payload: any, cb?: (err: any, res?: any) => void) => {
           try {
-            // TODO: implement if adapter supports VFO
-            cb?.({ ok: false, error: 'VFO not supported yet' });
+            const radio = rigs.get(payload?.rigId);
+            const hz = Number(payload?.frequency);
+            if (!Number.isFinite(hz) || hz <= 0) throw new Error('invalid frequency');
+            const frequency = await radio.setSplitFrequency(hz);
+            cb?.(null, { ok: true, frequency });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'setSplitFrequency failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("radio:setSplitMode", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const radio = rigs.get(payload?.rigId);
+            const mode = RadioModeEnum.parse(payload?.mode);
+            const bw = payload?.bandwidthHz ? Number(payload.bandwidthHz) : undefined;
+            const landed = await radio.setSplitMode(mode, bw);
+            cb?.(null, { ok: true, ...landed });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'setSplitMode failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("radio:setReceiver", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const radio = rigs.get(payload?.rigId);
+            const settings = RadioReceiverSchema.parse(payload?.settings ?? {});
+            const receiver = await radio.setReceiver(settings);
+            cb?.(null, { ok: true, receiver });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'setReceiver failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("radio:setOffsets", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const radio = rigs.get(payload?.rigId);
+            const offsets = RadioOffsetsSchema.parse(payload?.offsets ?? {});
+            const landed = await radio.setOffsets(offsets);
+            cb?.(null, { ok: true, offsets: landed });
           } catch (e: any) {
-            cb?.({ ok: false, error: e?.message || 'setVFO failed' });
+            cb?.({ ok: false, error: e?.message || 'setOffsets failed', kind: e?.kind });
           }
         });
 
-        socket.on("radio:setSplit", async (payload: any, cb?: (res: any) => void) => {
+        socket.on("radio:setRepeater", async (payload: any, cb?: (err: any, res?: any) => void) => {
           try {
-            // TODO: implement if adapter supports split
-            cb?.({ ok: false, error: 'Split not supported yet' });
+            const radio = rigs.get(payload?.rigId);
+            const repeater = RadioRepeaterSchema.parse(payload?.repeater ?? {});
+            const landed = await radio.setRepeater(repeater);
+            cb?.(null, { ok: true, repeater: landed });
           } catch (e: any) {
-            cb?.({ ok: false, error: e?.message || 'setSplit failed' });
+            cb?.({ ok: false, error: e?.message || 'setRepeater failed', kind: e?.kind });
           }
         });
 
+        socket.on("radio:setPassband", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const radio = rigs.get(payload?.rigId);
+            const hz = Number(payload?.bandwidthHz);
+            if (!Number.isFinite(hz) || hz <= 0) throw new Error('invalid passband');
+            const bandwidthHz = await radio.setPassband(Math.round(hz));
+            cb?.(null, { ok: true, bandwidthHz });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'setPassband failed', kind: e?.kind });
+          }
+        });
+
+        // CW keyer; progress comes back as cw_status events
+        socket.on("cw:send", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const keyer = rigs.keyer(payload?.rigId);
+            const message = keyer.send(CwSendSchema.parse(payload ?? {}), socket.id);
+            cb?.(null, { ok: true, message });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'cw send failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("cw:abort", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            await rigs.keyer(payload?.rigId).abort();
+            cb?.(null, { ok: true });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'cw abort failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("cw:setSettings", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const keyer = rigs.keyer(payload?.rigId);
+            const status = keyer.updateSettings(CwSettingsSchema.partial().parse(payload?.settings ?? {}));
+            cb?.(null, { ok: true, status });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'cw settings failed', kind: e?.kind });
+          }
+        });
+
+        // Scanner; progress and hits come back as scan_status events
+        socket.on("scan:start", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const status = await rigs.scanner(payload?.rigId).start(ScanStartSchema.parse(payload?.plan ?? {}));
+            cb?.(null, { ok: true, status });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'scan start failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("scan:stop", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            rigs.scanner(payload?.rigId).stop();
+            cb?.(null, { ok: true });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'scan stop failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("scan:skip", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            rigs.scanner(payload?.rigId).skip();
+            cb?.(null, { ok: true });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'scan skip failed', kind: e?.kind });
+          }
+        });
+
+        socket.on("scan:lockout", async (payload: any, cb?: (err: any, res?: any) => void) => {
+          try {
+            const { frequencyHz, locked } = ScanLockoutSchema.parse(payload ?? {});
+            const status = rigs.scanner(payload?.rigId).setLockout(frequencyHz, locked);
+            cb?.(null, { ok: true, status });
+          } catch (e: any) {
+            cb?.({ ok: false, error: e?.message || 'scan lockout failed', kind: e?.kind });
+          }
+        });
+      }
+
       socket.on("disconnect", (reason) => {
         app.log.info({ nsp, id: socket.id, reason }, "socket disconnected");
+        void rigs.releaseClient(socket.id);
       });
     });
   }
 
-  // Emit all events to root namespace for frontend
-  radio.on(EVENTS.CONNECTION_STATUS, (payload) => io.emit(EVENTS.CONNECTION_STATUS, payload));
-  radio.on(EVENTS.RADIO_STATE, (state) => io.emit(EVENTS.RADIO_STATE, state));
+  // Emit all events to root namespace for frontend; radio events carry rigId
+  rigs.on(EVENTS.CONNECTION_STATUS, (payload) => io.emit(EVENTS.CONNECTION_STATUS, payload));
+  rigs.on(EVENTS.RADIO_STATE_DELTA, (delta) => io.emit(EVENTS.RADIO_STATE_DELTA, delta));
+  rigs.on(EVENTS.RADIO_CAPABILITIES, (caps) => io.emit(EVENTS.RADIO_CAPABILITIES, caps));
+  rigs.on(EVENTS.RIGCTLD_STATUS, (status) => io.emit(EVENTS.RIGCTLD_STATUS, status));
+  rigs.on(EVENTS.CW_STATUS, (status) => io.emit(EVENTS.CW_STATUS, status));
+  rigs.on(EVENTS.SCAN_STATUS, (status) => io.emit(EVENTS.SCAN_STATUS, status));
+  rigs.on(EVENTS.TX_FORCED_UNKEY, (event) => io.emit(EVENTS.TX_FORCED_UNKEY, event));
   audio.on(EVENTS.AUDIO_STATUS, (status) => io.emit(EVENTS.AUDIO_STATUS, status));
   spectrum.on(EVENTS.SPECTRUM_FRAME, (frame) => io.emit(EVENTS.SPECTRUM_FRAME, frame));
   spectrum.on(EVENTS.SPECTRUM_SETTINGS_CHANGED, (settings) => io.emit(EVENTS.SPECTRUM_SETTINGS_CHANGED, settings));
@@ -301,55 +642,24 @@ async function start() {
     `Backend listening on :${config.BACKEND_PORT}`
   );
 
-  // Try radio connection and keep retrying until success; poll only when connected
-  if (useRealRadio) {
-    let pollTimer: NodeJS.Timeout | null = null;
-    const startPolling = () => {
-      if (pollTimer) return;
-      pollTimer = setInterval(async () => {
-        try {
-          await radio.refreshState();
-        } catch (error) {
-          app.log.error('Radio polling error:', error);
-        }
-      }, 1000);
-    };
-    const stopPolling = () => {
-      if (pollTimer) {
-        clearInterval(pollTimer);
-        pollTimer = null;
-      }
-    };
-
-    const attemptConnect = async (delayMs = 1500) => {
-      try {
-        app.log.info('🔄 Attempting to connect to radio...');
-        await radio.connect('127.0.0.1', 4532);
-        app.log.info('✅ Radio connected! Starting real-time polling...');
-        startPolling();
-      } catch (error: any) {
-        stopPolling();
-        app.log.error('❌ Radio connection failed:', error?.message || error);
-        // Emit a single disconnected state snapshot (no spammy interval)
-        radio.emit(EVENTS.RADIO_STATE, { connected: false });
-        setTimeout(() => attemptConnect(Math.min(delayMs * 1.5, 15000)), delayMs);
-      }
-    };
-
-    // Kick off connection attempts
-    attemptConnect();
-  } else {
-      // @TODO - REMOVE ALL MOCK MODE ASPECTS OF THE STACK
-    // Mock mode with changing data
-    setInterval(() => {
-      radio.emit(EVENTS.RADIO_STATE, {
-        connected: true,
-        frequencyHz: 14200000 + Math.floor(Math.random() * 1000),
-        mode: 'USB',
-        power: 50 + Math.floor(Math.random() * 50),
-        rigModel: 'Mock IC-7300',
-      });
-    }, 2000);
+  // Connect configured rigs in the background; each retries and polls on its own
+  rigs.start();
+
+  for (const server of rigctlServers) {
+    // A port clash should not take the whole backend down; health shows it
+    server.listen().catch((err) => app.log.error({ err, ...server.getStatus() }, "rigctl server failed to listen"));
+  }
+
+  // Take managed rigctld processes down with us rather than orphaning them
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, async () => {
+      app.log.info({ signal }, "Shutting down");
+      await Promise.all(rigctlServers.map((server) => server.close()));
+      await rigs.stop();
+      // After the rigs, so the last unkey is on record
+      await history?.stop();
+      process.exit(0);
+    });
   }
 
   app.log.info(
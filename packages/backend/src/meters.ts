@@ -0,0 +1,51 @@
+import type { RadioMeters } from "./dtos.js";
+
+/**
+ * Piecewise-linear meter calibration, as in Hamlib's cal_table_t: pairs of
+ * [raw reading, value] in ascending raw order. Readings outside the table
+ * are clamped to its ends.
+ */
+export type CalibrationTable = ReadonlyArray<readonly [number, number]>;
+
+export function calibrate(table: CalibrationTable, raw: number): number {
+  const first = table[0];
+  if (!first) return raw;
+  if (raw <= first[0]) return first[1];
+  for (let i = 1; i < table.length; i++) {
+    const [x1, y1] = table[i]!;
+    const [x0, y0] = table[i - 1]!;
+    if (raw <= x1) return y0 + ((raw - x0) * (y1 - y0)) / (x1 - x0);
+  }
+  return table[table.length - 1]![1];
+}
+
+// Hamlib level token for each meter besides the S-meter (STRENGTH); the
+// names capabilities list in getLevels
+export const METER_LEVELS = {
+  swr: "SWR",
+  alc: "ALC",
+  powerWatts: "RFPOWER_METER_WATTS",
+  compDb: "COMP_METER",
+  idAmps: "ID_METER",
+  vdVolts: "VD_METER",
+} as const;
+export type MeterName = keyof typeof METER_LEVELS;
+
+// S9 on HF, and the 6 dB per S-unit every S-meter scale assumes
+export const S9_DBM = -73;
+const DB_PER_S_UNIT = 6;
+
+/** The S-meter fields for a signal level in dBm. */
+export function signalMeters(dbm: number): Pick<RadioMeters, "signalDbm" | "sUnits" | "overS9Db"> {
+  const overS9 = dbm - S9_DBM;
+  return {
+    signalDbm: Math.round(dbm),
+    sUnits: parseFloat(Math.max(0, Math.min(9, 9 + overS9 / DB_PER_S_UNIT)).toFixed(1)),
+    overS9Db: Math.max(0, Math.round(overS9)),
+  };
+}
+
+/** Round a calibrated reading to what a meter face can show. */
+export function meterValue(value: number, decimals = 1): number {
+  return parseFloat(value.toFixed(decimals));
+}
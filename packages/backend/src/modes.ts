@@ -0,0 +1,131 @@
+import { RigError } from "./errors.js";
+
+/**
+ * The one list of operating modes the app knows about. The API enum, the
+ * Hamlib wire names and the labels the UI shows are all derived from here,
+ * so a mode is either in this table or it is an error — never a silent USB.
+ */
+export const RADIO_MODES = [
+  "LSB",
+  "USB",
+  "CW",
+  "CWR",
+  "AM",
+  "AMN",
+  "FM",
+  "FMN",
+  "WFM",
+  "RTTY",
+  "RTTYR",
+  "PSK",
+  "PSKR",
+  "PKTLSB",
+  "PKTUSB",
+  "PKTFM",
+  "PKTAM",
+  "ECSSLSB",
+  "ECSSUSB",
+  "SAM",
+  "SAL",
+  "SAH",
+  "DSB",
+  "FAX",
+] as const;
+
+export type ModeName = (typeof RADIO_MODES)[number];
+
+export type ModeGroup = "common" | "digital" | "other";
+
+export interface ModeInfo {
+  mode: ModeName;
+  // Name rigctl/rigctld use on the wire
+  hamlib: string;
+  // Bit position of Hamlib's rmode_t flag, for mode masks in dump_state
+  hamlibBit: number;
+  label: string;
+  description: string;
+  group: ModeGroup;
+  // Used when the caller does not ask for a width and the backend has no
+  // "rig default" of its own to fall back on
+  passbandHz: number;
+}
+
+const MODE_TABLE: Record<ModeName, Omit<ModeInfo, "mode">> = {
+  LSB: { hamlib: "LSB", hamlibBit: 3, label: "LSB", description: "Lower Sideband", group: "common", passbandHz: 2400 },
+  USB: { hamlib: "USB", hamlibBit: 2, label: "USB", description: "Upper Sideband", group: "common", passbandHz: 2400 },
+  CW: { hamlib: "CW", hamlibBit: 1, label: "CW", description: "Continuous Wave", group: "common", passbandHz: 500 },
+  CWR: { hamlib: "CWR", hamlibBit: 7, label: "CW-R", description: "CW Reverse", group: "other", passbandHz: 500 },
+  AM: { hamlib: "AM", hamlibBit: 0, label: "AM", description: "Amplitude Modulation", group: "common", passbandHz: 6000 },
+  AMN: { hamlib: "AMN", hamlibBit: 29, label: "AM-N", description: "AM Narrow", group: "other", passbandHz: 3000 },
+  FM: { hamlib: "FM", hamlibBit: 5, label: "FM", description: "Frequency Modulation", group: "common", passbandHz: 12000 },
+  FMN: { hamlib: "FMN", hamlibBit: 21, label: "FM-N", description: "FM Narrow", group: "other", passbandHz: 6000 },
+  WFM: { hamlib: "WFM", hamlibBit: 6, label: "WFM", description: "Wide FM", group: "other", passbandHz: 230000 },
+  RTTY: { hamlib: "RTTY", hamlibBit: 4, label: "RTTY", description: "Radio Teletype", group: "digital", passbandHz: 500 },
+  RTTYR: { hamlib: "RTTYR", hamlibBit: 8, label: "RTTY-R", description: "RTTY Reverse", group: "digital", passbandHz: 500 },
+  PSK: { hamlib: "PSK", hamlibBit: 30, label: "PSK", description: "Phase Shift Keying", group: "digital", passbandHz: 500 },
+  PSKR: { hamlib: "PSKR", hamlibBit: 31, label: "PSK-R", description: "PSK Reverse", group: "digital", passbandHz: 500 },
+  PKTLSB: { hamlib: "PKTLSB", hamlibBit: 10, label: "DATA-L", description: "Data on LSB", group: "digital", passbandHz: 3000 },
+  PKTUSB: { hamlib: "PKTUSB", hamlibBit: 11, label: "DATA-U", description: "Data on USB", group: "digital", passbandHz: 3000 },
+  PKTFM: { hamlib: "PKTFM", hamlibBit: 12, label: "DATA-FM", description: "Data on FM", group: "digital", passbandHz: 12000 },
+  PKTAM: { hamlib: "PKTAM", hamlibBit: 22, label: "DATA-AM", description: "Data on AM", group: "digital", passbandHz: 6000 },
+  ECSSLSB: { hamlib: "ECSSLSB", hamlibBit: 14, label: "ECSS-L", description: "Sync AM, lower sideband", group: "other", passbandHz: 3000 },
+  ECSSUSB: { hamlib: "ECSSUSB", hamlibBit: 13, label: "ECSS-U", description: "Sync AM, upper sideband", group: "other", passbandHz: 3000 },
+  SAM: { hamlib: "SAM", hamlibBit: 16, label: "SAM", description: "Synchronous AM", group: "other", passbandHz: 6000 },
+  SAL: { hamlib: "SAL", hamlibBit: 17, label: "SAM-L", description: "Synchronous AM, lower sideband", group: "other", passbandHz: 3000 },
+  SAH: { hamlib: "SAH", hamlibBit: 18, label: "SAM-U", description: "Synchronous AM, upper sideband", group: "other", passbandHz: 3000 },
+  DSB: { hamlib: "DSB", hamlibBit: 19, label: "DSB", description: "Double Sideband", group: "other", passbandHz: 6000 },
+  FAX: { hamlib: "FAX", hamlibBit: 15, label: "FAX", description: "Facsimile", group: "other", passbandHz: 3000 },
+};
+
+// Names some rigs and front ends use for modes we already have
+const ALIASES: Record<string, ModeName> = {
+  DIGL: "PKTLSB",
+  DIGU: "PKTUSB",
+  "LSB-D": "PKTLSB",
+  "USB-D": "PKTUSB",
+  "FM-D": "PKTFM",
+};
+
+const BY_HAMLIB = new Map<string, ModeName>(
+  RADIO_MODES.map((mode) => [MODE_TABLE[mode].hamlib, mode] as const)
+);
+
+export const MODES: readonly ModeInfo[] = RADIO_MODES.map((mode) => ({ mode, ...MODE_TABLE[mode] }));
+
+// Names from outside (a request, a stored setting) are not checked by the
+// type, so an unknown one is an invalid argument rather than a crash
+function entryOf(mode: ModeName) {
+  const entry: Omit<ModeInfo, "mode"> | undefined = MODE_TABLE[mode];
+  if (!entry) throw new RigError("invalid", `Unknown mode "${mode}"`);
+  return entry;
+}
+
+export function modeInfo(mode: ModeName): ModeInfo {
+  return { mode, ...entryOf(mode) };
+}
+
+export function toHamlibMode(mode: ModeName): string {
+  return entryOf(mode).hamlib;
+}
+
+/** Like modeFromHamlib, but undefined for names we do not know. */
+export function lookupHamlibMode(name: string): ModeName | undefined {
+  const key = name.trim().toUpperCase();
+  return BY_HAMLIB.get(key) ?? ALIASES[key];
+}
+
+/** Map a mode name reported by a rig; unknown names are a protocol error. */
+export function modeFromHamlib(name: string): ModeName {
+  const mode = lookupHamlibMode(name);
+  if (!mode) throw new RigError("protocol", `Unknown mode "${name}" reported by rig`);
+  return mode;
+}
+
+/** Hamlib rmode_t mask for a set of modes. */
+export function hamlibModeMask(modes: readonly ModeName[]): bigint {
+  return modes.reduce((mask, mode) => mask | (1n << BigInt(entryOf(mode).hamlibBit)), 0n);
+}
+
+export function defaultPassband(mode: ModeName): number {
+  return entryOf(mode).passbandHz;
+}
@@ -0,0 +1,50 @@
+import type { AgcSpeed } from "./dtos.js";
+
+// Hamlib function token for each on/off receiver control
+export const RECEIVER_FUNCS = {
+  nb: "NB",
+  nr: "NR",
+  autoNotch: "ANF",
+  manualNotch: "MN",
+} as const;
+export type ReceiverFunc = keyof typeof RECEIVER_FUNCS;
+
+// Hamlib level token for each receiver control with a value; NR is both a
+// function (on/off) and a level (how hard it works)
+export const RECEIVER_LEVELS = {
+  agc: "AGC",
+  nrLevel: "NR",
+  notchHz: "NOTCHF",
+  preampDb: "PREAMP",
+  attDb: "ATT",
+  rfGain: "RF",
+  afGain: "AF",
+  squelch: "SQL",
+} as const;
+export type ReceiverLevel = keyof typeof RECEIVER_LEVELS;
+
+// Hamlib's agc_level_e values for the speeds we offer
+export const HAMLIB_AGC: Record<AgcSpeed, number> = { off: 0, fast: 2, slow: 3, medium: 5, auto: 6 };
+
+/** The nearest speed we offer for a Hamlib AGC level, e.g. SUPERFAST reads as fast. */
+export function agcFromHamlib(value: number): AgcSpeed | undefined {
+  switch (value) {
+    case 0:
+      return "off";
+    case 1:
+    case 2:
+      return "fast";
+    case 3:
+    case 7:
+      return "slow";
+    case 5:
+      return "medium";
+    case 6:
+    case 8:
+      return "auto";
+    default:
+      // USER and NONE have no speed to show
+      return undefined;
+  }
+}
+
@@ -0,0 +1,54 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { ok, fail } from "../response.js";
+import type { RigManager } from "../services/rig-manager.js";
+import { CwSendSchema, CwSettingsSchema } from "../dtos.js";
+import { httpStatusFor } from "../errors.js";
+
+export async function cwRoutes(app: FastifyInstance, rigs: RigManager) {
+  // Throws a not_found RigError for an unknown id, which maps to 404
+  const keyerOf = (req: FastifyRequest) => rigs.keyer((req.params as { id: string }).id);
+  // Any subset, so the UI can change just the speed or just one memory list
+  const settingsSchema = CwSettingsSchema.partial();
+
+  app.get("/api/rigs/:id/cw", async (req, rep) => {
+    try {
+      return ok(keyerOf(req).getStatus());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
+  });
+
+  app.post("/api/rigs/:id/cw/send", async (req, rep) => {
+    try {
+      const body = CwSendSchema.parse(req.body);
+      const keyer = keyerOf(req);
+      const message = keyer.send(body);
+      return ok({ message, status: keyer.getStatus() });
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/cw/abort", async (req, rep) => {
+    try {
+      const keyer = keyerOf(req);
+      await keyer.abort();
+      return ok(keyer.getStatus());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
+  });
+
+  app.post("/api/rigs/:id/cw/settings", async (req, rep) => {
+    try {
+      const body = settingsSchema.parse(req.body ?? {});
+      return ok(keyerOf(req).updateSettings(body));
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+}
@@ -0,0 +1,29 @@
+import type { FastifyInstance } from "fastify";
+import { ok, fail } from "../response.js";
+import type { RigManager } from "../services/rig-manager.js";
+import type { HistoryRecorder } from "../services/history-recorder.js";
+import { HISTORY_FIELDS, HistoryQuerySchema } from "../dtos.js";
+import { httpStatusFor, RigError } from "../errors.js";
+
+// Span of a query that gives no from
+const DEFAULT_SPAN_MS = 60 * 60 * 1000;
+
+// history is null when recording is turned off
+export async function historyRoutes(app: FastifyInstance, history: HistoryRecorder | null, rigs: RigManager) {
+  app.get("/api/radio/history", async (req, rep) => {
+    try {
+      if (!history) throw new RigError("not_supported", "State history recording is turned off (STATE_HISTORY=false)");
+      const query = HistoryQuerySchema.parse(req.query);
+      const to = query.to ?? Date.now();
+      const from = query.from ?? to - DEFAULT_SPAN_MS;
+      if (from >= to) throw new Error("from must be before to");
+      // Throws a not_found RigError for an unknown id, which maps to 404
+      const { rigId } = rigs.snapshot(query.rigId ?? rigs.ids()[0]);
+      const fields = query.fields ?? HISTORY_FIELDS;
+      return ok(await history.query(rigId, { from, to, fields, limit: query.limit }));
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid query");
+    }
+  });
+}
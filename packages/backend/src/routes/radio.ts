@@ -1,76 +1,252 @@
-import type { FastifyInstance } from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
 import { z } from "zod";
 import { ok, fail } from "../response.js";
-import type { RadioService } from "../services/radio.js";
-import { RadioModeEnum } from "../dtos.js";
+import type { RigManager } from "../services/rig-manager.js";
+import {
+  RadioModeEnum,
+  RadioOffsetsSchema,
+  RadioReceiverSchema,
+  RadioRepeaterSchema,
+  RadioVfoEnum,
+  TuneRequestSchema,
+  VfoOpEnum,
+} from "../dtos.js";
+import { httpStatusFor } from "../errors.js";
+import { MODES } from "../modes.js";
 
-export async function radioRoutes(app: FastifyInstance, service: RadioService) {
-  const connectSchema = z.object({ host: z.string(), port: z.coerce.number() });
+export async function radioRoutes(app: FastifyInstance, rigs: RigManager) {
+  const idOf = (req: FastifyRequest) => (req.params as { id: string }).id;
+  // Throws a not_found RigError for an unknown id, which maps to 404
+  const rigOf = (req: FastifyRequest) => rigs.get(idOf(req));
+
+  const connectSchema = z.object({ host: z.string().optional(), port: z.coerce.number().optional() });
   const freqSchema = z.object({ hz: z.coerce.number() });
   const modeSchema = z.object({ mode: RadioModeEnum, bandwidthHz: z.coerce.number().optional() });
   const powerSchema = z.object({ percent: z.coerce.number() });
   const pttSchema = z.object({ ptt: z.boolean() });
+  const vfoSchema = z.object({ vfo: RadioVfoEnum });
+  const vfoOpSchema = z.object({ op: VfoOpEnum });
+  const splitSchema = z.object({ split: z.boolean(), txVfo: RadioVfoEnum.optional() });
+  const passbandSchema = z.object({ hz: z.coerce.number().int().positive() });
+
+  app.get("/api/modes", async () => ok(MODES));
+
+  // The band plan and licence class transmitting is held to; null when unrestricted
+  app.get("/api/band-plan", async () => ok(rigs.txPrivileges()));
 
-  app.post("/api/radio/connect", async (req, rep) => {
+  app.get("/api/rigs", async () => ok(rigs.list()));
+
+  app.post("/api/rigs/:id/connect", async (req, rep) => {
     try {
-      const body = connectSchema.parse(req.body);
-      await service.connect(body.host, body.port);
+      const body = connectSchema.parse(req.body ?? {});
+      await rigs.connect(idOf(req), body.host, body.port);
       return ok({ connected: true });
     } catch (e: any) {
-      rep.status(400);
+      rep.status(httpStatusFor(e));
       return fail(e.message ?? "invalid payload");
     }
   });
 
-  app.post("/api/radio/disconnect", async (_req) => {
-    await service.disconnect();
-    return ok({ connected: false });
+  app.post("/api/rigs/:id/disconnect", async (req, rep) => {
+    try {
+      await rigs.disconnect(idOf(req));
+      return ok({ connected: false });
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "disconnect failed");
+    }
+  });
+
+  app.get("/api/rigs/:id/state", async (req, rep) => {
+    try {
+      return ok(rigOf(req).getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
   });
 
-  app.get("/api/radio/state", async () => ok(service.getState()));
+  app.get("/api/rigs/:id/capabilities", async (req, rep) => {
+    try {
+      const caps = rigOf(req).getCapabilities();
+      if (!caps) {
+        rep.status(404);
+        return fail("capabilities not known for this rig");
+      }
+      return ok(caps);
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
+  });
 
-  app.post("/api/radio/frequency", async (req, rep) => {
+  app.post("/api/rigs/:id/frequency", async (req, rep) => {
     try {
       const body = freqSchema.parse(req.body);
+      const service = rigOf(req);
       await service.setFrequency(body.hz);
       return ok(service.getState());
     } catch (e: any) {
-      rep.status(400);
+      rep.status(httpStatusFor(e));
       return fail(e.message ?? "invalid payload");
     }
   });
 
-  app.post("/api/radio/mode", async (req, rep) => {
+  app.post("/api/rigs/:id/mode", async (req, rep) => {
     try {
       const body = modeSchema.parse(req.body);
+      const service = rigOf(req);
       await service.setMode(body.mode, body.bandwidthHz);
       return ok(service.getState());
     } catch (e: any) {
-      rep.status(400);
+      rep.status(httpStatusFor(e));
       return fail(e.message ?? "invalid payload");
     }
   });
 
-  app.post("/api/radio/power", async (req, rep) => {
+  app.post("/api/rigs/:id/power", async (req, rep) => {
     try {
       const body = powerSchema.parse(req.body);
+      const service = rigOf(req);
       await service.setPower(body.percent);
       return ok(service.getState());
     } catch (e: any) {
-      rep.status(400);
+      rep.status(httpStatusFor(e));
       return fail(e.message ?? "invalid payload");
     }
   });
 
-  app.post("/api/radio/ptt", async (req, rep) => {
+  app.post("/api/rigs/:id/ptt", async (req, rep) => {
     try {
       const body = pttSchema.parse(req.body);
-      await service.setPtt(body.ptt);
+      const service = rigOf(req);
+      // Through the watchdog so a failed key is unkeyed and the TX timer runs
+      await rigs.watchdog(idOf(req)).setPtt(body.ptt);
       return ok(service.getState());
     } catch (e: any) {
-      rep.status(400);
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  // Keys a carrier for a while, so the reply only comes once the tune is over
+  app.post("/api/rigs/:id/tune", async (req, rep) => {
+    try {
+      const { durationMs } = TuneRequestSchema.parse(req.body ?? {});
+      // Through the watchdog so a failed key is unkeyed and the TX timer runs
+      return ok(await rigs.watchdog(idOf(req)).tune(durationMs));
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/vfo", async (req, rep) => {
+    try {
+      const body = vfoSchema.parse(req.body);
+      const service = rigOf(req);
+      await service.setVfo(body.vfo);
+      return ok(service.getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/vfo/op", async (req, rep) => {
+    try {
+      const body = vfoOpSchema.parse(req.body);
+      const service = rigOf(req);
+      await service.vfoOp(body.op);
+      return ok(service.getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/split", async (req, rep) => {
+    try {
+      const body = splitSchema.parse(req.body);
+      const service = rigOf(req);
+      await service.setSplit(body.split, body.txVfo);
+      return ok(service.getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
       return fail(e.message ?? "invalid payload");
     }
   });
-}
 
+  app.post("/api/rigs/:id/split/frequency", async (req, rep) => {
+    try {
+      const body = freqSchema.parse(req.body);
+      const service = rigOf(req);
+      await service.setSplitFrequency(body.hz);
+      return ok(service.getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/split/mode", async (req, rep) => {
+    try {
+      const body = modeSchema.parse(req.body);
+      const service = rigOf(req);
+      await service.setSplitMode(body.mode, body.bandwidthHz);
+      return ok(service.getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  // Only the controls in the body change; the rest keep their settings
+  app.post("/api/rigs/:id/receiver", async (req, rep) => {
+    try {
+      const body = RadioReceiverSchema.parse(req.body);
+      const service = rigOf(req);
+      await service.setReceiver(body);
+      return ok(service.getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/offsets", async (req, rep) => {
+    try {
+      const body = RadioOffsetsSchema.parse(req.body);
+      const service = rigOf(req);
+      await service.setOffsets(body);
+      return ok(service.getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/repeater", async (req, rep) => {
+    try {
+      const body = RadioRepeaterSchema.parse(req.body);
+      const service = rigOf(req);
+      await service.setRepeater(body);
+      return ok(service.getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/passband", async (req, rep) => {
+    try {
+      const body = passbandSchema.parse(req.body);
+      const service = rigOf(req);
+      await service.setPassband(body.hz);
+      return ok(service.getState());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+}
@@ -0,0 +1,54 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { ok, fail } from "../response.js";
+import type { RigManager } from "../services/rig-manager.js";
+import { RigctldSettingsSchema } from "../dtos.js";
+import { httpStatusFor } from "../errors.js";
+
+export async function rigctldRoutes(app: FastifyInstance, rigs: RigManager) {
+  // Throws for unknown rigs (404) and rigs without a managed rigctld (400)
+  const supervisorOf = (req: FastifyRequest) => rigs.rigctld((req.params as { id: string }).id);
+  // Any subset, so the UI can change just the model or just the serial port
+  const settingsSchema = RigctldSettingsSchema.partial();
+
+  app.get("/api/rigs/:id/rigctld", async (req, rep) => {
+    try {
+      return ok(supervisorOf(req).getStatus());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
+  });
+
+  app.post("/api/rigs/:id/rigctld/start", async (req, rep) => {
+    try {
+      const supervisor = supervisorOf(req);
+      supervisor.start(settingsSchema.parse(req.body ?? {}));
+      return ok(supervisor.getStatus());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/rigctld/stop", async (req, rep) => {
+    try {
+      const supervisor = supervisorOf(req);
+      await supervisor.stop();
+      return ok(supervisor.getStatus());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
+  });
+
+  app.post("/api/rigs/:id/rigctld/restart", async (req, rep) => {
+    try {
+      const supervisor = supervisorOf(req);
+      await supervisor.restart(settingsSchema.parse(req.body ?? {}));
+      return ok(supervisor.getStatus());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+}
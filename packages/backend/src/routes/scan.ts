@@ -0,0 +1,70 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { ok, fail } from "../response.js";
+import type { RigManager } from "../services/rig-manager.js";
+import { ScanLockoutSchema, ScanStartSchema } from "../dtos.js";
+import { httpStatusFor } from "../errors.js";
+
+export async function scanRoutes(app: FastifyInstance, rigs: RigManager) {
+  // Throws a not_found RigError for an unknown id, which maps to 404
+  const scannerOf = (req: FastifyRequest) => rigs.scanner((req.params as { id: string }).id);
+
+  app.get("/api/rigs/:id/scan", async (req, rep) => {
+    try {
+      return ok(scannerOf(req).getStatus());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
+  });
+
+  app.post("/api/rigs/:id/scan/start", async (req, rep) => {
+    try {
+      const body = ScanStartSchema.parse(req.body);
+      return ok(await scannerOf(req).start(body));
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/scan/stop", async (req, rep) => {
+    try {
+      const scanner = scannerOf(req);
+      scanner.stop();
+      return ok(scanner.getStatus());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
+  });
+
+  app.post("/api/rigs/:id/scan/skip", async (req, rep) => {
+    try {
+      const scanner = scannerOf(req);
+      scanner.skip();
+      return ok(scanner.getStatus());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
+  });
+
+  app.post("/api/rigs/:id/scan/lockout", async (req, rep) => {
+    try {
+      const { frequencyHz, locked } = ScanLockoutSchema.parse(req.body);
+      return ok(scannerOf(req).setLockout(frequencyHz, locked));
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message ?? "invalid payload");
+    }
+  });
+
+  app.post("/api/rigs/:id/scan/hits/clear", async (req, rep) => {
+    try {
+      return ok(scannerOf(req).clearHits());
+    } catch (e: any) {
+      rep.status(httpStatusFor(e));
+      return fail(e.message);
+    }
+  });
+}
@@ -0,0 +1,175 @@
+import { EventEmitter } from "node:events";
+import type { CwMessage, CwSend, CwSettings, CwStatus } from "../dtos.js";
+import { CwSettingsSchema } from "../dtos.js";
+import { EVENTS } from "../events.js";
+import { RigError, unlessNotSupported } from "../errors.js";
+import { cwTimeline, expandCwMacros, normalizeCwText } from "../cw.js";
+import type { RadioService } from "./radio.js";
+import type { TxWatchdog } from "./tx-watchdog.js";
+
+export interface CwKeyerOptions {
+  radio: RadioService;
+  // Messages go out as the sending client's transmissions, so losing the
+  // client cuts its message off
+  watchdog?: TxWatchdog;
+  // Stands in for {MYCALL} until the operator sets one
+  myCall?: string;
+}
+
+export const DEFAULT_CW_MEMORIES = [
+  "CQ CQ CQ DE {MYCALL} {MYCALL} K",
+  "{CALL} DE {MYCALL} K",
+  "{CALL} UR RST {RST} {RST} BK",
+  "TU 73 DE {MYCALL} SK",
+  "QRZ? DE {MYCALL} K",
+  "AGN?",
+  "{MYCALL}",
+  "",
+];
+
+/**
+ * Sends text through one rig's built-in keyer. Messages queue up and go out
+ * one at a time; the rig gives no word on how far it has got, so progress
+ * is estimated from the keyer speed and reported per character.
+ */
+export class CwKeyer extends EventEmitter {
+  private settings: CwSettings;
+  private queue: CwMessage[] = [];
+  private sending: (CwMessage & { sentChars: number }) | null = null;
+  private lastError: string | undefined;
+  private nextId = 1;
+  private running = false;
+  // Bumped by clear() so a message being timed knows it was cut off
+  private generation = 0;
+  private cancelWait: (() => void) | null = null;
+  // Who sent each queued message, where known
+  private readonly owners = new Map<number, string>();
+
+  constructor(private readonly opts: CwKeyerOptions) {
+    super();
+    this.settings = { wpm: 20, myCall: opts.myCall?.toUpperCase() ?? "", memories: [...DEFAULT_CW_MEMORIES] };
+  }
+
+  getStatus(): CwStatus {
+    return {
+      settings: this.settings,
+      sending: this.sending,
+      queue: this.queue,
+      lastError: this.lastError,
+    };
+  }
+
+  /** Change any subset of the settings; a new speed takes effect from the next message. */
+  updateSettings(settings: Partial<CwSettings>): CwStatus {
+    this.settings = CwSettingsSchema.parse({ ...this.settings, ...settings });
+    this.emitStatus();
+    return this.getStatus();
+  }
+
+  /** Expand macros and queue the result; throws before queueing if it cannot be sent. */
+  send(request: CwSend, owner?: string): CwMessage {
+    const source = request.memory ? this.settings.memories[request.memory - 1] ?? "" : request.text ?? "";
+    const text = normalizeCwText(
+      expandCwMacros(source, { myCall: this.settings.myCall, call: request.call, rst: request.rst })
+    );
+    if (!text) {
+      throw new RigError("invalid", request.memory ? `F${request.memory} is empty` : "Nothing to send");
+    }
+    if (!this.opts.radio.getState().connected) throw new RigError("not_connected", "Radio not connected");
+
+    const message = { id: this.nextId++, text };
+    this.queue.push(message);
+    if (owner !== undefined) this.owners.set(message.id, owner);
+    this.lastError = undefined;
+    this.emitStatus();
+    void this.run();
+    return message;
+  }
+
+  /** Drop the queue and stop the rig mid-message. */
+  async abort() {
+    const wasSending = this.sending !== null;
+    this.clear();
+    if (wasSending) await unlessNotSupported(this.opts.radio.stopMorse());
+  }
+
+  /** A client has gone; drop the messages it queued that have not started. */
+  releaseOwner(owner: string) {
+    const before = this.queue.length;
+    this.queue = this.queue.filter((message) => this.owners.get(message.id) !== owner);
+    if (this.queue.length !== before) this.emitStatus();
+  }
+
+  /** Forget the queue and progress without talking to the rig, e.g. once it has gone away. */
+  clear() {
+    this.generation++;
+    this.queue = [];
+    this.owners.clear();
+    this.sending = null;
+    this.cancelWait?.();
+    this.emitStatus();
+  }
+
+  private async run() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let message: CwMessage | undefined;
+      while ((message = this.queue.shift())) {
+        const sending = message;
+        const owner = this.owners.get(sending.id);
+        this.owners.delete(sending.id);
+        const { watchdog } = this.opts;
+        if (watchdog) await watchdog.transmit(owner, () => this.transmit(sending), () => this.abort());
+        else await this.transmit(sending);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async transmit(message: CwMessage) {
+    const generation = this.generation;
+    const { wpm } = this.settings;
+    this.sending = { ...message, sentChars: 0 };
+    this.emitStatus();
+
+    try {
+      await unlessNotSupported(this.opts.radio.setKeyerSpeed(wpm));
+      await this.opts.radio.sendMorse(message.text);
+    } catch (error: any) {
+      if (generation !== this.generation) return;
+      // A rig that refused one message will refuse the rest
+      this.lastError = error?.message ?? "CW send failed";
+      this.clear();
+      return;
+    }
+
+    const timeline = cwTimeline(message.text, wpm);
+    const started = Date.now();
+    for (let i = 1; i < timeline.length; i++) {
+      await this.wait(timeline[i]! - (Date.now() - started));
+      if (generation !== this.generation) return;
+      this.sending = { ...message, sentChars: i };
+      this.emitStatus();
+    }
+    this.sending = null;
+    this.emitStatus();
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.cancelWait = null;
+        resolve();
+      };
+      const timer = setTimeout(done, Math.max(0, ms));
+      this.cancelWait = done;
+    });
+  }
+
+  private emitStatus() {
+    this.emit(EVENTS.CW_STATUS, this.getStatus());
+  }
+}
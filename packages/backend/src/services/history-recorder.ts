@@ -0,0 +1,291 @@
+import { createReadStream } from "node:fs";
+import { appendFile, mkdir, readdir, stat, unlink } from "node:fs/promises";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import {
+  HISTORY_FIELDS,
+  type HistoryField,
+  type HistorySample,
+  type RadioState,
+  type StateHistory,
+} from "../dtos.js";
+import type { Logger } from "../types.js";
+
+export interface HistoryRecorderOptions {
+  // Directory for the day files; created if missing
+  dir: string;
+  // Day files older than this are deleted
+  retentionMs: number;
+  // And the oldest go first while the total is above this
+  maxBytes: number;
+  logger?: Logger;
+}
+
+export interface HistoryRange {
+  from: number;
+  to: number;
+  fields: readonly HistoryField[];
+  limit: number;
+}
+
+// One line of a day file: a sample and the rig it came from
+type StoredSample = HistorySample & { rig: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Buffered lines go to disk this often, and before every query
+const FLUSH_MS = 2000;
+const PRUNE_MS = 60 * 60 * 1000;
+// Meters move on every poll; keep at most one meter-only sample a second
+const METER_SAMPLE_MS = 1000;
+const METER_FIELDS: readonly HistoryField[] = ["swr", "sUnits"];
+const DAY_FILE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+const dayOf = (t: number) => new Date(t).toISOString().slice(0, 10);
+const dayStart = (day: string) => Date.parse(`${day}T00:00:00Z`);
+
+function valuesOf(state: RadioState): Omit<HistorySample, "t"> {
+  return {
+    frequencyHz: state.frequencyHz,
+    mode: state.mode,
+    power: state.power,
+    ptt: state.ptt,
+    swr: state.meters?.swr,
+    sUnits: state.meters?.sUnits,
+  };
+}
+
+/**
+ * Records what each rig was doing (frequency, mode, power, PTT, SWR and
+ * S-meter) so it can be looked back on. Samples are appended as JSON lines
+ * to one file per UTC day, holding only the fields that changed; the first
+ * sample each rig writes to a day holds every field, so a query never needs
+ * an earlier day than the one it starts in. Old days are deleted by age and
+ * by total size.
+ */
+export class HistoryRecorder {
+  // Per rig: the values last written, when a meter sample was last kept, and
+  // the day last written to
+  private readonly last = new Map<string, { values: Omit<HistorySample, "t">; meterAt: number; day: string }>();
+  private pending = new Map<string, string[]>();
+  private writing: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly opts: HistoryRecorderOptions) {}
+
+  async start() {
+    await mkdir(this.opts.dir, { recursive: true });
+    await this.prune();
+    this.flushTimer = setInterval(() => void this.flush(), FLUSH_MS);
+    this.pruneTimer = setInterval(() => void this.prune(), PRUNE_MS);
+  }
+
+  async stop() {
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    if (this.pruneTimer) clearInterval(this.pruneTimer);
+    this.flushTimer = this.pruneTimer = null;
+    await this.flush();
+  }
+
+  /** Note a rig's state; only what changed since the last sample is kept. */
+  record(rigId: string, state: RadioState, t = Date.now()) {
+    // A rig that is not answering has nothing to say about itself
+    if (!state.connected) return;
+    const values = valuesOf(state);
+    const day = dayOf(t);
+    const last = this.last.get(rigId);
+    const fresh = !last || last.day !== day;
+
+    const sample: StoredSample = { t, rig: rigId };
+    const changed: HistoryField[] = [];
+    for (const field of HISTORY_FIELDS) {
+      const value = values[field];
+      if (value === undefined || (!fresh && value === last.values[field])) continue;
+      (sample as Record<string, unknown>)[field] = value;
+      changed.push(field);
+    }
+    if (changed.length === 0) return;
+
+    const metersOnly = changed.every((field) => METER_FIELDS.includes(field));
+    // Skipped meter values stay unrecorded, so the next reading is compared with what was kept
+    if (!fresh && metersOnly && t - last.meterAt < METER_SAMPLE_MS) return;
+
+    const { t: _t, rig: _rig, ...written } = sample;
+    const touchesMeters = changed.some((field) => METER_FIELDS.includes(field));
+    this.last.set(rigId, {
+      values: { ...last?.values, ...written },
+      meterAt: touchesMeters ? t : (last?.meterAt ?? 0),
+      day,
+    });
+    const file = `${day}.jsonl`;
+    this.pending.set(file, [...(this.pending.get(file) ?? []), JSON.stringify(sample)]);
+  }
+
+  /** A rig's samples between from and to, led by the values as they stood at from. */
+  async query(rigId: string, { from, to, fields, limit }: HistoryRange): Promise<StateHistory> {
+    await this.flush();
+    const days = (await this.dayFiles()).filter((day) => dayStart(day) <= to && dayStart(day) + DAY_MS > from);
+
+    const baseline: HistorySample = { t: from };
+    const samples: HistorySample[] = [];
+    for (const day of days) {
+      for await (const stored of this.readDay(day)) {
+        // Lines are appended as they happen, so nothing later in the day is in range
+        if (stored.t > to) break;
+        if (stored.rig !== rigId) continue;
+        const { rig: _rig, ...sample } = stored;
+        if (sample.t < from) Object.assign(baseline, sample, { t: from });
+        else {
+          const picked = pick(sample, fields);
+          if (picked) samples.push(picked);
+        }
+      }
+    }
+    const first = pick(baseline, fields);
+    const all = first ? [first, ...samples] : samples;
+    const { kept, thinned } = thin(all, limit);
+    return { rigId, from, to, fields: [...fields], samples: kept, thinned };
+  }
+
+  private flush(): Promise<void> {
+    const batch = this.pending;
+    if (batch.size === 0) return this.writing;
+    this.pending = new Map();
+    // Chained so appends to one file never interleave
+    this.writing = this.writing.then(async () => {
+      for (const [file, lines] of batch) {
+        try {
+          await appendFile(path.join(this.opts.dir, file), lines.join("\n") + "\n");
+        } catch (err) {
+          this.opts.logger?.error({ err, file }, "Writing state history failed");
+        }
+      }
+    });
+    return this.writing;
+  }
+
+  private async prune() {
+    const { dir, retentionMs, maxBytes } = this.opts;
+    try {
+      const now = Date.now();
+      const today = dayOf(now);
+      const days = await this.dayFiles();
+      const sizes = new Map<string, number>();
+      for (const day of days) sizes.set(day, (await stat(path.join(dir, `${day}.jsonl`))).size);
+
+      let total = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+      for (const day of days) {
+        const expired = dayStart(day) + DAY_MS <= now - retentionMs;
+        // Today's file is being written to; it is never dropped for size
+        if (!expired && (total <= maxBytes || day === today)) continue;
+        await unlink(path.join(dir, `${day}.jsonl`));
+        total -= sizes.get(day) ?? 0;
+        this.opts.logger?.info({ day, expired }, "Deleted old state history");
+      }
+    } catch (err) {
+      this.opts.logger?.error({ err }, "Pruning state history failed");
+    }
+  }
+
+  // Oldest first
+  private async dayFiles(): Promise<string[]> {
+    const names = await readdir(this.opts.dir);
+    return names.flatMap((name) => DAY_FILE.exec(name)?.[1] ?? []).sort();
+  }
+
+  // A day's samples, read a line at a time so a large file is never held whole
+  private async *readDay(day: string): AsyncGenerator<StoredSample> {
+    const stream = createReadStream(path.join(this.opts.dir, `${day}.jsonl`), "utf8");
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line) continue;
+        try {
+          yield JSON.parse(line);
+        } catch {
+          // A line cut short by a crash mid-write; the rest of the day is fine
+        }
+      }
+    } catch (err: any) {
+      // Pruned since it was listed
+      if (err?.code !== "ENOENT") throw err;
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+  }
+}
+
+// The asked-for fields of a sample, or null if it has none of them
+function pick(sample: HistorySample, fields: readonly HistoryField[]): HistorySample | null {
+  const picked: HistorySample = { t: sample.t };
+  let any = false;
+  for (const field of fields) {
+    if (sample[field] === undefined) continue;
+    (picked as Record<string, unknown>)[field] = sample[field];
+    any = true;
+  }
+  return any ? picked : null;
+}
+
+// Bring samples down to the limit by merging runs of meter-only samples into
+// one with each meter's highest reading, so an SWR spike survives. Samples
+// with anything else in them are kept as they are, unless there are so many
+// that everything has to be merged.
+function thin(samples: HistorySample[], limit: number): { kept: HistorySample[]; thinned: boolean } {
+  if (samples.length <= limit) return { kept: samples, thinned: false };
+  const isMeterOnly = (sample: HistorySample) =>
+    Object.keys(sample).every((key) => key === "t" || METER_FIELDS.includes(key as HistoryField));
+  const meterOnly = samples.filter(isMeterOnly).length;
+  const room = limit - (samples.length - meterOnly);
+
+  // Other samples split the meter runs, so the first guess can fall a little short
+  if (room > 0) {
+    for (let runLength = Math.ceil(meterOnly / room); runLength <= meterOnly; runLength++) {
+      const kept = mergeRuns(samples, runLength, isMeterOnly);
+      if (kept.length <= limit) return { kept, thinned: true };
+    }
+  }
+  for (let runLength = Math.ceil(samples.length / limit); ; runLength++) {
+    const kept = mergeRuns(samples, runLength, () => true);
+    if (kept.length <= limit) return { kept, thinned: true };
+  }
+}
+
+function mergeRuns(
+  samples: HistorySample[],
+  runLength: number,
+  mergeable: (sample: HistorySample) => boolean
+): HistorySample[] {
+  const kept: HistorySample[] = [];
+  let run: HistorySample | null = null;
+  let count = 0;
+  const close = () => {
+    if (run) kept.push(run);
+    run = null;
+    count = 0;
+  };
+  for (const [i, sample] of samples.entries()) {
+    // The first sample holds the starting values; it stays at from
+    if (i === 0 || !mergeable(sample)) {
+      close();
+      kept.push(sample);
+      continue;
+    }
+    run = run ? mergeHighest(run, sample) : { ...sample };
+    if (++count >= runLength) close();
+  }
+  close();
+  return kept;
+}
+
+// Later values win, except meters, which keep the highest
+function mergeHighest(run: HistorySample, sample: HistorySample): HistorySample {
+  const merged: HistorySample = { ...run, ...sample };
+  for (const field of METER_FIELDS) {
+    const a = run[field] as number | undefined;
+    const b = sample[field] as number | undefined;
+    if (a !== undefined && b !== undefined) (merged as Record<string, unknown>)[field] = Math.max(a, b);
+  }
+  return merged;
+}
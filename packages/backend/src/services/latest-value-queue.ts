@@ -0,0 +1,48 @@
+interface Waiter<T> {
+  resolve: (landed: T) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Writes one setting to the rig, one write at a time, keeping only the
+ * newest value while a write is in flight. A knob spun faster than the rig
+ * answers sends the first step and then wherever the knob has got to, rather
+ * than every step in between. Each caller settles with the value that was
+ * actually written in its place: its own, or the newer one that replaced it.
+ */
+export class LatestValueQueue<T> {
+  private pending: { value: T; waiters: Waiter<T>[] } | null = null;
+  private writing = false;
+
+  constructor(
+    private readonly write: (value: T) => Promise<T>,
+    // How a newer value combines with one still waiting; by default it replaces it
+    private readonly merge: (older: T, newer: T) => T = (_older, newer) => newer
+  ) {}
+
+  submit(value: T): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const waiting = this.pending;
+      this.pending = {
+        value: waiting ? this.merge(waiting.value, value) : value,
+        waiters: [...(waiting?.waiters ?? []), { resolve, reject }],
+      };
+      if (!this.writing) void this.drain();
+    });
+  }
+
+  private async drain() {
+    this.writing = true;
+    while (this.pending) {
+      const { value, waiters } = this.pending;
+      this.pending = null;
+      try {
+        const landed = await this.write(value);
+        for (const waiter of waiters) waiter.resolve(landed);
+      } catch (error) {
+        for (const waiter of waiters) waiter.reject(error);
+      }
+    }
+    this.writing = false;
+  }
+}
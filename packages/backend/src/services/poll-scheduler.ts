@@ -0,0 +1,133 @@
+import type { RadioState } from "../dtos.js";
+import { EVENTS } from "../events.js";
+import type { RadioService } from "./radio.js";
+
+export interface PollRates {
+  // Frequency, mode and PTT while the rig is in use, and while it is not
+  activeMs: number;
+  idleMs: number;
+  // Meters while transmitting, and while receiving in use; idle they follow idleMs
+  txMeterMs: number;
+  rxMeterMs: number;
+  // Receiver, offset and repeater settings
+  settingsMs: number;
+}
+
+export interface PollSchedulerOptions {
+  radio: RadioService;
+  rates: PollRates;
+  // Called with each failed read; polling carries on afterwards
+  onError: (error: unknown) => void | Promise<void>;
+}
+
+// How long after the dial, mode or PTT last moved the rig still counts as in use
+const ACTIVE_HOLD_MS = 5000;
+// Never come round sooner than this, whatever the rates
+const MIN_TICK_MS = 50;
+
+// Changes to these mean someone is working the rig
+const ACTIVITY_FIELDS = ["frequencyHz", "mode", "txFrequencyHz", "vfo", "split", "ptt"] as const;
+
+/**
+ * Polls one rig as often as what it is doing calls for: quickly while it is
+ * transmitting or being tuned, slowly when it sits idle, and its settings
+ * only now and then. Reads run one at a time, so a slow rig delays the next
+ * read rather than piling them up.
+ */
+export class PollScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastCore = 0;
+  private lastMeters = 0;
+  private lastSettings = 0;
+  private lastActivity = 0;
+  private seen: Partial<RadioState> = {};
+  private readonly onState = (state: RadioState) => this.observe(state);
+
+  constructor(private readonly opts: PollSchedulerOptions) {}
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    // The first round reads everything
+    this.lastCore = this.lastMeters = this.lastSettings = 0;
+    this.lastActivity = Date.now();
+    this.seen = this.opts.radio.getState();
+    this.opts.radio.on(EVENTS.RADIO_STATE, this.onState);
+    this.schedule(0);
+  }
+
+  stop() {
+    this.running = false;
+    this.opts.radio.off(EVENTS.RADIO_STATE, this.onState);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  isActive(now = Date.now()): boolean {
+    return this.seen.ptt === true || now - this.lastActivity < ACTIVE_HOLD_MS;
+  }
+
+  // Any state event counts, so a knob turn reported by the rig, a command
+  // from a client and a poll all wake the scheduler up alike
+  private observe(state: RadioState) {
+    const changed = ACTIVITY_FIELDS.some((field) => state[field] !== this.seen[field]);
+    this.seen = state;
+    if (!changed) return;
+    this.lastActivity = Date.now();
+    // An idle wait can be a second or more; come round at the active rates now
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.schedule(MIN_TICK_MS);
+    }
+  }
+
+  private intervals(now: number) {
+    const { rates } = this.opts;
+    const active = this.isActive(now);
+    return {
+      core: active ? rates.activeMs : rates.idleMs,
+      meters: this.seen.ptt ? rates.txMeterMs : active ? rates.rxMeterMs : rates.idleMs,
+      settings: rates.settingsMs,
+    };
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.running) return;
+    this.timer = setTimeout(() => void this.tick(), Math.max(0, delayMs));
+  }
+
+  private async tick() {
+    this.timer = null;
+    const { radio } = this.opts;
+    let now = Date.now();
+    let due = this.intervals(now);
+    try {
+      if (now - this.lastCore >= due.core) {
+        this.lastCore = now;
+        await radio.refreshCore();
+      }
+      if (this.running && now - this.lastMeters >= due.meters) {
+        this.lastMeters = now;
+        await radio.refreshMeters();
+      }
+      if (this.running && now - this.lastSettings >= due.settings) {
+        this.lastSettings = now;
+        await radio.refreshSettings();
+      }
+    } catch (error) {
+      await this.opts.onError(error);
+    }
+    if (!this.running) return;
+
+    // Sleep until the soonest next read, at the rates that apply now
+    now = Date.now();
+    due = this.intervals(now);
+    const next = Math.min(
+      this.lastCore + due.core,
+      this.lastMeters + due.meters,
+      this.lastSettings + due.settings
+    );
+    this.schedule(Math.max(MIN_TICK_MS, next - now));
+  }
+}
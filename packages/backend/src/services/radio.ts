@@ -1,11 +1,57 @@
 import { EventEmitter } from "node:events";
-import type { RadioState, RadioMode } from "../dtos.js";
+import type {
+  RadioCapabilities,
+  RadioMeters,
+  RadioOffsets,
+  RadioReceiver,
+  RadioRepeater,
+  RadioState,
+  RadioMode,
+  RadioVfo,
+  TuneResult,
+  VfoOp,
+} from "../dtos.js";
+import { MAX_TUNE_MS } from "../dtos.js";
 import { EVENTS } from "../events.js";
+import { RigError, isRigError, notSupported } from "../errors.js";
+import { checkTransmit, type TxPrivileges } from "../band-plan.js";
+import { defaultPassband } from "../modes.js";
+import { LatestValueQueue } from "./latest-value-queue.js";
 
 export interface RadioServiceOptions {
   adapter: RigctlAdapter;
+  // Band plan and licence class to keep transmissions inside; unset keys anywhere
+  txPrivileges?: TxPrivileges;
+  // Drive (0-100) and carrier mode for an antenna tune; without a mode the
+  // first of CARRIER_MODES the rig has and the operator may use is taken
+  tunePowerPercent?: number;
+  tuneMode?: RadioMode;
+  // The rig's full power, for rigs whose adapter cannot report it; power
+  // limits in the band plan are checked against it
+  maxPowerWatts?: number;
 }
 
+// Modes in which the rig applies the repeater shift on transmit
+const SHIFTED_MODES = new Set<RadioMode>(["FM", "FMN", "PKTFM"]);
+
+// Keyed with no audio, each of these puts out a steady carrier
+const CARRIER_MODES: RadioMode[] = ["RTTY", "AM", "FM", "CW"];
+const DEFAULT_TUNE_POWER = 10;
+const DEFAULT_TUNE_MS = 3000;
+// SWR is read this often while tuning
+const TUNE_POLL_MS = 250;
+// A rig that has not keyed this long after being told to tune is not going to
+const TUNER_START_MS = 2000;
+// Longest carrier keyed after the rig's tuner is done, to read the SWR it left
+const TUNER_CHECK_MS = 1000;
+
+export interface ModeSetting {
+  mode: RadioMode;
+  bandwidthHz?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 export interface RigctlAdapter {
   connect(host: string, port: number): Promise<void>;
   disconnect(): Promise<void>;
@@ -14,12 +60,132 @@ export interface RigctlAdapter {
   setMode(mode: RadioMode, bandwidthHz?: number): Promise<void>;
   setPower(percent: number): Promise<void>;
   setPtt(ptt: boolean): Promise<void>;
+  getCapabilities?(): Promise<RadioCapabilities>;
+  // Receive meters (S-meter) or, while transmitting, the TX meters
+  getMeters?(transmitting: boolean): Promise<RadioMeters>;
+  // Whether the squelch is open, i.e. the rig is hearing something (Hamlib DCD)
+  getSquelchOpen?(): Promise<boolean>;
+  // Run the rig's antenna tuner (Hamlib TUNER and the TUNE op): switch it in
+  // and start a tune cycle, during which the rig keys itself
+  startTune?(): Promise<void>;
+  // Receive chain (AGC, NB, NR, notch, preamp, attenuator, gains); setting
+  // applies only the controls given
+  getReceiver?(): Promise<RadioReceiver>;
+  setReceiver?(settings: RadioReceiver): Promise<void>;
+  // RIT/XIT and IF shift; setting applies only the fields given
+  getOffsets?(): Promise<RadioOffsets>;
+  setOffsets?(offsets: RadioOffsets): Promise<void>;
+  // FM repeater shift, offset, tones and reverse; setting applies only the
+  // fields given
+  getRepeater?(): Promise<RadioRepeater>;
+  setRepeater?(repeater: RadioRepeater): Promise<void>;
+  // The rig's own CW keyer: send returns once the text is handed over, not
+  // once it has gone out; stop cuts off whatever is still being sent
+  sendMorse?(text: string): Promise<void>;
+  stopMorse?(): Promise<void>;
+  setKeyerSpeed?(wpm: number): Promise<void>;
+
+  // VFO and split control; adapters leave out what the rig cannot do
+  getVfo?(): Promise<RadioVfo>;
+  setVfo?(vfo: RadioVfo): Promise<void>;
+  vfoOp?(op: VfoOp): Promise<void>;
+  getSplit?(): Promise<{ split: boolean; txVfo: RadioVfo }>;
+  setSplit?(split: boolean, txVfo?: RadioVfo): Promise<void>;
+  getSplitFrequency?(): Promise<number>;
+  setSplitFrequency?(hz: number): Promise<void>;
+  getSplitMode?(): Promise<{ mode: RadioMode; bandwidth: number }>;
+  setSplitMode?(mode: RadioMode, bandwidthHz?: number): Promise<void>;
+
+  // For rigs that report changes on their own (CI-V transceive), so a knob
+  // turn shows up without waiting for the next poll; returns an unsubscribe
+  onStateChange?(listener: (partial: Partial<RadioState>) => void): () => void;
 }
 
 export class RadioService extends EventEmitter {
   private state: RadioState = { connected: false };
+  private capabilities: RadioCapabilities | null = null;
+  private tuning = false;
+  private tuneCancelled = false;
+
+  // Writes to each of these settings collapse to the newest value while one
+  // is in flight. The rig is trusted to have taken what it accepted, so the
+  // state is updated from the write rather than read back; polling catches
+  // anything the rig rounded or refused quietly.
+  private readonly writes = {
+    frequency: new LatestValueQueue<number>(async (hz) => {
+      this.assertTxStaysAllowed({ frequencyHz: hz });
+      await this.opts.adapter.setFrequency(hz);
+      this.assume({ frequencyHz: hz });
+      return hz;
+    }),
+    mode: new LatestValueQueue<ModeSetting>(async ({ mode, bandwidthHz }) => {
+      this.assertTxStaysAllowed({ mode });
+      await this.opts.adapter.setMode(mode, bandwidthHz);
+      // Without a width the rig picks its normal one for the mode
+      this.assume({ mode, bandwidthHz: bandwidthHz ?? defaultPassband(mode) });
+      return { mode, bandwidthHz };
+    }),
+    passband: new LatestValueQueue<number>(async (hz) => {
+      const { mode } = this.state;
+      if (!mode) throw new RigError("not_connected", "Mode not known yet; connect first");
+      await this.opts.adapter.setMode(mode, hz);
+      this.assume({ bandwidthHz: hz });
+      return hz;
+    }),
+    power: new LatestValueQueue<number>(async (percent) => {
+      this.assertTxStaysAllowed({ power: percent });
+      await this.opts.adapter.setPower(percent);
+      this.assume({ power: percent });
+      return percent;
+    }),
+    splitFrequency: new LatestValueQueue<number>(async (hz) => {
+      this.assertTxStaysAllowed({ txFrequencyHz: hz });
+      await this.opts.adapter.setSplitFrequency!(hz);
+      this.assume({ txFrequencyHz: hz });
+      return hz;
+    }),
+    splitMode: new LatestValueQueue<ModeSetting>(async ({ mode, bandwidthHz }) => {
+      this.assertTxStaysAllowed({ txMode: mode });
+      await this.opts.adapter.setSplitMode!(mode, bandwidthHz);
+      this.assume({ txMode: mode });
+      return { mode, bandwidthHz };
+    }),
+    // Partial settings: fields from successive writes accumulate
+    receiver: new LatestValueQueue<RadioReceiver>(
+      async (settings) => {
+        await this.opts.adapter.setReceiver!(settings);
+        this.assume({ receiver: { ...this.state.receiver, ...settings } });
+        return settings;
+      },
+      (older, newer) => ({ ...older, ...newer })
+    ),
+    offsets: new LatestValueQueue<RadioOffsets>(
+      async (offsets) => {
+        this.assertTxStaysAllowed({ offsets: { ...this.state.offsets, ...offsets } });
+        await this.opts.adapter.setOffsets!(offsets);
+        this.assume({ offsets: { ...this.state.offsets, ...offsets } });
+        return offsets;
+      },
+      (older, newer) => ({ ...older, ...newer })
+    ),
+    repeater: new LatestValueQueue<RadioRepeater>(
+      async (repeater) => {
+        this.assertTxStaysAllowed({ repeater: { ...this.state.repeater, ...repeater } });
+        await this.opts.adapter.setRepeater!(repeater);
+        this.assume({ repeater: { ...this.state.repeater, ...repeater } });
+        return repeater;
+      },
+      (older, newer) => ({ ...older, ...newer })
+    ),
+  };
+
   constructor(private readonly opts: RadioServiceOptions) {
     super();
+    opts.adapter.onStateChange?.((partial) => {
+      if (!this.state.connected) return;
+      this.state = { ...this.state, ...partial };
+      this.emit(EVENTS.RADIO_STATE, this.state);
+    });
   }
 
   async connect(host: string, port: number) {
@@ -27,43 +193,394 @@ export class RadioService extends EventEmitter {
     this.state.connected = true;
     this.emit(EVENTS.CONNECTION_STATUS, { connected: true });
     this.emit(EVENTS.RADIO_STATE, this.state);
+    await this.discoverCapabilities();
+  }
+
+  // Capabilities are fixed per rig model, so they are read once per connect
+  private async discoverCapabilities() {
+    this.capabilities = null;
+    if (!this.opts.adapter.getCapabilities) return;
+    try {
+      this.capabilities = await this.opts.adapter.getCapabilities();
+      this.emit(EVENTS.RADIO_CAPABILITIES, this.capabilities);
+    } catch (e) {
+      // Not fatal: without capabilities the UI offers every control
+      this.emit(EVENTS.RADIO_CAPABILITIES, null);
+    }
+  }
+
+  getCapabilities(): RadioCapabilities | null {
+    return this.capabilities;
   }
 
   async disconnect() {
     await this.opts.adapter.disconnect();
     this.state.connected = false;
+    this.capabilities = null;
     this.emit(EVENTS.CONNECTION_STATUS, { connected: false });
     this.emit(EVENTS.RADIO_STATE, this.state);
   }
 
+  /** Read everything: the rig's state, its meters and its settings. */
   async refreshState() {
-    const partial = await this.opts.adapter.getState();
+    await this.read(async () => {
+      const partial = await this.opts.adapter.getState();
+      if (partial.connected === false) return partial;
+      return { ...partial, ...(await this.readMeters(partial.ptt)), ...(await this.readSettings()) };
+    });
+  }
+
+  /** Read just frequency, mode, PTT and the rest of the adapter's state; the part of polling that runs fastest. */
+  async refreshCore() {
+    // Read even while marked disconnected: this is how a rig that dropped
+    // its link is noticed coming back
+    await this.read(() => this.opts.adapter.getState());
+  }
+
+  /** Whether refreshMeters reads anything from this rig. */
+  canReadMeters(): boolean {
+    return this.opts.adapter.getMeters !== undefined;
+  }
+
+  /** Read just the meters; polled faster than the rest while transmitting. */
+  async refreshMeters() {
+    if (!this.opts.adapter.getMeters || !this.state.connected) return;
+    await this.read(() => this.readMeters(this.state.ptt));
+  }
+
+  /** Read just the receiver, offset and repeater settings, which seldom change from the front panel. */
+  async refreshSettings() {
+    if (!this.state.connected) return;
+    await this.read(() => this.readSettings());
+  }
+
+  private async readMeters(ptt: boolean | undefined): Promise<Partial<RadioState>> {
+    const { adapter } = this.opts;
+    return adapter.getMeters ? { meters: await adapter.getMeters(ptt ?? this.state.ptt ?? false) } : {};
+  }
+
+  private async readSettings(): Promise<Partial<RadioState>> {
+    const { adapter } = this.opts;
+    const partial: Partial<RadioState> = {};
+    if (adapter.getReceiver) partial.receiver = await adapter.getReceiver();
+    if (adapter.getOffsets) partial.offsets = await adapter.getOffsets();
+    if (adapter.getRepeater) partial.repeater = await adapter.getRepeater();
+    return partial;
+  }
+
+  private async read(read: () => Promise<Partial<RadioState>>) {
+    let partial: Partial<RadioState>;
+    try {
+      partial = await read();
+    } catch (e) {
+      // Only a lost link means disconnected; a rejected or unreadable reply
+      // leaves the last known state in place.
+      if (isRigError(e) && (e.kind === "not_connected" || e.kind === "io") && this.state.connected) {
+        this.state = { ...this.state, connected: false };
+        this.emit(EVENTS.RADIO_STATE, this.state);
+      }
+      throw e;
+    }
     this.state = { ...this.state, ...partial };
     this.emit(EVENTS.RADIO_STATE, this.state);
   }
 
+  async getSquelchOpen(): Promise<boolean> {
+    const { adapter } = this.opts;
+    if (!adapter.getSquelchOpen) throw notSupported("Squelch status");
+    return adapter.getSquelchOpen();
+  }
+
   getState(): RadioState {
     return this.state;
   }
 
-  async setFrequency(hz: number) {
-    await this.opts.adapter.setFrequency(hz);
+  /**
+   * Throws a forbidden RigError, with the reason, when transmitting now would
+   * be outside the operator's privileges: where the signal actually goes out
+   * (split, XIT and repeater shift included) and at the power set. changes
+   * stand in for parts of the state, for a transmission that will differ.
+   */
+  assertTxAllowed(changes: Partial<RadioState> = {}) {
+    const reason = this.txRefusal(changes);
+    if (reason) throw new RigError("forbidden", `Transmit refused: ${reason}`);
+  }
+
+  // While keyed, a change that would carry the signal outside the operator's
+  // privileges is refused before it reaches the rig
+  private assertTxStaysAllowed(changes: Partial<RadioState>) {
+    if (!this.state.ptt) return;
+    const reason = this.txRefusal(changes);
+    if (reason) throw new RigError("forbidden", `Refused while transmitting: ${reason}`);
+  }
+
+  // Why transmitting now, or with these changes made, is not allowed;
+  // undefined when it is
+  private txRefusal(changes: Partial<RadioState> = {}): string | undefined {
+    const { txPrivileges } = this.opts;
+    if (!txPrivileges) return undefined;
+    const state = { ...this.state, ...changes };
+    const { split, offsets, repeater, power } = state;
+    const mode = split ? state.txMode ?? state.mode : state.mode;
+    let frequencyHz = split ? state.txFrequencyHz : state.frequencyHz;
+    if (frequencyHz === undefined || !mode) return "the rig has not reported its frequency and mode yet";
+    if (offsets?.xitOn) frequencyHz += offsets.xitHz ?? 0;
+    // Reverse transmits on the dial frequency and listens on the input
+    if (SHIFTED_MODES.has(mode) && repeater?.shift && repeater.shift !== "simplex" && !repeater.reverse) {
+      frequencyHz += (repeater.shift === "plus" ? 1 : -1) * (repeater.offsetHz ?? 0);
+    }
+    const maxPowerWatts = this.capabilities?.maxPowerWatts ?? this.opts.maxPowerWatts;
+    const powerWatts = power !== undefined && maxPowerWatts ? (power / 100) * maxPowerWatts : undefined;
+    const verdict = checkTransmit(txPrivileges, { frequencyHz, mode, powerWatts });
+    if (!verdict.allowed) return verdict.reason;
+    // A limit that cannot be checked is not assumed to be met
+    if (verdict.maxPowerWatts !== undefined && powerWatts === undefined) {
+      return maxPowerWatts
+        ? `the rig has not reported its power setting, so the ${verdict.maxPowerWatts} W limit here cannot be checked`
+        : `the rig's full power is unknown, so the ${verdict.maxPowerWatts} W limit here cannot be checked; set maxPowerWatts for this rig`;
+    }
+    return undefined;
+  }
+
+  /** Resolves with the frequency that was written, which is a newer one if this was overtaken. */
+  setFrequency(hz: number): Promise<number> {
+    return this.writes.frequency.submit(hz);
+  }
+
+  setMode(mode: RadioMode, bandwidthHz?: number): Promise<ModeSetting> {
+    return this.writes.mode.submit({ mode, bandwidthHz });
+  }
+
+  setPower(percent: number): Promise<number> {
+    return this.writes.power.submit(percent);
+  }
+
+  // Never coalesced: every key and unkey goes to the rig in order
+  async setPtt(ptt: boolean) {
+    // Unkeying is always allowed, wherever the rig has ended up
+    if (ptt) this.assertTxAllowed();
+    await this.opts.adapter.setPtt(ptt);
+    this.assume({ ptt });
+  }
+
+  // What a write just set, published without reading the rig back
+  private assume(partial: Partial<RadioState>) {
+    this.state = { ...this.state, ...partial };
+    this.emit(EVENTS.RADIO_STATE, this.state);
+  }
+
+  /**
+   * Tune the antenna. Switches to a carrier mode at tune power, then runs the
+   * rig's own tuner if it has one, or else keys a carrier for durationMs while
+   * an external tuner is adjusted. SWR is read throughout, and mode, power
+   * and PTT are put back afterwards whether or not the tune worked. key is
+   * how the carrier is keyed and unkeyed, so the watchdog can key on a
+   * client's behalf.
+   */
+  async tune(
+    durationMs = DEFAULT_TUNE_MS,
+    key: (ptt: boolean) => Promise<void> = (ptt) => this.setPtt(ptt)
+  ): Promise<TuneResult> {
+    if (!this.state.connected) throw new RigError("not_connected", "Radio not connected");
+    if (this.tuning) throw new RigError("rejected", "A tune is already running");
+    this.tuning = true;
+    this.tuneCancelled = false;
+    try {
+      await this.refreshState();
+      // Tuning mid-transmission would cut off whatever is going out
+      if (this.state.ptt) throw new RigError("rejected", "Unkey before tuning");
+      return await this.tuneAndRestore(Math.min(durationMs, MAX_TUNE_MS), key);
+    } finally {
+      this.tuning = false;
+    }
+  }
+
+  /** Cut a running tune short; the rig is unkeyed and put back as after any tune. */
+  cancelTune() {
+    if (this.tuning) this.tuneCancelled = true;
+  }
+
+  private assertTuneGoesOn() {
+    if (this.tuneCancelled) throw new RigError("rejected", "Tune cancelled");
+  }
+
+  private async tuneAndRestore(durationMs: number, key: (ptt: boolean) => Promise<void>): Promise<TuneResult> {
+    const { adapter, tunePowerPercent = DEFAULT_TUNE_POWER } = this.opts;
+    const before = { mode: this.state.mode, bandwidthHz: this.state.bandwidthHz, power: this.state.power };
+    const mode = this.carrierMode(tunePowerPercent);
+    const usedTuner = this.hasTuner();
+    const started = Date.now();
+    const swr: number[] = [];
+    let failure: unknown;
+    try {
+      if (mode !== before.mode) await this.setMode(mode);
+      await this.setPower(tunePowerPercent);
+      if (usedTuner) {
+        // The rig keys itself for the tune, so check here what setPtt would
+        this.assertTxAllowed();
+        await adapter.startTune!();
+        await this.watchTuner(swr);
+        // SWR read mid-tune is before the match; a moment's carrier shows the result
+        this.assertTuneGoesOn();
+        await key(true);
+        const checking = Date.now();
+        const count = swr.length;
+        while (swr.length === count && Date.now() - checking < TUNER_CHECK_MS) {
+          await sleep(TUNE_POLL_MS);
+          this.assertTuneGoesOn();
+          await this.readTuneSwr(swr);
+        }
+      } else {
+        this.assertTuneGoesOn();
+        await key(true);
+        while (Date.now() - started < durationMs) {
+          await sleep(TUNE_POLL_MS);
+          this.assertTuneGoesOn();
+          await this.readTuneSwr(swr);
+        }
+      }
+    } catch (e) {
+      failure = e;
+    }
+
+    // Unkey first, then put back whatever was changed; every step is tried
+    // even when an earlier one fails
+    let restoreFailure: unknown;
+    const restore = async (step: () => Promise<void>) => {
+      try {
+        await step();
+      } catch (e) {
+        restoreFailure ??= e;
+      }
+    };
+    await restore(() => key(false));
+    // Through the write queues, so a change still waiting there is overtaken
+    // by the restore rather than landing after it
+    if (before.mode && before.mode !== mode) {
+      await restore(async () => void (await this.setMode(before.mode!, before.bandwidthHz)));
+    }
+    if (before.power !== undefined) await restore(async () => void (await this.setPower(before.power!)));
+    await restore(() => this.refreshState());
+    if (failure) throw failure;
+    if (restoreFailure) throw restoreFailure;
+
+    return {
+      usedTuner,
+      mode,
+      powerPercent: tunePowerPercent,
+      durationMs: Date.now() - started,
+      swr: swr.at(-1),
+      peakSwr: swr.length > 0 ? Math.max(...swr) : undefined,
+    };
+  }
+
+  // Until the rig reports its capabilities, assume a tuner when the adapter can drive one
+  private hasTuner(): boolean {
+    if (!this.opts.adapter.startTune) return false;
+    const caps = this.capabilities;
+    return !caps || caps.vfoOps.includes("TUNE") || caps.setFunctions.includes("TUNER");
+  }
+
+  // The configured mode, or the first carrier mode the rig has and the operator may use here
+  private carrierMode(powerPercent: number): RadioMode {
+    if (this.opts.tuneMode) return this.opts.tuneMode;
+    const modes = CARRIER_MODES.filter((m) => !this.capabilities || this.capabilities.modes.includes(m));
+    return modes.find((m) => !this.txRefusal({ mode: m, txMode: m, power: powerPercent })) ?? modes[0] ?? "CW";
+  }
+
+  // Wait out the rig's own tune cycle: it keys, tunes and unkeys by itself
+  private async watchTuner(swr: number[]) {
+    const started = Date.now();
+    let keyed = false;
+    while (Date.now() - started < MAX_TUNE_MS) {
+      await sleep(TUNE_POLL_MS);
+      this.assertTuneGoesOn();
+      if (await this.readTuneSwr(swr)) keyed = true;
+      else if (keyed || Date.now() - started >= TUNER_START_MS) return;
+    }
+    throw new RigError("timeout", `The tuner was still keyed after ${MAX_TUNE_MS / 1000} s`);
+  }
+
+  // Read the rig, keeping the SWR when it is keyed; returns whether it is
+  private async readTuneSwr(swr: number[]): Promise<boolean> {
     await this.refreshState();
+    const reading = this.state.meters?.swr;
+    if (this.state.ptt && reading !== undefined) swr.push(reading);
+    return this.state.ptt === true;
   }
 
-  async setMode(mode: RadioMode, bandwidthHz?: number) {
-    await this.opts.adapter.setMode(mode, bandwidthHz);
+  // Switching VFO brings another frequency and mode into view, so this reads back
+  async setVfo(vfo: RadioVfo) {
+    const { adapter } = this.opts;
+    if (!adapter.setVfo) throw notSupported("VFO selection");
+    await adapter.setVfo(vfo);
     await this.refreshState();
   }
 
-  async setPower(percent: number) {
-    await this.opts.adapter.setPower(percent);
+  // Swaps and copies change what both VFOs hold, so this reads back too
+  async vfoOp(op: VfoOp) {
+    const { adapter } = this.opts;
+    if (!adapter.vfoOp) throw notSupported(`VFO ${op}`);
+    await adapter.vfoOp(op);
     await this.refreshState();
   }
 
-  async setPtt(ptt: boolean) {
-    await this.opts.adapter.setPtt(ptt);
+  // Turning split on brings the TX VFO's frequency and mode into view, so this reads back
+  async setSplit(split: boolean, txVfo?: RadioVfo) {
+    const { adapter } = this.opts;
+    if (!adapter.setSplit) throw notSupported("Split operation");
+    await adapter.setSplit(split, txVfo);
     await this.refreshState();
   }
-}
 
+  async setSplitFrequency(hz: number): Promise<number> {
+    if (!this.opts.adapter.setSplitFrequency) throw notSupported("Split TX frequency");
+    return this.writes.splitFrequency.submit(hz);
+  }
+
+  async setSplitMode(mode: RadioMode, bandwidthHz?: number): Promise<ModeSetting> {
+    if (!this.opts.adapter.setSplitMode) throw notSupported("Split TX mode");
+    return this.writes.splitMode.submit({ mode, bandwidthHz });
+  }
+
+  /** Resolves with every field written alongside these, from this call and any it was merged with. */
+  async setReceiver(settings: RadioReceiver): Promise<RadioReceiver> {
+    if (!this.opts.adapter.setReceiver) throw notSupported("Receiver controls");
+    return this.writes.receiver.submit(settings);
+  }
+
+  async setOffsets(offsets: RadioOffsets): Promise<RadioOffsets> {
+    if (!this.opts.adapter.setOffsets) throw notSupported("RIT/XIT and IF shift");
+    return this.writes.offsets.submit(offsets);
+  }
+
+  async setRepeater(repeater: RadioRepeater): Promise<RadioRepeater> {
+    if (!this.opts.adapter.setRepeater) throw notSupported("Repeater shift and tones");
+    return this.writes.repeater.submit(repeater);
+  }
+
+  // Width only; the mode stays as it is
+  setPassband(hz: number): Promise<number> {
+    return this.writes.passband.submit(hz);
+  }
+
+  async sendMorse(text: string) {
+    const { adapter } = this.opts;
+    if (!adapter.sendMorse) throw notSupported("CW keying");
+    // The keyer sends CW whatever mode the rig is in, so that is what is checked
+    this.assertTxAllowed({ mode: "CW", txMode: "CW" });
+    await adapter.sendMorse(text);
+  }
+
+  async stopMorse() {
+    const { adapter } = this.opts;
+    if (!adapter.stopMorse) throw notSupported("Stopping CW");
+    await adapter.stopMorse();
+  }
+
+  async setKeyerSpeed(wpm: number) {
+    const { adapter } = this.opts;
+    if (!adapter.setKeyerSpeed) throw notSupported("Keyer speed");
+    await adapter.setKeyerSpeed(wpm);
+  }
+}
@@ -0,0 +1,305 @@
+import { EventEmitter } from "node:events";
+import type { RigConfig } from "../config.js";
+import type { RadioState, RadioStateDelta, RadioStateSnapshot, RigctldSettings, RigctldStatus, RigSummary } from "../dtos.js";
+import type { Logger } from "../types.js";
+import type { TxPrivileges } from "../band-plan.js";
+import { EVENTS } from "../events.js";
+import { RigError } from "../errors.js";
+import { RadioService, type RigctlAdapter } from "./radio.js";
+import { CwKeyer } from "./cw-keyer.js";
+import { Scanner } from "./scanner.js";
+import { TxWatchdog } from "./tx-watchdog.js";
+import { PollScheduler } from "./poll-scheduler.js";
+import { RigctldSupervisor } from "./rigctld-supervisor.js";
+
+export interface RigManagerOptions {
+  rigs: RigConfig[];
+  createAdapter: (rig: RigConfig) => RigctlAdapter;
+  logger?: Logger;
+  // rigctld binary for rigs with manageRigctld
+  rigctldPath?: string;
+  // Station callsign each rig's CW keyer starts with
+  myCall?: string;
+  // Band plan and licence class every rig's transmitter is held to
+  txPrivileges?: TxPrivileges;
+}
+
+interface ManagedRig {
+  config: RigConfig;
+  service: RadioService;
+  keyer: CwKeyer;
+  scanner: Scanner;
+  watchdog: TxWatchdog;
+  // Present when the backend runs this rig's rigctld itself
+  supervisor: RigctldSupervisor | null;
+  poller: PollScheduler;
+  // The state as last published to clients, and the sequence number of that delta
+  published: RadioState;
+  seq: number;
+  retryTimer: NodeJS.Timeout | null;
+  // Set by an explicit disconnect so the retry loop stays quiet
+  stopped: boolean;
+}
+
+const RETRY_MIN_DELAY_MS = 1500;
+const RETRY_MAX_DELAY_MS = 15000;
+
+/**
+ * Owns one RadioService per configured rig, keeps each connected and polled,
+ * and re-emits their events tagged with the rig id.
+ */
+export class RigManager extends EventEmitter {
+  private readonly rigs = new Map<string, ManagedRig>();
+
+  constructor(private readonly opts: RigManagerOptions) {
+    super();
+    for (const config of opts.rigs) {
+      const service = new RadioService({
+        adapter: opts.createAdapter(config),
+        txPrivileges: opts.txPrivileges,
+        tunePowerPercent: config.tunePowerPercent,
+        tuneMode: config.tuneMode,
+        maxPowerWatts: config.maxPowerWatts,
+      });
+      const watchdog = new TxWatchdog({
+        radio: service,
+        maxTxMs: config.maxTxMs,
+        rigId: config.id,
+        logger: opts.logger,
+      });
+      const keyer = new CwKeyer({ radio: service, watchdog, myCall: opts.myCall });
+      const scanner = new Scanner({ radio: service });
+      const supervisor = config.manageRigctld ? this.createSupervisor(config) : null;
+      const poller = new PollScheduler({
+        radio: service,
+        rates: {
+          activeMs: config.activePollIntervalMs,
+          idleMs: config.pollIntervalMs,
+          txMeterMs: config.txMeterIntervalMs,
+          rxMeterMs: config.rxMeterIntervalMs,
+          settingsMs: config.settingsIntervalMs,
+        },
+        onError: async (error) => {
+          opts.logger?.error({ rigId: config.id, err: error }, "Radio polling error");
+          await watchdog.adapterError(error);
+        },
+      });
+      const rig: ManagedRig = {
+        config,
+        service,
+        keyer,
+        scanner,
+        watchdog,
+        supervisor,
+        poller,
+        published: { connected: false },
+        seq: 0,
+        retryTimer: null,
+        stopped: false,
+      };
+      this.rigs.set(config.id, rig);
+
+      const rigId = config.id;
+      supervisor?.on(EVENTS.RIGCTLD_STATUS, (status) => this.emit(EVENTS.RIGCTLD_STATUS, { rigId, ...status }));
+      service.on(EVENTS.RADIO_STATE, (state) => this.publish(rig, state));
+      service.on(EVENTS.CONNECTION_STATUS, (status) => {
+        // Whatever was queued for a rig that went away is not coming back
+        if (!status.connected) {
+          keyer.clear();
+          scanner.stop();
+        }
+        this.emit(EVENTS.CONNECTION_STATUS, { rigId, ...status });
+      });
+      keyer.on(EVENTS.CW_STATUS, (status) => this.emit(EVENTS.CW_STATUS, { rigId, ...status }));
+      scanner.on(EVENTS.SCAN_STATUS, (status) => this.emit(EVENTS.SCAN_STATUS, { rigId, ...status }));
+      watchdog.on(EVENTS.TX_FORCED_UNKEY, (event) => this.emit(EVENTS.TX_FORCED_UNKEY, { rigId, ...event }));
+      service.on(EVENTS.RADIO_CAPABILITIES, (capabilities) =>
+        this.emit(EVENTS.RADIO_CAPABILITIES, { rigId, capabilities })
+      );
+    }
+  }
+
+  ids(): string[] {
+    return Array.from(this.rigs.keys());
+  }
+
+  get(id: string | undefined): RadioService {
+    return this.rig(id).service;
+  }
+
+  keyer(id: string | undefined): CwKeyer {
+    return this.rig(id).keyer;
+  }
+
+  scanner(id: string | undefined): Scanner {
+    return this.rig(id).scanner;
+  }
+
+  watchdog(id: string | undefined): TxWatchdog {
+    return this.rig(id).watchdog;
+  }
+
+  txPrivileges(): TxPrivileges | null {
+    return this.opts.txPrivileges ?? null;
+  }
+
+  /** A client connection has closed; drop its CW and unkey any rig it left transmitting. */
+  async releaseClient(owner: string) {
+    await Promise.all(
+      Array.from(this.rigs.values(), (rig) => {
+        rig.keyer.releaseOwner(owner);
+        return rig.watchdog.releaseOwner(owner);
+      })
+    );
+  }
+
+  list(): RigSummary[] {
+    return Array.from(this.rigs.values()).map(({ config, service, supervisor }) => {
+      const state = service.getState();
+      return {
+        id: config.id,
+        name: config.name ?? config.id,
+        adapter: config.adapter,
+        host: config.host,
+        port: config.port,
+        connected: state.connected,
+        rigModel: state.rigModel,
+        rigctld: supervisor?.getStatus(),
+      };
+    });
+  }
+
+  /**
+   * Start managed rigctld processes, then connect every rig marked
+   * autoConnect, retrying in the background until each answers.
+   */
+  start() {
+    for (const rig of this.rigs.values()) {
+      rig.supervisor?.start();
+      if (rig.config.autoConnect) void this.attemptConnect(rig, RETRY_MIN_DELAY_MS);
+    }
+  }
+
+  async stop() {
+    // Unkey first, while the rigs are still connected to hear it
+    await Promise.all(Array.from(this.rigs.values(), (rig) => rig.watchdog.shutdown()));
+    for (const rig of this.rigs.values()) {
+      rig.stopped = true;
+      rig.scanner.stop();
+      this.clearTimers(rig);
+    }
+    await Promise.all(Array.from(this.rigs.values(), (rig) => rig.supervisor?.stop()));
+  }
+
+  /** The rigctld supervisor for a rig; only rigs with manageRigctld have one. */
+  rigctld(id: string | undefined): RigctldSupervisor {
+    const rig = this.rig(id);
+    if (!rig.supervisor) throw new RigError("invalid", `Rig "${rig.config.id}" does not use a managed rigctld`);
+    return rig.supervisor;
+  }
+
+  rigctldStatuses(): Array<{ rigId: string } & RigctldStatus> {
+    return Array.from(this.rigs.values()).flatMap(({ config, supervisor }) =>
+      supervisor ? [{ rigId: config.id, ...supervisor.getStatus() }] : []
+    );
+  }
+
+  async connect(id: string | undefined, host?: string, port?: number) {
+    const rig = this.rig(id);
+    rig.stopped = false;
+    this.clearTimers(rig);
+    await rig.service.connect(host ?? rig.config.host, port ?? rig.config.port);
+    this.startPolling(rig);
+  }
+
+  async disconnect(id: string | undefined) {
+    const rig = this.rig(id);
+    rig.stopped = true;
+    this.clearTimers(rig);
+    await rig.service.disconnect();
+  }
+
+  private createSupervisor(config: RigConfig): RigctldSupervisor {
+    // The schema only allows manageRigctld with a model and serial port
+    const settings: RigctldSettings = {
+      rigModel: config.rigModel!,
+      rigPort: config.rigPort!,
+      rigSpeed: config.rigSpeed ?? 19200,
+    };
+    return new RigctldSupervisor({
+      rigId: config.id,
+      settings,
+      host: config.host,
+      port: config.port,
+      binary: this.opts.rigctldPath,
+      logger: this.opts.logger,
+    });
+  }
+
+  private rig(id: string | undefined): ManagedRig {
+    const rig = id === undefined ? undefined : this.rigs.get(id);
+    if (!rig) throw new RigError("not_found", `Unknown rig "${id ?? ""}"`);
+    return rig;
+  }
+
+  private async attemptConnect(rig: ManagedRig, delayMs: number) {
+    rig.retryTimer = null;
+    if (rig.stopped) return;
+    const rigId = rig.config.id;
+    try {
+      this.opts.logger?.info({ rigId }, "Attempting to connect to radio");
+      await rig.service.connect(rig.config.host, rig.config.port);
+      this.opts.logger?.info({ rigId }, "Radio connected, starting polling");
+      this.startPolling(rig);
+    } catch (error) {
+      this.opts.logger?.error({ rigId, err: error }, "Radio connection failed");
+      // Published only if it differs from what clients last heard
+      this.publish(rig, { ...rig.service.getState(), connected: false });
+      if (rig.stopped) return;
+      rig.retryTimer = setTimeout(
+        () => void this.attemptConnect(rig, Math.min(delayMs * 1.5, RETRY_MAX_DELAY_MS)),
+        delayMs
+      );
+    }
+  }
+
+  private startPolling(rig: ManagedRig) {
+    rig.poller.start();
+  }
+
+  /** Every rig's full state, with the sequence number of the last delta it includes. */
+  snapshots(): RadioStateSnapshot[] {
+    return Array.from(this.rigs.values(), (rig) => this.snapshotOf(rig));
+  }
+
+  snapshot(id: string | undefined): RadioStateSnapshot {
+    return this.snapshotOf(this.rig(id));
+  }
+
+  private snapshotOf(rig: ManagedRig): RadioStateSnapshot {
+    return { rigId: rig.config.id, seq: rig.seq, ...rig.published };
+  }
+
+  // Send clients only the fields that changed, null for any the rig stopped
+  // reporting; an unchanged poll sends nothing
+  private publish(rig: ManagedRig, state: RadioState) {
+    const changes: Record<string, unknown> = {};
+    const previous = rig.published as Record<string, unknown>;
+    const next = state as Record<string, unknown>;
+    for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      // Field values are small plain objects at most, so JSON compares them well enough
+      if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) changes[key] = next[key] ?? null;
+    }
+    if (Object.keys(changes).length === 0) return;
+    rig.published = { ...state };
+    rig.seq++;
+    const delta: RadioStateDelta = { rigId: rig.config.id, seq: rig.seq, changes };
+    this.emit(EVENTS.RADIO_STATE_DELTA, delta);
+  }
+
+  private clearTimers(rig: ManagedRig) {
+    rig.poller.stop();
+    if (rig.retryTimer) clearTimeout(rig.retryTimer);
+    rig.retryTimer = null;
+  }
+}
@@ -0,0 +1,430 @@
+import net from "node:net";
+import type { RadioState } from "../dtos.js";
+import type { Logger } from "../types.js";
+import { RigError } from "../errors.js";
+import { METER_LEVELS, S9_DBM, type MeterName } from "../meters.js";
+import { MODES, hamlibModeMask, lookupHamlibMode, modeInfo, toHamlibMode, type ModeName } from "../modes.js";
+import {
+  HAMLIB_VFO_OPS,
+  fromHamlibVfo,
+  rprtCodeFor,
+  toHamlibVfo,
+} from "../adapters/hamlib-protocol.js";
+import type { RadioService } from "./radio.js";
+import type { TxWatchdog } from "./tx-watchdog.js";
+
+export interface RigctlServerOptions {
+  rigId: string;
+  radio: RadioService;
+  // Keys on behalf of each client, so a client that drops mid-transmission is unkeyed
+  watchdog?: TxWatchdog;
+  host: string;
+  port: number;
+  logger?: Logger;
+}
+
+export interface RigctlServerStatus {
+  rigId: string;
+  host: string;
+  port: number;
+  listening: boolean;
+  clients: number;
+}
+
+type Value = string | number;
+
+// A client with a longer unfinished line, or more commands waiting their
+// turn, is not speaking rigctl and is cut off before it uses up memory
+const MAX_LINE_LENGTH = 4096;
+const MAX_QUEUED_LINES = 256;
+
+// The connection a command came in on, for commands that act on its behalf
+interface RigctlClient {
+  setPtt(ptt: boolean): Promise<void>;
+}
+
+interface CommandSpec {
+  name: string;
+  short?: string;
+  args: number;
+  // Labels for each returned value in the extended protocol
+  keys?: string[];
+  // Raw multi-line output (dump_state) rather than one value per line
+  raw?: boolean;
+  run(radio: RadioService, args: string[], client: RigctlClient): Promise<Value[] | void> | Value[] | void;
+}
+
+// Hamlib setting_t bits for the levels we serve
+const LEVEL_BITS: Record<string, bigint> = {
+  RFPOWER: 1n << 12n,
+  SWR: 1n << 28n,
+  ALC: 1n << 29n,
+  STRENGTH: 1n << 30n,
+  COMP_METER: 1n << 33n,
+  VD_METER: 1n << 34n,
+  ID_METER: 1n << 35n,
+  RFPOWER_METER_WATTS: 1n << 39n,
+};
+// Meters served as levels, by Hamlib token
+const METER_BY_LEVEL = new Map<string, MeterName>(
+  Object.entries(METER_LEVELS).map(([name, level]) => [level, name as MeterName])
+);
+// Hamlib vfo_op_t bits
+const VFO_OP_BITS: Record<string, number> = { CPY: 1 << 0, XCHG: 1 << 1 };
+
+const hex = (n: bigint | number) => `0x${n.toString(16)}`;
+
+function connectedState(radio: RadioService): RadioState {
+  const state = radio.getState();
+  if (!state.connected) throw new RigError("not_connected", "rig is not connected");
+  return state;
+}
+
+function parseMode(name: string | undefined): ModeName {
+  const mode = name === undefined ? undefined : lookupHamlibMode(name);
+  if (!mode) throw new RigError("invalid", `unknown mode "${name ?? ""}"`);
+  return mode;
+}
+
+function parseNumber(raw: string | undefined, what: string): number {
+  const n = Number(raw);
+  if (raw === undefined || !Number.isFinite(n)) throw new RigError("invalid", `invalid ${what} "${raw ?? ""}"`);
+  return n;
+}
+
+// Hamlib passband: 0 is the rig's normal width, -1 leaves it unchanged
+function parsePassband(raw: string | undefined): number | undefined {
+  const hz = raw === undefined ? 0 : parseNumber(raw, "passband");
+  return hz > 0 ? hz : undefined;
+}
+
+/**
+ * dump_state as Hamlib's NET rigctl backend (model 2) expects it. We do not
+ * know the rig's real ranges, so they are wide enough for any HF/VHF/UHF rig;
+ * modes, levels and VFO ops come from the connected rig's capabilities.
+ */
+function dumpState(radio: RadioService): string[] {
+  const caps = radio.getCapabilities();
+  const modes = caps?.modes.length ? caps.modes : MODES.map((m) => m.mode);
+  const modeMask = hex(hamlibModeMask(modes));
+  const maxPowerMw = Math.round((caps?.maxPowerWatts ?? 100) * 1000);
+  const getLevels = Object.keys(LEVEL_BITS).filter((l) => !caps || caps.getLevels.includes(l));
+  const setLevels = caps ? (caps.setLevels.includes("RFPOWER") ? ["RFPOWER"] : []) : ["RFPOWER"];
+  const levelMask = (levels: string[]) => hex(levels.reduce((mask, l) => mask | LEVEL_BITS[l]!, 0n));
+  const vfoOps = Object.keys(VFO_OP_BITS)
+    .filter((op) => !caps || caps.vfoOps.includes(op))
+    .reduce((mask, op) => mask | VFO_OP_BITS[op]!, 0);
+
+  return [
+    "1", // protocol version
+    "2", // rig model: NET rigctl
+    "0", // ITU region
+    `100000.000000 3000000000.000000 ${modeMask} -1 -1 0x3 0x0`,
+    "0 0 0 0 0 0 0",
+    `100000.000000 3000000000.000000 ${modeMask} 1000 ${maxPowerMw} 0x3 0x0`,
+    "0 0 0 0 0 0 0",
+    `${modeMask} 1`,
+    "0 0",
+    ...modes.map((mode) => `${hex(hamlibModeMask([mode]))} ${modeInfo(mode).passbandHz}`),
+    "0 0",
+    "9990", // max RIT
+    "9990", // max XIT
+    "10000", // max IF shift
+    "0", // announces
+    "", // preamps
+    "", // attenuators
+    "0x0", // get functions
+    "0x0", // set functions
+    levelMask(getLevels),
+    levelMask(setLevels),
+    "0x0", // get parms
+    "0x0", // set parms
+    `vfo_ops=${hex(vfoOps)}`,
+    "ptt_type=0x1",
+    "targetable_vfo=0x0",
+    "has_set_vfo=1",
+    "has_get_vfo=1",
+    "has_set_freq=1",
+    "has_get_freq=1",
+    "done",
+  ];
+}
+
+const COMMANDS: CommandSpec[] = [
+  { name: "get_freq", short: "f", args: 0, keys: ["Frequency"], run: (r) => [connectedState(r).frequencyHz ?? 0] },
+  {
+    name: "set_freq",
+    short: "F",
+    args: 1,
+    run: async (r, [hz]) => {
+      await r.setFrequency(parseNumber(hz, "frequency"));
+    },
+  },
+  {
+    name: "get_mode",
+    short: "m",
+    args: 0,
+    keys: ["Mode", "Passband"],
+    run: (r) => {
+      const state = connectedState(r);
+      return [state.mode ? toHamlibMode(state.mode) : "NONE", state.bandwidthHz ?? 0];
+    },
+  },
+  {
+    name: "set_mode",
+    short: "M",
+    args: 2,
+    run: async (r, [mode, pb]) => {
+      await r.setMode(parseMode(mode), parsePassband(pb));
+    },
+  },
+  { name: "get_vfo", short: "v", args: 0, keys: ["VFO"], run: (r) => [toHamlibVfo(connectedState(r).vfo ?? "A")] },
+  { name: "set_vfo", short: "V", args: 1, run: (r, [vfo]) => r.setVfo(fromHamlibVfo(vfo ?? "")) },
+  { name: "get_ptt", short: "t", args: 0, keys: ["PTT"], run: (r) => [connectedState(r).ptt ? 1 : 0] },
+  { name: "set_ptt", short: "T", args: 1, run: (_r, [ptt], client) => client.setPtt(parseNumber(ptt, "PTT") !== 0) },
+  {
+    name: "get_split_vfo",
+    short: "s",
+    args: 0,
+    keys: ["Split", "TX VFO"],
+    run: (r) => {
+      const state = connectedState(r);
+      const other = state.vfo === "B" ? "A" : "B";
+      return [state.split ? 1 : 0, toHamlibVfo(state.split ? (state.txVfo ?? other) : (state.vfo ?? "A"))];
+    },
+  },
+  {
+    name: "set_split_vfo",
+    short: "S",
+    args: 2,
+    run: (r, [split, txVfo]) => r.setSplit(parseNumber(split, "split") !== 0, txVfo ? fromHamlibVfo(txVfo) : undefined),
+  },
+  {
+    name: "get_split_freq",
+    short: "i",
+    args: 0,
+    keys: ["TX Frequency"],
+    run: (r) => {
+      const state = connectedState(r);
+      return [state.txFrequencyHz ?? state.frequencyHz ?? 0];
+    },
+  },
+  {
+    name: "set_split_freq",
+    short: "I",
+    args: 1,
+    run: async (r, [hz]) => {
+      await r.setSplitFrequency(parseNumber(hz, "frequency"));
+    },
+  },
+  {
+    name: "get_split_mode",
+    short: "x",
+    args: 0,
+    keys: ["TX Mode", "TX Passband"],
+    run: (r) => {
+      const state = connectedState(r);
+      const mode = state.txMode ?? state.mode;
+      return [mode ? toHamlibMode(mode) : "NONE", state.bandwidthHz ?? 0];
+    },
+  },
+  {
+    name: "set_split_mode",
+    short: "X",
+    args: 2,
+    run: async (r, [mode, pb]) => {
+      await r.setSplitMode(parseMode(mode), parsePassband(pb));
+    },
+  },
+  {
+    name: "get_level",
+    short: "l",
+    args: 1,
+    keys: ["Level Value"],
+    run: (r, [level]) => {
+      const state = connectedState(r);
+      const meters = state.meters ?? {};
+      const name = level?.toUpperCase() ?? "";
+      if (name === "RFPOWER") return [((state.power ?? 0) / 100).toFixed(6)];
+      // Hamlib reports dB relative to S9
+      if (name === "STRENGTH") return [Math.round((meters.signalDbm ?? S9_DBM - 54) - S9_DBM)];
+      const meter = METER_BY_LEVEL.get(name);
+      if (!meter) throw new RigError("not_supported", `level ${level ?? ""} not supported`);
+      // A meter the rig has not reported rests at the bottom of its scale
+      return [(meters[meter] ?? (meter === "swr" ? 1 : 0)).toFixed(6)];
+    },
+  },
+  {
+    name: "set_level",
+    short: "L",
+    args: 2,
+    run: async (r, [level, value]) => {
+      if (level?.toUpperCase() !== "RFPOWER") throw new RigError("not_supported", `level ${level ?? ""} not supported`);
+      await r.setPower(Math.round(parseNumber(value, "level") * 100));
+    },
+  },
+  {
+    name: "vfo_op",
+    short: "G",
+    args: 1,
+    run: (r, [op]) => {
+      const entry = Object.entries(HAMLIB_VFO_OPS).find(([, name]) => name === op?.toUpperCase());
+      if (!entry) throw new RigError("not_supported", `VFO op ${op ?? ""} not supported`);
+      return r.vfoOp(entry[0] as keyof typeof HAMLIB_VFO_OPS);
+    },
+  },
+  { name: "get_info", short: "_", args: 0, keys: ["Info"], run: (r) => [r.getState().rigModel ?? "rigboss"] },
+  { name: "get_powerstat", args: 0, keys: ["Power Status"], run: (r) => [r.getState().connected ? 1 : 0] },
+  // Hamlib clients ask whether VFO arguments are expected; we never want them
+  { name: "chk_vfo", args: 0, keys: ["ChkVFO"], run: () => [0] },
+  { name: "dump_state", args: 0, raw: true, run: (r) => dumpState(r) },
+];
+
+const BY_NAME = new Map(COMMANDS.map((c) => [c.name, c]));
+const BY_SHORT = new Map(COMMANDS.filter((c) => c.short).map((c) => [c.short!, c]));
+
+/**
+ * A rigctld-compatible listener for one rig. External programs (WSJT-X,
+ * fldigi, loggers) point Hamlib's NET rigctl model at it and share the
+ * connection rigboss already holds; their commands go through RadioService,
+ * so the web UI sees the result in the next RADIO_STATE event.
+ */
+export class RigctlServer {
+  private server: net.Server | null = null;
+  private readonly clients = new Set<net.Socket>();
+
+  constructor(private readonly opts: RigctlServerOptions) {}
+
+  getStatus(): RigctlServerStatus {
+    return {
+      rigId: this.opts.rigId,
+      host: this.opts.host,
+      port: this.opts.port,
+      listening: this.server?.listening ?? false,
+      clients: this.clients.size,
+    };
+  }
+
+  listen(): Promise<void> {
+    if (this.server) return Promise.resolve();
+    const server = net.createServer((socket) => this.onClient(socket));
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once("error", (error) => {
+        this.server = null;
+        reject(error);
+      });
+      server.listen(this.opts.port, this.opts.host, () => {
+        this.opts.logger?.info(
+          { rigId: this.opts.rigId, host: this.opts.host, port: this.opts.port },
+          "rigctl server listening"
+        );
+        resolve();
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    for (const socket of this.clients) socket.destroy();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private onClient(socket: net.Socket) {
+    const peer = `${socket.remoteAddress}:${socket.remotePort}`;
+    const log = this.opts.logger;
+    const { radio, watchdog } = this.opts;
+    const owner = `rigctl:${peer}`;
+    const client: RigctlClient = {
+      setPtt: (ptt) => (watchdog ? watchdog.setPtt(ptt, owner) : radio.setPtt(ptt)),
+    };
+    this.clients.add(socket);
+    log?.info({ rigId: this.opts.rigId, peer }, "rigctl client connected");
+
+    let buffer = "";
+    // One command at a time per client, answered in the order received
+    let queue = Promise.resolve();
+    let queued = 0;
+
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let nl: number;
+      while ((nl = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, nl).replace(/\r$/, "");
+        buffer = buffer.slice(nl + 1);
+        queued++;
+        queue = queue.then(() => this.handleLine(socket, line, client)).finally(() => queued--);
+      }
+      if (buffer.length > MAX_LINE_LENGTH || queued > MAX_QUEUED_LINES) {
+        log?.warn({ rigId: this.opts.rigId, peer, buffered: buffer.length, queued }, "rigctl client flooding; disconnecting");
+        buffer = "";
+        socket.destroy();
+      }
+    });
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => {
+      this.clients.delete(socket);
+      void watchdog?.releaseOwner(owner);
+      log?.info({ rigId: this.opts.rigId, peer }, "rigctl client disconnected");
+    });
+  }
+
+  private async handleLine(socket: net.Socket, line: string, client: RigctlClient) {
+    let text = line.trim();
+    if (text.length === 0 || socket.destroyed) return;
+
+    // Extended response protocol: a leading separator character
+    let separator: string | null = null;
+    if ("+;|,".includes(text[0]!)) {
+      separator = text[0] === "+" ? "\n" : text[0]!;
+      text = text.slice(1).trim();
+    }
+
+    const [token = "", ...args] = text.split(/\s+/);
+    if (token === "q" || token === "Q" || token === "\\quit") {
+      socket.end();
+      return;
+    }
+
+    const command = token.startsWith("\\") ? BY_NAME.get(token.slice(1)) : BY_SHORT.get(token);
+    const name = command?.name ?? token.replace(/^\\/, "");
+    const used = command ? args.slice(0, command.args) : args;
+
+    let values: Value[] | void = undefined;
+    let code = 0;
+    try {
+      if (!command) throw new RigError("not_supported", `unknown command ${token}`, -4);
+      values = await command.run(this.opts.radio, used, client);
+    } catch (e) {
+      code = rprtCodeFor(e);
+    }
+
+    socket.write(this.formatReply(command, name, used, values, code, separator));
+  }
+
+  private formatReply(
+    command: CommandSpec | undefined,
+    name: string,
+    args: string[],
+    values: Value[] | void,
+    code: number,
+    separator: string | null
+  ): string {
+    if (separator === null) {
+      // Normal protocol: values one per line on success, RPRT for sets and errors
+      if (code !== 0 || !values) return `RPRT ${code}\n`;
+      return values.map((v) => `${v}\n`).join("");
+    }
+
+    const records = [`${name}:${args.length > 0 ? ` ${args.join(" ")}` : ""}`];
+    if (code === 0 && values) {
+      if (command?.raw) records.push(...values.map(String));
+      else values.forEach((v, i) => records.push(`${command?.keys?.[i] ?? "Value"}: ${v}`));
+    }
+    records.push(`RPRT ${code}`);
+    return `${records.join(separator)}\n`;
+  }
+}
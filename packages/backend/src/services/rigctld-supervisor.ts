@@ -0,0 +1,181 @@
+import { EventEmitter } from "node:events";
+import { spawn, type ChildProcess } from "node:child_process";
+import type { RigctldSettings, RigctldStatus } from "../dtos.js";
+import type { Logger } from "../types.js";
+import { EVENTS } from "../events.js";
+
+export interface RigctldSupervisorOptions {
+  rigId: string;
+  settings: RigctldSettings;
+  // Address rigctld listens on; the rig's adapter connects here
+  host: string;
+  port: number;
+  binary?: string;
+  logger?: Logger;
+  restartMinDelayMs?: number;
+  restartMaxDelayMs?: number;
+  stopTimeoutMs?: number;
+}
+
+// A process that stays up this long is considered healthy again, so the
+// next crash restarts quickly instead of at the backed-off delay
+const STABLE_AFTER_MS = 30000;
+
+/**
+ * Runs one rigctld process: spawns it with the rig's model and serial
+ * settings, forwards its output to our log, and restarts it with backoff
+ * when it exits without being asked to.
+ */
+export class RigctldSupervisor extends EventEmitter {
+  private child: ChildProcess | null = null;
+  private settings: RigctldSettings;
+  private status: RigctldStatus;
+  private wanted = false;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private restartDelayMs: number;
+  private startedAt = 0;
+  private readonly opts: Required<Omit<RigctldSupervisorOptions, "logger">> & { logger?: Logger };
+
+  constructor(options: RigctldSupervisorOptions) {
+    super();
+    this.opts = {
+      binary: "rigctld",
+      restartMinDelayMs: 1000,
+      restartMaxDelayMs: 30000,
+      stopTimeoutMs: 3000,
+      ...options,
+    };
+    this.settings = { ...options.settings };
+    this.restartDelayMs = this.opts.restartMinDelayMs;
+    this.status = { state: "stopped", restarts: 0, settings: this.settings };
+  }
+
+  getStatus(): RigctldStatus {
+    return this.status;
+  }
+
+  isRunning(): boolean {
+    return this.status.state === "running";
+  }
+
+  /** Start rigctld, optionally with new settings; a running process picks them up on its next restart. */
+  start(settings?: Partial<RigctldSettings>) {
+    if (settings) this.settings = { ...this.settings, ...settings };
+    this.wanted = true;
+    this.restartDelayMs = this.opts.restartMinDelayMs;
+    if (this.child) return;
+    this.clearRestart();
+    this.spawnChild();
+  }
+
+  async stop(): Promise<void> {
+    this.wanted = false;
+    this.clearRestart();
+    const child = this.child;
+    if (!child) {
+      this.setStatus({ state: "stopped", pid: undefined });
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const killTimer = setTimeout(() => child.kill("SIGKILL"), this.opts.stopTimeoutMs);
+      child.once("exit", () => {
+        clearTimeout(killTimer);
+        resolve();
+      });
+      child.kill("SIGTERM");
+    });
+  }
+
+  async restart(settings?: Partial<RigctldSettings>): Promise<void> {
+    await this.stop();
+    this.start(settings);
+  }
+
+  private spawnChild() {
+    const { settings } = this;
+    const args = [
+      "-m", String(settings.rigModel),
+      "-r", settings.rigPort,
+      "-s", String(settings.rigSpeed),
+      "-T", this.opts.host,
+      "-t", String(this.opts.port),
+    ];
+    const log = this.opts.logger;
+    const rigId = this.opts.rigId;
+
+    log?.info({ rigId, args }, "Starting rigctld");
+    this.setStatus({ state: "starting", settings: { ...settings }, lastError: undefined });
+    this.startedAt = Date.now();
+
+    const child = spawn(this.opts.binary, args, { stdio: ["ignore", "pipe", "pipe"] });
+    this.child = child;
+
+    child.once("spawn", () => this.setStatus({ state: "running", pid: child.pid }));
+    forwardLines(child.stdout, (line) => log?.info({ rigId, pid: child.pid }, `rigctld: ${line}`));
+    forwardLines(child.stderr, (line) => log?.warn({ rigId, pid: child.pid }, `rigctld: ${line}`));
+
+    child.once("error", (error) => {
+      // Spawn failures (binary missing) never emit "exit"
+      log?.error({ rigId, err: error }, "rigctld failed to start");
+      this.onExit(child, null, error.message);
+    });
+    child.once("exit", (code, signal) => {
+      this.onExit(child, code, signal ? `killed by ${signal}` : undefined);
+    });
+  }
+
+  private onExit(child: ChildProcess, code: number | null, reason?: string) {
+    if (this.child !== child) return;
+    this.child = null;
+
+    if (!this.wanted) {
+      this.opts.logger?.info({ rigId: this.opts.rigId, code }, "rigctld stopped");
+      this.setStatus({ state: "stopped", pid: undefined, lastExitCode: code });
+      return;
+    }
+
+    if (Date.now() - this.startedAt >= STABLE_AFTER_MS) this.restartDelayMs = this.opts.restartMinDelayMs;
+    const delayMs = this.restartDelayMs;
+    this.restartDelayMs = Math.min(delayMs * 2, this.opts.restartMaxDelayMs);
+
+    this.opts.logger?.error(
+      { rigId: this.opts.rigId, code, reason, restartInMs: delayMs },
+      "rigctld exited unexpectedly"
+    );
+    this.setStatus({
+      state: "crashed",
+      pid: undefined,
+      lastExitCode: code,
+      lastError: reason ?? `exited with code ${code}`,
+    });
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (!this.wanted || this.child) return;
+      this.setStatus({ restarts: this.status.restarts + 1 });
+      this.spawnChild();
+    }, delayMs);
+  }
+
+  private clearRestart() {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.restartTimer = null;
+  }
+
+  private setStatus(patch: Partial<RigctldStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.emit(EVENTS.RIGCTLD_STATUS, this.status);
+  }
+}
+
+function forwardLines(stream: NodeJS.ReadableStream | null, onLine: (line: string) => void) {
+  if (!stream) return;
+  let buffer = "";
+  stream.setEncoding("utf8");
+  stream.on("data", (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) if (line.trim()) onLine(line.trim());
+  });
+}
@@ -0,0 +1,226 @@
+import { EventEmitter } from "node:events";
+import type { ScanChannel, ScanHit, ScanStart, ScanStatus } from "../dtos.js";
+import { EVENTS } from "../events.js";
+import { notSupported, RigError } from "../errors.js";
+import type { RadioService } from "./radio.js";
+
+export interface ScannerOptions {
+  radio: RadioService;
+}
+
+// How often a held channel is checked for the signal having gone
+const HOLD_CHECK_MS = 250;
+const MAX_HITS = 100;
+
+function channelCount(plan: ScanStart): number {
+  return plan.kind === "band" ? Math.floor((plan.stopHz - plan.startHz) / plan.stepHz) + 1 : plan.channels.length;
+}
+
+// Band channels are worked out as they are reached, so a wide range costs nothing up front
+function channelAt(plan: ScanStart, index: number): ScanChannel {
+  return plan.kind === "band" ? { frequencyHz: plan.startHz + index * plan.stepHz } : plan.channels[index]!;
+}
+
+/**
+ * Steps one rig across a frequency range or a channel list, stopping on a
+ * channel for as long as something is heard there. It runs in the backend so
+ * a scan carries on with no browser watching. Hits and the lockout list
+ * outlive the scan that made them.
+ */
+export class Scanner extends EventEmitter {
+  private plan: ScanStart | null = null;
+  private state: ScanStatus["state"] = "idle";
+  private current: ScanChannel | null = null;
+  private passes = 0;
+  private readonly lockouts = new Set<number>();
+  private hits: ScanHit[] = [];
+  private lastError: string | undefined;
+  // Bumped by stop() so a running scan knows it has been replaced or ended
+  private generation = 0;
+  private cancelWait: (() => void) | null = null;
+  private skipping = false;
+
+  constructor(private readonly opts: ScannerOptions) {
+    super();
+  }
+
+  getStatus(): ScanStatus {
+    return {
+      state: this.state,
+      plan: this.plan,
+      current: this.current,
+      passes: this.passes,
+      lockouts: Array.from(this.lockouts).sort((a, b) => a - b),
+      hits: this.hits,
+      lastError: this.lastError,
+    };
+  }
+
+  /** Start scanning, replacing any scan already running; throws before starting if it cannot run. */
+  async start(plan: ScanStart): Promise<ScanStatus> {
+    const { radio } = this.opts;
+    if (!radio.getState().connected) throw new RigError("not_connected", "Radio not connected");
+    // Better to hear now than one channel in that the rig cannot report its squelch
+    if (plan.stopOn === "squelch") await radio.getSquelchOpen();
+    // Without meters the S-meter reading never moves, so the scan would never stop
+    if (plan.stopOn === "signal" && !radio.canReadMeters()) throw notSupported("S-meter reading");
+    if (!this.hasOpenChannel(plan)) throw new RigError("invalid", "Every channel is locked out");
+
+    this.halt();
+    this.plan = plan;
+    this.state = "scanning";
+    this.passes = 0;
+    this.lastError = undefined;
+    this.emitStatus();
+    void this.run(plan, this.generation);
+    return this.getStatus();
+  }
+
+  /** Stop scanning and stay on the current channel. */
+  stop() {
+    this.halt();
+    this.emitStatus();
+  }
+
+  /** Move on from a held channel without waiting out the hang time. */
+  skip() {
+    if (this.state !== "holding") return;
+    this.skipping = true;
+    this.cancelWait?.();
+  }
+
+  /** Add or remove a lockout; locking out the held channel moves the scan on. */
+  setLockout(frequencyHz: number, locked: boolean): ScanStatus {
+    if (locked) {
+      this.lockouts.add(frequencyHz);
+      if (this.current?.frequencyHz === frequencyHz) this.skip();
+    } else {
+      this.lockouts.delete(frequencyHz);
+    }
+    this.emitStatus();
+    return this.getStatus();
+  }
+
+  clearHits(): ScanStatus {
+    this.hits = [];
+    this.emitStatus();
+    return this.getStatus();
+  }
+
+  private halt(error?: string) {
+    this.generation++;
+    this.state = "idle";
+    this.current = null;
+    this.skipping = false;
+    if (error) this.lastError = error;
+    this.cancelWait?.();
+  }
+
+  private hasOpenChannel(plan: ScanStart): boolean {
+    const count = channelCount(plan);
+    if (count > this.lockouts.size) return true;
+    for (let i = 0; i < count; i++) {
+      if (!this.lockouts.has(channelAt(plan, i).frequencyHz)) return true;
+    }
+    return false;
+  }
+
+  private async run(plan: ScanStart, generation: number) {
+    const { radio } = this.opts;
+    const count = channelCount(plan);
+    let index = 0;
+    try {
+      while (generation === this.generation) {
+        // Lockouts can change mid-scan, so look for the next open channel each time
+        let channel: ScanChannel | null = null;
+        for (let tried = 0; tried < count && !channel; tried++) {
+          const candidate = channelAt(plan, index);
+          index = (index + 1) % count;
+          if (index === 0) this.passes++;
+          if (!this.lockouts.has(candidate.frequencyHz)) channel = candidate;
+        }
+        if (!channel) throw new RigError("invalid", "Every channel is locked out");
+        if (radio.getState().ptt) throw new RigError("rejected", "Scan stopped: the rig is transmitting");
+
+        if (channel.mode && channel.mode !== radio.getState().mode) await radio.setMode(channel.mode);
+        await radio.setFrequency(channel.frequencyHz);
+        if (generation !== this.generation) return;
+        this.current = channel;
+        this.emitStatus();
+
+        await this.wait(plan.dwellMs);
+        if (generation !== this.generation) return;
+        const heard = await this.listen(plan);
+        if (heard.open) await this.hold(plan, channel, heard.sUnits, generation);
+      }
+    } catch (error: any) {
+      if (generation !== this.generation) return;
+      this.halt(error?.message ?? "Scan failed");
+      this.emitStatus();
+    }
+  }
+
+  // Stay while the signal lasts and for hangMs after it goes, then log the hit
+  private async hold(plan: ScanStart, channel: ScanChannel, sUnits: number | undefined, generation: number) {
+    this.state = "holding";
+    this.emitStatus();
+    const at = Date.now();
+    let lastHeard = at;
+    let peak = sUnits;
+
+    while (generation === this.generation && !this.skipping && !this.lockouts.has(channel.frequencyHz)) {
+      await this.wait(HOLD_CHECK_MS);
+      if (generation !== this.generation || this.skipping) break;
+      const heard = await this.listen(plan);
+      if (heard.open) {
+        lastHeard = Date.now();
+        if (heard.sUnits !== undefined) peak = Math.max(peak ?? 0, heard.sUnits);
+      } else if (Date.now() - lastHeard >= plan.hangMs) {
+        break;
+      }
+    }
+
+    const hit: ScanHit = {
+      frequencyHz: channel.frequencyHz,
+      mode: channel.mode ?? this.opts.radio.getState().mode,
+      name: channel.name,
+      at,
+      durationMs: lastHeard - at,
+      peakSUnits: peak,
+    };
+    // Stopping on a signal is still a hit; only a scan still running moves on
+    this.hits = [hit, ...this.hits].slice(0, MAX_HITS);
+    if (generation === this.generation) {
+      this.skipping = false;
+      this.state = "scanning";
+    }
+    this.emitStatus();
+  }
+
+  private async listen(plan: ScanStart): Promise<{ open: boolean; sUnits?: number }> {
+    const { radio } = this.opts;
+    if (plan.stopOn === "squelch") {
+      const open = await radio.getSquelchOpen();
+      return { open, sUnits: radio.getState().meters?.sUnits };
+    }
+    await radio.refreshMeters();
+    const sUnits = radio.getState().meters?.sUnits ?? 0;
+    return { open: sUnits >= plan.minSUnits, sUnits };
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.cancelWait = null;
+        resolve();
+      };
+      const timer = setTimeout(done, Math.max(0, ms));
+      this.cancelWait = done;
+    });
+  }
+
+  private emitStatus() {
+    this.emit(EVENTS.SCAN_STATUS, this.getStatus());
+  }
+}
@@ -0,0 +1,149 @@
+import { EventEmitter } from "node:events";
+import type { RadioState, TuneResult, TxForcedUnkey, TxUnkeyReason } from "../dtos.js";
+import { EVENTS } from "../events.js";
+import { isRigError } from "../errors.js";
+import type { Logger } from "../types.js";
+import type { RadioService } from "./radio.js";
+
+export interface TxWatchdogOptions {
+  radio: RadioService;
+  // Longest continuous transmission before the rig is unkeyed
+  maxTxMs: number;
+  rigId?: string;
+  logger?: Logger;
+}
+
+/**
+ * Keeps one rig from being left transmitting. It times every transmission,
+ * whoever keyed it, and unkeys once maxTxMs is up; it also unkeys when the
+ * client that keyed goes away, when the backend shuts down and when the rig
+ * stops answering mid-transmission. Each forced unkey is reported as a
+ * TX_FORCED_UNKEY event.
+ */
+export class TxWatchdog extends EventEmitter {
+  // Who last keyed through setPtt; null once unkeyed or when keyed elsewhere
+  private owner: string | null = null;
+  private keyedAt: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private unkeying = false;
+  // Transmissions the rig carries on with by itself (a CW message, a tune),
+  // by owner, and how to cut each one off
+  private readonly sessions = new Map<string, () => Promise<void>>();
+
+  constructor(private readonly opts: TxWatchdogOptions) {
+    super();
+    opts.radio.on(EVENTS.RADIO_STATE, (state: RadioState) => this.observe(state.ptt === true));
+  }
+
+  /** Key or unkey for a client; the owner is whoever a lost connection is matched against. */
+  async setPtt(ptt: boolean, owner?: string) {
+    try {
+      await this.opts.radio.setPtt(ptt);
+    } catch (error: any) {
+      // The rig may have keyed before failing; make sure it has not. A refusal
+      // on licence grounds never reached the rig.
+      const refused = isRigError(error) && error.kind === "forbidden";
+      if (ptt && !refused) await this.forceUnkey("error", `Keying failed: ${error?.message ?? "rig error"}`);
+      throw error;
+    }
+    this.owner = ptt ? owner ?? null : null;
+    this.observe(ptt);
+  }
+
+  /**
+   * Run something that keys the rig for a while on an owner's behalf, such
+   * as a CW message; if the owner goes before it is over, stop cuts it off.
+   */
+  async transmit<T>(owner: string | undefined, run: () => Promise<T>, stop: () => Promise<void>): Promise<T> {
+    if (owner === undefined) return run();
+    this.sessions.set(owner, stop);
+    try {
+      return await run();
+    } finally {
+      if (this.sessions.get(owner) === stop) this.sessions.delete(owner);
+    }
+  }
+
+  /** Tune the antenna for a client, keying through setPtt so the carrier has an owner. */
+  tune(durationMs: number | undefined, owner?: string): Promise<TuneResult> {
+    const { radio } = this.opts;
+    return this.transmit(
+      owner,
+      () => radio.tune(durationMs, (ptt) => this.setPtt(ptt, owner)),
+      async () => radio.cancelTune()
+    );
+  }
+
+  /** A client has gone; stop what it started and unkey if its transmission is still on the air. */
+  async releaseOwner(owner: string) {
+    const stop = this.sessions.get(owner);
+    this.sessions.delete(owner);
+    if (stop) {
+      try {
+        await stop();
+      } catch (error) {
+        this.opts.logger?.error({ rigId: this.opts.rigId, err: error }, "Stopping a lost client's transmission failed");
+      }
+    }
+    if ((this.owner !== owner && !stop) || !this.transmitting()) return;
+    await this.forceUnkey("client_lost", "The client that keyed the transmitter disconnected");
+  }
+
+  /** The rig failed to answer; unkey rather than trust it to still be under control. */
+  async adapterError(error: unknown) {
+    if (!this.transmitting()) return;
+    const message = error instanceof Error ? error.message : "rig error";
+    await this.forceUnkey("error", `Rig error while transmitting: ${message}`);
+  }
+
+  async shutdown() {
+    if (this.transmitting()) await this.forceUnkey("shutdown", "Backend shutting down");
+    this.clearTimer();
+  }
+
+  private transmitting(): boolean {
+    return this.keyedAt !== null || this.opts.radio.getState().ptt === true;
+  }
+
+  private observe(ptt: boolean) {
+    if (ptt && this.keyedAt === null) {
+      this.keyedAt = Date.now();
+      this.timer = setTimeout(() => {
+        const minutes = (this.opts.maxTxMs / 60000).toFixed(1);
+        void this.forceUnkey("timeout", `Transmit time limit of ${minutes} min reached`);
+      }, this.opts.maxTxMs);
+    } else if (!ptt && this.keyedAt !== null) {
+      // The owner stays until the next setPtt: a rig with a slow relay reads
+      // unkeyed for a moment after keying
+      this.keyedAt = null;
+      this.clearTimer();
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private async forceUnkey(reason: TxUnkeyReason, message: string) {
+    if (this.unkeying) return;
+    this.unkeying = true;
+    const txMs = this.keyedAt === null ? 0 : Date.now() - this.keyedAt;
+    this.clearTimer();
+    let unkeyed = true;
+    try {
+      await this.opts.radio.setPtt(false);
+    } catch (error) {
+      // Nothing more to try from here; the event says the rig may still be keyed
+      unkeyed = false;
+      this.opts.logger?.error({ rigId: this.opts.rigId, err: error }, "Forced unkey failed");
+    } finally {
+      this.unkeying = false;
+    }
+    this.owner = null;
+    this.keyedAt = null;
+    this.opts.logger?.warn({ rigId: this.opts.rigId, reason, txMs, unkeyed }, "Transmitter unkeyed by watchdog");
+    const event: TxForcedUnkey = { reason, message, txMs, unkeyed, at: Date.now() };
+    this.emit(EVENTS.TX_FORCED_UNKEY, event);
+  }
+}
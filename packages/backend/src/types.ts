@@ -45,3 +45,10 @@ export const ServiceMetadataSchema = z.object({
 });
 export type ServiceMetadata = z.infer<typeof ServiceMetadataSchema>;
 
+
+// The subset of Fastify's pino logger that services log through
+export interface Logger {
+  info(obj: object, msg: string): void;
+  warn(obj: object, msg: string): void;
+  error(obj: object, msg: string): void;
+}
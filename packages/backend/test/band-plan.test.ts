@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkTransmit, findBandPlan, type TxPrivileges } from "../src/band-plan.js";
+
+const us = findBandPlan("us")!;
+const general: TxPrivileges = { plan: us, licenseClass: "general" };
+const technician: TxPrivileges = { plan: us, licenseClass: "technician" };
+const anyClass: TxPrivileges = { plan: us };
+
+test("a signal inside the class's privileges is allowed with the limit there", () => {
+  assert.deepEqual(checkTransmit(general, { frequencyHz: 14_250_000, mode: "USB", powerWatts: 100 }), {
+    allowed: true,
+    maxPowerWatts: 1500,
+  });
+});
+
+test("a frequency outside the amateur bands is refused", () => {
+  const verdict = checkTransmit(general, { frequencyHz: 14_400_000, mode: "USB" });
+  assert.equal(verdict.allowed, false);
+  assert.match(!verdict.allowed ? verdict.reason : "", /outside the amateur bands/);
+});
+
+test("phone in a class's CW-only segment is refused", () => {
+  const verdict = checkTransmit(general, { frequencyHz: 14_100_000, mode: "USB" });
+  assert.equal(verdict.allowed, false);
+  assert.match(!verdict.allowed ? verdict.reason : "", /outside the General privileges/);
+});
+
+test("a sideband that spreads past a segment edge is refused", () => {
+  // USB occupies the 2.4 kHz above the dial, past the top of 20 m
+  const verdict = checkTransmit(general, { frequencyHz: 14_349_000, mode: "USB" });
+  assert.equal(verdict.allowed, false);
+  assert.match(!verdict.allowed ? verdict.reason : "", /past the edge/);
+});
+
+test("power over the class's limit is refused", () => {
+  const verdict = checkTransmit(technician, { frequencyHz: 28_400_000, mode: "USB", powerWatts: 500 });
+  assert.equal(verdict.allowed, false);
+  assert.match(!verdict.allowed ? verdict.reason : "", /over the 200 W limit/);
+});
+
+test("without a class the most generous overlapping limit applies", () => {
+  assert.deepEqual(checkTransmit(anyClass, { frequencyHz: 28_400_000, mode: "USB", powerWatts: 500 }), {
+    allowed: true,
+    maxPowerWatts: 1500,
+  });
+});
+
+test("a signal may straddle adjoining segments", () => {
+  assert.deepEqual(checkTransmit(general, { frequencyHz: 28_499_000, mode: "USB", powerWatts: 100 }), {
+    allowed: true,
+    maxPowerWatts: 1500,
+  });
+});
+
+test("60 m channels take USB, data and CW on their standard frequencies", () => {
+  for (const signal of [
+    { frequencyHz: 5_330_500, mode: "USB" as const },
+    { frequencyHz: 5_357_000, mode: "PKTUSB" as const },
+    { frequencyHz: 5_403_500, mode: "PKTUSB" as const },
+    { frequencyHz: 5_348_000, mode: "CW" as const },
+  ]) {
+    assert.deepEqual(checkTransmit(general, { ...signal, powerWatts: 100 }), { allowed: true, maxPowerWatts: 100 });
+  }
+});
+
+test("a 60 m signal off the channel is refused", () => {
+  assert.equal(checkTransmit(general, { frequencyHz: 5_332_000, mode: "USB" }).allowed, false);
+  assert.equal(checkTransmit(general, { frequencyHz: 5_360_000, mode: "PKTUSB" }).allowed, false);
+  assert.equal(checkTransmit(general, { frequencyHz: 5_364_000, mode: "USB" }).allowed, false);
+});
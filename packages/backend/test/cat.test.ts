@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CAT_FAMILIES,
+  CAT_FAMILY_NAMES,
+  catModeFromCode,
+  catModeToCode,
+  catSmeterToDbm,
+  formatCatFrequency,
+} from "../src/adapters/cat-families.js";
+import { CatAdapter } from "../src/adapters/cat.js";
+import { FakeCatRig } from "../src/adapters/fake-cat.js";
+import type { RadioState } from "../src/dtos.js";
+import { isRigError } from "../src/errors.js";
+
+test("frequencies are padded to the family's digit count", () => {
+  assert.equal(formatCatFrequency(CAT_FAMILIES.kenwood, 7_074_000), "00007074000");
+  assert.equal(formatCatFrequency(CAT_FAMILIES.yaesu, 7_074_000.4), "007074000");
+});
+
+test("mode codes map both ways and the first code for a mode is the one sent", () => {
+  assert.equal(catModeFromCode(CAT_FAMILIES.yaesu, "c"), "PKTUSB");
+  assert.equal(catModeToCode(CAT_FAMILIES.yaesu, "AMN"), "D");
+  assert.equal(catModeFromCode(CAT_FAMILIES.elecraft, "6"), "PKTUSB");
+  assert.equal(catModeFromCode(CAT_FAMILIES.flex, "6"), "PKTLSB");
+  assert.equal(catModeToCode(CAT_FAMILIES.kenwood, "PKTUSB"), undefined);
+  assert.equal(catModeFromCode(CAT_FAMILIES.kenwood, "8"), undefined);
+});
+
+test("S-meter readings run S0 to S9 to S9+60 on each family's scale", () => {
+  for (const name of CAT_FAMILY_NAMES) {
+    const { smeter } = CAT_FAMILIES[name];
+    assert.equal(catSmeterToDbm(smeter, 0), -127, name);
+    assert.equal(catSmeterToDbm(smeter, smeter.s9), -73, name);
+    assert.equal(catSmeterToDbm(smeter, smeter.max), -13, name);
+    assert.equal(catSmeterToDbm(smeter, smeter.max + 50), -13, name);
+  }
+});
+
+for (const family of CAT_FAMILY_NAMES) {
+  test(`${family}: the adapter reads and sets state over the fake rig`, async () => {
+    const rig = new FakeCatRig({ family, state: { mode: "CW", bandwidthHz: 500, powerWatts: 25 } });
+    const adapter = new CatAdapter({ family, transport: { kind: "tcp" }, commandTimeoutMs: 500 });
+    try {
+      await adapter.connect("127.0.0.1", await rig.listen());
+      await adapter.getFrequency();
+      assert.equal(rig.state.ai, true);
+
+      const state = await adapter.getState();
+      assert.equal(state.frequencyHz, 14_074_000);
+      assert.equal(state.mode, "CW");
+      assert.equal(state.power, 25);
+      assert.equal(state.ptt, false);
+      assert.equal(state.bandwidthHz, family === "elecraft" ? 500 : undefined);
+
+      await adapter.setFrequency(7_030_000);
+      await adapter.setMode("LSB", 2400);
+      await adapter.setPower(40);
+      await adapter.setPtt(true);
+      assert.equal(await adapter.getPTT(), true);
+      assert.equal(rig.state.frequencyHz, 7_030_000);
+      assert.equal(rig.state.mode, "LSB");
+      assert.equal(rig.state.powerWatts, 40);
+      if (family === "elecraft") assert.equal(rig.state.bandwidthHz, 2400);
+
+      const meters = await adapter.getMeters(true);
+      for (const name of Object.keys(CAT_FAMILIES[family].meters)) assert.ok(name in meters, `${family} ${name}`);
+      await adapter.setPtt(false);
+      assert.equal((await adapter.getMeters(false)).signalDbm, -73);
+
+      await adapter.disconnect();
+      for (let i = 0; i < 100 && rig.state.ai; i++) await new Promise((r) => setTimeout(r, 5));
+      assert.equal(rig.state.ai, false);
+    } finally {
+      await adapter.disconnect();
+      await rig.close();
+    }
+  });
+}
+
+test("front-panel changes arrive as auto-information", async () => {
+  for (const family of ["kenwood", "yaesu"] as const) {
+    const rig = new FakeCatRig({ family });
+    const adapter = new CatAdapter({ family, transport: { kind: "tcp" } });
+    const updates: Array<Partial<RadioState>> = [];
+    adapter.onStateChange((partial) => updates.push(partial));
+    try {
+      await adapter.connect("127.0.0.1", await rig.listen());
+      await adapter.getFrequency();
+      rig.tune(3_573_000);
+      rig.selectMode("CW");
+      // Yaesu pushes look like answers to FA;, so nothing is asked meanwhile
+      for (let i = 0; i < 100 && updates.length < 2; i++) await new Promise((r) => setTimeout(r, 5));
+      assert.equal(updates[0]?.frequencyHz, 3_573_000, family);
+      assert.equal(updates[1]?.mode, "CW", family);
+    } finally {
+      await adapter.disconnect();
+      await rig.close();
+    }
+  }
+});
+
+test("a closed connection fails the queries waiting on it", async () => {
+  const rig = new FakeCatRig({ family: "kenwood" });
+  const adapter = new CatAdapter({ family: "kenwood", transport: { kind: "tcp" } });
+  await adapter.connect("127.0.0.1", await rig.listen());
+  await rig.close();
+  await assert.rejects(adapter.getFrequency(), (e: unknown) => isRigError(e) && ["io", "not_connected"].includes(e.kind));
+  await adapter.disconnect();
+});
@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CIV_CMD,
+  CIV_CONTROLLER,
+  CIV_DEFAULT_ADDRESS,
+  CivFrameReader,
+  decodeBcd,
+  decodeFrequency,
+  decodeLevel,
+  decodeOffset,
+  encodeBcd,
+  encodeFrame,
+  encodeFrequency,
+  encodeLevel,
+  encodeOffset,
+  modeFromCiv,
+  modeToCiv,
+  passbandFromIndex,
+  passbandToIndex,
+} from "../src/adapters/civ-protocol.js";
+import { isRigError } from "../src/errors.js";
+
+const bytes = (hex: string) => Buffer.from(hex.replace(/\s+/g, ""), "hex");
+
+test("BCD bytes carry two decimal digits", () => {
+  assert.equal(encodeBcd(0), 0x00);
+  assert.equal(encodeBcd(42), 0x42);
+  assert.equal(encodeBcd(99), 0x99);
+  assert.equal(decodeBcd(0x75), 75);
+});
+
+test("frequencies are five BCD bytes, least significant pair first", () => {
+  assert.deepEqual(encodeFrequency(14_074_000), [0x00, 0x40, 0x07, 0x14, 0x00]);
+  assert.deepEqual(encodeFrequency(1_296_100_001), [0x01, 0x00, 0x10, 0x96, 0x12]);
+  assert.equal(decodeFrequency(bytes("00 40 07 14 00")), 14_074_000);
+  // Older rigs send four bytes
+  assert.equal(decodeFrequency(bytes("00 50 57 03")), 3_575_000);
+  assert.throws(() => decodeFrequency(bytes("00 40 07")), (e: unknown) => isRigError(e) && e.kind === "protocol");
+});
+
+test("levels are two BCD bytes, clamped to four digits", () => {
+  assert.deepEqual(encodeLevel(128), [0x01, 0x28]);
+  assert.deepEqual(encodeLevel(-3), [0x00, 0x00]);
+  assert.deepEqual(encodeLevel(12_345), [0x99, 0x99]);
+  assert.equal(decodeLevel(bytes("02 55")), 255);
+  assert.throws(() => decodeLevel(bytes("02")), (e: unknown) => isRigError(e) && e.kind === "protocol");
+});
+
+test("offsets carry a sign byte and stop at 9.999 kHz", () => {
+  assert.deepEqual(encodeOffset(150), [0x50, 0x01, 0x00]);
+  assert.deepEqual(encodeOffset(-1230), [0x30, 0x12, 0x01]);
+  assert.deepEqual(encodeOffset(-20_000), [0x99, 0x99, 0x01]);
+  assert.equal(decodeOffset(bytes("30 12 01")), -1230);
+  assert.equal(decodeOffset(bytes("50 01 00")), 150);
+});
+
+test("frames are wrapped in the preamble and end byte", () => {
+  const frame = encodeFrame(CIV_DEFAULT_ADDRESS, CIV_CONTROLLER, CIV_CMD.SET_FREQ, encodeFrequency(7_074_000));
+  assert.deepEqual(frame, bytes("FE FE 94 E0 05 00 40 07 07 00 FD"));
+});
+
+test("the frame reader splits a stream, across chunk boundaries", () => {
+  const reader = new CivFrameReader();
+  assert.deepEqual(reader.push(bytes("FE FE E0 94 03 00 40")), []);
+  const frames = reader.push(bytes("07 14 00 FD FE FE E0 94 FB FD FE"));
+  assert.deepEqual(frames, [
+    { to: 0xe0, from: 0x94, command: 0x03, data: bytes("00 40 07 14 00") },
+    { to: 0xe0, from: 0x94, command: 0xfb, data: Buffer.alloc(0) },
+  ]);
+  assert.deepEqual(reader.push(bytes("FE E0 94 FA FD")), [{ to: 0xe0, from: 0x94, command: 0xfa, data: Buffer.alloc(0) }]);
+});
+
+test("the frame reader drops noise, collisions, short frames and a single preamble", () => {
+  const reader = new CivFrameReader();
+  const frames = reader.push(
+    bytes("12 34 FE FE FC FC FC FD FE FE E0 FD 00 FE E0 94 04 03 01 FD")
+  );
+  assert.deepEqual(frames, [{ to: 0xe0, from: 0x94, command: 0x04, data: bytes("03 01") }]);
+});
+
+test("data modes are the base mode with the data flag", () => {
+  assert.equal(modeFromCiv(0x01, false), "USB");
+  assert.equal(modeFromCiv(0x01, true), "PKTUSB");
+  // Modes without a data variant ignore the flag
+  assert.equal(modeFromCiv(0x03, true), "CW");
+  assert.deepEqual(modeToCiv("PKTLSB"), { code: 0x00, data: true });
+  assert.deepEqual(modeToCiv("CWR"), { code: 0x07, data: false });
+  assert.equal(modeToCiv("DSB"), undefined);
+  assert.throws(() => modeFromCiv(0x42, false), (e: unknown) => isRigError(e) && e.kind === "protocol");
+});
+
+test("passband indexes step by 50 Hz to 500, then by 100 Hz; AM by 200 Hz", () => {
+  assert.equal(passbandFromIndex("CW", 9), 500);
+  assert.equal(passbandFromIndex("USB", 31), 2700);
+  assert.equal(passbandFromIndex("AM", 29), 6000);
+  for (const [mode, hz] of [["CW", 250], ["CW", 500], ["USB", 2400], ["USB", 3600], ["AM", 9000]] as const) {
+    assert.equal(passbandFromIndex(mode, passbandToIndex(mode, hz)), hz);
+  }
+  assert.equal(passbandToIndex("USB", 10_000), 40);
+});
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cwTimeline, expandCwMacros, normalizeCwText } from "../src/cw.js";
+import { isRigError } from "../src/errors.js";
+
+const invalid = (e: unknown) => isRigError(e) && e.kind === "invalid";
+
+test("text is upper-cased with whitespace collapsed", () => {
+  assert.equal(normalizeCwText("  cq\tcq\n de  k1abc/p  "), "CQ CQ DE K1ABC/P");
+  assert.equal(normalizeCwText("5nn tu 73?"), "5NN TU 73?");
+});
+
+test("characters without Morse are refused", () => {
+  for (const text of ["CQ | TEST", "73!", "ÄB", "a;b", "x_y"]) assert.throws(() => normalizeCwText(text), invalid, text);
+});
+
+test("PARIS plus a word gap is fifty units", () => {
+  const starts = cwTimeline("PARIS ", 20);
+  // 60 ms units at 20 wpm: P is 11 units and each character gap 3
+  assert.deepEqual(starts.slice(0, 3), [0, 14 * 60, 22 * 60]);
+  assert.equal(starts.at(-1), 3000);
+  assert.equal(starts.length, "PARIS ".length + 1);
+});
+
+test("the last character has no trailing gap and speed scales the timeline", () => {
+  // E is one unit and T three, with a three unit gap between
+  assert.deepEqual(cwTimeline("ET", 12), [0, 400, 700]);
+  assert.deepEqual(cwTimeline("ET", 24), [0, 200, 350]);
+  // A word space counts seven units between the characters around it
+  assert.deepEqual(cwTimeline("E E", 12), [0, 400, 800, 900]);
+  assert.deepEqual(cwTimeline("", 20), [0]);
+});
+
+test("macros are filled in, case-insensitively and trimmed", () => {
+  assert.equal(
+    expandCwMacros("{call} de {MYCALL} ur {Rst} {RST}", { myCall: "K1ABC", call: " G4XYZ ", rst: "599" }),
+    "G4XYZ de K1ABC ur 599 599"
+  );
+  assert.equal(expandCwMacros("CQ CQ", {}), "CQ CQ");
+});
+
+test("unknown macros and empty values are refused", () => {
+  assert.throws(() => expandCwMacros("{NAME}", { myCall: "K1ABC" }), /Unknown macro \{NAME\}/);
+  assert.throws(() => expandCwMacros("{call}", { call: "  " }), /Nothing to send for \{CALL\}/);
+  assert.throws(() => expandCwMacros("{RST}", {}), invalid);
+});
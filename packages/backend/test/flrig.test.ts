@@ -0,0 +1,126 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { FakeFlrigServer } from "../src/adapters/fake-flrig.js";
+import { FlrigAdapter, lookupFlrigMode } from "../src/adapters/flrig.js";
+import {
+  XmlRpcDouble,
+  XmlRpcFault,
+  encodeFault,
+  encodeMethodCall,
+  encodeMethodResponse,
+  parseMethodCall,
+  parseMethodResponse,
+} from "../src/adapters/xmlrpc.js";
+import { isRigError } from "../src/errors.js";
+
+test("method calls round-trip every value type", () => {
+  const params = [
+    "a < b & c",
+    42,
+    1.5,
+    new XmlRpcDouble(7074000),
+    true,
+    null,
+    ["x", 1],
+    { name: "IC-7300", bands: [160, 80] },
+  ];
+  const xml = encodeMethodCall("rig.test", params);
+  assert.match(xml, /<double>7074000<\/double>/);
+  assert.match(xml, /<int>42<\/int>/);
+  assert.deepEqual(parseMethodCall(xml), {
+    method: "rig.test",
+    params: ["a < b & c", 42, 1.5, 7074000, true, null, ["x", 1], { name: "IC-7300", bands: [160, 80] }],
+  });
+});
+
+test("responses decode untyped strings, entities, CDATA and the legacy types", () => {
+  const xml = `<?xml version="1.0"?>
+    <!-- flrig -->
+    <methodResponse><params><param><value><array><data>
+      <value>USB-D</value>
+      <value><i4> 7 </i4></value>
+      <value><boolean>0</boolean></value>
+      <value><string>&lt;&#65;&#x42;&amp;&gt;</string></value>
+      <value><string><![CDATA[<raw>]]></string></value>
+      <value><base64>aGVsbG8=</base64></value>
+      <value><nil/></value>
+    </data></array></value></param></params></methodResponse>`;
+  assert.deepEqual(parseMethodResponse(xml), ["USB-D", 7, false, "<AB&>", "<raw>", "hello", null]);
+  assert.equal(parseMethodResponse(encodeMethodResponse("14074000")), "14074000");
+});
+
+test("faults are thrown with their code and string", () => {
+  assert.throws(
+    () => parseMethodResponse(encodeFault(-1, "No such method 'rig.x'")),
+    (e: unknown) => e instanceof XmlRpcFault && e.faultCode === -1 && e.faultString === "No such method 'rig.x'"
+  );
+});
+
+test("malformed documents are protocol errors", () => {
+  for (const xml of [
+    "<methodResponse><params><param><value><int>1</int></value></param>",
+    "<methodResponse><params></param></params></methodResponse>",
+    "<methodResponse><params><param><value><int>one</int></value></param></params></methodResponse>",
+    "<methodResponse><params><param><value><date>x</date></value></param></params></methodResponse>",
+    "<html>Not found</html>",
+  ]) {
+    assert.throws(() => parseMethodResponse(xml), (e: unknown) => isRigError(e) && e.kind === "protocol", xml);
+  }
+});
+
+test("flrig mode names map onto ours", () => {
+  assert.equal(lookupFlrigMode("USB-D"), "PKTUSB");
+  assert.equal(lookupFlrigMode("cw-r"), "CWR");
+  assert.equal(lookupFlrigMode("DATA-U"), "PKTUSB");
+  assert.equal(lookupFlrigMode("USB"), "USB");
+  assert.equal(lookupFlrigMode("WFM-WIDE-X"), undefined);
+});
+
+const fake = new FakeFlrigServer({ state: { maxPowerWatts: 200, powerWatts: 50 } });
+const adapter = new FlrigAdapter({ timeoutMs: 1000 });
+
+before(async () => {
+  await adapter.connect("127.0.0.1", await fake.listen());
+});
+
+after(async () => {
+  await adapter.disconnect();
+  await fake.close();
+});
+
+test("the adapter reads state and scales power to the rig's maximum", async () => {
+  assert.deepEqual(await adapter.getState(), {
+    connected: true,
+    frequencyHz: 14_074_000,
+    mode: "PKTUSB",
+    rigModel: "IC-7300",
+    bandwidthHz: 3000,
+    power: 25,
+    ptt: false,
+  });
+  await adapter.setPower(50);
+  assert.equal(fake.state.powerWatts, 100);
+});
+
+test("the adapter sets modes by the rig's own names and snaps the filter", async () => {
+  await adapter.setMode("CWR", 450);
+  assert.equal(fake.state.mode, "CW-R");
+  assert.equal(fake.state.bandwidthHz, 500);
+  await assert.rejects(adapter.setMode("AMN"), (e: unknown) => isRigError(e) && e.kind === "not_supported");
+});
+
+test("the adapter sends frequencies as doubles and keys the rig", async () => {
+  await adapter.setFrequency(7_074_000.4);
+  assert.equal(fake.state.frequencyHz, 7_074_000);
+  await adapter.setPtt(true);
+  assert.equal(fake.state.ptt, true);
+  assert.equal((await adapter.getMeters(true)).powerWatts, 100);
+  await adapter.setPtt(false);
+});
+
+test("faults from flrig are rejections and unknown mode names protocol errors", async () => {
+  fake.state.modes = fake.state.modes.filter((name) => name !== "USB");
+  await assert.rejects(adapter.setMode("USB"), (e: unknown) => isRigError(e) && e.kind === "rejected");
+  fake.state.mode = "PSK31";
+  await assert.rejects(adapter.getMode(), (e: unknown) => isRigError(e) && e.kind === "protocol");
+});
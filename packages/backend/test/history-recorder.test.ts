@@ -0,0 +1,63 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { HISTORY_FIELDS, type RadioState } from "../src/dtos.js";
+import { HistoryRecorder } from "../src/services/history-recorder.js";
+
+const dirs: string[] = [];
+after(() => Promise.all(dirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+async function recorder() {
+  const dir = await mkdtemp(path.join(tmpdir(), "rigboss-history-"));
+  dirs.push(dir);
+  const history = new HistoryRecorder({ dir, retentionMs: 7 * 24 * 60 * 60 * 1000, maxBytes: 10 * 1024 * 1024 });
+  await history.start();
+  return { dir, history };
+}
+
+const T0 = Date.parse("2026-03-01T12:00:00Z");
+const rig = (state: Partial<RadioState>): RadioState => ({ connected: true, ...state });
+const range = (from: number, to: number) => ({ from, to, fields: HISTORY_FIELDS, limit: 1000 });
+
+test("only what changed is written, and a query starts from the values in force", async () => {
+  const { dir, history } = await recorder();
+  history.record("main", rig({ frequencyHz: 14_074_000, mode: "USB", power: 50, ptt: false }), T0);
+  history.record("main", rig({ frequencyHz: 14_074_000, mode: "USB", power: 50, ptt: true }), T0 + 1000);
+  history.record("main", rig({ frequencyHz: 7_074_000, mode: "USB", power: 50, ptt: false }), T0 + 2000);
+  history.record("other", rig({ frequencyHz: 3_573_000 }), T0 + 2500);
+  history.record("main", rig({ connected: false }), T0 + 3000);
+
+  const result = await history.query("main", range(T0 + 500, T0 + 10_000));
+  await history.stop();
+  assert.deepEqual(result.samples, [
+    { t: T0 + 500, frequencyHz: 14_074_000, mode: "USB", power: 50, ptt: false },
+    { t: T0 + 1000, ptt: true },
+    { t: T0 + 2000, frequencyHz: 7_074_000, ptt: false },
+  ]);
+  const lines = (await readFile(path.join(dir, "2026-03-01.jsonl"), "utf8")).trim().split("\n");
+  assert.equal(lines.length, 4);
+});
+
+test("samples after the end of the range are left out", async () => {
+  const { history } = await recorder();
+  for (let i = 0; i < 10; i++) history.record("main", rig({ frequencyHz: 14_000_000 + i * 1000 }), T0 + i * 1000);
+  const result = await history.query("main", range(T0, T0 + 4500));
+  await history.stop();
+  assert.deepEqual(
+    result.samples.map((s) => s.frequencyHz),
+    [14_000_000, 14_001_000, 14_002_000, 14_003_000, 14_004_000]
+  );
+});
+
+test("meter-only samples are merged to fit the limit, keeping the peaks", async () => {
+  const { history } = await recorder();
+  history.record("main", rig({ frequencyHz: 14_074_000, meters: { swr: 1.1 } }), T0);
+  for (let i = 1; i <= 20; i++) history.record("main", rig({ frequencyHz: 14_074_000, meters: { swr: i === 7 ? 3.5 : 1 + i / 100 } }), T0 + i * 1000);
+  const result = await history.query("main", { ...range(T0, T0 + 30_000), fields: ["swr"], limit: 5 });
+  await history.stop();
+  assert.equal(result.thinned, true);
+  assert.ok(result.samples.length <= 5);
+  assert.equal(Math.max(...result.samples.map((s) => s.swr ?? 0)), 3.5);
+});
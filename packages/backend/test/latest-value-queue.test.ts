@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LatestValueQueue } from "../src/services/latest-value-queue.js";
+
+// A write that holds until released, so values can pile up behind it
+function gatedWriter<T>() {
+  const written: T[] = [];
+  let release = () => {};
+  const write = async (value: T) => {
+    written.push(value);
+    await new Promise<void>((resolve) => (release = resolve));
+    return value;
+  };
+  return { written, write, release: () => release() };
+}
+
+test("values submitted during a write collapse into the newest", async () => {
+  const writer = gatedWriter<number>();
+  const queue = new LatestValueQueue(writer.write);
+
+  const first = queue.submit(1);
+  const overtaken = [queue.submit(2), queue.submit(3), queue.submit(4)];
+  writer.release();
+  assert.equal(await first, 1);
+  await new Promise((resolve) => setImmediate(resolve));
+  writer.release();
+
+  assert.deepEqual(await Promise.all(overtaken), [4, 4, 4]);
+  assert.deepEqual(writer.written, [1, 4]);
+});
+
+test("a merge function combines waiting values instead of replacing them", async () => {
+  const writer = gatedWriter<Record<string, number>>();
+  const queue = new LatestValueQueue(writer.write, (older, newer) => ({ ...older, ...newer }));
+
+  const first = queue.submit({ a: 1 });
+  const merged = Promise.all([queue.submit({ b: 2 }), queue.submit({ a: 3 })]);
+  writer.release();
+  await first;
+  await new Promise((resolve) => setImmediate(resolve));
+  writer.release();
+
+  assert.deepEqual(await merged, [
+    { a: 3, b: 2 },
+    { a: 3, b: 2 },
+  ]);
+  assert.deepEqual(writer.written, [{ a: 1 }, { a: 3, b: 2 }]);
+});
+
+test("a failed write rejects everyone waiting on it and the queue carries on", async () => {
+  const error = new Error("rig said no");
+  let fail = true;
+  const queue = new LatestValueQueue(async (value: number) => {
+    if (fail) throw error;
+    return value;
+  });
+
+  const results = await Promise.allSettled([queue.submit(1), queue.submit(2)]);
+  assert.ok(results.every((r) => r.status === "rejected" && r.reason === error));
+
+  fail = false;
+  assert.equal(await queue.submit(5), 5);
+});
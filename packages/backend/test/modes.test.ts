@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isRigError } from "../src/errors.js";
+import { defaultPassband, modeFromHamlib, modeInfo, toHamlibMode, type ModeName } from "../src/modes.js";
+
+test("modes map to and from Hamlib names, aliases included", () => {
+  assert.equal(toHamlibMode("PKTUSB"), "PKTUSB");
+  assert.equal(modeFromHamlib("usb-d"), "PKTUSB");
+  assert.equal(modeInfo("USB").label, "USB");
+  assert.equal(defaultPassband("USB"), 2400);
+});
+
+test("an unknown mode name is an invalid argument", () => {
+  const unknown = "WSPR" as ModeName;
+  for (const lookup of [modeInfo, toHamlibMode, defaultPassband]) {
+    assert.throws(() => lookup(unknown), (e) => isRigError(e) && e.kind === "invalid");
+  }
+});
+
+test("an unknown mode from the rig is a protocol error", () => {
+  assert.throws(() => modeFromHamlib("WSPR"), (e) => isRigError(e) && e.kind === "protocol");
+});
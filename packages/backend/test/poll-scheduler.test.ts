@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import type { RadioState } from "../src/dtos.js";
+import { EVENTS } from "../src/events.js";
+import { PollScheduler } from "../src/services/poll-scheduler.js";
+import type { RadioService } from "../src/services/radio.js";
+
+// Records when each kind of read happens, in mocked time
+class StubRadio extends EventEmitter {
+  state: RadioState = { connected: true, frequencyHz: 14_074_000, mode: "USB", ptt: false };
+  readonly reads = { core: [] as number[], meters: [] as number[], settings: [] as number[] };
+
+  getState() {
+    return this.state;
+  }
+  async refreshCore() {
+    this.reads.core.push(Date.now());
+  }
+  async refreshMeters() {
+    this.reads.meters.push(Date.now());
+  }
+  async refreshSettings() {
+    this.reads.settings.push(Date.now());
+  }
+  change(changes: Partial<RadioState>) {
+    this.state = { ...this.state, ...changes };
+    this.emit(EVENTS.RADIO_STATE, this.state);
+  }
+}
+
+// Mocked time starts here; the scheduler takes a read time of zero as never
+const T0 = 1_000_000;
+const RATES = { activeMs: 100, idleMs: 1000, txMeterMs: 100, rxMeterMs: 300, settingsMs: 2000 };
+
+// Move mocked time on in small steps, letting each read's promise settle
+async function advance(ms: number) {
+  for (let t = 0; t < ms; t += 10) {
+    mock.timers.tick(10);
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+// Reads from `from` ms after the start up to `to`
+const between = (times: number[], from: number, to: number) =>
+  times.filter((t) => t >= T0 + from && t < T0 + to).length;
+
+let radio: StubRadio;
+let poller: PollScheduler;
+let errors: unknown[];
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ["setTimeout", "Date"], now: T0 });
+  radio = new StubRadio();
+  errors = [];
+  poller = new PollScheduler({
+    radio: radio as unknown as RadioService,
+    rates: RATES,
+    onError: (error) => void errors.push(error),
+  });
+});
+
+afterEach(() => {
+  poller.stop();
+  mock.timers.reset();
+});
+
+test("a rig in use is polled at the active rates, then drops to the idle rate", async () => {
+  poller.start();
+  await advance(5000);
+  // The first round reads everything
+  const first = radio.reads.core[0];
+  assert.deepEqual([radio.reads.meters[0], radio.reads.settings[0]], [first, first]);
+  assert.equal(between(radio.reads.core, 0, 1000), 10);
+  assert.equal(between(radio.reads.meters, 0, 1200), 4);
+  assert.equal(poller.isActive(), false);
+
+  await advance(5000);
+  assert.equal(between(radio.reads.core, 6000, 10_000), 4);
+  assert.equal(between(radio.reads.meters, 6000, 10_000), 4);
+  assert.equal(between(radio.reads.settings, 0, 10_000), 5);
+});
+
+test("a change on the rig wakes an idle poller at once", async () => {
+  poller.start();
+  await advance(6000);
+  const before = radio.reads.core.length;
+  radio.change({ frequencyHz: 14_075_000 });
+  await advance(60);
+  assert.equal(radio.reads.core.length, before + 1);
+  assert.equal(poller.isActive(), true);
+  await advance(1000);
+  assert.equal(radio.reads.core.length, before + 11);
+});
+
+test("a poll that changes nothing leaves an idle poller idle", async () => {
+  poller.start();
+  await advance(6000);
+  const before = radio.reads.core.length;
+  radio.change({});
+  await advance(60);
+  assert.equal(radio.reads.core.length, before);
+  assert.equal(poller.isActive(), false);
+});
+
+test("meters go at the transmit rate and the rig stays active while keyed", async () => {
+  poller.start();
+  radio.change({ ptt: true });
+  await advance(8000);
+  assert.equal(poller.isActive(), true);
+  assert.equal(between(radio.reads.meters, 7000, 8000), 10);
+  assert.equal(between(radio.reads.core, 7000, 8000), 10);
+});
+
+test("a failed read is reported and polling carries on", async () => {
+  let fail = true;
+  radio.refreshCore = async () => {
+    radio.reads.core.push(Date.now());
+    if (fail) {
+      fail = false;
+      throw new Error("timed out");
+    }
+  };
+  poller.start();
+  await advance(500);
+  assert.equal(errors.length, 1);
+  assert.ok(radio.reads.core.length >= 5);
+});
+
+test("stop ends polling and a restart reads everything again", async () => {
+  poller.start();
+  await advance(500);
+  poller.stop();
+  const reads = radio.reads.core.length;
+  const meters = radio.reads.meters.length;
+  await advance(2000);
+  assert.equal(radio.reads.core.length, reads);
+  poller.start();
+  await advance(10);
+  assert.equal(radio.reads.settings.length, 2);
+  assert.equal(radio.reads.meters.length, meters + 1);
+});
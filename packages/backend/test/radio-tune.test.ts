@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { RadioMode } from "../src/dtos.js";
+import { RadioService, type RigctlAdapter } from "../src/services/radio.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A rig with no tuner of its own whose power writes take a moment to land
+class SlowPowerRig implements RigctlAdapter {
+  frequencyHz = 14_200_000;
+  mode: RadioMode = "USB";
+  power = 50;
+  ptt = false;
+  readonly keyings: boolean[] = [];
+  onUnkey: (() => void) | null = null;
+
+  async connect() {}
+  async disconnect() {}
+  async getState() {
+    return { frequencyHz: this.frequencyHz, mode: this.mode, power: this.power, ptt: this.ptt };
+  }
+  async setFrequency(hz: number) {
+    this.frequencyHz = hz;
+  }
+  async setMode(mode: RadioMode) {
+    this.mode = mode;
+  }
+  async setPower(percent: number) {
+    await sleep(30);
+    this.power = percent;
+  }
+  async setPtt(ptt: boolean) {
+    this.ptt = ptt;
+    this.keyings.push(ptt);
+    if (!ptt) this.onUnkey?.();
+  }
+}
+
+async function connected(rig: SlowPowerRig) {
+  const radio = new RadioService({ adapter: rig, tunePowerPercent: 10, tuneMode: "AM" });
+  await radio.connect("", 0);
+  await radio.refreshState();
+  return radio;
+}
+
+test("a tune keys a carrier at low power, then puts mode and power back", async () => {
+  const rig = new SlowPowerRig();
+  const radio = await connected(rig);
+  const result = await radio.tune(500);
+  assert.equal(result.usedTuner, false);
+  assert.deepEqual([result.mode, result.powerPercent], ["AM", 10]);
+  assert.deepEqual(rig.keyings, [true, false]);
+  assert.deepEqual([rig.mode, rig.power], ["USB", 50]);
+});
+
+test("a power change still waiting when the tune ends does not land after the restore", async () => {
+  const rig = new SlowPowerRig();
+  const radio = await connected(rig);
+  // Two changes arrive as the carrier drops: one goes to the rig, one waits
+  const changes: Promise<number>[] = [];
+  rig.onUnkey = () => {
+    rig.onUnkey = null;
+    changes.push(radio.setPower(70), radio.setPower(60));
+  };
+  await radio.tune(500);
+  await Promise.all(changes);
+  assert.equal(rig.power, 50);
+  assert.equal(radio.getState().power, 50);
+});
@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RigConfigSchema } from "../src/config.js";
+import type { RadioMode, RadioStateDelta } from "../src/dtos.js";
+import { EVENTS } from "../src/events.js";
+import type { RigctlAdapter } from "../src/services/radio.js";
+import { RigManager } from "../src/services/rig-manager.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class StubRig implements RigctlAdapter {
+  frequencyHz = 14_074_000;
+  mode: RadioMode = "USB";
+  bandwidthHz: number | undefined = 2400;
+
+  async connect() {}
+  async disconnect() {}
+  async getState() {
+    return { frequencyHz: this.frequencyHz, mode: this.mode, bandwidthHz: this.bandwidthHz, ptt: false };
+  }
+  async setFrequency(hz: number) {
+    this.frequencyHz = hz;
+  }
+  async setMode(mode: RadioMode) {
+    this.mode = mode;
+  }
+  async setPower() {}
+  async setPtt() {}
+}
+
+async function setup() {
+  const adapters = new Map<string, StubRig>();
+  const rigs = ["a", "b"].map((id) =>
+    // Slow polling, so only what the tests do changes the state
+    RigConfigSchema.parse({ id, autoConnect: false, pollIntervalMs: 60_000, activePollIntervalMs: 60_000 })
+  );
+  const manager = new RigManager({
+    rigs,
+    createAdapter: (rig) => {
+      const adapter = new StubRig();
+      adapters.set(rig.id, adapter);
+      return adapter;
+    },
+  });
+  const deltas: RadioStateDelta[] = [];
+  manager.on(EVENTS.RADIO_STATE_DELTA, (delta: RadioStateDelta) => deltas.push(delta));
+  await manager.connect("a");
+  await manager.connect("b");
+  // Let each poller's first round, which reads everything, land
+  for (let i = 0; i < 100 && manager.snapshots().some((rig) => rig.frequencyHz === undefined); i++) await sleep(5);
+  await sleep(20);
+  return { manager, rig: (id: string) => adapters.get(id)!, deltas };
+}
+
+test("each rig numbers its own deltas from the snapshot on", async (t) => {
+  const { manager, deltas } = await setup();
+  t.after(() => manager.stop());
+
+  const a = manager.snapshot("a");
+  const b = manager.snapshot("b");
+  assert.equal(a.connected, true);
+  assert.equal(a.frequencyHz, 14_074_000);
+  assert.ok(a.seq > 0);
+
+  const from = deltas.length;
+  await manager.get("a").setFrequency(7_074_000);
+  await manager.get("a").setMode("CW");
+  await manager.get("b").setFrequency(3_573_000);
+  const fresh = deltas.slice(from);
+  assert.deepEqual(
+    fresh.map(({ rigId, seq }) => [rigId, seq]),
+    [["a", a.seq + 1], ["a", a.seq + 2], ["b", b.seq + 1]]
+  );
+  assert.deepEqual(fresh[0]?.changes, { frequencyHz: 7_074_000 });
+  assert.equal(manager.snapshot("a").seq, a.seq + 2);
+  assert.equal(manager.snapshot("a").mode, "CW");
+  assert.deepEqual(
+    manager.snapshots().map(({ rigId, seq }) => [rigId, seq]),
+    [["a", a.seq + 2], ["b", b.seq + 1]]
+  );
+});
+
+test("a poll that finds nothing new publishes nothing", async (t) => {
+  const { manager, deltas } = await setup();
+  t.after(() => manager.stop());
+  const { seq } = manager.snapshot("a");
+  const from = deltas.length;
+  await manager.get("a").refreshState();
+  assert.equal(deltas.length, from);
+  assert.equal(manager.snapshot("a").seq, seq);
+});
+
+test("a field the rig stops reporting is sent as null", async (t) => {
+  const { manager, rig, deltas } = await setup();
+  t.after(() => manager.stop());
+  rig("a").bandwidthHz = undefined;
+  rig("a").frequencyHz = 14_075_000;
+  const from = deltas.length;
+  await manager.get("a").refreshState();
+  const changes = deltas.slice(from).map((delta) => delta.changes);
+  assert.deepEqual(changes.at(-1), { frequencyHz: 14_075_000, bandwidthHz: null });
+});
+
+test("disconnecting publishes connected false as a delta", async (t) => {
+  const { manager, deltas } = await setup();
+  t.after(() => manager.stop());
+  const { seq } = manager.snapshot("b");
+  await manager.disconnect("b");
+  const last = deltas.at(-1);
+  assert.equal(last?.rigId, "b");
+  assert.equal(last?.seq, seq + 1);
+  assert.equal(last?.changes.connected, false);
+  assert.equal(manager.snapshot("b").connected, false);
+});
@@ -0,0 +1,131 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import net from "node:net";
+import type { RadioMode } from "../src/dtos.js";
+import { RadioService, type RigctlAdapter } from "../src/services/radio.js";
+import { RigctlServer } from "../src/services/rigctl-server.js";
+import { TxWatchdog } from "../src/services/tx-watchdog.js";
+
+class StubRig implements RigctlAdapter {
+  frequencyHz = 14_074_000;
+  mode: RadioMode = "PKTUSB";
+  ptt = false;
+
+  async connect() {}
+  async disconnect() {}
+  async getState() {
+    return { frequencyHz: this.frequencyHz, mode: this.mode, bandwidthHz: 3000, power: 50, ptt: this.ptt };
+  }
+  async setFrequency(hz: number) {
+    this.frequencyHz = hz;
+  }
+  async setMode(mode: RadioMode) {
+    this.mode = mode;
+  }
+  async setPower() {}
+  async setPtt(ptt: boolean) {
+    this.ptt = ptt;
+  }
+}
+
+const rig = new StubRig();
+const radio = new RadioService({ adapter: rig });
+const watchdog = new TxWatchdog({ radio, maxTxMs: 60_000 });
+let server: RigctlServer;
+let port: number;
+
+before(async () => {
+  await radio.connect("", 0);
+  await radio.refreshState();
+  port = await new Promise<number>((resolve) => {
+    const probe = net.createServer().listen(0, "127.0.0.1", () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+  server = new RigctlServer({ rigId: "main", radio, watchdog, host: "127.0.0.1", port });
+  await server.listen();
+});
+
+after(() => server.close());
+
+// A client connection that collects everything the server sends
+async function connect() {
+  const socket = net.connect(port, "127.0.0.1");
+  await new Promise((resolve) => socket.once("connect", resolve));
+  socket.setEncoding("utf8");
+  let received = "";
+  socket.on("data", (chunk: string) => (received += chunk));
+  const closed = new Promise<void>((resolve) => socket.once("close", () => resolve()));
+  // Send a line and wait for the reply to end in the pattern
+  const ask = async (line: string, until = /\n$/) => {
+    received = "";
+    socket.write(`${line}\n`);
+    for (let i = 0; i < 200 && !until.test(received); i++) await new Promise((r) => setTimeout(r, 5));
+    return received;
+  };
+  return { socket, ask, closed };
+}
+
+test("short commands answer with bare values and sets with RPRT", async () => {
+  const { socket, ask } = await connect();
+  assert.equal(await ask("f"), "14074000\n");
+  assert.equal(await ask("m", /\n.*\n$/), "PKTUSB\n3000\n");
+  assert.equal(await ask("F 7074000"), "RPRT 0\n");
+  assert.equal(rig.frequencyHz, 7_074_000);
+  assert.equal(await ask("F lots"), "RPRT -1\n");
+  socket.destroy();
+});
+
+test("long names and the extended protocol label every value and end in RPRT", async () => {
+  const { socket, ask } = await connect();
+  assert.equal(await ask("+\\get_freq", /RPRT \d+\n$/), "get_freq:\nFrequency: 7074000\nRPRT 0\n");
+  assert.equal(await ask(";\\get_mode", /RPRT \d+\n$/), "get_mode:;Mode: PKTUSB;Passband: 3000;RPRT 0\n");
+  assert.equal(await ask("+\\set_mode USB 0", /RPRT \d+\n$/), "set_mode: USB 0\nRPRT 0\n");
+  assert.equal(rig.mode, "USB");
+  socket.destroy();
+});
+
+test("unknown commands are answered with the not-implemented code", async () => {
+  const { socket, ask } = await connect();
+  assert.equal(await ask("\\reboot_rig"), "RPRT -4\n");
+  assert.equal(await ask("+\\reboot_rig", /RPRT \S+\n$/), "reboot_rig:\nRPRT -4\n");
+  socket.destroy();
+});
+
+test("commands on one connection are answered in order", async () => {
+  const { socket, ask } = await connect();
+  const reply = await ask("F 14075000\nf\nT 1\nt\nT 0\nt", /(?:.*\n){6}$/);
+  assert.equal(reply, "RPRT 0\n14075000\nRPRT 0\n1\nRPRT 0\n0\n");
+  socket.destroy();
+});
+
+test("a client that drops while keyed is unkeyed", async () => {
+  const { socket, ask } = await connect();
+  await ask("T 1");
+  assert.equal(rig.ptt, true);
+  socket.destroy();
+  for (let i = 0; i < 100 && rig.ptt; i++) await new Promise((r) => setTimeout(r, 5));
+  assert.equal(rig.ptt, false);
+});
+
+test("a line that never ends is cut off", async () => {
+  const { socket, closed } = await connect();
+  socket.write("f".repeat(5000));
+  await closed;
+  assert.equal(server.getStatus().clients, 0);
+});
+
+test("a flood of commands faster than they are answered is cut off", async () => {
+  const { socket, closed } = await connect();
+  socket.on("error", () => {});
+  socket.write("f\n".repeat(1000));
+  await closed;
+});
+
+test("q ends the session", async () => {
+  const { socket, closed } = await connect();
+  socket.write("q\n");
+  await closed;
+  assert.ok(socket.destroyed || socket.readableEnded);
+});
@@ -0,0 +1,80 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { FakeRigctld } from "../src/adapters/fake-rigctld.js";
+import { RigctldAdapter } from "../src/adapters/rigctld.js";
+import { findBandPlan } from "../src/band-plan.js";
+import { isRigError } from "../src/errors.js";
+import { RadioService } from "../src/services/radio.js";
+
+const fake = new FakeRigctld();
+const radio = new RadioService({
+  adapter: new RigctldAdapter({ commandTimeoutMs: 500, reconnectMinDelayMs: 10, reconnectMaxDelayMs: 50 }),
+  txPrivileges: { plan: findBandPlan("us")!, licenseClass: "general" },
+});
+
+before(async () => {
+  const port = await fake.listen();
+  await radio.connect("127.0.0.1", port);
+});
+
+after(async () => {
+  await radio.disconnect();
+  await fake.close();
+});
+
+test("reads the rig's state", async () => {
+  await radio.refreshState();
+  const state = radio.getState();
+  assert.equal(state.connected, true);
+  assert.equal(state.frequencyHz, 14_074_000);
+  assert.equal(state.mode, "USB");
+  assert.equal(state.power, 50);
+  assert.equal(radio.getCapabilities()?.maxPowerWatts, 100);
+});
+
+test("frequency changes made in a burst land as the last one", async () => {
+  const sent = fake.received.length;
+  const landed = await Promise.all([14_200_000, 14_210_000, 14_220_000, 14_230_000].map((hz) => radio.setFrequency(hz)));
+
+  assert.deepEqual(landed.slice(1), [14_230_000, 14_230_000, 14_230_000]);
+  assert.equal(fake.state.frequencyHz, 14_230_000);
+  const writes = fake.received.slice(sent).filter((name) => name === "set_freq");
+  assert.ok(writes.length <= 2, `${writes.length} frequency writes for one burst`);
+});
+
+test("a QSY out of the band while keyed is refused before it reaches the rig", async () => {
+  await radio.setPtt(true);
+  try {
+    await assert.rejects(radio.setFrequency(14_400_000), (e) => isRigError(e) && e.kind === "forbidden");
+    assert.equal(fake.state.frequencyHz, 14_230_000);
+  } finally {
+    await radio.setPtt(false);
+  }
+  assert.equal(fake.state.ptt, false);
+  assert.equal(await radio.setFrequency(14_400_000), 14_400_000);
+});
+
+test("a rig that dropped its link is noticed coming back", async () => {
+  fake.dropClients();
+  await assert.rejects(radio.refreshCore());
+  assert.equal(radio.getState().connected, false);
+
+  fake.state.frequencyHz = 7_074_000;
+  for (let i = 0; i < 50 && !radio.getState().connected; i++) {
+    await radio.refreshCore().catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  assert.equal(radio.getState().connected, true);
+  assert.equal(radio.getState().frequencyHz, 7_074_000);
+});
+
+test("CW is checked as CW whatever mode the rig is in, and goes out as Morse only", async () => {
+  // 7.074 MHz is in the CW and data segment, where USB may not go
+  assert.equal(radio.getState().mode, "USB");
+  await radio.sendMorse("cq\ntest");
+  assert.deepEqual(fake.state.morseSent.at(-1), "CQ TEST");
+
+  const sent = fake.state.morseSent.length;
+  await assert.rejects(radio.sendMorse("CQ|\\set_freq 1"), (e) => isRigError(e) && e.kind === "invalid");
+  assert.equal(fake.state.morseSent.length, sent);
+});
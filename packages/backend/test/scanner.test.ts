@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ScanStartSchema, type RadioMode, type RadioState, type ScanStatus } from "../src/dtos.js";
+import { EVENTS } from "../src/events.js";
+import { isRigError } from "../src/errors.js";
+import { Scanner } from "../src/services/scanner.js";
+import type { RadioService } from "../src/services/radio.js";
+
+// Just the part of RadioService the scanner uses: a dial, and a squelch that
+// is open on the frequencies in busy
+class StubRadio {
+  state: RadioState = { connected: true, frequencyHz: 14_000_000, mode: "USB", ptt: false };
+  readonly busy = new Set<number>();
+  readonly visited: number[] = [];
+  meters = true;
+
+  getState() {
+    return this.state;
+  }
+  async setFrequency(hz: number) {
+    this.visited.push(hz);
+    this.state = { ...this.state, frequencyHz: hz };
+    return hz;
+  }
+  async setMode(mode: RadioMode) {
+    this.state = { ...this.state, mode };
+    return { mode };
+  }
+  async getSquelchOpen() {
+    return this.busy.has(this.state.frequencyHz!);
+  }
+  canReadMeters() {
+    return this.meters;
+  }
+  async refreshMeters() {
+    const sUnits = this.busy.has(this.state.frequencyHz!) ? 9 : 1;
+    this.state = { ...this.state, meters: { sUnits } };
+  }
+}
+
+function setup() {
+  const radio = new StubRadio();
+  const scanner = new Scanner({ radio: radio as unknown as RadioService });
+  const until = (done: (status: ScanStatus) => boolean) =>
+    new Promise<ScanStatus>((resolve) => {
+      if (done(scanner.getStatus())) return resolve(scanner.getStatus());
+      const check = (status: ScanStatus) => {
+        if (!done(status)) return;
+        scanner.off(EVENTS.SCAN_STATUS, check);
+        resolve(status);
+      };
+      scanner.on(EVENTS.SCAN_STATUS, check);
+    });
+  return { radio, scanner, until };
+}
+
+const band = (extra: object = {}) =>
+  ScanStartSchema.parse({ kind: "band", startHz: 145_000_000, stopHz: 145_100_000, stepHz: 25_000, dwellMs: 50, hangMs: 0, ...extra });
+
+test("a band scan steps through the range and passes over and over", async () => {
+  const { radio, scanner, until } = setup();
+  await scanner.start(band());
+  await until((status) => status.passes >= 2);
+  scanner.stop();
+  assert.deepEqual(radio.visited.slice(0, 6), [145_000_000, 145_025_000, 145_050_000, 145_075_000, 145_100_000, 145_000_000]);
+  assert.equal(scanner.getStatus().state, "idle");
+});
+
+test("the scan holds on a busy channel, logs a hit when it goes quiet and moves on", async () => {
+  const { radio, scanner, until } = setup();
+  radio.busy.add(145_050_000);
+  await scanner.start(band());
+  const holding = await until((status) => status.state === "holding");
+  assert.equal(holding.current?.frequencyHz, 145_050_000);
+
+  radio.busy.clear();
+  const moved = await until((status) => status.hits.length === 1 && status.state === "scanning");
+  scanner.stop();
+  assert.equal(moved.hits[0]!.frequencyHz, 145_050_000);
+  assert.equal(moved.hits[0]!.mode, "USB");
+});
+
+test("stopping while holding keeps the hit and leaves the scan idle", async () => {
+  const { radio, scanner, until } = setup();
+  radio.busy.add(145_025_000);
+  await scanner.start(band());
+  await until((status) => status.state === "holding");
+  scanner.stop();
+  const status = await until((s) => s.hits.length === 1);
+  assert.equal(status.state, "idle");
+  assert.equal(status.hits[0]!.frequencyHz, 145_025_000);
+});
+
+test("locked out channels are skipped, and a scan with none open is refused", async () => {
+  const { radio, scanner, until } = setup();
+  scanner.setLockout(145_025_000, true);
+  scanner.setLockout(145_075_000, true);
+  await scanner.start(band());
+  await until((status) => status.passes >= 1);
+  scanner.stop();
+  assert.ok(!radio.visited.includes(145_025_000) && !radio.visited.includes(145_075_000));
+
+  for (const hz of [145_000_000, 145_050_000, 145_100_000]) scanner.setLockout(hz, true);
+  await assert.rejects(scanner.start(band()), (e) => isRigError(e) && e.kind === "invalid");
+});
+
+test("a memory scan sets each channel's mode", async () => {
+  const { radio, scanner, until } = setup();
+  const plan = ScanStartSchema.parse({
+    kind: "memory",
+    channels: [{ frequencyHz: 7_074_000, mode: "PKTUSB" }, { frequencyHz: 146_520_000, mode: "FM", name: "Calling" }],
+    dwellMs: 50,
+    hangMs: 0,
+  });
+  radio.busy.add(146_520_000);
+  await scanner.start(plan);
+  await until((status) => status.state === "holding");
+  scanner.stop();
+  assert.equal(radio.getState().mode, "FM");
+  assert.deepEqual(radio.visited.slice(0, 2), [7_074_000, 146_520_000]);
+});
+
+test("stopping on signal strength needs a rig whose meters can be read", async () => {
+  const { radio, scanner, until } = setup();
+  radio.busy.add(145_000_000);
+  await scanner.start(band({ stopOn: "signal", minSUnits: 5 }));
+  const holding = await until((status) => status.state === "holding");
+  scanner.stop();
+  assert.equal(holding.current?.frequencyHz, 145_000_000);
+
+  radio.meters = false;
+  await assert.rejects(scanner.start(band({ stopOn: "signal" })), (e) => isRigError(e) && e.kind === "not_supported");
+});
+
+test("the scan stops with the reason when the rig starts transmitting", async () => {
+  const { radio, scanner, until } = setup();
+  await scanner.start(band());
+  radio.state = { ...radio.state, ptt: true };
+  const stopped = await until((status) => status.state === "idle");
+  assert.match(stopped.lastError ?? "", /transmitting/);
+});
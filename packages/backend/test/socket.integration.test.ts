@@ -0,0 +1,123 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn, type ChildProcess } from "node:child_process";
+import net from "node:net";
+import { io, type Socket } from "socket.io-client";
+import { FakeRigctld } from "../src/adapters/fake-rigctld.js";
+import { EVENTS } from "../src/events.js";
+import type { RadioState, RadioStateDelta } from "../src/dtos.js";
+
+// The whole backend as it runs, in a child process, against a fake rigctld,
+// watched through a Socket.IO client the way the web UI sees it
+
+const fake = new FakeRigctld();
+let backend: ChildProcess;
+let client: Socket;
+// Every delta received, in order
+const deltas: RadioStateDelta[] = [];
+let snapshot: (RadioState & { rigId: string; seq: number }) | undefined;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function until(done: () => boolean, what: string, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!done()) {
+    if (Date.now() > deadline) throw new Error(`no ${what} within ${timeoutMs} ms`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+// The first delta from index from on, already received or still to come, that matches
+async function delta(match: (changes: RadioStateDelta["changes"]) => boolean, from = 0) {
+  let found: RadioStateDelta | undefined;
+  await until(() => (found = deltas.slice(from).find((d) => match(d.changes))) !== undefined, "matching delta");
+  return found!;
+}
+
+function command<T>(event: string, payload: object): Promise<T> {
+  return new Promise((resolve) => client.emit(event, payload, (err: T | null, res?: T) => resolve((err ?? res)!)));
+}
+
+before(async () => {
+  const rigctldPort = await fake.listen();
+  const port = await freePort();
+  backend = spawn(process.execPath, ["--import", "tsx", "src/index.ts"], {
+    env: {
+      ...process.env,
+      BACKEND_PORT: String(port),
+      RIGS: JSON.stringify([{ id: "main", adapter: "rigctld", port: rigctldPort, pollIntervalMs: 100 }]),
+      STATE_HISTORY: "false",
+      LOG_LEVEL: "warn",
+      NODE_ENV: "test",
+    },
+    stdio: ["ignore", "ignore", "inherit"],
+  });
+
+  client = io(`http://127.0.0.1:${port}`, { reconnectionDelay: 100, transports: ["websocket"] });
+  client.on(EVENTS.RADIO_STATE, (state) => (snapshot = state));
+  client.on(EVENTS.RADIO_STATE_DELTA, (d: RadioStateDelta) => deltas.push(d));
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("backend did not come up")), 20000);
+    client.once("connect", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+});
+
+after(async () => {
+  client?.close();
+  if (backend && backend.exitCode === null) {
+    const exited = new Promise((resolve) => backend.once("exit", resolve));
+    backend.kill("SIGTERM");
+    await exited;
+  }
+  await fake.close();
+});
+
+test("a client gets a snapshot, then deltas in sequence as the rig changes", async () => {
+  await until(() => snapshot !== undefined, "snapshot");
+  assert.equal(snapshot!.rigId, "main");
+  await until(() => snapshot!.connected === true || deltas.some((d) => d.changes.connected), "connection");
+
+  fake.state.frequencyHz = 7_074_000;
+  fake.state.mode = "PKTUSB";
+  const change = await delta((c) => c.frequencyHz === 7_074_000);
+  assert.equal(change.rigId, "main");
+  assert.equal(change.changes.mode, "PKTUSB");
+
+  // Deltas number on from the snapshot without gaps
+  const seqs = deltas.map((d) => d.seq);
+  assert.deepEqual(seqs, seqs.map((_, i) => seqs[0]! + i));
+  assert.equal(seqs[0], snapshot!.seq + 1);
+});
+
+test("a command the rig answers with an RPRT error fails with its kind and leaves the rig connected", async () => {
+  fake.inject({ command: "set_freq", rprt: -9, times: 1 });
+  const failed = await command<{ ok: boolean; kind?: string }>("radio:setFrequency", { rigId: "main", frequency: 7_080_000 });
+  assert.deepEqual([failed.ok, failed.kind], [false, "rejected"]);
+
+  const landed = await command<{ ok: boolean; frequency: number }>("radio:setFrequency", { rigId: "main", frequency: 7_080_000 });
+  assert.deepEqual(landed, { ok: true, frequency: 7_080_000 });
+  await delta((c) => c.frequencyHz === 7_080_000);
+  assert.ok(!deltas.some((d) => d.changes.connected === false));
+});
+
+test("a dropped rigctld connection shows as disconnected, then as connected again", async () => {
+  const from = deltas.length;
+  fake.dropClients();
+  fake.state.frequencyHz = 3_573_000;
+  const lost = await delta((c) => c.connected === false, from);
+  const back = await delta((c) => c.connected === true, deltas.indexOf(lost));
+  assert.ok(back.seq > lost.seq);
+  await delta((c) => c.frequencyHz === 3_573_000, from);
+});
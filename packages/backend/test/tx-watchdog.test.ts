@@ -0,0 +1,174 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { RadioMode, TxForcedUnkey } from "../src/dtos.js";
+import { EVENTS } from "../src/events.js";
+import { isRigError } from "../src/errors.js";
+import { CwKeyer } from "../src/services/cw-keyer.js";
+import { RadioService, type RigctlAdapter } from "../src/services/radio.js";
+import { TxWatchdog } from "../src/services/tx-watchdog.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A rig with a CW keyer that keys itself while it has text to send
+class StubRig implements RigctlAdapter {
+  frequencyHz = 7_030_000;
+  mode: RadioMode = "CW";
+  power = 50;
+  ptt = false;
+  readonly morse: string[] = [];
+  stops = 0;
+
+  async connect() {}
+  async disconnect() {}
+  async getState() {
+    return { frequencyHz: this.frequencyHz, mode: this.mode, power: this.power, ptt: this.ptt };
+  }
+  async setFrequency(hz: number) {
+    this.frequencyHz = hz;
+  }
+  async setMode(mode: RadioMode) {
+    this.mode = mode;
+  }
+  async setPower(percent: number) {
+    this.power = percent;
+  }
+  async setPtt(ptt: boolean) {
+    this.ptt = ptt;
+  }
+  async sendMorse(text: string) {
+    this.morse.push(text);
+    this.ptt = true;
+  }
+  async stopMorse() {
+    this.stops++;
+    this.ptt = false;
+  }
+  async setKeyerSpeed() {}
+}
+
+async function setup(maxTxMs = 60_000) {
+  const rig = new StubRig();
+  const radio = new RadioService({ adapter: rig, tunePowerPercent: 10, tuneMode: "AM" });
+  await radio.connect("", 0);
+  await radio.refreshState();
+  const watchdog = new TxWatchdog({ radio, maxTxMs });
+  const unkeys: TxForcedUnkey[] = [];
+  watchdog.on(EVENTS.TX_FORCED_UNKEY, (event: TxForcedUnkey) => unkeys.push(event));
+  return { rig, radio, watchdog, unkeys };
+}
+
+test("a client that goes mid-message has its CW cut off and its queued messages dropped", async () => {
+  const { rig, radio, watchdog, unkeys } = await setup();
+  const keyer = new CwKeyer({ radio, watchdog });
+  keyer.send({ text: "CQ CQ CQ TEST" }, "a");
+  keyer.send({ text: "TU" }, "b");
+  keyer.send({ text: "73" }, "a");
+  await sleep(20);
+  assert.deepEqual(rig.morse, ["CQ CQ CQ TEST"]);
+
+  keyer.releaseOwner("a");
+  await radio.refreshState();
+  await watchdog.releaseOwner("a");
+  assert.equal(rig.stops, 1);
+  assert.equal(rig.ptt, false);
+  assert.equal(keyer.getStatus().sending, null);
+  assert.equal(unkeys[0]?.reason, "client_lost");
+});
+
+test("CW from a client still connected is left alone", async () => {
+  const { rig, radio, watchdog, unkeys } = await setup();
+  const keyer = new CwKeyer({ radio, watchdog });
+  keyer.send({ text: "CQ CQ CQ TEST" }, "a");
+  await sleep(20);
+  await watchdog.releaseOwner("b");
+  assert.equal(rig.stops, 0);
+  assert.equal(keyer.getStatus().sending?.text, "CQ CQ CQ TEST");
+  assert.equal(unkeys.length, 0);
+  await keyer.abort();
+});
+
+test("a client that goes mid-tune has the tune cut short and the rig put back", async () => {
+  const { rig, radio, watchdog, unkeys } = await setup();
+  rig.mode = "USB";
+  rig.frequencyHz = 14_200_000;
+  await radio.refreshState();
+
+  const tune = watchdog.tune(5000, "a");
+  while (!rig.ptt) await sleep(10);
+  assert.equal(rig.mode, "AM");
+  await watchdog.releaseOwner("a");
+  await assert.rejects(tune, (e) => isRigError(e) && /cancelled/.test(e.message));
+  assert.deepEqual([rig.ptt, rig.mode, rig.power], [false, "USB", 50]);
+  assert.equal(unkeys[0]?.reason, "client_lost");
+});
+
+test("a transmission that runs past the limit is unkeyed", async () => {
+  const { rig, watchdog, unkeys } = await setup(50);
+  await watchdog.setPtt(true, "a");
+  await sleep(100);
+  assert.equal(rig.ptt, false);
+  assert.equal(unkeys.length, 1);
+  assert.equal(unkeys[0]?.reason, "timeout");
+  assert.equal(unkeys[0]?.unkeyed, true);
+  assert.ok(unkeys[0]!.txMs >= 50);
+});
+
+test("unkeying in time stops the clock, and the next keying starts it afresh", async () => {
+  const { rig, watchdog, unkeys } = await setup(80);
+  await watchdog.setPtt(true, "a");
+  await sleep(50);
+  await watchdog.setPtt(false, "a");
+  await watchdog.setPtt(true, "a");
+  await sleep(50);
+  assert.equal(rig.ptt, true);
+  assert.equal(unkeys.length, 0);
+  await watchdog.setPtt(false, "a");
+});
+
+test("keying from outside the backend is timed too", async () => {
+  const { rig, radio, unkeys } = await setup(50);
+  rig.ptt = true;
+  await radio.refreshState();
+  await sleep(100);
+  assert.equal(rig.ptt, false);
+  assert.equal(unkeys[0]?.reason, "timeout");
+});
+
+test("only the client that keyed is unkeyed when it goes", async () => {
+  const { rig, watchdog, unkeys } = await setup();
+  await watchdog.setPtt(true, "a");
+  await watchdog.releaseOwner("b");
+  assert.equal(rig.ptt, true);
+  assert.equal(unkeys.length, 0);
+  await watchdog.releaseOwner("a");
+  assert.equal(rig.ptt, false);
+  assert.equal(unkeys[0]?.reason, "client_lost");
+  // Gone twice is still unkeyed once
+  await watchdog.releaseOwner("a");
+  assert.equal(unkeys.length, 1);
+});
+
+test("a client that unkeyed and then went leaves the next keying alone", async () => {
+  const { rig, watchdog, unkeys } = await setup();
+  await watchdog.setPtt(true, "a");
+  await watchdog.setPtt(false, "a");
+  await watchdog.setPtt(true, "b");
+  await watchdog.releaseOwner("a");
+  assert.equal(rig.ptt, true);
+  assert.equal(unkeys.length, 0);
+  await watchdog.shutdown();
+  assert.equal(rig.ptt, false);
+  assert.equal(unkeys[0]?.reason, "shutdown");
+});
+
+test("a rig error while transmitting unkeys, and a failed unkey is reported", async () => {
+  const { rig, watchdog, unkeys } = await setup();
+  await watchdog.setPtt(true, "a");
+  rig.setPtt = async () => {
+    throw new Error("port gone");
+  };
+  await watchdog.adapterError(new Error("timed out"));
+  assert.equal(unkeys[0]?.reason, "error");
+  assert.match(unkeys[0]!.message, /timed out/);
+  assert.equal(unkeys[0]?.unkeyed, false);
+});
@@ -2,6 +2,7 @@ import React from 'react';
 import { FileText, Plus, Download, Upload, Search } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { StateHistoryCard } from '@/components/radio/state-history';
 
 export function LoggingPanel() {
   return (
@@ -21,6 +22,9 @@ export function LoggingPanel() {
         </CardContent>
       </Card>
 
+      {/* What the rig has been doing */}
+      <StateHistoryCard />
+
       {/* QSO Log */}
       <Card>
         <CardHeader>
@@ -5,9 +5,16 @@ import { Button } from '@/components/ui/button';
 import { FrequencyControl } from '@/components/radio/frequency-control';
 import { ModeControl } from '@/components/radio/mode-control';
 import { PowerControl } from '@/components/radio/power-control';
+import { ReceiverControl } from '@/components/radio/receiver-control';
 import { VFOControl } from '@/components/radio/vfo-control';
+import { OffsetControl } from '@/components/radio/offset-control';
+import { RepeaterControl } from '@/components/radio/repeater-control';
+import { RepeaterDirectory } from '@/components/radio/repeater-directory';
+import { CwKeyer } from '@/components/radio/cw-keyer';
 import { RadioStatus } from '@/components/radio/radio-status';
 import { RadioInfo } from '@/components/radio/radio-info';
+import { RigSwitcher } from '@/components/radio/rig-switcher';
+import { RigctldControl } from '@/components/radio/rigctld-control';
 import { useRadioStore, useRadioConnected } from '@/stores/radio';
 import { useSettings } from '@/stores/ui';
 import { toast } from '@/stores/ui';
@@ -42,7 +49,8 @@ export function RadioControlPanel() {
             Radio Control
           </CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <RigSwitcher />
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
               <div className={cn(
@@ -88,13 +96,19 @@ export function RadioControlPanel() {
           <FrequencyControl />
           <ModeControl />
           <PowerControl />
+          <ReceiverControl />
+          <CwKeyer />
         </div>
 
         {/* Right Column - Secondary Controls */}
         <div className="space-y-6">
           <VFOControl />
+          <OffsetControl />
+          <RepeaterControl />
+          <RepeaterDirectory />
           <RadioStatus />
           <RadioInfo />
+          <RigctldControl />
         </div>
       </div>
 
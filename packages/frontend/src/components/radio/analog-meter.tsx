@@ -0,0 +1,88 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface AnalogMeterProps {
+  label: string;
+  // Undefined rests the needle at the bottom of the scale
+  value: number | undefined;
+  // Marks along the arc; the first and last set its ends
+  ticks: Array<{ value: number; label: string }>;
+  // Values from here up are drawn in the red zone
+  redFrom?: number;
+  readout: string;
+  className?: string;
+}
+
+// Arc geometry in viewBox units: pivot below the face, 100 degrees of sweep
+const CX = 100;
+const CY = 112;
+const RADIUS = 88;
+const SWEEP = 100;
+
+function point(fraction: number, radius: number): [number, number] {
+  const angle = ((fraction - 0.5) * SWEEP * Math.PI) / 180;
+  return [CX + radius * Math.sin(angle), CY - radius * Math.cos(angle)];
+}
+
+function arc(from: number, to: number, radius: number): string {
+  const [x0, y0] = point(from, radius);
+  const [x1, y1] = point(to, radius);
+  return `M ${x0} ${y0} A ${radius} ${radius} 0 0 1 ${x1} ${y1}`;
+}
+
+/**
+ * Where a value sits along the arc. Ticks need not be evenly spaced in value
+ * (S-units then dB over S9, SWR's crowded low end), so the position is
+ * interpolated between the two ticks around it and the ticks are evenly spread.
+ */
+function position(ticks: AnalogMeterProps['ticks'], value: number): number {
+  const last = ticks.length - 1;
+  if (last < 1 || value <= ticks[0].value) return 0;
+  for (let i = 1; i <= last; i++) {
+    const lo = ticks[i - 1];
+    const hi = ticks[i];
+    if (value <= hi.value) return (i - 1 + (value - lo.value) / (hi.value - lo.value)) / last;
+  }
+  return 1;
+}
+
+export function AnalogMeter({ label, value, ticks, redFrom, readout, className }: AnalogMeterProps) {
+  const needle = value === undefined ? 0 : position(ticks, value);
+  const red = redFrom === undefined ? 1 : position(ticks, redFrom);
+  // Rotated rather than redrawn so the needle swings between readings
+  const needleStyle: React.CSSProperties = {
+    transform: `rotate(${(needle - 0.5) * SWEEP}deg)`,
+    transformOrigin: `${CX}px ${CY}px`,
+  };
+
+  return (
+    <div className={cn('rounded-md border bg-amber-50 p-2 dark:bg-zinc-900', className)}>
+      <svg viewBox="0 0 200 120" className="w-full" role="meter" aria-label={label}
+        aria-valuenow={value} aria-valuemin={ticks[0]?.value} aria-valuemax={ticks[ticks.length - 1]?.value}>
+        <path d={arc(0, red, RADIUS)} fill="none" className="stroke-zinc-700 dark:stroke-zinc-300" strokeWidth={2} />
+        {red < 1 && <path d={arc(red, 1, RADIUS)} fill="none" className="stroke-red-600" strokeWidth={4} />}
+        {ticks.map((tick, i) => {
+          const f = i / (ticks.length - 1);
+          const [x0, y0] = point(f, RADIUS);
+          const [x1, y1] = point(f, RADIUS + 7);
+          const [tx, ty] = point(f, RADIUS + 16);
+          return (
+            <g key={tick.label}>
+              <line x1={x0} y1={y0} x2={x1} y2={y1} className="stroke-zinc-700 dark:stroke-zinc-300" strokeWidth={1.5} />
+              <text x={tx} y={ty} textAnchor="middle" dominantBaseline="middle"
+                className={cn('text-[10px]', f >= red ? 'fill-red-600' : 'fill-zinc-700 dark:fill-zinc-300')}>
+                {tick.label}
+              </text>
+            </g>
+          );
+        })}
+        <line x1={CX} y1={CY} x2={CX} y2={CY - RADIUS + 4} style={needleStyle}
+          className="stroke-zinc-900 transition-transform duration-150 dark:stroke-amber-400"
+          strokeWidth={2} strokeLinecap="round" />
+        <circle cx={CX} cy={CY} r={5} className="fill-zinc-900 dark:fill-amber-400" />
+        <text x={12} y={108} className="fill-zinc-500 text-[11px] font-semibold">{label}</text>
+      </svg>
+      <div className="text-center font-mono text-sm font-bold">{readout}</div>
+    </div>
+  );
+}
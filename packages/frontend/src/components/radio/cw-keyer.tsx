@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { Keyboard, Pencil, Send, Square } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useActiveRigId, useRadioCapabilities, useRadioConnected } from '@/stores/radio';
+import { useActiveCwStatus, useCwStore } from '@/stores/cw';
+import { toast } from '@/stores/ui';
+import type { CwSendRequest } from '@/types';
+
+const inputClass = 'w-full bg-background border border-input rounded px-2 py-1 text-sm font-mono uppercase';
+
+export function CwKeyer() {
+  const rigId = useActiveRigId();
+  const status = useActiveCwStatus();
+  const connected = useRadioConnected();
+  const capabilities = useRadioCapabilities();
+  const { fetchStatus, send, abort, updateSettings } = useCwStore();
+  const [text, setText] = useState('');
+  const [call, setCall] = useState('');
+  const [rst, setRst] = useState('599');
+  // Memory texts being edited; null when the F-keys send
+  const [drafts, setDrafts] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    if (rigId) fetchStatus(rigId);
+  }, [rigId, fetchStatus]);
+
+  // Until the rig reports its capabilities, offer the keyer
+  if (capabilities && !capabilities.canSendMorse) return null;
+  if (!status) return null;
+
+  const { settings, sending, queue } = status;
+  const busy = sending !== null || queue.length > 0;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      toast.error('CW keyer', error instanceof Error ? error.message : 'CW keyer request failed');
+    }
+  };
+
+  const sendRequest = (request: CwSendRequest) => run(() => send({ ...request, call, rst }));
+
+  const sendText = () => {
+    if (!text.trim()) return;
+    run(async () => {
+      await send({ text, call, rst });
+      setText('');
+    });
+  };
+
+  const saveMemories = () => {
+    if (!drafts) return;
+    run(() => updateSettings({ memories: drafts }));
+    setDrafts(null);
+  };
+
+  // F1-F8 send memories and Esc aborts while focus is anywhere in the card
+  const onKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const match = /^F([1-8])$/.exec(event.key);
+    if (match && !drafts && connected) {
+      event.preventDefault();
+      sendRequest({ memory: Number(match[1]) });
+    } else if (event.key === 'Escape' && busy) {
+      event.preventDefault();
+      run(abort);
+    }
+  };
+
+  return (
+    <Card onKeyDown={onKeyDown}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Keyboard className="h-5 w-5" />
+          CW Keyer
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Speed */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Speed</span>
+            <span className="font-mono">{settings.wpm} WPM</span>
+          </div>
+          <Slider
+            value={[settings.wpm]}
+            onValueChange={(value) => run(() => updateSettings({ wpm: value[0] }))}
+            min={5}
+            max={60}
+            step={1}
+          />
+        </div>
+
+        {/* Macro values */}
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">My call</label>
+            <input
+              className={inputClass}
+              defaultValue={settings.myCall}
+              key={settings.myCall}
+              onBlur={(e) => {
+                const myCall = e.target.value.trim().toUpperCase();
+                if (myCall !== settings.myCall) run(() => updateSettings({ myCall }));
+              }}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Call</label>
+            <input className={inputClass} value={call} onChange={(e) => setCall(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">RST</label>
+            <input className={inputClass} value={rst} onChange={(e) => setRst(e.target.value)} />
+          </div>
+        </div>
+
+        {/* Memories */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-muted-foreground">Memories</span>
+            {drafts ? (
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" onClick={() => setDrafts(null)}>Cancel</Button>
+                <Button size="sm" onClick={saveMemories}>Save</Button>
+              </div>
+            ) : (
+              <Button variant="ghost" size="sm" onClick={() => setDrafts([...settings.memories])}>
+                <Pencil className="mr-1 h-3 w-3" />
+                Edit
+              </Button>
+            )}
+          </div>
+
+          {drafts ? (
+            <div className="space-y-1">
+              {drafts.map((draft, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <span className="w-6 text-xs font-medium text-muted-foreground">F{i + 1}</span>
+                  <input
+                    className={inputClass}
+                    value={draft}
+                    onChange={(e) => setDrafts(drafts.map((d, j) => (j === i ? e.target.value : d)))}
+                  />
+                </div>
+              ))}
+              <div className="text-xs text-muted-foreground">{'{MYCALL}'}, {'{CALL}'} and {'{RST}'} are filled in when sent</div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-4 gap-1">
+              {settings.memories.map((memory, i) => (
+                <Button
+                  key={i}
+                  variant="outline"
+                  size="sm"
+                  title={memory}
+                  onClick={() => sendRequest({ memory: i + 1 })}
+                  disabled={!connected || !memory}
+                  className="justify-start overflow-hidden text-xs"
+                >
+                  <span className="mr-1 font-bold">F{i + 1}</span>
+                  <span className="truncate font-mono text-muted-foreground">{memory}</span>
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Free text */}
+        <div className="flex gap-2">
+          <input
+            className={inputClass}
+            value={text}
+            placeholder="Type and press Enter"
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') sendText();
+            }}
+          />
+          <Button size="sm" onClick={sendText} disabled={!connected || !text.trim()}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* On the air */}
+        <div className="space-y-2 rounded-md border p-2">
+          <div className="flex items-center justify-between">
+            <div className="min-h-[1.5rem] font-mono text-sm">
+              {sending ? (
+                <>
+                  <span className="text-primary">{sending.text.slice(0, sending.sentChars)}</span>
+                  <span className="text-muted-foreground">{sending.text.slice(sending.sentChars)}</span>
+                </>
+              ) : (
+                <span className="text-muted-foreground">Idle</span>
+              )}
+            </div>
+            <Button variant="destructive" size="sm" onClick={() => run(abort)} disabled={!busy}>
+              <Square className="mr-1 h-3 w-3" />
+              Abort
+            </Button>
+          </div>
+          {queue.map((message) => (
+            <div key={message.id} className="truncate font-mono text-xs text-muted-foreground">
+              ⏵ {message.text}
+            </div>
+          ))}
+          {status.lastError && <div className="text-xs text-red-600">{status.lastError}</div>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
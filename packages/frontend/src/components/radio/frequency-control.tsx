@@ -3,8 +3,24 @@ import { Zap, Plus, Minus } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { useRadioFrequency, useRadioConnected, useRadioStore } from '@/stores/radio';
-import { formatFrequency, parseFrequency, getFrequencyBand, isValidFrequency } from '@/lib/utils';
+import {
+  useRadioFrequency,
+  useRadioConnected,
+  useRadioOffsets,
+  useRadioSplit,
+  useRadioTxFrequency,
+  useTxPrivileges,
+  useRadioStore,
+} from '@/stores/radio';
+import { describeSubBand } from '@/lib/band-plan';
+import {
+  formatFrequency,
+  formatFrequencyHz,
+  formatOffset,
+  parseFrequency,
+  getFrequencyBand,
+  isValidFrequency,
+} from '@/lib/utils';
 import { cn } from '@/lib/utils';
 
 const stepSizes = [
@@ -34,6 +50,10 @@ const bandPresets = [
 export function FrequencyControl() {
   const frequency = useRadioFrequency();
   const connected = useRadioConnected();
+  const offsets = useRadioOffsets();
+  const split = useRadioSplit();
+  const txFrequency = useRadioTxFrequency();
+  const txPrivileges = useTxPrivileges();
   const { setFrequency } = useRadioStore();
   const [stepSize, setStepSize] = useState(1000);
   const [inputValue, setInputValue] = useState('');
@@ -41,6 +61,14 @@ export function FrequencyControl() {
 
   const currentBand = getFrequencyBand(frequency);
 
+  // Clarifier offsets only count while switched on; XIT rides on the split TX frequency
+  const ritHz = offsets.ritOn ? offsets.ritHz ?? 0 : 0;
+  const xitHz = offsets.xitOn ? offsets.xitHz ?? 0 : 0;
+  const rxFrequency = frequency + ritHz;
+  const effectiveTxFrequency = (split && txFrequency ? txFrequency : frequency) + xitHz;
+  // Judged where the transmitter would go out, as the backend's TX guard does
+  const subBand = txPrivileges && frequency > 0 ? describeSubBand(txPrivileges, effectiveTxFrequency) : null;
+
   const handleFrequencyChange = (newFrequency: number) => {
     if (isValidFrequency(newFrequency)) {
       setFrequency(newFrequency);
@@ -125,7 +153,33 @@ export function FrequencyControl() {
           
           <div className="text-sm text-muted-foreground mt-1">
             Band: <span className="font-medium text-foreground">{currentBand}</span>
+            {subBand && (
+              <span
+                className={cn('ml-2 font-medium', subBand.permitted ? 'text-green-600' : 'text-red-600')}
+                title={subBand.permitted ? undefined : 'The backend will refuse to transmit here'}
+              >
+                {subBand.label}
+              </span>
+            )}
           </div>
+
+          {/* Effective frequencies while a clarifier moves RX or TX off the dial */}
+          {connected && (ritHz !== 0 || xitHz !== 0) && (
+            <div className="grid grid-cols-2 gap-2 mt-3 text-left">
+              <div className="p-2 bg-muted rounded-lg">
+                <div className="text-xs text-muted-foreground">
+                  RX{ritHz !== 0 && ` · RIT ${formatOffset(ritHz)}`}
+                </div>
+                <div className="font-mono text-sm font-medium">{formatFrequencyHz(rxFrequency)}</div>
+              </div>
+              <div className="p-2 bg-muted rounded-lg">
+                <div className="text-xs text-muted-foreground">
+                  TX{xitHz !== 0 && ` · XIT ${formatOffset(xitHz)}`}
+                </div>
+                <div className="font-mono text-sm font-medium">{formatFrequencyHz(effectiveTxFrequency)}</div>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Step Controls */}
@@ -2,33 +2,27 @@ import React from 'react';
 import { Settings } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { useRadioMode, useRadioConnected, useRadioStore } from '@/stores/radio';
+import { useRadioMode, useRadioConnected, useRadioCapabilities, useRadioModes, useRadioStore } from '@/stores/radio';
 import { cn } from '@/lib/utils';
-import type { RadioMode } from '@/types';
-
-const modes: { mode: RadioMode; label: string; description: string }[] = [
-  { mode: 'LSB', label: 'LSB', description: 'Lower Sideband' },
-  { mode: 'USB', label: 'USB', description: 'Upper Sideband' },
-  { mode: 'CW', label: 'CW', description: 'Continuous Wave' },
-  { mode: 'CWR', label: 'CW-R', description: 'CW Reverse' },
-  { mode: 'AM', label: 'AM', description: 'Amplitude Modulation' },
-  { mode: 'FM', label: 'FM', description: 'Frequency Modulation' },
-  { mode: 'WFM', label: 'WFM', description: 'Wide FM' },
-  { mode: 'RTTY', label: 'RTTY', description: 'Radio Teletype' },
-  { mode: 'RTTYR', label: 'RTTY-R', description: 'RTTY Reverse' },
-  { mode: 'PSK', label: 'PSK', description: 'Phase Shift Keying' },
-  { mode: 'PSKR', label: 'PSK-R', description: 'PSK Reverse' },
-];
-
-const commonModes: RadioMode[] = ['LSB', 'USB', 'CW', 'AM', 'FM'];
-const digitalModes: RadioMode[] = ['RTTY', 'RTTYR', 'PSK', 'PSKR'];
+import type { ModeInfo, RadioMode } from '@/types';
 
 export function ModeControl() {
   const currentMode = useRadioMode();
   const connected = useRadioConnected();
+  const capabilities = useRadioCapabilities();
+  // Labels and grouping come from the backend's mode table
+  const modes = useRadioModes();
   const { setMode } = useRadioStore();
   const [showAll, setShowAll] = React.useState(false);
 
+  // Until the rig reports its capabilities, offer every mode
+  const isSupported = (mode: RadioMode) => !capabilities || capabilities.modes.includes(mode);
+  const inGroup = (group: ModeInfo['group']) =>
+    modes.filter(m => m.group === group && isSupported(m.mode)).map(m => m.mode);
+  const supportedCommon = inGroup('common');
+  const supportedDigital = inGroup('digital');
+  const supportedOther = modes.filter(m => m.group === 'other' && isSupported(m.mode));
+
   const handleModeChange = (mode: RadioMode) => {
     setMode(mode);
   };
@@ -59,97 +53,103 @@ export function ModeControl() {
         </div>
 
         {/* Common Modes */}
-        <div className="space-y-2">
-          <div className="text-sm font-medium text-muted-foreground">Common Modes</div>
-          <div className="grid grid-cols-5 gap-1">
-            {commonModes.map((mode) => {
-              const modeInfo = getModeInfo(mode);
-              const isActive = currentMode === mode;
+        {supportedCommon.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-muted-foreground">Common Modes</div>
+            <div className="grid grid-cols-5 gap-1">
+              {supportedCommon.map((mode) => {
+                const modeInfo = getModeInfo(mode);
+                const isActive = currentMode === mode;
               
-              return (
-                <Button
-                  key={mode}
-                  variant={isActive ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => handleModeChange(mode)}
-                  disabled={!connected}
-                  className={cn(
-                    "text-xs font-medium",
-                    isActive && "bg-primary text-primary-foreground"
-                  )}
-                  title={modeInfo?.description}
-                >
-                  {modeInfo?.label}
-                </Button>
-              );
-            })}
+                return (
+                  <Button
+                    key={mode}
+                    variant={isActive ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleModeChange(mode)}
+                    disabled={!connected}
+                    className={cn(
+                      "text-xs font-medium",
+                      isActive && "bg-primary text-primary-foreground"
+                    )}
+                    title={modeInfo?.description}
+                  >
+                    {modeInfo?.label}
+                  </Button>
+                );
+              })}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Digital Modes */}
-        <div className="space-y-2">
-          <div className="text-sm font-medium text-muted-foreground">Digital Modes</div>
-          <div className="grid grid-cols-4 gap-1">
-            {digitalModes.map((mode) => {
-              const modeInfo = getModeInfo(mode);
-              const isActive = currentMode === mode;
+        {supportedDigital.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-muted-foreground">Digital Modes</div>
+            <div className="grid grid-cols-4 gap-1">
+              {supportedDigital.map((mode) => {
+                const modeInfo = getModeInfo(mode);
+                const isActive = currentMode === mode;
               
-              return (
-                <Button
-                  key={mode}
-                  variant={isActive ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => handleModeChange(mode)}
-                  disabled={!connected}
-                  className={cn(
-                    "text-xs font-medium",
-                    isActive && "bg-primary text-primary-foreground"
-                  )}
-                  title={modeInfo?.description}
-                >
-                  {modeInfo?.label}
-                </Button>
-              );
-            })}
-          </div>
-        </div>
-
-        {/* Additional Modes Toggle */}
-        <div className="space-y-2">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => setShowAll(!showAll)}
-            className="w-full text-xs"
-          >
-            {showAll ? 'Show Less' : 'Show All Modes'}
-          </Button>
-          
-          {showAll && (
-            <div className="grid grid-cols-3 gap-1">
-              {modes.filter(m => ![...commonModes, ...digitalModes].includes(m.mode)).map((modeInfo) => {
-                const isActive = currentMode === modeInfo.mode;
-                
                 return (
                   <Button
-                    key={modeInfo.mode}
+                    key={mode}
                     variant={isActive ? "default" : "outline"}
                     size="sm"
-                    onClick={() => handleModeChange(modeInfo.mode)}
+                    onClick={() => handleModeChange(mode)}
                     disabled={!connected}
                     className={cn(
                       "text-xs font-medium",
                       isActive && "bg-primary text-primary-foreground"
                     )}
-                    title={modeInfo.description}
+                    title={modeInfo?.description}
                   >
-                    {modeInfo.label}
+                    {modeInfo?.label}
                   </Button>
                 );
               })}
             </div>
-          )}
-        </div>
+          </div>
+        )}
+
+        {/* Additional Modes Toggle */}
+        {supportedOther.length > 0 && (
+          <div className="space-y-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowAll(!showAll)}
+              className="w-full text-xs"
+            >
+              {showAll ? 'Show Less' : 'Show All Modes'}
+            </Button>
+          
+            {showAll && (
+              <div className="grid grid-cols-3 gap-1">
+                {supportedOther.map((modeInfo) => {
+                  const isActive = currentMode === modeInfo.mode;
+                
+                  return (
+                    <Button
+                      key={modeInfo.mode}
+                      variant={isActive ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => handleModeChange(modeInfo.mode)}
+                      disabled={!connected}
+                      className={cn(
+                        "text-xs font-medium",
+                        isActive && "bg-primary text-primary-foreground"
+                      )}
+                      title={modeInfo.description}
+                    >
+                      {modeInfo.label}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Mode Info */}
         <div className="text-xs text-muted-foreground text-center">
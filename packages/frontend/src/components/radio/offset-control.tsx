@@ -0,0 +1,171 @@
+import { Crosshair } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import {
+  useRadioBandwidth,
+  useRadioCapabilities,
+  useRadioConnected,
+  useRadioMode,
+  useRadioModes,
+  useRadioOffsets,
+  useRadioStore,
+} from '@/stores/radio';
+import { formatOffset } from '@/lib/utils';
+
+// What most rigs reach, for when capabilities have not said
+const DEFAULT_MAX_OFFSET_HZ = 9999;
+const DEFAULT_MAX_IF_SHIFT_HZ = 1200;
+
+interface OffsetRowProps {
+  label: string;
+  description: string;
+  on: boolean;
+  hz: number;
+  maxHz: number;
+  disabled: boolean;
+  onToggle: (on: boolean) => void;
+  onChange: (hz: number) => void;
+}
+
+function OffsetRow({ label, description, on, hz, maxHz, disabled, onToggle, onChange }: OffsetRowProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <div className="text-sm font-medium">{label}</div>
+          <div className="text-xs text-muted-foreground">{description}</div>
+        </div>
+        <Switch checked={on} onCheckedChange={onToggle} disabled={disabled} />
+      </div>
+      <div className="flex items-center gap-3">
+        <Slider
+          value={[hz]}
+          onValueChange={(value) => onChange(value[0])}
+          min={-maxHz}
+          max={maxHz}
+          step={10}
+          disabled={disabled}
+        />
+        <span className="w-20 text-right font-mono text-xs">{formatOffset(hz)}</span>
+        <Button variant="outline" size="sm" onClick={() => onChange(0)} disabled={disabled || hz === 0}>
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function OffsetControl() {
+  const offsets = useRadioOffsets();
+  const connected = useRadioConnected();
+  const capabilities = useRadioCapabilities();
+  const mode = useRadioMode();
+  const modes = useRadioModes();
+  const bandwidthHz = useRadioBandwidth();
+  const { setOffsets, setPassband } = useRadioStore();
+
+  // Until the rig reports its capabilities, offer every control
+  const hasRit = !capabilities || !!capabilities.maxRitHz || capabilities.setFunctions.includes('RIT');
+  const hasXit = !capabilities || !!capabilities.maxXitHz || capabilities.setFunctions.includes('XIT');
+  const hasIfShift = !capabilities || capabilities.setLevels.includes('IF');
+  const maxIfShift = capabilities?.maxIfShiftHz ?? DEFAULT_MAX_IF_SHIFT_HZ;
+  const ifShiftHz = offsets.ifShiftHz ?? 0;
+
+  // Up to twice the mode's normal width, in 50 Hz steps
+  const normalWidth = modes.find((m) => m.mode === mode)?.passbandHz ?? 3000;
+  const maxWidth = normalWidth * 2;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crosshair className="h-5 w-5" />
+          RIT / XIT & Passband
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {hasRit && (
+          <OffsetRow
+            label="RIT"
+            description="Move the receiver without moving the transmitter"
+            on={offsets.ritOn ?? false}
+            hz={offsets.ritHz ?? 0}
+            maxHz={capabilities?.maxRitHz ?? DEFAULT_MAX_OFFSET_HZ}
+            disabled={!connected}
+            onToggle={(ritOn) => setOffsets({ ritOn })}
+            onChange={(ritHz) => setOffsets({ ritHz })}
+          />
+        )}
+
+        {hasXit && (
+          <OffsetRow
+            label="XIT"
+            description="Move the transmitter without moving the receiver"
+            on={offsets.xitOn ?? false}
+            hz={offsets.xitHz ?? 0}
+            maxHz={capabilities?.maxXitHz ?? DEFAULT_MAX_OFFSET_HZ}
+            disabled={!connected}
+            onToggle={(xitOn) => setOffsets({ xitOn })}
+            onChange={(xitHz) => setOffsets({ xitHz })}
+          />
+        )}
+
+        {/* IF Shift */}
+        {hasIfShift && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">IF Shift</span>
+              <span className="font-mono">{formatOffset(ifShiftHz)}</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <Slider
+                value={[ifShiftHz]}
+                onValueChange={(value) => setOffsets({ ifShiftHz: value[0] })}
+                min={-maxIfShift}
+                max={maxIfShift}
+                step={10}
+                disabled={!connected}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOffsets({ ifShiftHz: 0 })}
+                disabled={!connected || ifShiftHz === 0}
+              >
+                Center
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Passband Width */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Passband Width</span>
+            <span className="font-mono">{bandwidthHz > 0 ? `${bandwidthHz} Hz` : '—'}</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <Slider
+              value={[Math.min(bandwidthHz || normalWidth, maxWidth)]}
+              onValueChange={(value) => setPassband(value[0])}
+              min={50}
+              max={maxWidth}
+              step={50}
+              disabled={!connected}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPassband(normalWidth)}
+              disabled={!connected || bandwidthHz === normalWidth}
+            >
+              Normal
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
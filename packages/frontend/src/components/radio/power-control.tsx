@@ -3,7 +3,7 @@ import { Zap } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { useRadioPower, useRadioConnected, useRadioStore } from '@/stores/radio';
+import { useRadioPower, useRadioConnected, useRadioCapabilities, useRadioStore } from '@/stores/radio';
 import { formatPower } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 
@@ -18,14 +18,25 @@ const powerPresets = [
 export function PowerControl() {
   const power = useRadioPower();
   const connected = useRadioConnected();
+  const capabilities = useRadioCapabilities();
   const { setPower } = useRadioStore();
 
+  // The backend speaks percent of the rig's maximum; show watts against the
+  // rig's reported ceiling, assuming a 100W rig until capabilities arrive
+  const maxWatts = capabilities?.maxPowerWatts ?? 100;
+  const canSetPower = !capabilities || capabilities.setLevels.includes('RFPOWER');
+  const watts = Math.round((power * maxWatts) / 100);
+  const presets = powerPresets.filter((preset) => preset.value <= maxWatts);
+  const scale = [1, Math.round(maxWatts / 4), Math.round(maxWatts / 2), maxWatts];
+
+  const toPercent = (w: number) => Math.round((w / maxWatts) * 100);
+
   const handlePowerChange = (value: number[]) => {
-    setPower(value[0]);
+    setPower(toPercent(value[0]));
   };
 
   const handlePresetPower = (presetPower: number) => {
-    setPower(presetPower);
+    setPower(toPercent(presetPower));
   };
 
   const getPowerColor = (powerLevel: number) => {
@@ -54,12 +65,12 @@ export function PowerControl() {
         <div className="text-center">
           <div className={cn(
             "text-3xl font-bold font-mono",
-            connected ? getPowerColor(power) : "text-muted-foreground"
+            connected ? getPowerColor(watts) : "text-muted-foreground"
           )}>
-            {formatPower(power)}
+            {formatPower(watts)}
           </div>
           <div className="text-sm text-muted-foreground">
-            {getPowerLevel(power)} Power
+            {canSetPower ? `${getPowerLevel(watts)} Power` : 'Power not adjustable on this rig'}
           </div>
         </div>
 
@@ -67,24 +78,23 @@ export function PowerControl() {
         <div className="space-y-3">
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">Power Level</span>
-            <span className="font-mono">{power}W</span>
+            <span className="font-mono">{watts}W</span>
           </div>
           
           <Slider
-            value={[power]}
+            value={[watts]}
             onValueChange={handlePowerChange}
-            max={100}
+            max={maxWatts}
             min={1}
             step={1}
-            disabled={!connected}
+            disabled={!connected || !canSetPower}
             className="w-full"
           />
           
           <div className="flex justify-between text-xs text-muted-foreground">
-            <span>1W</span>
-            <span>25W</span>
-            <span>50W</span>
-            <span>100W</span>
+            {scale.map((w, i) => (
+              <span key={i}>{w}W</span>
+            ))}
           </div>
         </div>
 
@@ -92,16 +102,16 @@ export function PowerControl() {
         <div className="space-y-2">
           <div className="text-sm font-medium text-muted-foreground">Quick Settings</div>
           <div className="grid grid-cols-5 gap-1">
-            {powerPresets.map((preset) => (
+            {presets.map((preset) => (
               <Button
                 key={preset.value}
-                variant={power === preset.value ? "default" : "outline"}
+                variant={watts === preset.value ? "default" : "outline"}
                 size="sm"
                 onClick={() => handlePresetPower(preset.value)}
-                disabled={!connected}
+                disabled={!connected || !canSetPower}
                 className={cn(
                   "text-xs font-medium",
-                  power === preset.value && "bg-primary text-primary-foreground"
+                  watts === preset.value && "bg-primary text-primary-foreground"
                 )}
               >
                 {preset.label}
@@ -115,23 +125,23 @@ export function PowerControl() {
           <div className="text-sm font-medium mb-2">Power Information</div>
           <div className="space-y-1 text-xs text-muted-foreground">
             <div>
-              Current Setting: <span className="font-medium text-foreground">{formatPower(power)}</span>
+              Current Setting: <span className="font-medium text-foreground">{formatPower(watts)}</span>
             </div>
             <div>
-              Power Level: <span className={cn("font-medium", getPowerColor(power))}>
-                {getPowerLevel(power)}
+              Power Level: <span className={cn("font-medium", getPowerColor(watts))}>
+                {getPowerLevel(watts)}
               </span>
             </div>
             <div>
               Efficiency: <span className="font-medium text-foreground">
-                {power <= 10 ? 'Maximum' : power <= 50 ? 'High' : 'Standard'}
+                {watts <= 10 ? 'Maximum' : watts <= 50 ? 'High' : 'Standard'}
               </span>
             </div>
           </div>
         </div>
 
         {/* Power Safety Warning */}
-        {power > 50 && (
+        {watts > 50 && (
           <div className="p-2 bg-yellow-50 border border-yellow-200 rounded-lg dark:bg-yellow-900 dark:border-yellow-800">
             <div className="text-xs text-yellow-800 dark:text-yellow-200">
               ⚠️ High power setting - ensure proper antenna and cooling
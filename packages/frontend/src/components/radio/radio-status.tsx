@@ -2,16 +2,56 @@ import React from 'react';
 import { Activity, Mic, MicOff, Zap } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { useRadioPTT, useRadioTuning, useRadioSWR, useRadioSignalStrength, useRadioConnected, useRadioStore } from '@/stores/radio';
-import { formatSWR, formatSignalStrength } from '@/lib/utils';
+import { AnalogMeter } from './analog-meter';
+import {
+  useRadioPTT,
+  useRadioTuning,
+  useRadioMeters,
+  useRadioConnected,
+  useRadioCapabilities,
+  useRadioStore,
+} from '@/stores/radio';
+import { formatSUnits, formatSWR, formatSignalStrength } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 
+// S1-S9 are 6 dB apart from S9 = -73 dBm, then 20 dB steps to S9+60
+const S_METER_TICKS = [
+  { value: -121, label: '1' },
+  { value: -109, label: '3' },
+  { value: -97, label: '5' },
+  { value: -85, label: '7' },
+  { value: -73, label: '9' },
+  { value: -53, label: '+20' },
+  { value: -33, label: '+40' },
+  { value: -13, label: '+60' },
+];
+const SWR_TICKS = [
+  { value: 1, label: '1' },
+  { value: 1.5, label: '1.5' },
+  { value: 2, label: '2' },
+  { value: 3, label: '3' },
+  { value: 10, label: '∞' },
+];
+const ALC_TICKS = [
+  { value: 0, label: '0' },
+  { value: 0.5, label: '' },
+  { value: 1, label: 'ALC' },
+];
+const COMP_TICKS = [0, 10, 20, 30].map((db) => ({ value: db, label: `${db}` }));
+const ID_TICKS = [0, 5, 10, 15, 20, 25].map((a) => ({ value: a, label: `${a}` }));
+const VD_TICKS = [10, 12, 14, 16].map((v) => ({ value: v, label: `${v}` }));
+
+const reading = (value: number | undefined, format: (v: number) => string) =>
+  value === undefined ? '—' : format(value);
+
 export function RadioStatus() {
   const ptt = useRadioPTT();
   const tuning = useRadioTuning();
-  const swr = useRadioSWR();
-  const signalStrength = useRadioSignalStrength();
+  const meters = useRadioMeters();
+  const capabilities = useRadioCapabilities();
   const connected = useRadioConnected();
+  const maxWatts = capabilities?.maxPowerWatts ?? 100;
+  const powerTicks = [0, 0.25, 0.5, 0.75, 1].map((f) => ({ value: f * maxWatts, label: `${Math.round(f * maxWatts)}` }));
   const { setPTT, setTuning } = useRadioStore();
 
   const handlePTTToggle = () => {
@@ -35,20 +75,6 @@ export function RadioStatus() {
     return 'Poor';
   };
 
-  const getSignalColor = (dbm: number) => {
-    if (dbm >= -60) return 'text-green-600';
-    if (dbm >= -80) return 'text-yellow-600';
-    return 'text-red-600';
-  };
-
-  const getSignalBars = (dbm: number) => {
-    if (dbm >= -60) return 5;
-    if (dbm >= -70) return 4;
-    if (dbm >= -80) return 3;
-    if (dbm >= -90) return 2;
-    return 1;
-  };
-
   return (
     <Card>
       <CardHeader>
@@ -76,7 +102,7 @@ export function RadioStatus() {
           <Button
             variant={tuning ? "default" : "outline"}
             onClick={handleTuneToggle}
-            disabled={!connected}
+            disabled={!connected || tuning}
             className={cn(
               "flex items-center gap-2 font-medium",
               tuning && "bg-blue-600 hover:bg-blue-700"
@@ -87,43 +113,46 @@ export function RadioStatus() {
           </Button>
         </div>
 
-        {/* Status Indicators */}
-        <div className="space-y-3">
-          {/* SWR */}
-          <div className="flex items-center justify-between">
-            <div className="text-sm font-medium text-muted-foreground">SWR</div>
-            <div className="text-right">
-              <div className={cn("font-mono font-bold", getSWRColor(swr))}>
-                {formatSWR(swr)}
-              </div>
-              <div className="text-xs text-muted-foreground">
-                {getSWRStatus(swr)}
-              </div>
-            </div>
-          </div>
-
-          {/* Signal Strength */}
-          <div className="flex items-center justify-between">
-            <div className="text-sm font-medium text-muted-foreground">Signal</div>
-            <div className="text-right">
-              <div className={cn("font-mono font-bold", getSignalColor(signalStrength))}>
-                {formatSignalStrength(signalStrength)}
-              </div>
-              <div className="flex gap-1 justify-end mt-1">
-                {Array.from({ length: 5 }, (_, i) => (
-                  <div
-                    key={i}
-                    className={cn(
-                      "w-2 h-3 rounded-sm",
-                      i < getSignalBars(signalStrength)
-                        ? getSignalColor(signalStrength).replace('text-', 'bg-')
-                        : "bg-muted"
-                    )}
-                  />
-                ))}
-              </div>
-            </div>
-          </div>
+        {/* Meters: the S-meter in receive, power out in transmit */}
+        <div className="grid grid-cols-2 gap-2">
+          {ptt ? (
+            <AnalogMeter
+              className="col-span-2"
+              label="Po"
+              value={meters.powerWatts}
+              ticks={powerTicks}
+              readout={reading(meters.powerWatts, (w) => `${w.toFixed(0)} W`)}
+            />
+          ) : (
+            <AnalogMeter
+              className="col-span-2"
+              label="S"
+              value={meters.signalDbm}
+              ticks={S_METER_TICKS}
+              redFrom={-73}
+              readout={
+                meters.signalDbm === undefined
+                  ? '—'
+                  : `${formatSUnits(meters.sUnits ?? 0, meters.overS9Db)} · ${formatSignalStrength(meters.signalDbm)}`
+              }
+            />
+          )}
+          <AnalogMeter label="SWR" value={meters.swr} ticks={SWR_TICKS} redFrom={3}
+            readout={reading(meters.swr, formatSWR)} />
+          <AnalogMeter label="ALC" value={meters.alc} ticks={ALC_TICKS} redFrom={0.5}
+            readout={reading(meters.alc, (v) => `${Math.round(v * 100)}%`)} />
+          {meters.compDb !== undefined && (
+            <AnalogMeter label="COMP" value={meters.compDb} ticks={COMP_TICKS} redFrom={20}
+              readout={`${meters.compDb.toFixed(0)} dB`} />
+          )}
+          {meters.idAmps !== undefined && (
+            <AnalogMeter label="Id" value={meters.idAmps} ticks={ID_TICKS} redFrom={20}
+              readout={`${meters.idAmps.toFixed(1)} A`} />
+          )}
+          {meters.vdVolts !== undefined && (
+            <AnalogMeter label="Vd" value={meters.vdVolts} ticks={VD_TICKS}
+              readout={`${meters.vdVolts.toFixed(1)} V`} />
+          )}
         </div>
 
         {/* Status Alerts */}
@@ -143,7 +172,7 @@ export function RadioStatus() {
           </div>
         )}
 
-        {swr > 2.0 && (
+        {meters.swr !== undefined && meters.swr > 2.0 && (
           <div className="p-2 bg-yellow-50 border border-yellow-200 rounded-lg dark:bg-yellow-900 dark:border-yellow-800">
             <div className="text-xs text-yellow-800 dark:text-yellow-200 font-medium">
               ⚠️ HIGH SWR - Check antenna connection
@@ -161,13 +190,17 @@ export function RadioStatus() {
               </span>
             </div>
             <div>
-              Antenna: <span className={cn("font-medium", getSWRColor(swr))}>
-                {getSWRStatus(swr)} ({formatSWR(swr)})
-              </span>
+              Antenna: {meters.swr === undefined ? (
+                <span className="font-medium text-foreground">measured while transmitting</span>
+              ) : (
+                <span className={cn("font-medium", getSWRColor(meters.swr))}>
+                  {getSWRStatus(meters.swr)} ({formatSWR(meters.swr)})
+                </span>
+              )}
             </div>
             <div>
-              Signal: <span className={cn("font-medium", getSignalColor(signalStrength))}>
-                {getSignalBars(signalStrength)}/5 bars
+              Signal: <span className="font-medium text-foreground">
+                {meters.sUnits === undefined ? '—' : formatSUnits(meters.sUnits, meters.overS9Db)}
               </span>
             </div>
           </div>
@@ -0,0 +1,184 @@
+import { SlidersHorizontal } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import {
+  useRadioConnected,
+  useRadioCapabilities,
+  useRadioReceiver,
+  useRadioStore,
+} from '@/stores/radio';
+import { cn } from '@/lib/utils';
+import type { AgcSpeed, RadioReceiver } from '@/types';
+
+const agcSpeeds: Array<{ value: AgcSpeed; label: string }> = [
+  { value: 'off', label: 'OFF' },
+  { value: 'fast', label: 'FAST' },
+  { value: 'medium', label: 'MID' },
+  { value: 'slow', label: 'SLOW' },
+  { value: 'auto', label: 'AUTO' },
+];
+
+// On/off DSP functions, by the Hamlib token capabilities list them under
+const switches: Array<{ key: 'nb' | 'nr' | 'autoNotch' | 'manualNotch'; func: string; label: string; description: string }> = [
+  { key: 'nb', func: 'NB', label: 'Noise Blanker', description: 'Cut impulse noise (ignition, power lines)' },
+  { key: 'nr', func: 'NR', label: 'Noise Reduction', description: 'DSP filtering of background hiss' },
+  { key: 'autoNotch', func: 'ANF', label: 'Auto Notch', description: 'Track and remove carriers' },
+  { key: 'manualNotch', func: 'MN', label: 'Manual Notch', description: 'Remove a carrier at a set pitch' },
+];
+
+// 0-1 levels, shown as percent
+const gains: Array<{ key: 'rfGain' | 'afGain' | 'squelch'; level: string; label: string }> = [
+  { key: 'rfGain', level: 'RF', label: 'RF Gain' },
+  { key: 'afGain', level: 'AF', label: 'AF Gain' },
+  { key: 'squelch', level: 'SQL', label: 'Squelch' },
+];
+
+const percent = (value: number | undefined) => Math.round((value ?? 0) * 100);
+
+export function ReceiverControl() {
+  const receiver = useRadioReceiver();
+  const connected = useRadioConnected();
+  const capabilities = useRadioCapabilities();
+  const { setReceiver } = useRadioStore();
+
+  // Until the rig reports its capabilities, offer every control
+  const canFunc = (func: string) => !capabilities || capabilities.setFunctions.includes(func);
+  const canLevel = (level: string) => !capabilities || capabilities.setLevels.includes(level);
+  // Front-end steps are only known from capabilities
+  const preamps = capabilities && canLevel('PREAMP') ? capabilities.preamps : [];
+  const attenuators = capabilities && canLevel('ATT') ? capabilities.attenuators : [];
+
+  const update = (settings: RadioReceiver) => {
+    setReceiver(settings);
+  };
+
+  const renderSteps = (key: 'preampDb' | 'attDb', label: string, steps: number[]) => (
+    <div className="space-y-2">
+      <div className="text-sm font-medium text-muted-foreground">{label}</div>
+      <div className="flex gap-1">
+        {[0, ...steps].map((db) => (
+          <Button
+            key={db}
+            variant={(receiver[key] ?? 0) === db ? "default" : "outline"}
+            size="sm"
+            onClick={() => update({ [key]: db })}
+            disabled={!connected}
+            className="flex-1 text-xs font-medium"
+          >
+            {db === 0 ? 'OFF' : `${db} dB`}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Receiver
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* AGC */}
+        {canLevel('AGC') && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-muted-foreground">AGC</div>
+            <div className="grid grid-cols-5 gap-1">
+              {agcSpeeds.map((speed) => (
+                <Button
+                  key={speed.value}
+                  variant={receiver.agc === speed.value ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => update({ agc: speed.value })}
+                  disabled={!connected}
+                  className={cn(
+                    "text-xs font-medium",
+                    receiver.agc === speed.value && "bg-primary text-primary-foreground"
+                  )}
+                >
+                  {speed.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Front end */}
+        {(preamps.length > 0 || attenuators.length > 0) && (
+          <div className="grid grid-cols-2 gap-4">
+            {preamps.length > 0 && renderSteps('preampDb', 'Preamp', preamps)}
+            {attenuators.length > 0 && renderSteps('attDb', 'Attenuator', attenuators)}
+          </div>
+        )}
+
+        {/* DSP functions */}
+        {switches.filter((s) => canFunc(s.func)).map((s) => (
+          <div key={s.key} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <div className="text-sm font-medium">{s.label}</div>
+                <div className="text-xs text-muted-foreground">{s.description}</div>
+              </div>
+              <Switch
+                checked={receiver[s.key] ?? false}
+                onCheckedChange={(on) => update({ [s.key]: on })}
+                disabled={!connected}
+              />
+            </div>
+
+            {s.key === 'nr' && receiver.nr && canLevel('NR') && (
+              <div className="flex items-center gap-3">
+                <span className="w-12 text-xs text-muted-foreground">Level</span>
+                <Slider
+                  value={[percent(receiver.nrLevel)]}
+                  onValueChange={(value) => update({ nrLevel: value[0] / 100 })}
+                  max={100}
+                  step={1}
+                  disabled={!connected}
+                />
+                <span className="w-10 text-right font-mono text-xs">{percent(receiver.nrLevel)}%</span>
+              </div>
+            )}
+
+            {s.key === 'manualNotch' && receiver.manualNotch && canLevel('NOTCHF') && (
+              <div className="flex items-center gap-3">
+                <span className="w-12 text-xs text-muted-foreground">Pitch</span>
+                <Slider
+                  value={[receiver.notchHz ?? 1000]}
+                  onValueChange={(value) => update({ notchHz: value[0] })}
+                  min={100}
+                  max={3000}
+                  step={10}
+                  disabled={!connected}
+                />
+                <span className="w-16 text-right font-mono text-xs">{receiver.notchHz ?? 1000} Hz</span>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {/* Gains */}
+        {gains.filter((g) => canLevel(g.level)).map((g) => (
+          <div key={g.key} className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{g.label}</span>
+              <span className="font-mono">{percent(receiver[g.key])}%</span>
+            </div>
+            <Slider
+              value={[percent(receiver[g.key])]}
+              onValueChange={(value) => update({ [g.key]: value[0] / 100 })}
+              max={100}
+              step={1}
+              disabled={!connected}
+              className="w-full"
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
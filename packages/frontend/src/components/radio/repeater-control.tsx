@@ -0,0 +1,208 @@
+import { Repeat } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  useRadioCapabilities,
+  useRadioConnected,
+  useRadioFrequency,
+  useRadioMode,
+  useRadioRepeater,
+  useRadioStore,
+} from '@/stores/radio';
+import { formatFrequency } from '@/lib/utils';
+import type { RepeaterShift, ToneMode } from '@/types';
+
+const SHIFTS: { value: RepeaterShift; label: string }[] = [
+  { value: 'simplex', label: 'Simplex' },
+  { value: 'minus', label: '−' },
+  { value: 'plus', label: '+' },
+];
+
+const TONE_MODES: { value: ToneMode; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'No tone' },
+  { value: 'tone', label: 'Tone', description: 'CTCSS on transmit to open the repeater' },
+  { value: 'tsql', label: 'TSQL', description: 'CTCSS both ways; the squelch opens on the tone' },
+  { value: 'dcs', label: 'DCS', description: 'Digital code both ways' },
+];
+
+const inputClass = 'w-full bg-background border border-input rounded px-2 py-1 text-sm font-mono';
+
+export function RepeaterControl() {
+  const repeater = useRadioRepeater();
+  const connected = useRadioConnected();
+  const capabilities = useRadioCapabilities();
+  const frequency = useRadioFrequency();
+  const mode = useRadioMode();
+  const { setRepeater } = useRadioStore();
+
+  // Until the rig reports its capabilities, offer every control
+  if (capabilities && !capabilities.canSetRepeater) return null;
+
+  const ctcssTones = capabilities?.ctcssTones ?? [];
+  const dcsCodes = capabilities?.dcsCodes ?? [];
+  const toneModes = TONE_MODES.filter((t) => t.value !== 'dcs' || !capabilities || dcsCodes.length > 0);
+
+  const shift = repeater.shift ?? 'simplex';
+  const offsetHz = repeater.offsetHz ?? 0;
+  const toneMode = repeater.toneMode ?? 'off';
+  const isFm = mode === 'FM' || mode === 'FMN';
+
+  // Where the transmitter lands; reverse listens on the input and transmits on the output
+  const shiftHz = shift === 'plus' ? offsetHz : shift === 'minus' ? -offsetHz : 0;
+  const rxHz = repeater.reverse ? frequency + shiftHz : frequency;
+  const txHz = repeater.reverse ? frequency : frequency + shiftHz;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" />
+          Repeater
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Shift and offset */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Shift</span>
+            <span className="font-mono text-xs">
+              RX {formatFrequency(rxHz)} / TX {formatFrequency(txHz)}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {SHIFTS.map((s) => (
+              <Button
+                key={s.value}
+                variant={shift === s.value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRepeater({ shift: s.value })}
+                disabled={!connected}
+              >
+                {s.label}
+              </Button>
+            ))}
+            <input
+              className={inputClass}
+              type="number"
+              min={0}
+              step={0.001}
+              title="Offset in MHz"
+              defaultValue={offsetHz / 1e6}
+              key={offsetHz}
+              disabled={!connected}
+              onBlur={(e) => {
+                const hz = Math.round(parseFloat(e.target.value) * 1e6);
+                if (Number.isFinite(hz) && hz >= 0 && hz !== offsetHz) setRepeater({ offsetHz: hz });
+              }}
+            />
+            <span className="text-xs text-muted-foreground">MHz</span>
+          </div>
+        </div>
+
+        {/* Tone mode */}
+        <div className="space-y-2">
+          <span className="text-sm text-muted-foreground">Tone</span>
+          <div className="grid grid-cols-4 gap-1">
+            {toneModes.map((t) => (
+              <Button
+                key={t.value}
+                variant={toneMode === t.value ? 'default' : 'outline'}
+                size="sm"
+                title={t.description}
+                onClick={() => setRepeater({ toneMode: t.value })}
+                disabled={!connected}
+              >
+                {t.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Tone frequencies and code; the list comes from the rig */}
+        {(toneMode === 'tone' || toneMode === 'tsql') && ctcssTones.length > 0 && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Encode</label>
+              <Select
+                value={repeater.ctcssHz?.toString()}
+                onValueChange={(value) => setRepeater({ ctcssHz: parseFloat(value) })}
+                disabled={!connected}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Tone" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ctcssTones.map((hz) => (
+                    <SelectItem key={hz} value={hz.toString()}>
+                      {hz.toFixed(1)} Hz
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {toneMode === 'tsql' && (
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Decode</label>
+                <Select
+                  value={repeater.ctcssSqlHz?.toString()}
+                  onValueChange={(value) => setRepeater({ ctcssSqlHz: parseFloat(value) })}
+                  disabled={!connected}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Tone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ctcssTones.map((hz) => (
+                      <SelectItem key={hz} value={hz.toString()}>
+                        {hz.toFixed(1)} Hz
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+
+        {toneMode === 'dcs' && dcsCodes.length > 0 && (
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">DCS code</label>
+            <Select
+              value={repeater.dcsCode?.toString()}
+              onValueChange={(value) => setRepeater({ dcsCode: parseInt(value, 10) })}
+              disabled={!connected}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Code" />
+              </SelectTrigger>
+              <SelectContent>
+                {dcsCodes.map((code) => (
+                  <SelectItem key={code} value={code.toString()}>
+                    {code.toString().padStart(3, '0')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Reverse */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Reverse</div>
+            <div className="text-xs text-muted-foreground">Listen on the input to check for a direct path</div>
+          </div>
+          <Switch
+            checked={repeater.reverse ?? false}
+            onCheckedChange={(reverse) => setRepeater({ reverse })}
+            disabled={!connected || shift === 'simplex'}
+          />
+        </div>
+
+        {!isFm && <div className="text-xs text-muted-foreground">Shift and tones take effect in FM</div>}
+      </CardContent>
+    </Card>
+  );
+}
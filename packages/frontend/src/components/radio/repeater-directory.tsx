@@ -0,0 +1,127 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { RadioTower, Trash2, Upload } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useRadioCapabilities, useRadioConnected } from '@/stores/radio';
+import { useRepeaterStore } from '@/stores/repeaters';
+import { toast } from '@/stores/ui';
+import { formatFrequency } from '@/lib/utils';
+import type { RepeaterEntry } from '@/types';
+
+function describe(entry: RepeaterEntry): string {
+  const { shift, offsetHz = 0, toneMode, ctcssHz, ctcssSqlHz, dcsCode } = entry.repeater;
+  const parts: string[] = [];
+  if (shift === 'plus' || shift === 'minus') {
+    parts.push(`${shift === 'plus' ? '+' : '−'}${(offsetHz / 1e6).toFixed(3)}`);
+  }
+  if (toneMode === 'tone' && ctcssHz) parts.push(`T ${ctcssHz.toFixed(1)}`);
+  if (toneMode === 'tsql' && ctcssSqlHz) parts.push(`TSQL ${ctcssSqlHz.toFixed(1)}`);
+  if (toneMode === 'dcs' && dcsCode) parts.push(`D${dcsCode.toString().padStart(3, '0')}`);
+  return parts.join(' · ');
+}
+
+export function RepeaterDirectory() {
+  const connected = useRadioConnected();
+  const capabilities = useRadioCapabilities();
+  const { entries, importCsv, remove, clear, tune } = useRepeaterStore();
+  const [filter, setFilter] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Until the rig reports its capabilities, offer the directory
+  if (capabilities && !capabilities.canSetRepeater) return null;
+
+  const onFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { added, skipped } = importCsv(await file.text());
+      toast.success('Repeaters imported', `${added} added${skipped ? `, ${skipped} skipped` : ''} from ${file.name}`);
+    } catch (error) {
+      toast.error('Repeater import', error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  const onTune = async (entry: RepeaterEntry) => {
+    try {
+      await tune(entry);
+    } catch (error) {
+      toast.error('Repeater', error instanceof Error ? error.message : 'Tune failed');
+    }
+  };
+
+  const needle = filter.trim().toLowerCase();
+  const shown = needle
+    ? entries.filter(
+        (e) =>
+          e.name.toLowerCase().includes(needle) ||
+          (e.comment ?? '').toLowerCase().includes(needle) ||
+          (e.frequency / 1e6).toFixed(4).includes(needle)
+      )
+    : entries;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RadioTower className="h-5 w-5" />
+          Repeater Directory
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <input
+            className="w-full bg-background border border-input rounded px-2 py-1 text-sm"
+            value={filter}
+            placeholder="Filter by name, place or frequency"
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          <input ref={fileInput} type="file" accept=".csv,text/csv" className="hidden" onChange={onFile} />
+          <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} title="Import a CHIRP export or CSV">
+            <Upload className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            Import a CHIRP export, or a CSV with Name, Frequency, Duplex, Offset and Tone columns.
+          </div>
+        ) : (
+          <div className="max-h-72 space-y-1 overflow-y-auto">
+            {shown.map((entry) => (
+              <div key={entry.id} className="flex items-center gap-2 rounded-md border px-2 py-1">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-baseline gap-2">
+                    <span className="font-mono text-sm">{formatFrequency(entry.frequency)}</span>
+                    <span className="truncate text-sm font-medium">{entry.name}</span>
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {[describe(entry), entry.comment].filter(Boolean).join(' — ')}
+                  </div>
+                </div>
+                <Button size="sm" onClick={() => onTune(entry)} disabled={!connected}>
+                  Tune
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => remove(entry.id)} title="Remove">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {shown.length} of {entries.length}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => window.confirm('Remove every repeater from the directory?') && clear()}>
+              Clear all
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+import { Button } from '@/components/ui/button';
+import { useRadioRigs, useActiveRigId, useRadioStore } from '@/stores/radio';
+import { cn } from '@/lib/utils';
+
+export function RigSwitcher() {
+  const rigs = useRadioRigs();
+  const activeRigId = useActiveRigId();
+  const { setActiveRig } = useRadioStore();
+
+  // Nothing to switch between on a single-rig station
+  if (rigs.length < 2) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {rigs.map((rig) => {
+        const isActive = rig.id === activeRigId;
+
+        return (
+          <Button
+            key={rig.id}
+            variant={isActive ? "default" : "outline"}
+            size="sm"
+            onClick={() => setActiveRig(rig.id)}
+            className={cn(
+              "flex items-center gap-2",
+              isActive && "bg-primary text-primary-foreground"
+            )}
+            title={rig.rigModel ? `${rig.rigModel} (${rig.adapter})` : rig.adapter}
+          >
+            <div className={cn(
+              'w-2 h-2 rounded-full',
+              rig.connected ? 'bg-green-500' : 'bg-red-500'
+            )} />
+            {rig.name}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Server, Play, Square, RotateCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useActiveRigctld, useRadioStore } from '@/stores/radio';
+import { toast } from '@/stores/ui';
+import { cn } from '@/lib/utils';
+import type { RigctldStatus } from '@/types';
+
+const stateStyles: Record<RigctldStatus['state'], string> = {
+  running: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  starting: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  crashed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  stopped: 'bg-muted text-muted-foreground',
+};
+
+export function RigctldControl() {
+  const status = useActiveRigctld();
+  const { controlRigctld } = useRadioStore();
+  const [rigModel, setRigModel] = useState('');
+  const [rigPort, setRigPort] = useState('');
+  const [rigSpeed, setRigSpeed] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // Start the form from whatever rigctld is currently configured with
+  const current = status?.settings;
+  useEffect(() => {
+    if (!current) return;
+    setRigModel(String(current.rigModel));
+    setRigPort(current.rigPort);
+    setRigSpeed(String(current.rigSpeed));
+  }, [current?.rigModel, current?.rigPort, current?.rigSpeed]);
+
+  // Only rigs whose rigctld the backend runs have anything to show here
+  if (!status) return null;
+
+  const run = async (action: 'start' | 'stop' | 'restart') => {
+    setBusy(true);
+    try {
+      const settings = action === 'stop'
+        ? undefined
+        : { rigModel: Number(rigModel), rigPort: rigPort.trim(), rigSpeed: Number(rigSpeed) };
+      await controlRigctld(action, settings);
+    } catch (error) {
+      toast.error('rigctld', error instanceof Error ? error.message : `Failed to ${action} rigctld`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-background border border-input rounded px-2 py-1 text-sm font-mono';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="h-5 w-5" />
+          rigctld
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className={cn('px-3 py-1 rounded-full text-xs font-medium capitalize', stateStyles[status.state])}>
+            {status.state}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {status.pid ? `PID ${status.pid}` : 'Not running'} • {status.restarts} restarts
+          </div>
+        </div>
+
+        {status.lastError && status.state !== 'running' && (
+          <div className="text-xs text-red-600 break-words">{status.lastError}</div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Model
+            <input className={inputClass} value={rigModel} onChange={(e) => setRigModel(e.target.value)} />
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground col-span-2">
+            Serial port
+            <input className={inputClass} value={rigPort} onChange={(e) => setRigPort(e.target.value)} />
+          </label>
+          <label className="space-y-1 text-xs text-muted-foreground">
+            Baud
+            <input className={inputClass} value={rigSpeed} onChange={(e) => setRigSpeed(e.target.value)} />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <Button variant="outline" size="sm" onClick={() => run('start')} disabled={busy || status.state === 'running'}>
+            <Play className="h-4 w-4 mr-1" />
+            Start
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => run('stop')} disabled={busy || status.state === 'stopped'}>
+            <Square className="h-4 w-4 mr-1" />
+            Stop
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => run('restart')} disabled={busy}>
+            <RotateCw className="h-4 w-4 mr-1" />
+            Restart
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { History, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useActiveRigId } from '@/stores/radio';
+import { useHistoryStore } from '@/stores/history';
+import { meterSeries, settingChanges, txSpans, type SeriesPoint, type TxSpan } from '@/lib/history';
+import { cn, formatDuration, formatFrequency, formatSWR } from '@/lib/utils';
+
+const SPANS = [
+  { label: '15m', ms: 15 * 60 * 1000 },
+  { label: '1h', ms: 60 * 60 * 1000 },
+  { label: '6h', ms: 6 * 60 * 60 * 1000 },
+  { label: '24h', ms: 24 * 60 * 60 * 1000 },
+];
+const REFRESH_MS = 15000;
+// Chart coordinates; the SVG stretches to the card's width
+const WIDTH = 600;
+const HEIGHT = 100;
+const MAX_CHANGES = 20;
+
+const timeOf = (t: number) => new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+interface ChartProps {
+  title: string;
+  points: SeriesPoint[];
+  from: number;
+  to: number;
+  min: number;
+  max: number;
+  format: (value: number) => string;
+  // Transmissions, shaded behind the line
+  spans?: TxSpan[];
+  className?: string;
+}
+
+function StepChart({ title, points, from, to, min, max, format, spans = [], className }: ChartProps) {
+  const x = (t: number) => ((t - from) / (to - from)) * WIDTH;
+  const y = (value: number) => HEIGHT - ((Math.min(value, max) - min) / (max - min)) * HEIGHT;
+  // Each reading holds until the next, so the line steps rather than slopes
+  const path = points
+    .map((p, i) => (i === 0 ? `M${x(p.t)},${y(p.value)}` : `H${x(p.t)} V${y(p.value)}`))
+    .join(' ');
+  const peak = points.reduce<number | null>((highest, p) => (highest === null ? p.value : Math.max(highest, p.value)), null);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">{title}</span>
+        <span className="font-mono text-xs">{peak === null ? 'No readings' : `Peak ${format(peak)}`}</span>
+      </div>
+      <div className="relative rounded-md border bg-muted/20">
+        <span className="absolute left-1 top-0 text-[10px] text-muted-foreground">{format(max)}</span>
+        <span className="absolute bottom-0 left-1 text-[10px] text-muted-foreground">{format(min)}</span>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="h-24 w-full">
+          {spans.map((span) => (
+            <rect
+              key={span.start}
+              x={x(span.start)}
+              y={0}
+              width={Math.max(1, x(span.end) - x(span.start))}
+              height={HEIGHT}
+              className="fill-red-500/15"
+            />
+          ))}
+          {path && <path d={path} fill="none" strokeWidth={1.5} vectorEffect="non-scaling-stroke" className={className} />}
+        </svg>
+      </div>
+    </div>
+  );
+}
+
+export function StateHistoryCard() {
+  const rigId = useActiveRigId();
+  const { history, loading, error, fetchHistory } = useHistoryStore();
+  const [spanMs, setSpanMs] = useState(SPANS[1].ms);
+
+  useEffect(() => {
+    if (!rigId) return;
+    fetchHistory(rigId, spanMs);
+    const timer = setInterval(() => fetchHistory(rigId, spanMs), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [rigId, spanMs, fetchHistory]);
+
+  const current = history && history.rigId === rigId ? history : null;
+  const spans = current ? txSpans(current) : [];
+  const swr = current ? meterSeries(current, 'swr') : [];
+  const changes = current ? settingChanges(current).slice(0, MAX_CHANGES) : [];
+  const txMs = spans.reduce((total, span) => total + (span.end - span.start), 0);
+  const swrMax = Math.max(3, Math.ceil(Math.max(...swr.map((p) => p.value), 0)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Rig Activity
+          </span>
+          <div className="flex items-center gap-1">
+            {SPANS.map((span) => (
+              <Button
+                key={span.label}
+                variant={span.ms === spanMs ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSpanMs(span.ms)}
+              >
+                {span.label}
+              </Button>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => rigId && fetchHistory(rigId, spanMs)}
+              disabled={!rigId || loading}
+              title="Refresh"
+            >
+              <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="text-sm text-red-500">{error}</div>}
+        {!current ? (
+          <div className="text-sm text-muted-foreground">{loading ? 'Loading…' : 'No history recorded yet'}</div>
+        ) : (
+          <>
+            <StepChart
+              title="S-meter"
+              points={meterSeries(current, 'sUnits')}
+              from={current.from}
+              to={current.to}
+              min={0}
+              max={9}
+              format={(value) => `S${Math.round(value)}`}
+              className="stroke-green-500"
+            />
+            <StepChart
+              title="SWR"
+              points={swr}
+              from={current.from}
+              to={current.to}
+              min={1}
+              max={swrMax}
+              format={formatSWR}
+              spans={spans}
+              className="stroke-amber-500"
+            />
+
+            {/* Activity timeline */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Transmitting</span>
+                <span className="font-mono text-xs">
+                  {spans.length} over {formatDuration(txMs)}
+                </span>
+              </div>
+              <div className="relative h-3 rounded bg-muted/40">
+                {spans.map((span) => (
+                  <div
+                    key={span.start}
+                    className="absolute inset-y-0 min-w-[2px] rounded bg-red-500"
+                    title={`${timeOf(span.start)} for ${formatDuration(span.end - span.start)}`}
+                    style={{
+                      left: `${((span.start - current.from) / (current.to - current.from)) * 100}%`,
+                      width: `${((span.end - span.start) / (current.to - current.from)) * 100}%`,
+                    }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>{timeOf(current.from)}</span>
+                <span>{timeOf(current.to)}</span>
+              </div>
+
+              {changes.length > 0 && (
+                <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                  {changes.map((change) => (
+                    <div key={change.t} className="flex gap-3 font-mono text-xs">
+                      <span className="text-muted-foreground">{timeOf(change.t)}</span>
+                      {change.frequencyHz !== undefined && <span>{formatFrequency(change.frequencyHz)}</span>}
+                      {change.mode && <span className="text-primary">{change.mode}</span>}
+                      {change.power !== undefined && <span className="text-muted-foreground">{change.power}%</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {current.thinned && (
+              <div className="text-xs text-muted-foreground">Meter readings merged to fit; peaks are kept</div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
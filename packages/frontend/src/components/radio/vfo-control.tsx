@@ -1,17 +1,35 @@
 import React from 'react';
-import { RotateCcw, ArrowLeftRight } from 'lucide-react';
+import { RotateCcw, ArrowLeftRight, Copy } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
-import { useRadioVFO, useRadioSplit, useRadioConnected, useRadioStore } from '@/stores/radio';
-import { cn } from '@/lib/utils';
+import {
+  useRadioVFO,
+  useRadioSplit,
+  useRadioConnected,
+  useRadioCapabilities,
+  useRadioFrequency,
+  useRadioTxFrequency,
+  useRadioStore,
+} from '@/stores/radio';
+import { cn, formatFrequency } from '@/lib/utils';
 import type { VFO } from '@/types';
 
 export function VFOControl() {
   const vfo = useRadioVFO();
   const split = useRadioSplit();
   const connected = useRadioConnected();
-  const { setVFO, setSplit } = useRadioStore();
+  const capabilities = useRadioCapabilities();
+  const frequency = useRadioFrequency();
+  const txFrequency = useRadioTxFrequency();
+  const txVfo = useRadioStore((state) => state.txVfo) ?? (vfo === 'A' ? 'B' : 'A');
+  const { setVFO, setSplit, vfoOp } = useRadioStore();
+
+  // Until the rig reports its capabilities, offer every control
+  const hasVfoB = !capabilities || capabilities.vfos.includes('VFOB');
+  const canSplit = !capabilities || capabilities.canSetSplit;
+  const canSwap = !capabilities || capabilities.vfoOps.includes('XCHG');
+  const canCopy = !capabilities || capabilities.vfoOps.includes('CPY');
 
   const handleVFOChange = (newVFO: VFO) => {
     setVFO(newVFO);
@@ -22,9 +40,11 @@ export function VFOControl() {
   };
 
   const handleVFOSwap = () => {
-    // This would swap VFO A and B frequencies
-    // For now, just toggle between A and B
-    setVFO(vfo === 'A' ? 'B' : 'A');
+    vfoOp('swap');
+  };
+
+  const handleVFOCopy = () => {
+    vfoOp('copy');
   };
 
   return (
@@ -52,61 +72,80 @@ export function VFOControl() {
             >
               VFO A
             </Button>
-            <Button
-              variant={vfo === 'B' ? "default" : "outline"}
-              size="lg"
-              onClick={() => handleVFOChange('B')}
-              disabled={!connected}
-              className={cn(
-                "flex-1 text-lg font-bold",
-                vfo === 'B' && "bg-primary text-primary-foreground"
-              )}
-            >
-              VFO B
-            </Button>
+            {hasVfoB && (
+              <Button
+                variant={vfo === 'B' ? "default" : "outline"}
+                size="lg"
+                onClick={() => handleVFOChange('B')}
+                disabled={!connected}
+                className={cn(
+                  "flex-1 text-lg font-bold",
+                  vfo === 'B' && "bg-primary text-primary-foreground"
+                )}
+              >
+                VFO B
+              </Button>
+            )}
           </div>
         </div>
 
         {/* Split Operation */}
-        <div className="space-y-3">
-          <div className="flex items-center justify-between">
-            <div className="space-y-1">
-              <div className="text-sm font-medium">Split Operation</div>
-              <div className="text-xs text-muted-foreground">
-                Transmit on different frequency
+        {canSplit && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Split Operation</div>
+                <div className="text-xs text-muted-foreground">
+                  Transmit on different frequency
+                </div>
               </div>
+              <Switch
+                checked={split}
+                onCheckedChange={handleSplitToggle}
+                disabled={!connected}
+              />
             </div>
-            <Switch
-              checked={split}
-              onCheckedChange={handleSplitToggle}
-              disabled={!connected}
-            />
-          </div>
           
-          {split && (
-            <div className="p-2 bg-blue-50 border border-blue-200 rounded-lg dark:bg-blue-900 dark:border-blue-800">
-              <div className="text-xs text-blue-800 dark:text-blue-200">
-                📡 Split mode active - RX: VFO {vfo}, TX: VFO {vfo === 'A' ? 'B' : 'A'}
+            {split && (
+              <div className="p-2 bg-blue-50 border border-blue-200 rounded-lg dark:bg-blue-900 dark:border-blue-800">
+                <div className="text-xs text-blue-800 dark:text-blue-200">
+                  📡 Split mode active - RX: VFO {vfo}, TX: VFO {txVfo}
+                </div>
               </div>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
 
         {/* VFO Operations */}
-        <div className="space-y-2">
-          <div className="text-sm font-medium text-muted-foreground">VFO Operations</div>
-          <div className="grid grid-cols-1 gap-2">
-            <Button
-              variant="outline"
-              onClick={handleVFOSwap}
-              disabled={!connected}
-              className="flex items-center gap-2"
-            >
-              <ArrowLeftRight className="h-4 w-4" />
-              Swap VFO A ↔ B
-            </Button>
+        {(canSwap || canCopy) && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-muted-foreground">VFO Operations</div>
+            <div className="grid grid-cols-1 gap-2">
+              {canSwap && (
+                <Button
+                  variant="outline"
+                  onClick={handleVFOSwap}
+                  disabled={!connected}
+                  className="flex items-center gap-2"
+                >
+                  <ArrowLeftRight className="h-4 w-4" />
+                  Swap VFO A ↔ B
+                </Button>
+              )}
+              {canCopy && (
+                <Button
+                  variant="outline"
+                  onClick={handleVFOCopy}
+                  disabled={!connected}
+                  className="flex items-center gap-2"
+                >
+                  <Copy className="h-4 w-4" />
+                  Copy VFO A = B
+                </Button>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* VFO Status */}
         <div className="p-3 bg-muted rounded-lg">
@@ -126,10 +165,12 @@ export function VFOControl() {
             {split && (
               <>
                 <div>
-                  RX VFO: <span className="font-medium text-foreground">VFO {vfo}</span>
+                  RX: <span className="font-medium text-foreground">VFO {vfo} · {formatFrequency(frequency)}</span>
                 </div>
                 <div>
-                  TX VFO: <span className="font-medium text-foreground">VFO {vfo === 'A' ? 'B' : 'A'}</span>
+                  TX: <span className="font-medium text-foreground">
+                    VFO {txVfo}{txFrequency > 0 && ` · ${formatFrequency(txFrequency)}`}
+                  </span>
                 </div>
               </>
             )}
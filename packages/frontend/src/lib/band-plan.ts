@@ -0,0 +1,39 @@
+import type { BandSegment, Emission, TxPrivileges } from '@/types';
+
+export interface SubBand {
+  label: string;
+  // Whether the operator's class may transmit anywhere in it
+  permitted: boolean;
+  segment?: BandSegment;
+}
+
+const EMISSION_LABELS: Record<Emission, string> = {
+  cw: 'CW',
+  data: 'Data',
+  phone: 'Phone',
+  image: 'Image',
+};
+
+function emissionsLabel(emissions: Emission[]): string {
+  if (emissions.length === Object.keys(EMISSION_LABELS).length) return 'All modes';
+  // Phone segments allow CW and image too; name them for what they are for
+  if (emissions.includes('phone')) return 'Phone';
+  return emissions.map((e) => EMISSION_LABELS[e]).join('/');
+}
+
+// The sub-band a frequency is in, as the backend's band plan sees it for the
+// operator's class
+export function describeSubBand({ plan, licenseClass }: TxPrivileges, hz: number): SubBand {
+  const here = plan.segments.filter((s) => hz >= s.startHz && hz <= s.endHz);
+  const className = plan.classes.find((c) => c.id === licenseClass)?.label ?? 'licence';
+  if (here.length === 0) return { label: 'Outside the amateur bands', permitted: false };
+
+  // Without a class, whichever class's segment allows the most is the one that applies
+  const segment = licenseClass
+    ? here.find((s) => s.classes.includes(licenseClass))
+    : here.reduce((best, s) => ((s.maxPowerWatts ?? Infinity) > (best.maxPowerWatts ?? Infinity) ? s : best));
+  if (!segment) return { label: `${here[0].band}: outside ${className} privileges`, permitted: false, segment: here[0] };
+
+  const power = segment.maxPowerWatts !== undefined ? ` · ${segment.maxPowerWatts} W` : '';
+  return { label: `${segment.band} ${emissionsLabel(segment.emissions)}${power}`, permitted: true, segment };
+}
@@ -0,0 +1,56 @@
+import type { HistorySample, StateHistory } from '@/types';
+
+export interface SeriesPoint {
+  t: number;
+  value: number;
+}
+
+export interface TxSpan {
+  start: number;
+  end: number;
+}
+
+export interface HistoryChange {
+  t: number;
+  frequencyHz?: number;
+  mode?: HistorySample['mode'];
+  power?: number;
+}
+
+// A meter's readings in time order. Samples only hold what changed, so each
+// value stands until the next; the last one is carried on to the end of the span.
+export function meterSeries({ samples, to }: StateHistory, field: 'swr' | 'sUnits'): SeriesPoint[] {
+  const points: SeriesPoint[] = [];
+  for (const sample of samples) {
+    const value = sample[field];
+    if (value !== undefined) points.push({ t: sample.t, value });
+  }
+  const last = points[points.length - 1];
+  if (last && last.t < to) points.push({ t: to, value: last.value });
+  return points;
+}
+
+// When the rig was transmitting; a transmission still going runs to the end of the span
+export function txSpans({ samples, to }: StateHistory): TxSpan[] {
+  const spans: TxSpan[] = [];
+  let keyedAt: number | null = null;
+  for (const { t, ptt } of samples) {
+    if (ptt === true && keyedAt === null) keyedAt = t;
+    else if (ptt === false && keyedAt !== null) {
+      spans.push({ start: keyedAt, end: t });
+      keyedAt = null;
+    }
+  }
+  if (keyedAt !== null) spans.push({ start: keyedAt, end: to });
+  return spans;
+}
+
+// Frequency, mode and power changes, newest first
+export function settingChanges({ samples }: StateHistory): HistoryChange[] {
+  const changes: HistoryChange[] = [];
+  for (const { t, frequencyHz, mode, power } of samples) {
+    if (frequencyHz === undefined && mode === undefined && power === undefined) continue;
+    changes.push({ t, frequencyHz, mode, power });
+  }
+  return changes.reverse();
+}
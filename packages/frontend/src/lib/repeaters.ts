@@ -0,0 +1,187 @@
+import type { RadioRepeater, RepeaterEntry } from '@/types';
+
+export interface RepeaterImport {
+  entries: RepeaterEntry[];
+  // Rows that were not FM repeaters or could not be read
+  skipped: number;
+}
+
+// Split CSV text into rows of cells; handles quoted cells with commas,
+// doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+const mhzToHz = (value: string) => Math.round(parseFloat(value) * 1e6);
+
+const number = (value: string | undefined) => {
+  const n = parseFloat(value ?? '');
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+// Header names, lower-cased, to column indexes
+function columns(header: string[]) {
+  const index = new Map(header.map((name, i) => [name.trim().toLowerCase(), i]));
+  return (row: string[], ...names: string[]) => {
+    for (const name of names) {
+      const i = index.get(name);
+      if (i !== undefined && row[i] !== undefined) return row[i].trim();
+    }
+    return '';
+  };
+}
+
+function modeOf(value: string): RepeaterEntry['mode'] | null {
+  const mode = value.toUpperCase();
+  if (mode === '' || mode === 'FM') return 'FM';
+  if (mode === 'NFM' || mode === 'FMN') return 'FMN';
+  return null;
+}
+
+// Duplex '+' / '-' with an offset, or (CHIRP 'split') a transmit frequency
+function shiftOf(duplex: string, offset: string, frequency: number): Pick<RadioRepeater, 'shift' | 'offsetHz'> {
+  const d = duplex.toLowerCase();
+  if (d === '+' || d === 'plus' || d === 'up') return { shift: 'plus', offsetHz: mhzToHz(offset) || 0 };
+  if (d === '-' || d === 'minus' || d === 'down') return { shift: 'minus', offsetHz: mhzToHz(offset) || 0 };
+  if (d === 'split') {
+    const tx = mhzToHz(offset);
+    if (tx > frequency) return { shift: 'plus', offsetHz: tx - frequency };
+    if (tx && tx < frequency) return { shift: 'minus', offsetHz: frequency - tx };
+  }
+  return { shift: 'simplex' };
+}
+
+// CHIRP's export: Location,Name,Frequency,Duplex,Offset,Tone,rToneFreq,cToneFreq,DtcsCode,...
+function fromChirp(rows: string[][]): RepeaterImport {
+  const get = columns(rows[0]);
+  const entries: RepeaterEntry[] = [];
+  let skipped = 0;
+
+  rows.slice(1).forEach((row, i) => {
+    const frequency = mhzToHz(get(row, 'frequency'));
+    const mode = modeOf(get(row, 'mode'));
+    if (!frequency || !mode) {
+      skipped++;
+      return;
+    }
+    const repeater: RadioRepeater = { ...shiftOf(get(row, 'duplex'), get(row, 'offset'), frequency), toneMode: 'off' };
+    switch (get(row, 'tone').toUpperCase()) {
+      case 'TONE':
+        repeater.toneMode = 'tone';
+        repeater.ctcssHz = number(get(row, 'rtonefreq'));
+        break;
+      case 'TSQL':
+        repeater.toneMode = 'tsql';
+        repeater.ctcssHz = number(get(row, 'ctonefreq'));
+        repeater.ctcssSqlHz = repeater.ctcssHz;
+        break;
+      case 'DTCS':
+        repeater.toneMode = 'dcs';
+        repeater.dcsCode = parseInt(get(row, 'dtcscode'), 10) || undefined;
+        break;
+    }
+    entries.push({
+      id: `${Date.now().toString(36)}-${i}`,
+      name: get(row, 'name') || get(row, 'location'),
+      frequency,
+      mode,
+      repeater,
+      comment: get(row, 'comment') || undefined,
+    });
+  });
+  return { entries, skipped };
+}
+
+// Anything else with a header row: Name/Call, Frequency/Output (MHz),
+// Duplex/Shift, Offset (MHz), Tone/CTCSS, TSQL, DCS, Mode, Comment
+function fromGeneric(rows: string[][]): RepeaterImport {
+  const get = columns(rows[0]);
+  const entries: RepeaterEntry[] = [];
+  let skipped = 0;
+
+  rows.slice(1).forEach((row, i) => {
+    const frequency = mhzToHz(get(row, 'frequency', 'output', 'output freq', 'rx'));
+    const mode = modeOf(get(row, 'mode'));
+    if (!frequency || !mode) {
+      skipped++;
+      return;
+    }
+    const repeater: RadioRepeater = { ...shiftOf(get(row, 'duplex', 'shift'), get(row, 'offset'), frequency), toneMode: 'off' };
+    // An input frequency, where given, says more than the duplex column
+    const input = mhzToHz(get(row, 'input', 'input freq', 'tx'));
+    if (input && input !== frequency) Object.assign(repeater, shiftOf('split', get(row, 'input', 'input freq', 'tx'), frequency));
+
+    const tone = number(get(row, 'tone', 'ctcss', 'uplink tone', 'pl'));
+    const sql = number(get(row, 'tsql', 'downlink tone'));
+    const dcs = parseInt(get(row, 'dcs', 'dtcs'), 10);
+    if (dcs) {
+      repeater.toneMode = 'dcs';
+      repeater.dcsCode = dcs;
+    } else if (sql) {
+      repeater.toneMode = 'tsql';
+      repeater.ctcssHz = tone ?? sql;
+      repeater.ctcssSqlHz = sql;
+    } else if (tone) {
+      repeater.toneMode = 'tone';
+      repeater.ctcssHz = tone;
+    }
+    entries.push({
+      id: `${Date.now().toString(36)}-${i}`,
+      name: get(row, 'name', 'call', 'callsign', 'location'),
+      frequency,
+      mode,
+      repeater,
+      comment: get(row, 'comment', 'notes', 'location') || undefined,
+    });
+  });
+  return { entries, skipped };
+}
+
+// Read a CHIRP export or a plain CSV repeater list; throws when the file
+// has no frequency column to go on
+export function parseRepeaterCsv(text: string): RepeaterImport {
+  const rows = parseCsv(text);
+  const header = rows[0]?.map((name) => name.trim().toLowerCase()) ?? [];
+  if (header.includes('frequency') && header.includes('duplex') && header.includes('rtonefreq')) {
+    return fromChirp(rows);
+  }
+  if (!['frequency', 'output', 'output freq', 'rx'].some((name) => header.includes(name))) {
+    throw new Error('No frequency column; expected a CHIRP export or a CSV with a header row');
+  }
+  return fromGeneric(rows);
+}
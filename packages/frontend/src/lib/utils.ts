@@ -18,6 +18,18 @@ export function formatFrequency(hz: number): string {
   }
 }
 
+// Down to the hertz, for frequencies moved by a clarifier offset
+export function formatFrequencyHz(hz: number): string {
+  return `${(hz / 1000000).toFixed(6)} MHz`;
+}
+
+// Signed clarifier offset: +350 Hz, -1.25 kHz
+export function formatOffset(hz: number): string {
+  const sign = hz > 0 ? '+' : hz < 0 ? '-' : '';
+  const abs = Math.abs(hz);
+  return abs >= 1000 ? `${sign}${(abs / 1000).toFixed(2)} kHz` : `${sign}${abs} Hz`;
+}
+
 export function parseFrequency(input: string): number {
   const cleanInput = input.trim().toLowerCase();
   const numMatch = cleanInput.match(/^(\d+(?:\.\d+)?)/);
@@ -72,6 +84,11 @@ export function formatSignalStrength(dbm: number): string {
   return `${dbm.toFixed(1)} dBm`;
 }
 
+// S-meter reading as the rig's scale shows it: S7, S9+20
+export function formatSUnits(sUnits: number, overS9Db = 0): string {
+  return overS9Db > 0 ? `S9+${Math.round(overS9Db)}` : `S${Math.floor(sUnits)}`;
+}
+
 // SWR formatting
 export function formatSWR(swr: number): string {
   return `${swr.toFixed(1)}:1`;
@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client';
-import type { WSEvent, ConnectionState } from '@/types';
+import type { WSEvent, ConnectionState, RadioStateDelta, TxForcedUnkey } from '@/types';
 import { getConfig } from '@/lib/config';
 
 type EventHandler = (data: any) => void;
@@ -14,6 +14,8 @@ class WebSocketService {
   };
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  // Sequence number of the last radio state delta applied, per rig
+  private stateSeq: Map<string, number> = new Map();
 
   constructor(private url: string) {}
 
@@ -113,33 +115,103 @@ class WebSocketService {
   private setupRadioEventListeners(): void {
     if (!this.socket) return;
 
-    // Listen for radio state updates (matches backend EVENTS.RADIO_STATE)
+    // A rig's full state: one per rig on connect, or asked for after a missed delta
     this.socket.on('radio_state', (data: any) => {
-      console.log('📻 Frontend received radio state:', data);
-      try {
-        // Direct import avoids require in browser
-        import('../stores/radio').then(({ useRadioStore }) => {
-          useRadioStore.getState().updateFromBackend({
-            connected: !!data.connected,
-            frequency: data.frequencyHz ?? data.frequency ?? 0,
-            mode: data.mode,
-            power: data.power ?? 0,
-            model: data.rigModel ?? '',
-          });
-        });
-      } catch (e) {
-        console.error('Failed to update radio store from WS data', e);
+      if (data?.rigId && typeof data.seq === 'number') this.stateSeq.set(data.rigId, data.seq);
+      import('../stores/radio').then(({ useRadioStore }) => {
+        // updateFromBackend maps backend field names (frequencyHz, rigModel, ...)
+        useRadioStore.getState().updateFromBackend(data);
+      });
+    });
+
+    // Only what changed; a skipped seq means one went missing, so start over from a snapshot
+    this.socket.on('radio_state_delta', (delta: RadioStateDelta) => {
+      const last = this.stateSeq.get(delta.rigId);
+      if (last !== undefined && delta.seq <= last) return;
+      if (last === undefined || delta.seq !== last + 1) {
+        void this.resyncRadioState(delta.rigId);
+        return;
       }
+      this.stateSeq.set(delta.rigId, delta.seq);
+      import('../stores/radio').then(({ useRadioStore }) => {
+        useRadioStore.getState().updateFromBackend({ rigId: delta.rigId, ...delta.changes });
+      });
+    });
+
+    // Load the rig list (which picks up the active rig's state and
+    // capabilities) and the backend's mode table if we do not have it yet
+    this.socket.on('connect', () => {
+      import('../stores/radio').then(({ useRadioStore }) => {
+        const radio = useRadioStore.getState();
+        radio.fetchRigs().then(() => {
+          // The active rig may have connected before this page loaded
+          useRadioStore.getState().fetchCapabilities();
+        });
+        if (radio.modes.length === 0) radio.fetchModes();
+        radio.fetchBandPlan();
+      });
+    });
+
+    // Capabilities arrive once per rig connect; null means unknown
+    this.socket.on('radio_capabilities', (data: any) => {
+      import('../stores/radio').then(({ useRadioStore }) => {
+        if (data?.rigId) useRadioStore.getState().setCapabilities(data.rigId, data.capabilities ?? null);
+      });
+    });
+
+    // Managed rigctld process went up, down or is restarting
+    this.socket.on('rigctld_status', (data: any) => {
+      import('../stores/radio').then(({ useRadioStore }) => {
+        if (data?.rigId) {
+          const { rigId, ...status } = data;
+          useRadioStore.getState().setRigctldStatus(rigId, status);
+        }
+      });
+    });
+
+    // CW keyer queue and progress, for every rig
+    this.socket.on('cw_status', (data: any) => {
+      import('../stores/cw').then(({ useCwStore }) => {
+        if (data?.rigId) {
+          const { rigId, ...status } = data;
+          useCwStore.getState().setStatus(rigId, status);
+        }
+      });
+    });
+
+    // The backend unkeyed a rig on its own: TX time limit, lost client, shutdown or rig error
+    this.socket.on('tx_forced_unkey', (data: TxForcedUnkey & { rigId?: string }) => {
+      Promise.all([import('../stores/radio'), import('../stores/ui')]).then(([{ useRadioStore }, { toast }]) => {
+        const rig = useRadioStore.getState().rigs.find((r) => r.id === data?.rigId);
+        const title = `${rig?.name ?? data?.rigId ?? 'Rig'} unkeyed`;
+        if (data?.unkeyed === false) {
+          toast.error(title, `${data.message}. The unkey command failed; the rig may still be transmitting.`);
+        } else {
+          toast.warning(title, data?.message);
+        }
+      });
     });
 
     // Listen for connection status updates
     this.socket.on('connection_status', (data: any) => {
       import('../stores/radio').then(({ useRadioStore }) => {
-        useRadioStore.getState().updateFromBackend({ connected: !!data.connected });
+        useRadioStore.getState().updateFromBackend({ rigId: data.rigId, connected: !!data.connected });
       });
     });
   }
 
+  private async resyncRadioState(rigId: string): Promise<void> {
+    try {
+      const { snapshot } = await this.emitWithAck('radio:snapshot', { rigId });
+      if (snapshot.seq < (this.stateSeq.get(rigId) ?? -1)) return;
+      this.stateSeq.set(rigId, snapshot.seq);
+      const { useRadioStore } = await import('../stores/radio');
+      useRadioStore.getState().updateFromBackend(snapshot);
+    } catch (error) {
+      console.error('Radio state resync failed:', error);
+    }
+  }
+
   disconnect(): void {
     if (this.socket) {
       this.socket.disconnect();
@@ -0,0 +1,91 @@
+import { create } from 'zustand';
+import { getConfig } from '../lib/config';
+import { useRadioStore } from './radio';
+import type { CwSendRequest, CwSettings, CwStatus } from '@/types';
+
+// Helper function to make API calls to the correct backend
+const apiCall = (endpoint: string, options?: RequestInit) => {
+  const config = getConfig();
+  return fetch(`${config.apiUrl}${endpoint}`, options);
+};
+
+// Socket acks reject with { ok: false, error }; rethrown as an Error for the card to show
+const asError = (error: any, fallback: string): Error => new Error(error?.error || error?.message || fallback);
+
+interface CwStore {
+  // Keyer status by rig id, kept current by cw_status events
+  statuses: Record<string, CwStatus>;
+
+  // Actions; send, abort and updateSettings throw when the backend refuses
+  fetchStatus: (rigId: string) => Promise<void>;
+  setStatus: (rigId: string, status: CwStatus) => void;
+  send: (request: CwSendRequest) => Promise<void>;
+  abort: () => Promise<void>;
+  updateSettings: (settings: Partial<CwSettings>) => Promise<void>;
+}
+
+export const useCwStore = create<CwStore>()((set, get) => ({
+  statuses: {},
+
+  fetchStatus: async (rigId: string) => {
+    try {
+      const response = await apiCall(`/api/rigs/${rigId}/cw`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success && result.data) get().setStatus(rigId, result.data);
+      }
+    } catch (error) {
+      console.error('Fetch CW status error:', error);
+    }
+  },
+
+  setStatus: (rigId: string, status: CwStatus) => {
+    set((state) => ({ statuses: { ...state.statuses, [rigId]: status } }));
+  },
+
+  send: async (request: CwSendRequest) => {
+    try {
+      const { getWebSocketService } = await import('../services/websocket');
+      const ws = getWebSocketService();
+      await ws.emitWithAck('cw:send', { rigId: useRadioStore.getState().activeRigId, ...request });
+    } catch (error) {
+      console.error('CW send error:', error);
+      throw asError(error, 'CW send failed');
+    }
+  },
+
+  abort: async () => {
+    try {
+      const { getWebSocketService } = await import('../services/websocket');
+      const ws = getWebSocketService();
+      await ws.emitWithAck('cw:abort', { rigId: useRadioStore.getState().activeRigId });
+    } catch (error) {
+      console.error('CW abort error:', error);
+      throw asError(error, 'CW abort failed');
+    }
+  },
+
+  updateSettings: async (settings: Partial<CwSettings>) => {
+    const rigId = useRadioStore.getState().activeRigId;
+    if (!rigId) return;
+    const old = get().statuses[rigId];
+    // Optimistic update
+    if (old) get().setStatus(rigId, { ...old, settings: { ...old.settings, ...settings } });
+
+    try {
+      const { getWebSocketService } = await import('../services/websocket');
+      const ws = getWebSocketService();
+      await ws.emitWithAck('cw:setSettings', { rigId, settings });
+    } catch (error) {
+      console.error('CW settings error:', error);
+      if (old) get().setStatus(rigId, old);
+      throw asError(error, 'CW settings failed');
+    }
+  },
+}));
+
+// The active rig's keyer; undefined until its status has been fetched
+export const useActiveCwStatus = () => {
+  const rigId = useRadioStore((state) => state.activeRigId);
+  return useCwStore((state) => (rigId ? state.statuses[rigId] : undefined));
+};
@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import { getConfig } from '../lib/config';
+import type { StateHistory } from '@/types';
+
+// Helper function to make API calls to the correct backend
+const apiCall = (endpoint: string, options?: RequestInit) => {
+  const config = getConfig();
+  return fetch(`${config.apiUrl}${endpoint}`, options);
+};
+
+interface HistoryStore {
+  // The last fetched span of the active rig's recorded state
+  history: StateHistory | null;
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchHistory: (rigId: string, spanMs: number) => Promise<void>;
+}
+
+export const useHistoryStore = create<HistoryStore>()((set) => ({
+  history: null,
+  loading: false,
+  error: null,
+
+  fetchHistory: async (rigId: string, spanMs: number) => {
+    set({ loading: true });
+    try {
+      const to = Date.now();
+      const params = new URLSearchParams({ rigId, from: String(to - spanMs), to: String(to) });
+      const response = await apiCall(`/api/radio/history?${params}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || 'History request failed');
+      set({ history: result.data, error: null });
+    } catch (error) {
+      console.error('Fetch history error:', error);
+      set({ error: error instanceof Error ? error.message : 'History request failed' });
+    } finally {
+      set({ loading: false });
+    }
+  },
+}));
@@ -1,15 +1,43 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { getConfig } from '../lib/config';
+import { toast } from './ui';
 
 // Helper function to make API calls to the correct backend
 const apiCall = (endpoint: string, options?: RequestInit) => {
   const config = getConfig();
   return fetch(`${config.apiUrl}${endpoint}`, options);
 };
-import type { RadioState, RadioMode, VFO, RadioInfo } from '@/types';
+import type {
+  RadioState,
+  RadioMode,
+  VFO,
+  VFOOp,
+  RadioInfo,
+  RadioCapabilities,
+  RadioReceiver,
+  RadioOffsets,
+  RadioRepeater,
+  ModeInfo,
+  RigSummary,
+  RigctldSettings,
+  RigctldStatus,
+  TuneResult,
+  TxPrivileges,
+} from '@/types';
+
+// Backend radio events carry the rig they came from
+type BackendRadioUpdate = Partial<RadioState> & { rigId?: string };
 
 interface RadioStore extends RadioState {
+  capabilities: RadioCapabilities | null;
+  modes: ModeInfo[];
+  // Band plan and licence class the backend holds transmitting to; null when unrestricted
+  txPrivileges: TxPrivileges | null;
+  rigs: RigSummary[];
+  // Rig every control below acts on; null until the rig list is loaded
+  activeRigId: string | null;
+
   // Actions
   connect: () => Promise<void>;
   disconnect: () => void;
@@ -18,23 +46,43 @@ interface RadioStore extends RadioState {
   setPower: (power: number) => void;
   setVFO: (vfo: VFO) => void;
   setSplit: (split: boolean) => void;
+  vfoOp: (op: VFOOp) => Promise<void>;
+  setSplitFrequency: (frequency: number) => void;
+  setReceiver: (settings: RadioReceiver) => Promise<void>;
+  setOffsets: (offsets: RadioOffsets) => Promise<void>;
+  setRepeater: (repeater: RadioRepeater) => Promise<void>;
+  setPassband: (bandwidthHz: number) => Promise<void>;
   setPTT: (ptt: boolean) => void;
   setTuning: (tuning: boolean) => void;
   fetchStatus: () => Promise<void>;
-  updateFromBackend: (data: Partial<RadioState>) => void;
+  fetchCapabilities: () => Promise<void>;
+  fetchModes: () => Promise<void>;
+  fetchBandPlan: () => Promise<void>;
+  fetchRigs: () => Promise<void>;
+  setActiveRig: (rigId: string) => Promise<void>;
+  controlRigctld: (action: 'start' | 'stop' | 'restart', settings?: Partial<RigctldSettings>) => Promise<void>;
+  setRigctldStatus: (rigId: string, status: RigctldStatus) => void;
+  setCapabilities: (rigId: string, capabilities: RadioCapabilities | null) => void;
+  updateFromBackend: (data: BackendRadioUpdate) => void;
 }
 
 const initialState: RadioState = {
   connected: false,
   frequency: 0, // Will be updated from backend
   mode: 'USB',
+  bandwidthHz: 0,
   power: 0, // Will be updated from backend
   vfo: 'A',
   split: false,
+  txVfo: null,
+  txFrequency: 0,
+  txMode: null,
   ptt: false,
   tuning: false,
-  swr: 0, // Will be updated from backend
-  signalStrength: 0, // Will be updated from backend
+  meters: {},
+  receiver: {},
+  offsets: {},
+  repeater: {},
   model: 'Connecting...',
   serialNumber: '',
   firmwareVersion: '',
@@ -43,18 +91,24 @@ const initialState: RadioState = {
 export const useRadioStore = create<RadioStore>()(
   subscribeWithSelector((set, get) => ({
     ...initialState,
+    capabilities: null,
+    modes: [],
+    txPrivileges: null,
+    rigs: [],
+    activeRigId: null,
 
     connect: async () => {
       const { getWebSocketService } = await import('../services/websocket');
       const ws = getWebSocketService();
       // Let backend choose correct default (127.0.0.1:4532 on Pi)
-      await ws.emitWithAck('radio:connect');
+      await ws.emitWithAck('radio:connect', { rigId: get().activeRigId });
       set({ connected: true });
+      await get().fetchCapabilities();
     },
 
     disconnect: async () => {
       try {
-        await apiCall('/api/radio/disconnect', {
+        await apiCall(`/api/rigs/${get().activeRigId}/disconnect`, {
           method: 'POST',
         });
       } catch (error) {
@@ -64,6 +118,11 @@ export const useRadioStore = create<RadioStore>()(
           connected: false,
           ptt: false,
           tuning: false,
+          meters: {},
+          receiver: {},
+          offsets: {},
+          repeater: {},
+          capabilities: null,
         });
       }
     },
@@ -76,7 +135,10 @@ export const useRadioStore = create<RadioStore>()(
         const { getWebSocketService } = await import('../services/websocket');
         const ws = getWebSocketService();
         try {
-          await ws.emitWithAck('radio:setFrequency', { frequency });
+          const ack = await ws.emitWithAck('radio:setFrequency', { rigId: get().activeRigId, frequency });
+          // A newer value, ours or another client's, may have landed in its
+          // place; show it unless the dial has moved on again since
+          if (get().frequency === frequency && typeof ack?.frequency === 'number') set({ frequency: ack.frequency });
         } catch (e) {
           set({ frequency: oldFrequency });
           throw e;
@@ -95,7 +157,8 @@ export const useRadioStore = create<RadioStore>()(
         const { getWebSocketService } = await import('../services/websocket');
         const ws = getWebSocketService();
         try {
-          await ws.emitWithAck('radio:setMode', { mode });
+          const ack = await ws.emitWithAck('radio:setMode', { rigId: get().activeRigId, mode });
+          if (get().mode === mode && ack?.mode) set({ mode: ack.mode });
         } catch (e) {
           set({ mode: oldMode });
           throw e;
@@ -114,7 +177,8 @@ export const useRadioStore = create<RadioStore>()(
         const { getWebSocketService } = await import('../services/websocket');
         const ws = getWebSocketService();
         try {
-          await ws.emitWithAck('radio:setPower', { power });
+          const ack = await ws.emitWithAck('radio:setPower', { rigId: get().activeRigId, power });
+          if (get().power === power && typeof ack?.power === 'number') set({ power: ack.power });
         } catch (e) {
           set({ power: oldPower });
           throw e;
@@ -133,7 +197,7 @@ export const useRadioStore = create<RadioStore>()(
         const { getWebSocketService } = await import('../services/websocket');
         const ws = getWebSocketService();
         try {
-          await ws.emitWithAck('radio:setVFO', { vfo });
+          await ws.emitWithAck('radio:setVFO', { rigId: get().activeRigId, vfo });
         } catch (e) {
           set({ vfo: oldVFO });
           throw e;
@@ -152,7 +216,7 @@ export const useRadioStore = create<RadioStore>()(
         const { getWebSocketService } = await import('../services/websocket');
         const ws = getWebSocketService();
         try {
-          await ws.emitWithAck('radio:setSplit', { split });
+          await ws.emitWithAck('radio:setSplit', { rigId: get().activeRigId, split });
         } catch (e) {
           set({ split: oldSplit });
           throw e;
@@ -163,6 +227,90 @@ export const useRadioStore = create<RadioStore>()(
       }
     },
 
+    vfoOp: async (op: VFOOp) => {
+      try {
+        const { getWebSocketService } = await import('../services/websocket');
+        const ws = getWebSocketService();
+        await ws.emitWithAck('radio:vfoOp', { rigId: get().activeRigId, op });
+      } catch (error) {
+        console.error('VFO operation error:', error);
+      }
+    },
+
+    setSplitFrequency: async (frequency: number) => {
+      const oldTxFrequency = get().txFrequency;
+      set({ txFrequency: frequency }); // Optimistic update
+
+      try {
+        const { getWebSocketService } = await import('../services/websocket');
+        const ws = getWebSocketService();
+        await ws.emitWithAck('radio:setSplitFrequency', { rigId: get().activeRigId, frequency });
+      } catch (error) {
+        console.error('Set split frequency error:', error);
+        set({ txFrequency: oldTxFrequency });
+      }
+    },
+
+    // Only the controls given change; the rest keep their settings
+    setReceiver: async (settings: RadioReceiver) => {
+      const oldReceiver = get().receiver;
+      set({ receiver: { ...oldReceiver, ...settings } }); // Optimistic update
+
+      try {
+        const { getWebSocketService } = await import('../services/websocket');
+        const ws = getWebSocketService();
+        await ws.emitWithAck('radio:setReceiver', { rigId: get().activeRigId, settings });
+      } catch (error) {
+        console.error('Set receiver error:', error);
+        set({ receiver: oldReceiver });
+      }
+    },
+
+    // Only the fields given change
+    setOffsets: async (offsets: RadioOffsets) => {
+      const oldOffsets = get().offsets;
+      set({ offsets: { ...oldOffsets, ...offsets } }); // Optimistic update
+
+      try {
+        const { getWebSocketService } = await import('../services/websocket');
+        const ws = getWebSocketService();
+        await ws.emitWithAck('radio:setOffsets', { rigId: get().activeRigId, offsets });
+      } catch (error) {
+        console.error('Set offsets error:', error);
+        set({ offsets: oldOffsets });
+      }
+    },
+
+    // Only the fields given change
+    setRepeater: async (repeater: RadioRepeater) => {
+      const oldRepeater = get().repeater;
+      set({ repeater: { ...oldRepeater, ...repeater } }); // Optimistic update
+
+      try {
+        const { getWebSocketService } = await import('../services/websocket');
+        const ws = getWebSocketService();
+        await ws.emitWithAck('radio:setRepeater', { rigId: get().activeRigId, repeater });
+      } catch (error) {
+        console.error('Set repeater error:', error);
+        set({ repeater: oldRepeater });
+      }
+    },
+
+    setPassband: async (bandwidthHz: number) => {
+      const oldBandwidth = get().bandwidthHz;
+      set({ bandwidthHz }); // Optimistic update
+
+      try {
+        const { getWebSocketService } = await import('../services/websocket');
+        const ws = getWebSocketService();
+        const ack = await ws.emitWithAck('radio:setPassband', { rigId: get().activeRigId, bandwidthHz });
+        if (get().bandwidthHz === bandwidthHz && typeof ack?.bandwidthHz === 'number') set({ bandwidthHz: ack.bandwidthHz });
+      } catch (error) {
+        console.error('Set passband error:', error);
+        set({ bandwidthHz: oldBandwidth });
+      }
+    },
+
     setPTT: async (ptt: boolean) => {
       const oldPTT = get().ptt;
       set({ ptt }); // Optimistic update
@@ -171,39 +319,53 @@ export const useRadioStore = create<RadioStore>()(
         const { getWebSocketService } = await import('../services/websocket');
         const ws = getWebSocketService();
         try {
-          await ws.emitWithAck('radio:setPTT', { ptt });
+          await ws.emitWithAck('radio:setPTT', { rigId: get().activeRigId, ptt });
         } catch (e) {
           set({ ptt: oldPTT });
           throw e;
         }
-      } catch (error) {
+      } catch (error: any) {
         console.error('Set PTT error:', error);
         set({ ptt: oldPTT });
+        // Refused on licence grounds; the backend says why
+        if (error?.kind === 'forbidden') toast.error('Transmit refused', error.error);
       }
     },
 
     setTuning: async (tuning: boolean) => {
-      const oldTuning = get().tuning;
-      set({ tuning }); // Optimistic update
+      // A tune runs to the end on the backend; there is nothing to cancel
+      if (!tuning || get().tuning) return;
+      set({ tuning: true });
       try {
         const { getWebSocketService } = await import('../services/websocket');
         const ws = getWebSocketService();
-        if (tuning) {
-          await ws.emitWithAck('radio:tune', { ms: 1200 });
-        }
-      } catch (error) {
-        console.error('Set tuning error:', error);
-        set({ tuning: oldTuning });
+        // The backend answers once the tune is over and the rig put back
+        const { result } = await ws.emitWithAck<{ result: TuneResult }>(
+          'radio:tune',
+          { rigId: get().activeRigId },
+          45000
+        );
+        const how = result.usedTuner ? 'Tuner finished' : 'Tune carrier done';
+        if (result.swr === undefined) toast.info(how, 'The rig gave no SWR reading');
+        else if (result.swr <= 2) toast.success(how, `SWR ${result.swr.toFixed(1)}:1`);
+        else toast.warning(how, `SWR still ${result.swr.toFixed(1)}:1`);
+      } catch (error: any) {
+        console.error('Tune error:', error);
+        toast.error('Tune failed', error?.error ?? error?.message);
+      } finally {
+        set({ tuning: false });
       }
     },
 
     fetchStatus: async () => {
       try {
-        const response = await fetch('/api/radio/status');
+        const rigId = get().activeRigId;
+        if (!rigId) return;
+        const response = await apiCall(`/api/rigs/${rigId}/state`);
         if (response.ok) {
           const result = await response.json();
           if (result.success && result.data) {
-            set(result.data);
+            get().updateFromBackend({ rigId, ...result.data });
           }
         }
       } catch (error) {
@@ -211,7 +373,120 @@ export const useRadioStore = create<RadioStore>()(
       }
     },
 
-    updateFromBackend: (data: Partial<RadioState>) => {
+    fetchCapabilities: async () => {
+      try {
+        const rigId = get().activeRigId;
+        if (!rigId) return;
+        const response = await apiCall(`/api/rigs/${rigId}/capabilities`);
+        if (response.ok) {
+          const result = await response.json();
+          if (result.success && result.data && get().activeRigId === rigId) {
+            set({ capabilities: result.data });
+          }
+        }
+      } catch (error) {
+        console.error('Fetch capabilities error:', error);
+      }
+    },
+
+    fetchModes: async () => {
+      try {
+        const response = await apiCall('/api/modes');
+        if (response.ok) {
+          const result = await response.json();
+          if (result.success && Array.isArray(result.data)) {
+            set({ modes: result.data });
+          }
+        }
+      } catch (error) {
+        console.error('Fetch modes error:', error);
+      }
+    },
+
+    fetchBandPlan: async () => {
+      try {
+        const response = await apiCall('/api/band-plan');
+        if (response.ok) {
+          const result = await response.json();
+          if (result.success) set({ txPrivileges: result.data ?? null });
+        }
+      } catch (error) {
+        console.error('Fetch band plan error:', error);
+      }
+    },
+
+    fetchRigs: async () => {
+      try {
+        const response = await apiCall('/api/rigs');
+        if (response.ok) {
+          const result = await response.json();
+          if (result.success && Array.isArray(result.data)) {
+            const rigs: RigSummary[] = result.data;
+            set({ rigs });
+            const active = get().activeRigId;
+            if (rigs.length > 0 && !rigs.some(r => r.id === active)) {
+              await get().setActiveRig(rigs[0].id);
+            }
+          }
+        }
+      } catch (error) {
+        console.error('Fetch rigs error:', error);
+      }
+    },
+
+    setActiveRig: async (rigId: string) => {
+      if (get().activeRigId === rigId) return;
+      // Drop everything we knew about the previous rig before loading this one
+      const rig = get().rigs.find(r => r.id === rigId);
+      set({
+        ...initialState,
+        activeRigId: rigId,
+        capabilities: null,
+        connected: rig?.connected ?? false,
+        model: rig?.rigModel ?? rig?.name ?? initialState.model,
+      });
+      await Promise.all([get().fetchStatus(), get().fetchCapabilities()]);
+    },
+
+    controlRigctld: async (action: 'start' | 'stop' | 'restart', settings?: Partial<RigctldSettings>) => {
+      const rigId = get().activeRigId;
+      if (!rigId) return;
+      const response = await apiCall(`/api/rigs/${rigId}/rigctld/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings ?? {}),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error || `rigctld ${action} failed`);
+      get().setRigctldStatus(rigId, result.data);
+    },
+
+    setRigctldStatus: (rigId: string, status: RigctldStatus) => {
+      set((state) => ({
+        rigs: state.rigs.map(r => r.id === rigId ? { ...r, rigctld: status } : r),
+      }));
+    },
+
+    setCapabilities: (rigId: string, capabilities: RadioCapabilities | null) => {
+      if (rigId === get().activeRigId) set({ capabilities });
+    },
+
+    updateFromBackend: (data: BackendRadioUpdate) => {
+      const { rigId } = data;
+      if (rigId) {
+        // Keep the switcher's connected dots current for every rig
+        set((state) => ({
+          rigs: state.rigs.map(r => r.id === rigId
+            ? {
+                ...r,
+                connected: data.connected ?? r.connected,
+                rigModel: (data as any).rigModel ?? r.rigModel,
+              }
+            : r),
+        }));
+        if (rigId !== get().activeRigId) return;
+      }
+
       // Map backend fields to store
       const mapped: Partial<RadioState> = {
         connected: data.connected ?? get().connected,
@@ -221,8 +496,18 @@ export const useRadioStore = create<RadioStore>()(
         power: typeof (data as any).power === 'number' ? (data as any).power : get().power,
         ptt: typeof (data as any).ptt === 'boolean' ? (data as any).ptt : get().ptt,
         model: (data as any).rigModel ?? get().model,
-        swr: typeof (data as any).swr === 'number' ? (data as any).swr : get().swr,
-        signalStrength: typeof (data as any).signalStrength === 'number' ? (data as any).signalStrength : get().signalStrength,
+        vfo: (data as any).vfo ?? get().vfo,
+        split: typeof (data as any).split === 'boolean' ? (data as any).split : get().split,
+        txVfo: 'txVfo' in data ? (data as any).txVfo ?? null : get().txVfo,
+        txFrequency: 'txFrequencyHz' in data ? (data as any).txFrequencyHz ?? 0 : get().txFrequency,
+        txMode: 'txMode' in data ? (data as any).txMode ?? null : get().txMode,
+        // Replaced whole: meters the rig stopped reporting (TX meters after
+        // unkeying) must drop back rather than hold their last reading
+        // A delta sends null for one the rig no longer reports
+        meters: 'meters' in data ? data.meters ?? {} : get().meters,
+        receiver: 'receiver' in data ? data.receiver ?? {} : get().receiver,
+        offsets: 'offsets' in data ? data.offsets ?? {} : get().offsets,
+        repeater: 'repeater' in data ? data.repeater ?? {} : get().repeater,
       };
       set((state) => ({ ...state, ...mapped }));
     },
@@ -233,13 +518,24 @@ export const useRadioStore = create<RadioStore>()(
 export const useRadioConnected = () => useRadioStore((state) => state.connected);
 export const useRadioFrequency = () => useRadioStore((state) => state.frequency);
 export const useRadioMode = () => useRadioStore((state) => state.mode);
+export const useRadioBandwidth = () => useRadioStore((state) => state.bandwidthHz);
 export const useRadioPower = () => useRadioStore((state) => state.power);
 export const useRadioVFO = () => useRadioStore((state) => state.vfo);
 export const useRadioSplit = () => useRadioStore((state) => state.split);
+export const useRadioTxFrequency = () => useRadioStore((state) => state.txFrequency);
 export const useRadioPTT = () => useRadioStore((state) => state.ptt);
 export const useRadioTuning = () => useRadioStore((state) => state.tuning);
-export const useRadioSWR = () => useRadioStore((state) => state.swr);
-export const useRadioSignalStrength = () => useRadioStore((state) => state.signalStrength);
+export const useRadioMeters = () => useRadioStore((state) => state.meters);
+export const useRadioReceiver = () => useRadioStore((state) => state.receiver);
+export const useRadioOffsets = () => useRadioStore((state) => state.offsets);
+export const useRadioRepeater = () => useRadioStore((state) => state.repeater);
 export const useRadioModel = () => useRadioStore((state) => state.model);
 export const useRadioSerialNumber = () => useRadioStore((state) => state.serialNumber);
+export const useRadioCapabilities = () => useRadioStore((state) => state.capabilities);
+export const useRadioModes = () => useRadioStore((state) => state.modes);
+export const useTxPrivileges = () => useRadioStore((state) => state.txPrivileges);
+export const useRadioRigs = () => useRadioStore((state) => state.rigs);
+export const useActiveRigId = () => useRadioStore((state) => state.activeRigId);
+export const useActiveRigctld = () =>
+  useRadioStore((state) => state.rigs.find(r => r.id === state.activeRigId)?.rigctld);
 export const useRadioFirmwareVersion = () => useRadioStore((state) => state.firmwareVersion);
@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { parseRepeaterCsv } from '../lib/repeaters';
+import { useRadioStore } from './radio';
+import type { RepeaterEntry } from '@/types';
+
+// Socket acks reject with { ok: false, error }; rethrown as an Error for the card to show
+const asError = (error: any, fallback: string): Error => new Error(error?.error || error?.message || fallback);
+
+interface RepeaterStore {
+  // Kept in the browser, across rigs
+  entries: RepeaterEntry[];
+
+  // Actions; importCsv and tune throw when the file or the rig refuses
+  importCsv: (text: string) => { added: number; skipped: number };
+  remove: (id: string) => void;
+  clear: () => void;
+  tune: (entry: RepeaterEntry) => Promise<void>;
+}
+
+export const useRepeaterStore = create<RepeaterStore>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+
+      // Adds to the directory; a repeater already listed on the same frequency
+      // under the same name is replaced
+      importCsv: (text: string) => {
+        const { entries, skipped } = parseRepeaterCsv(text);
+        const key = (e: RepeaterEntry) => `${e.frequency}:${e.name}`;
+        const incoming = new Set(entries.map(key));
+        const kept = get().entries.filter((e) => !incoming.has(key(e)));
+        set({ entries: [...kept, ...entries].sort((a, b) => a.frequency - b.frequency) });
+        return { added: entries.length, skipped };
+      },
+
+      remove: (id: string) => set((state) => ({ entries: state.entries.filter((e) => e.id !== id) })),
+
+      clear: () => set({ entries: [] }),
+
+      // Mode first, then frequency, then the split and tones, as some rigs
+      // reset the repeater settings on a mode or band change
+      tune: async (entry: RepeaterEntry) => {
+        const rigId = useRadioStore.getState().activeRigId;
+        try {
+          const { getWebSocketService } = await import('../services/websocket');
+          const ws = getWebSocketService();
+          await ws.emitWithAck('radio:setMode', { rigId, mode: entry.mode });
+          await ws.emitWithAck('radio:setFrequency', { rigId, frequency: entry.frequency });
+          await ws.emitWithAck('radio:setRepeater', { rigId, repeater: { ...entry.repeater, reverse: false } });
+        } catch (error) {
+          console.error('Repeater tune error:', error);
+          throw asError(error, `Could not tune to ${entry.name || 'repeater'}`);
+        }
+      },
+    }),
+    {
+      name: 'rigboss-repeaters',
+      partialize: (state) => ({ entries: state.entries }),
+    }
+  )
+);
@@ -4,26 +4,289 @@ export type Panel = 'radio' | 'spectrum' | 'audio' | 'memory' | 'log' | 'setting
 export type Theme = 'light' | 'dark' | 'system';
 
 // Radio types
-export type RadioMode = 'LSB' | 'USB' | 'CW' | 'CWR' | 'AM' | 'FM' | 'WFM' | 'RTTY' | 'RTTYR' | 'PSK' | 'PSKR';
+// Mirrors RADIO_MODES in the backend's modes.ts; labels come from /api/modes
+export type RadioMode =
+  | 'LSB' | 'USB' | 'CW' | 'CWR' | 'AM' | 'AMN' | 'FM' | 'FMN' | 'WFM'
+  | 'RTTY' | 'RTTYR' | 'PSK' | 'PSKR'
+  | 'PKTLSB' | 'PKTUSB' | 'PKTFM' | 'PKTAM'
+  | 'ECSSLSB' | 'ECSSUSB' | 'SAM' | 'SAL' | 'SAH' | 'DSB' | 'FAX';
+
+export interface ModeInfo {
+  mode: RadioMode;
+  hamlib: string;
+  label: string;
+  description: string;
+  group: 'common' | 'digital' | 'other';
+  passbandHz: number;
+}
 
 export type VFO = 'A' | 'B';
 
+// copy: A=B, swap: A<->B
+export type VFOOp = 'copy' | 'swap';
+
+// Calibrated meter readings; a meter the rig lacks, or a TX meter while
+// receiving, is absent
+export interface RadioMeters {
+  signalDbm?: number;
+  // 0-9, with anything past S9 in overS9Db
+  sUnits?: number;
+  overS9Db?: number;
+  swr?: number;
+  // Fraction of the rig's ALC range, 0-1
+  alc?: number;
+  powerWatts?: number;
+  compDb?: number;
+  idAmps?: number;
+  vdVolts?: number;
+}
+
+export type AgcSpeed = 'off' | 'fast' | 'medium' | 'slow' | 'auto';
+
+// Receive chain settings; levels are 0-1 fractions of the control's travel,
+// preamp and attenuator are dB with 0 for off. Absent when the rig lacks it.
+export interface RadioReceiver {
+  agc?: AgcSpeed;
+  nb?: boolean;
+  nr?: boolean;
+  nrLevel?: number;
+  autoNotch?: boolean;
+  manualNotch?: boolean;
+  notchHz?: number;
+  preampDb?: number;
+  attDb?: number;
+  rfGain?: number;
+  afGain?: number;
+  squelch?: number;
+}
+
+// Clarifier offsets and IF shift in Hz; RIT moves only the receiver, XIT only
+// the transmitter, and each offset is kept while its switch is off
+export interface RadioOffsets {
+  ritOn?: boolean;
+  ritHz?: number;
+  xitOn?: boolean;
+  xitHz?: number;
+  ifShiftHz?: number;
+}
+
+export type RepeaterShift = 'simplex' | 'minus' | 'plus';
+
+// tone: CTCSS on transmit only; tsql: CTCSS both ways; dcs: DCS both ways
+export type ToneMode = 'off' | 'tone' | 'tsql' | 'dcs';
+
+// FM repeater operation; the transmitter sits offsetHz above or below the
+// receive frequency and reverse swaps the two
+export interface RadioRepeater {
+  shift?: RepeaterShift;
+  offsetHz?: number;
+  toneMode?: ToneMode;
+  ctcssHz?: number;
+  ctcssSqlHz?: number;
+  dcsCode?: number;
+  reverse?: boolean;
+}
+
 export interface RadioState {
   connected: boolean;
   frequency: number;
   mode: RadioMode;
+  // Receive passband width; 0 until the rig reports it
+  bandwidthHz: number;
   power: number;
   vfo: VFO;
   split: boolean;
+  // TX side while split is on; 0 / null when not split
+  txVfo: VFO | null;
+  txFrequency: number;
+  txMode: RadioMode | null;
   ptt: boolean;
   tuning: boolean;
-  swr: number;
-  signalStrength: number;
+  meters: RadioMeters;
+  receiver: RadioReceiver;
+  offsets: RadioOffsets;
+  repeater: RadioRepeater;
   model: string;
   serialNumber: string;
   firmwareVersion: string;
 }
 
+// What the connected rig supports; level/function names are Hamlib tokens
+export interface RadioCapabilities {
+  rigModel?: string;
+  manufacturer?: string;
+  modes: string[];
+  vfos: string[];
+  vfoOps: string[];
+  getLevels: string[];
+  setLevels: string[];
+  getFunctions: string[];
+  setFunctions: string[];
+  canSetSplit: boolean;
+  canGetSplit: boolean;
+  canSetPtt: boolean;
+  // Has a keyer that takes text
+  canSendMorse: boolean;
+  // Repeater shift and offset, and the tones and codes the rig can use
+  canSetRepeater: boolean;
+  ctcssTones: number[];
+  dcsCodes: number[];
+  // Preamp and attenuator steps in dB, besides off
+  preamps: number[];
+  attenuators: number[];
+  maxPowerWatts?: number;
+  // Largest offset either way, when the rig has the control
+  maxRitHz?: number;
+  maxXitHz?: number;
+  maxIfShiftHz?: number;
+}
+
+export interface RigctldSettings {
+  rigModel: number;
+  rigPort: string;
+  rigSpeed: number;
+}
+
+// A rigctld process the backend runs for one rig
+export interface RigctldStatus {
+  state: 'stopped' | 'starting' | 'running' | 'crashed';
+  pid?: number;
+  restarts: number;
+  lastExitCode?: number | null;
+  lastError?: string;
+  settings: RigctldSettings;
+}
+
+// One rig configured on the backend, as listed by /api/rigs
+export interface RigSummary {
+  id: string;
+  name: string;
+  adapter: string;
+  host: string;
+  port: number;
+  connected: boolean;
+  rigModel?: string;
+  // Only for rigs whose rigctld the backend runs
+  rigctld?: RigctldStatus;
+}
+
+// CW keyer, one per rig; memories are F1-F8 and may hold {MYCALL}, {CALL} and {RST}
+export interface CwSettings {
+  wpm: number;
+  myCall: string;
+  memories: string[];
+}
+
+export interface CwMessage {
+  id: number;
+  // Macros expanded, as it goes out
+  text: string;
+}
+
+export interface CwStatus {
+  settings: CwSettings;
+  sending: (CwMessage & { sentChars: number }) | null;
+  queue: CwMessage[];
+  lastError?: string;
+}
+
+// Free text or a memory (1-8), with what its macros fill in
+export interface CwSendRequest {
+  text?: string;
+  memory?: number;
+  call?: string;
+  rst?: string;
+}
+
+// One repeater in the operator's directory; frequency is the output, in Hz
+export interface RepeaterEntry {
+  id: string;
+  name: string;
+  frequency: number;
+  mode: 'FM' | 'FMN';
+  repeater: RadioRepeater;
+  comment?: string;
+}
+
+// Sent when the backend unkeys a rig itself; unkeyed is false if that failed
+export interface TxForcedUnkey {
+  reason: 'timeout' | 'client_lost' | 'shutdown' | 'error';
+  message: string;
+  txMs: number;
+  unkeyed: boolean;
+  at: number;
+}
+
+// Backend fields (frequencyHz, txFrequencyHz, ...) that changed since the
+// rig's previous delta; null for one it no longer reports
+export interface RadioStateDelta {
+  rigId: string;
+  seq: number;
+  changes: Record<string, unknown>;
+}
+
+export interface TuneResult {
+  usedTuner: boolean;
+  mode: RadioMode;
+  powerPercent: number;
+  durationMs: number;
+  // Last and highest SWR read while keyed
+  swr?: number;
+  peakSwr?: number;
+}
+
+export type HistoryField = 'frequencyHz' | 'mode' | 'power' | 'ptt' | 'swr' | 'sUnits';
+
+// One point in a rig's recorded state: the fields that changed at t
+export interface HistorySample {
+  t: number;
+  frequencyHz?: number;
+  mode?: RadioMode;
+  power?: number;
+  ptt?: boolean;
+  swr?: number;
+  sUnits?: number;
+}
+
+// As served by /api/radio/history; the first sample, at from, holds every
+// value as it stood then
+export interface StateHistory {
+  rigId: string;
+  from: number;
+  to: number;
+  fields: HistoryField[];
+  samples: HistorySample[];
+  // Meter samples were merged, keeping the peaks, to fit the backend's limit
+  thinned: boolean;
+}
+
+export type Emission = 'cw' | 'data' | 'phone' | 'image';
+
+export interface BandSegment {
+  band: string;
+  startHz: number;
+  endHz: number;
+  emissions: Emission[];
+  classes: string[];
+  maxPowerWatts?: number;
+  // Set on channels, where a signal is placed by its centre
+  centreHz?: number;
+}
+
+export interface BandPlan {
+  id: string;
+  name: string;
+  region: 1 | 2 | 3;
+  classes: { id: string; label: string }[];
+  segments: BandSegment[];
+}
+
+// What the backend holds transmitting to; the class is unset when any class goes
+export interface TxPrivileges {
+  plan: BandPlan;
+  licenseClass?: string;
+}
+
 export interface RadioInfo {
   model: string;
   serialNumber: string;